@@ -12,6 +12,8 @@ import { ErrorBoundary } from './src/components/ErrorBoundary';
 import { profileService, UserProfile } from './src/services/profileService';
 import { reviewService } from './src/services/reviewService';
 import { updateService } from './src/services/updateService';
+import { migrationService } from './src/services/migrationService';
+import { storage } from './src/services/storage';
 import { ReviewRequestModal } from './src/components/ReviewRequestModal';
 import { colors } from './src/styles/colors';
 
@@ -49,8 +51,8 @@ export default function App() {
 
     const subscription = AppState.addEventListener('change', handleAppStateChange);
 
-    // Start profile check immediately
-    checkProfile();
+    // Upgrade stored data before any screen reads it, then check profile
+    recoverStorage().then(runMigrations).finally(checkProfile);
     
     // Increment app open count and check for review
     reviewService.incrementAppOpenCount();
@@ -71,6 +73,27 @@ export default function App() {
     };
   }, []);
 
+  const recoverStorage = async () => {
+    try {
+      // Undo a storage transaction left half-written by a crash
+      const recovered = await storage.recoverTransaction();
+      if (recovered) {
+        console.log('Rolled back an interrupted storage transaction');
+      }
+    } catch (error) {
+      console.error('Storage recovery error:', error);
+    }
+  };
+
+  const runMigrations = async () => {
+    try {
+      const appliedCount = await migrationService.runPendingMigrations();
+      console.log('Data migrations applied:', appliedCount);
+    } catch (error) {
+      console.error('Data migration error:', error);
+    }
+  };
+
   const checkProfile = async () => {
     try {
       console.log('Checking profile...');
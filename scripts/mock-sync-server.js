@@ -0,0 +1,158 @@
+#!/usr/bin/env node
+
+/**
+ * Mock Sync Server
+ *
+ * Usage: node scripts/mock-sync-server.js [port]
+ * Example: node scripts/mock-sync-server.js 3000
+ *
+ * In-memory implementation of the REST contract documented in
+ * src/services/syncService.ts, for trying the sync engine without the
+ * Rails backend. Point the app at it under Profile > Cloud Sync with the
+ * server URL http://<your-machine-ip>:3000. The sync tests run against it too.
+ * Data is lost when the server stops.
+ */
+
+const http = require('http');
+
+const RESOURCES = {
+  companions: 'companion',
+  visits: 'visit',
+  actions: 'action',
+};
+
+const db = {
+  companions: new Map(),
+  visits: new Map(),
+  actions: new Map(),
+  photos: new Map(),
+};
+let nextId = 1;
+
+function sendJson(res, status, data) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(data === undefined ? '' : JSON.stringify(data));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// Only the text fields of a multipart body are needed; the file is discarded
+function parseMultipartFields(body, contentType) {
+  const boundary = (contentType.match(/boundary=(.+)$/) || [])[1];
+  const fields = {};
+  if (!boundary) return fields;
+
+  body.toString('latin1').split(`--${boundary}`).forEach(part => {
+    const name = (part.match(/name="([^"]+)"/) || [])[1];
+    if (!name || /filename="/.test(part)) return;
+    fields[name] = part.split('\r\n\r\n').slice(1).join('\r\n\r\n').replace(/\r\n$/, '');
+  });
+  return fields;
+}
+
+async function handleResource(req, res, resource, id, url) {
+  const table = db[resource];
+  const now = new Date().toISOString();
+
+  if (req.method === 'GET' && !id) {
+    const since = url.searchParams.get('updated_since');
+    const records = [...table.values()].filter(record =>
+      !since || new Date(record.server_updated_at) > new Date(since)
+    );
+    return sendJson(res, 200, { records: records.map(publicRecord), server_time: now });
+  }
+
+  if (req.method === 'POST' && !id) {
+    const payload = JSON.parse((await readBody(req)).toString())[RESOURCES[resource]];
+    const record = { ...payload, id: nextId++, deleted_at: null, server_updated_at: now };
+    table.set(String(record.id), record);
+    return sendJson(res, 201, publicRecord(record));
+  }
+
+  const existing = table.get(id);
+  if (!existing || existing.deleted_at) {
+    return sendJson(res, 404, { error: 'Not found' });
+  }
+
+  if (req.method === 'PATCH') {
+    const payload = JSON.parse((await readBody(req)).toString())[RESOURCES[resource]];
+    if (new Date(existing.updated_at) > new Date(payload.updated_at)) {
+      return sendJson(res, 409, { record: publicRecord(existing) });
+    }
+    const record = { ...existing, ...payload, id: existing.id, server_updated_at: now };
+    table.set(id, record);
+    return sendJson(res, 200, publicRecord(record));
+  }
+
+  if (req.method === 'DELETE') {
+    // Keep a tombstone so other devices pull the deletion
+    table.set(id, { ...existing, deleted_at: now, server_updated_at: now });
+    return sendJson(res, 204);
+  }
+
+  return sendJson(res, 405, { error: 'Method not allowed' });
+}
+
+async function handlePhotos(req, res, id, port) {
+  if (req.method === 'POST' && !id) {
+    const fields = parseMultipartFields(await readBody(req), req.headers['content-type'] || '');
+    const photoId = nextId++;
+    const photo = { id: photoId, url: `http://localhost:${port}/files/${photoId}.jpg`, ...fields };
+    db.photos.set(String(photoId), photo);
+    return sendJson(res, 201, { id: photo.id, url: photo.url });
+  }
+
+  if (req.method === 'DELETE' && id) {
+    if (!db.photos.delete(id)) return sendJson(res, 404, { error: 'Not found' });
+    return sendJson(res, 204);
+  }
+
+  return sendJson(res, 405, { error: 'Method not allowed' });
+}
+
+function publicRecord(record) {
+  const { server_updated_at, ...rest } = record;
+  return rest;
+}
+
+function startServer(port) {
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, `http://localhost:${port}`);
+    const [, api, version, resource, id] = url.pathname.split('/');
+    console.log(`${req.method} ${url.pathname}${url.search}`);
+
+    try {
+      if (api !== 'api' || version !== 'v1') {
+        return sendJson(res, 404, { error: 'Not found' });
+      }
+      if (RESOURCES[resource]) {
+        return await handleResource(req, res, resource, id, url);
+      }
+      if (resource === 'photos') {
+        return await handlePhotos(req, res, id, port);
+      }
+      return sendJson(res, 404, { error: 'Not found' });
+    } catch (error) {
+      console.error(error);
+      return sendJson(res, 400, { error: error.message });
+    }
+  });
+
+  server.listen(port, () => {
+    console.log(`✅ Mock sync server listening on http://localhost:${port}/api/v1`);
+  });
+  return server;
+}
+
+if (require.main === module) {
+  startServer(Number(process.argv[2]) || 3000);
+}
+
+module.exports = { startServer };
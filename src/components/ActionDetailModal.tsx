@@ -16,6 +16,8 @@ import { useLanguage } from '../contexts/LanguageContext';
 import { TimelineAction, ActionCategory } from '../types/models';
 import { colors } from '../styles/colors';
 import { spacing, borderRadius } from '../styles/theme';
+import { getActionSpend, formatYen } from '../utils/spending';
+import { PhotoThumbnail } from './PhotoThumbnail';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -89,6 +91,19 @@ export const ActionDetailModal: React.FC<ActionDetailModalProps> = ({
     }
   };
 
+  const getMealTypeName = (mealType: NonNullable<TimelineAction['mealType']>): string => {
+    switch (mealType) {
+      case 'BREAKFAST':
+        return language === 'ja' ? '朝食' : 'Breakfast';
+      case 'LUNCH':
+        return language === 'ja' ? '昼食' : 'Lunch';
+      case 'DINNER':
+        return language === 'ja' ? '夕食' : 'Dinner';
+      default:
+        return language === 'ja' ? '軽食' : 'Snack';
+    }
+  };
+
   const formatTime = (date: Date): string => {
     return new Date(date).toLocaleTimeString(language === 'ja' ? 'ja-JP' : 'en-US', { 
       hour: '2-digit', 
@@ -207,6 +222,83 @@ export const ActionDetailModal: React.FC<ActionDetailModalProps> = ({
                   )}
                 </>
               )}
+
+              {/* Restaurant specific details */}
+              {action.category === ActionCategory.RESTAURANT && action.mealType && (
+                <View style={styles.detailItem}>
+                  <Ionicons name="fast-food" size={16} color={theme.colors.text.secondary} />
+                  <Text style={[styles.detailLabel, { color: theme.colors.text.secondary }]}>
+                    {language === 'ja' ? '食事' : 'Meal'}
+                  </Text>
+                  <Text style={[styles.detailValue, { color: theme.colors.text.primary }]}>
+                    {getMealTypeName(action.mealType)}
+                  </Text>
+                </View>
+              )}
+
+              {/* Spending for shopping and restaurants */}
+              {(action.category === ActionCategory.SHOPPING || action.category === ActionCategory.RESTAURANT) && (
+                <>
+                  {getActionSpend(action) > 0 && (
+                    <View style={styles.detailItem}>
+                      <Ionicons name="cash" size={16} color={theme.colors.text.secondary} />
+                      <Text style={[styles.detailLabel, { color: theme.colors.text.secondary }]}>
+                        {language === 'ja' ? '金額' : 'Amount'}
+                      </Text>
+                      <Text style={[styles.detailValue, { color: theme.colors.text.primary }]}>
+                        {formatYen(getActionSpend(action))}
+                      </Text>
+                    </View>
+                  )}
+
+                  {!!action.purchasedItems?.length && (
+                    <View style={styles.detailItem}>
+                      <Ionicons name="bag" size={16} color={theme.colors.text.secondary} />
+                      <Text style={[styles.detailLabel, { color: theme.colors.text.secondary }]}>
+                        {action.category === ActionCategory.SHOPPING
+                          ? (language === 'ja' ? '購入品' : 'Items')
+                          : (language === 'ja' ? '注文' : 'Ordered')}
+                      </Text>
+                      <Text style={[styles.detailValue, { color: theme.colors.text.primary }]}>
+                        {action.purchasedItems
+                          .map(item => item.price !== undefined ? `${item.name}  ${formatYen(item.price)}` : item.name)
+                          .join('\n')}
+                      </Text>
+                    </View>
+                  )}
+                </>
+              )}
+
+              {/* Show and greeting details */}
+              {(action.category === ActionCategory.SHOW || action.category === ActionCategory.GREETING) && (
+                <>
+                  {action.category === ActionCategory.SHOW && action.showTime && (
+                    <View style={styles.detailItem}>
+                      <Ionicons name="calendar" size={16} color={theme.colors.text.secondary} />
+                      <Text style={[styles.detailLabel, { color: theme.colors.text.secondary }]}>
+                        {language === 'ja' ? '公演時刻' : 'Show Time'}
+                      </Text>
+                      <Text style={[styles.detailValue, { color: theme.colors.text.primary }]}>
+                        {action.showTime}
+                      </Text>
+                    </View>
+                  )}
+
+                  {!!action.performerNames?.length && (
+                    <View style={styles.detailItem}>
+                      <Ionicons name="people" size={16} color={theme.colors.text.secondary} />
+                      <Text style={[styles.detailLabel, { color: theme.colors.text.secondary }]}>
+                        {action.category === ActionCategory.GREETING
+                          ? (language === 'ja' ? 'キャラクター' : 'Characters')
+                          : (language === 'ja' ? '出演者' : 'Performers')}
+                      </Text>
+                      <Text style={[styles.detailValue, { color: theme.colors.text.primary }]}>
+                        {action.performerNames.join(', ')}
+                      </Text>
+                    </View>
+                  )}
+                </>
+              )}
             </View>
 
           </View>
@@ -245,7 +337,7 @@ export const ActionDetailModal: React.FC<ActionDetailModalProps> = ({
                     style={styles.photoItem}
                     onPress={() => setSelectedPhotoIndex(index)}
                   >
-                    <Image source={{ uri: photo.uri }} style={styles.photo} />
+                    <PhotoThumbnail photo={photo} style={styles.photo} />
                   </TouchableOpacity>
                 ))}
               </ScrollView>
@@ -15,9 +15,13 @@ import DateTimePicker from '@react-native-community/datetimepicker';
 import { useTheme } from '../contexts/ThemeContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { useActions } from '../hooks/useActions';
-import { TimelineAction, ActionCategory, ParkType, ParkArea } from '../types/models';
+import { TimelineAction, ActionCategory, ParkType, ParkArea, Photo } from '../types/models';
 import { colors } from '../styles/colors';
 import { spacing, borderRadius } from '../styles/theme';
+import { photoService } from '../services/photoService';
+import { resolveParkArea, getParkTypeForArea, ResolvedArea } from '../utils/areaResolver';
+import { validateAction, ActionFormData } from '../utils/validation';
+import { formatYen, parseYen } from '../utils/spending';
 import { AreaPicker } from './AreaPicker';
 import { LocationSelector } from './LocationSelector';
 import { PhotoManager } from './PhotoManager';
@@ -28,10 +32,20 @@ interface ActionModalProps {
   onClose: () => void;
   visitId: string;
   parkType: ParkType;
+  visitDate?: Date;
   action?: TimelineAction;
   onSave?: (action: TimelineAction) => void;
 }
 
+type MealType = NonNullable<TimelineAction['mealType']>;
+type CategoryFields = Pick<TimelineAction, 'purchaseAmount' | 'purchasedItems' | 'mealType' | 'performerNames' | 'showTime'>;
+
+// One receipt line while editing; price is kept as typed
+interface ItemRow {
+  name: string;
+  price: string;
+}
+
 interface FormData {
   category: ActionCategory;
   area: ParkArea | '';
@@ -42,6 +56,12 @@ interface FormData {
   photos: string[];
   waitTime?: number;
   duration?: number;
+  // Category-specific; name lists are edited as comma-separated text
+  purchaseAmount: string;
+  purchasedItems: ItemRow[];
+  mealType?: MealType;
+  performerNames: string;
+  showTime: string;
 }
 
 interface FormErrors {
@@ -84,11 +104,55 @@ const getCategoryOptions = (language: string) => [
   },
 ];
 
+const getMealTypeOptions = (language: string): { value: MealType; label: string }[] => [
+  { value: 'BREAKFAST', label: language === 'ja' ? '朝食' : 'Breakfast' },
+  { value: 'LUNCH', label: language === 'ja' ? '昼食' : 'Lunch' },
+  { value: 'DINNER', label: language === 'ja' ? '夕食' : 'Dinner' },
+  { value: 'SNACK', label: language === 'ja' ? '軽食' : 'Snack' },
+];
+
+// Japanese for the ActionValidator errors this form can produce
+const VALIDATION_ERRORS_JA: Record<string, string> = {
+  'Category is required': 'カテゴリを選択してください',
+  'Area is required': 'エリアを選択してください',
+  'Location name is required': '施設名を入力してください',
+  'Location name must be at least 2 characters': '施設名は2文字以上で入力してください',
+  'Location name must be less than 100 characters': '施設名は100文字未満で入力してください',
+  'Time is required': '時刻を入力してください',
+  'Invalid time format': '時刻が正しくありません',
+  'Duration must be a valid number': '所要時間は数値で入力してください',
+  'Duration cannot be negative': '所要時間にマイナスは入力できません',
+  'Wait time must be a valid number': '待ち時間は数値で入力してください',
+  'Wait time cannot be negative': '待ち時間にマイナスは入力できません',
+  'Invalid meal type': '食事の種類が正しくありません',
+  'Purchase amount must be a valid number': '金額は数値で入力してください',
+  'Purchase amount cannot be negative': '金額にマイナスは入力できません',
+  'Purchased items description is too long': '購入品が長すぎます',
+  'Performer names list is too long': '出演者・キャラクター名が長すぎます',
+  'Show time description is too long': '公演時間が長すぎます',
+  'Notes must be less than 1000 characters': 'メモは1000文字未満で入力してください',
+};
+
+// Split "A, B、C" into trimmed names
+const parseList = (text: string): string[] =>
+  text.split(/[,、，\n]/).map(item => item.trim()).filter(Boolean);
+
+// Time of day on the visit's date, so new actions land on the right day
+const getDefaultTime = (visitDate?: Date): Date => {
+  const time = new Date();
+  if (visitDate) {
+    const date = new Date(visitDate);
+    time.setFullYear(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+  return time;
+};
+
 export const ActionModal: React.FC<ActionModalProps> = ({
   visible,
   onClose,
   visitId,
   parkType,
+  visitDate,
   action,
   onSave,
 }) => {
@@ -97,22 +161,32 @@ export const ActionModal: React.FC<ActionModalProps> = ({
   const { createAction, updateAction } = useActions();
   
   const categoryOptions = getCategoryOptions(language);
+  const mealTypeOptions = getMealTypeOptions(language);
   
   const [formData, setFormData] = useState<FormData>({
     category: ActionCategory.ATTRACTION,
     area: '',
     locationName: '',
     customTitle: '',
-    time: new Date(),
+    time: getDefaultTime(visitDate),
     notes: '',
     photos: [],
     waitTime: undefined,
     duration: undefined,
+    purchaseAmount: '',
+    purchasedItems: [],
+    mealType: undefined,
+    performerNames: '',
+    showTime: '',
   });
   
   const [errors, setErrors] = useState<FormErrors>({});
   const [isLoading, setIsLoading] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
+  // Park shown in the area picker; a geotagged photo may switch it
+  const [selectedParkType, setSelectedParkType] = useState<ParkType>(parkType);
+  // Area resolved from the first geotagged photo of a new action
+  const [photoArea, setPhotoArea] = useState<ResolvedArea | null>(null);
 
   useEffect(() => {
     if (action) {
@@ -126,6 +200,14 @@ export const ActionModal: React.FC<ActionModalProps> = ({
         photos: action.photos.map(p => p.uri),
         waitTime: action.waitTime,
         duration: action.duration,
+        purchaseAmount: action.purchaseAmount?.toString() || '',
+        purchasedItems: (action.purchasedItems || []).map(item => ({
+          name: item.name,
+          price: item.price?.toString() || '',
+        })),
+        mealType: action.mealType,
+        performerNames: action.performerNames?.join(', ') || '',
+        showTime: action.showTime || '',
       });
     } else {
       setFormData({
@@ -133,13 +215,20 @@ export const ActionModal: React.FC<ActionModalProps> = ({
         area: '',
         locationName: '',
         customTitle: '',
-        time: new Date(),
+        time: getDefaultTime(visitDate),
         notes: '',
         photos: [],
         waitTime: undefined,
         duration: undefined,
+        purchaseAmount: '',
+        purchasedItems: [],
+        mealType: undefined,
+        performerNames: '',
+        showTime: '',
       });
     }
+    setSelectedParkType(action ? getParkTypeForArea(action.area) : parkType);
+    setPhotoArea(null);
     setErrors({});
   }, [action, visible]);
 
@@ -177,11 +266,101 @@ export const ActionModal: React.FC<ActionModalProps> = ({
     return Object.keys(newErrors).length === 0;
   };
 
+  // Keep existing photos as they are; newly attached ones get a thumbnail
+  const buildPhotos = (uris: string[]): Promise<Photo[]> => Promise.all(
+    uris.map(uri => {
+      const existing = action?.photos.find(photo => photo.uri === uri);
+      return existing || photoService.createPhoto(uri);
+    })
+  );
+
+  const getNamedItems = (): ItemRow[] => formData.purchasedItems.filter(item => item.name.trim());
+
+  const getItemsTotal = (): number =>
+    formData.purchasedItems.reduce((sum, item) => sum + (parseYen(item.price) || 0), 0);
+
+  const updateItem = (index: number, changes: Partial<ItemRow>) => {
+    setFormData(prev => ({
+      ...prev,
+      purchasedItems: prev.purchasedItems.map((item, i) => i === index ? { ...item, ...changes } : item),
+    }));
+  };
+
+  // Form in the shape ActionValidator expects
+  const getValidationData = (): Partial<ActionFormData> => ({
+    category: formData.category,
+    area: formData.area || undefined,
+    locationName: formData.locationName,
+    time: formData.time,
+    duration: formData.duration?.toString() || '',
+    notes: formData.notes,
+    waitTime: formData.waitTime?.toString() || '',
+    mealType: formData.mealType,
+    // Item prices stand in for the total when it is left empty
+    purchaseAmount: formData.purchaseAmount.trim() || (getItemsTotal() > 0 ? getItemsTotal().toString() : ''),
+    purchasedItems: getNamedItems().map(item => item.name).join(', '),
+    performerNames: formData.performerNames,
+    showTime: formData.showTime,
+  });
+
+  // Only the fields that belong to the category are stored; the rest are
+  // cleared so switching category does not leave stale values behind
+  const getCategoryFields = (): CategoryFields => {
+    const fields: CategoryFields = {
+      purchaseAmount: undefined,
+      purchasedItems: undefined,
+      mealType: undefined,
+      performerNames: undefined,
+      showTime: undefined,
+    };
+    const purchaseAmount = parseYen(formData.purchaseAmount);
+    const purchasedItems = getNamedItems().map(item => ({
+      name: item.name.trim(),
+      price: parseYen(item.price),
+    }));
+    const performerNames = parseList(formData.performerNames);
+
+    switch (formData.category) {
+      case ActionCategory.SHOPPING:
+      case ActionCategory.RESTAURANT:
+        fields.purchaseAmount = purchaseAmount;
+        fields.purchasedItems = purchasedItems.length > 0 ? purchasedItems : undefined;
+        if (formData.category === ActionCategory.RESTAURANT) {
+          fields.mealType = formData.mealType;
+        }
+        break;
+      case ActionCategory.SHOW:
+        fields.performerNames = performerNames.length > 0 ? performerNames : undefined;
+        fields.showTime = formData.showTime.trim() || undefined;
+        break;
+      case ActionCategory.GREETING:
+        fields.performerNames = performerNames.length > 0 ? performerNames : undefined;
+        break;
+    }
+    return fields;
+  };
+
   const handleSave = async () => {
     if (!validateForm()) {
       return;
     }
 
+    // Only errors block saving; the validator's warnings flag routine entries
+    const validation = validateAction(getValidationData(), visitDate || formData.time);
+    if (!validation.isValid) {
+      Alert.alert(
+        language === 'ja' ? '入力内容を確認してください' : 'Please check your input',
+        validation.errors
+          .map(error => (language === 'ja' && VALIDATION_ERRORS_JA[error]) || error)
+          .join('\n')
+      );
+      return;
+    }
+
+    await performSave();
+  };
+
+  const performSave = async () => {
     setIsLoading(true);
     
     try {
@@ -193,12 +372,10 @@ export const ActionModal: React.FC<ActionModalProps> = ({
         customTitle: formData.customTitle.trim() || undefined,
         time: formData.time,
         notes: formData.notes.trim() || undefined,
-        photos: formData.photos.map((uri, index) => ({
-          id: `photo-${Date.now()}-${index}`,
-          uri,
-        })),
+        photos: await buildPhotos(formData.photos),
         waitTime: formData.waitTime,
         duration: formData.duration,
+        ...getCategoryFields(),
       };
 
       let savedAction: TimelineAction;
@@ -221,6 +398,30 @@ export const ActionModal: React.FC<ActionModalProps> = ({
     }
   };
 
+  // Pre-fill park and area from the GPS of newly attached photos
+  const handlePhotosChange = async (photos: string[]) => {
+    const added = photos.filter(uri => !formData.photos.includes(uri));
+    setFormData(prev => ({ ...prev, photos }));
+
+    if (action || photoArea || formData.area) return;
+
+    for (const uri of added) {
+      const location = await photoService.extractLocation(uri);
+      const resolved = location && resolveParkArea(location);
+      if (!resolved) continue;
+
+      setPhotoArea(resolved);
+      setSelectedParkType(resolved.parkType);
+      setFormData(prev => prev.area ? prev : {
+        ...prev,
+        area: resolved.area,
+        locationName: '',
+        customTitle: '',
+      });
+      return;
+    }
+  };
+
   const handleTimeChange = (event: any, selectedTime?: Date) => {
     setShowTimePicker(Platform.OS === 'ios');
     if (selectedTime) {
@@ -298,7 +499,7 @@ export const ActionModal: React.FC<ActionModalProps> = ({
                     onPress={() => setFormData(prev => ({ 
                       ...prev, 
                       category: option.value,
-                      area: '', // Reset area when category changes
+                      area: photoArea?.area || '', // Reset area when category changes
                       locationName: '', // Reset location when category changes
                       customTitle: '' // Reset custom title when category changes
                     }))}
@@ -340,7 +541,7 @@ export const ActionModal: React.FC<ActionModalProps> = ({
             </Text>
             
             <AreaPicker
-              parkType={parkType}
+              parkType={selectedParkType}
               selectedArea={formData.area}
               onAreaSelect={(area) => setFormData(prev => ({ 
                 ...prev, 
@@ -350,6 +551,19 @@ export const ActionModal: React.FC<ActionModalProps> = ({
               }))}
             />
             
+            {photoArea && formData.area === photoArea.area && (
+              <View style={styles.areaHint}>
+                <Ionicons name="location" size={14} color={theme.colors.text.secondary} />
+                <Text style={[styles.areaHintText, { color: theme.colors.text.secondary }]}>
+                  {photoArea.exact
+                    ? (language === 'ja' ? '写真の位置情報から設定しました' : 'Set from photo location')
+                    : (language === 'ja'
+                      ? '写真の位置情報から推定しました（エリアの境界付近のため確認してください）'
+                      : 'Guessed from photo location near an area edge; please check')}
+                </Text>
+              </View>
+            )}
+
             {errors.area && (
               <ValidationFeedback 
                 validation={{
@@ -370,7 +584,7 @@ export const ActionModal: React.FC<ActionModalProps> = ({
               
               <LocationSelector
                 category={formData.category}
-                parkType={parkType}
+                parkType={selectedParkType}
                 area={formData.area as ParkArea}
                 selectedLocation={formData.locationName}
                 onLocationSelect={(locationName) => 
@@ -547,6 +761,215 @@ export const ActionModal: React.FC<ActionModalProps> = ({
             </View>
           )}
 
+          {/* Meal type for Restaurants */}
+          {formData.category === ActionCategory.RESTAURANT && (
+            <View style={[styles.section, { backgroundColor: theme.colors.background.card }]}>
+              <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>
+                {language === 'ja' ? '食事の種類' : 'Meal Type'}
+              </Text>
+
+              <View style={styles.chipRow}>
+                {mealTypeOptions.map(option => {
+                  const isSelected = formData.mealType === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.chip,
+                        {
+                          backgroundColor: isSelected
+                            ? colors.blue[500] + '20'
+                            : theme.colors.background.secondary,
+                          borderColor: isSelected
+                            ? colors.blue[500]
+                            : theme.colors.utility.borderLight,
+                        }
+                      ]}
+                      onPress={() => setFormData(prev => ({
+                        ...prev,
+                        mealType: isSelected ? undefined : option.value,
+                      }))}
+                    >
+                      <Text style={[
+                        styles.chipText,
+                        {
+                          color: isSelected ? colors.blue[500] : theme.colors.text.primary,
+                          fontWeight: isSelected ? '600' : '400'
+                        }
+                      ]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+
+          {/* Spending for Shopping and Restaurants */}
+          {[ActionCategory.SHOPPING, ActionCategory.RESTAURANT].includes(formData.category) && (
+            <View style={[styles.section, { backgroundColor: theme.colors.background.card }]}>
+              <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>
+                {formData.category === ActionCategory.SHOPPING
+                  ? (language === 'ja' ? '購入情報' : 'Purchase Details')
+                  : (language === 'ja' ? 'お会計' : 'Bill')
+                }
+              </Text>
+
+              <Text style={[styles.inputLabel, { color: theme.colors.text.secondary }]}>
+                {language === 'ja' ? '合計金額（円）' : 'Total (¥)'}
+              </Text>
+              <TextInput
+                style={[
+                  styles.textInput,
+                  {
+                    backgroundColor: theme.colors.background.secondary,
+                    borderColor: theme.colors.utility.borderLight,
+                    color: theme.colors.text.primary,
+                  }
+                ]}
+                value={formData.purchaseAmount}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, purchaseAmount: text }))}
+                keyboardType="numeric"
+                placeholder={getItemsTotal() > 0 ? getItemsTotal().toString() : '0'}
+                placeholderTextColor={theme.colors.text.secondary}
+              />
+              {!formData.purchaseAmount.trim() && getItemsTotal() > 0 && (
+                <Text style={[styles.inputHint, { color: theme.colors.text.secondary }]}>
+                  {language === 'ja'
+                    ? `品目の合計 ${formatYen(getItemsTotal())} を使います`
+                    : `Using the item total of ${formatYen(getItemsTotal())}`
+                  }
+                </Text>
+              )}
+
+              <Text style={[styles.inputLabel, styles.inputLabelSpaced, { color: theme.colors.text.secondary }]}>
+                {formData.category === ActionCategory.SHOPPING
+                  ? (language === 'ja' ? '購入したもの' : 'Items')
+                  : (language === 'ja' ? '注文したもの' : 'Ordered')
+                }
+              </Text>
+              {formData.purchasedItems.map((item, index) => (
+                <View key={index} style={styles.itemRow}>
+                  <TextInput
+                    style={[
+                      styles.textInput,
+                      styles.itemNameInput,
+                      {
+                        backgroundColor: theme.colors.background.secondary,
+                        borderColor: theme.colors.utility.borderLight,
+                        color: theme.colors.text.primary,
+                      }
+                    ]}
+                    value={item.name}
+                    onChangeText={(text) => updateItem(index, { name: text })}
+                    placeholder={formData.category === ActionCategory.SHOPPING
+                      ? (language === 'ja' ? 'カチューシャ' : 'Ears headband')
+                      : (language === 'ja' ? 'セットメニュー' : 'Set menu')
+                    }
+                    placeholderTextColor={theme.colors.text.secondary}
+                  />
+                  <TextInput
+                    style={[
+                      styles.textInput,
+                      styles.itemPriceInput,
+                      {
+                        backgroundColor: theme.colors.background.secondary,
+                        borderColor: theme.colors.utility.borderLight,
+                        color: theme.colors.text.primary,
+                      }
+                    ]}
+                    value={item.price}
+                    onChangeText={(text) => updateItem(index, { price: text })}
+                    keyboardType="numeric"
+                    placeholder="¥"
+                    placeholderTextColor={theme.colors.text.secondary}
+                  />
+                  <TouchableOpacity
+                    style={styles.itemRemoveButton}
+                    onPress={() => setFormData(prev => ({
+                      ...prev,
+                      purchasedItems: prev.purchasedItems.filter((_, i) => i !== index),
+                    }))}
+                  >
+                    <Ionicons name="close-circle" size={22} color={theme.colors.text.secondary} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <TouchableOpacity
+                style={styles.addItemButton}
+                onPress={() => setFormData(prev => ({
+                  ...prev,
+                  purchasedItems: [...prev.purchasedItems, { name: '', price: '' }],
+                }))}
+              >
+                <Ionicons name="add-circle-outline" size={20} color={colors.purple[500]} />
+                <Text style={[styles.addItemText, { color: colors.purple[500] }]}>
+                  {language === 'ja' ? '品目を追加' : 'Add item'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Show time and performers for Shows, characters for Greetings */}
+          {[ActionCategory.SHOW, ActionCategory.GREETING].includes(formData.category) && (
+            <View style={[styles.section, { backgroundColor: theme.colors.background.card }]}>
+              <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>
+                {formData.category === ActionCategory.SHOW
+                  ? (language === 'ja' ? 'ショー情報' : 'Show Details')
+                  : (language === 'ja' ? '会えたキャラクター' : 'Characters Met')
+                }
+              </Text>
+
+              {formData.category === ActionCategory.SHOW && (
+                <>
+                  <Text style={[styles.inputLabel, { color: theme.colors.text.secondary }]}>
+                    {language === 'ja' ? '公演時刻' : 'Show Time'}
+                  </Text>
+                  <TextInput
+                    style={[
+                      styles.textInput,
+                      {
+                        backgroundColor: theme.colors.background.secondary,
+                        borderColor: theme.colors.utility.borderLight,
+                        color: theme.colors.text.primary,
+                      }
+                    ]}
+                    value={formData.showTime}
+                    onChangeText={(text) => setFormData(prev => ({ ...prev, showTime: text }))}
+                    placeholder="14:30"
+                    placeholderTextColor={theme.colors.text.secondary}
+                  />
+                </>
+              )}
+
+              <Text style={[
+                styles.inputLabel,
+                formData.category === ActionCategory.SHOW && styles.inputLabelSpaced,
+                { color: theme.colors.text.secondary }
+              ]}>
+                {formData.category === ActionCategory.SHOW
+                  ? (language === 'ja' ? '出演者（カンマ区切り）' : 'Performers (comma separated)')
+                  : (language === 'ja' ? 'キャラクター（カンマ区切り）' : 'Characters (comma separated)')
+                }
+              </Text>
+              <TextInput
+                style={[
+                  styles.textInput,
+                  {
+                    backgroundColor: theme.colors.background.secondary,
+                    borderColor: theme.colors.utility.borderLight,
+                    color: theme.colors.text.primary,
+                  }
+                ]}
+                value={formData.performerNames}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, performerNames: text }))}
+                placeholder={language === 'ja' ? 'ミッキー, ミニー' : 'Mickey, Minnie'}
+                placeholderTextColor={theme.colors.text.secondary}
+                multiline
+              />
+            </View>
+          )}
 
           {/* Notes */}
           <View style={[styles.section, { backgroundColor: theme.colors.background.card }]}>
@@ -581,7 +1004,7 @@ export const ActionModal: React.FC<ActionModalProps> = ({
             
             <PhotoManager
               photos={formData.photos}
-              onPhotosChange={(photos) => setFormData(prev => ({ ...prev, photos }))}
+              onPhotosChange={handlePhotosChange}
               maxPhotos={10}
             />
           </View>
@@ -632,6 +1055,15 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: spacing[3],
   },
+  areaHint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[1],
+    marginTop: spacing[2],
+  },
+  areaHintText: {
+    fontSize: 12,
+  },
   categoryGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -674,6 +1106,23 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginBottom: spacing[2],
   },
+  inputLabelSpaced: {
+    marginTop: spacing[4],
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing[2],
+  },
+  chip: {
+    paddingHorizontal: spacing[4],
+    paddingVertical: spacing[2],
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+  },
   textInput: {
     borderWidth: 1,
     borderRadius: borderRadius.md,
@@ -681,6 +1130,36 @@ const styles = StyleSheet.create({
     paddingVertical: spacing[3],
     fontSize: 16,
   },
+  inputHint: {
+    fontSize: 12,
+    marginTop: spacing[1],
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+    marginBottom: spacing[2],
+  },
+  itemNameInput: {
+    flex: 1,
+  },
+  itemPriceInput: {
+    width: 96,
+  },
+  itemRemoveButton: {
+    padding: spacing[1],
+  },
+  addItemButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingVertical: spacing[2],
+  },
+  addItemText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: spacing[1],
+  },
   ratingContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -0,0 +1,283 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  TextInput,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { PassType } from '../types/models';
+import { colors } from '../styles/colors';
+import { spacing, borderRadius } from '../styles/theme';
+import { budgetService, BudgetSettings, DEFAULT_TICKET_PRICES } from '../services/budgetService';
+import { parseYen } from '../utils/spending';
+
+interface BudgetSettingsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSave?: (settings: BudgetSettings) => void;
+}
+
+const PASS_TYPES = [PassType.ONE_DAY, PassType.EARLY_EVENING, PassType.WEEKNIGHT];
+
+export const BudgetSettingsModal: React.FC<BudgetSettingsModalProps> = ({
+  visible,
+  onClose,
+  onSave,
+}) => {
+  const { theme } = useTheme();
+  const { language } = useLanguage();
+
+  const [yearlyBudget, setYearlyBudget] = useState('');
+  const [ticketPrices, setTicketPrices] = useState<Record<PassType, string>>({
+    [PassType.ONE_DAY]: '',
+    [PassType.EARLY_EVENING]: '',
+    [PassType.WEEKNIGHT]: '',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    budgetService.getSettings().then(settings => {
+      setYearlyBudget(settings.yearlyBudget !== undefined ? String(settings.yearlyBudget) : '');
+      setTicketPrices({
+        [PassType.ONE_DAY]: String(settings.ticketPrices[PassType.ONE_DAY]),
+        [PassType.EARLY_EVENING]: String(settings.ticketPrices[PassType.EARLY_EVENING]),
+        [PassType.WEEKNIGHT]: String(settings.ticketPrices[PassType.WEEKNIGHT]),
+      });
+    });
+  }, [visible]);
+
+  const getPassTypeName = (passType: PassType): string => {
+    switch (passType) {
+      case PassType.ONE_DAY:
+        return language === 'ja' ? '1デーパスポート' : '1-Day Passport';
+      case PassType.EARLY_EVENING:
+        return language === 'ja' ? 'アーリーイブニングパスポート' : 'Early Evening Passport';
+      case PassType.WEEKNIGHT:
+        return language === 'ja' ? 'ウィークナイトパスポート' : 'Weeknight Passport';
+    }
+  };
+
+  const handleSave = async () => {
+    const budget = parseYen(yearlyBudget);
+    if (yearlyBudget.trim() && (budget === undefined || budget <= 0)) {
+      Alert.alert(
+        language === 'ja' ? '入力内容を確認してください' : 'Please check your input',
+        language === 'ja' ? '年間予算は正の金額で入力してください' : 'The yearly budget must be a positive amount'
+      );
+      return;
+    }
+
+    const settings: BudgetSettings = {
+      yearlyBudget: budget,
+      ticketPrices: PASS_TYPES.reduce((prices, passType) => {
+        const price = parseYen(ticketPrices[passType]);
+        prices[passType] = price !== undefined && price >= 0 ? price : DEFAULT_TICKET_PRICES[passType];
+        return prices;
+      }, { ...DEFAULT_TICKET_PRICES }),
+    };
+
+    setIsSaving(true);
+    try {
+      await budgetService.saveSettings(settings);
+      onSave?.(settings);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save budget settings:', error);
+      Alert.alert(
+        language === 'ja' ? 'エラー' : 'Error',
+        language === 'ja' ? '予算の保存に失敗しました' : 'Failed to save budget'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: theme.colors.background.primary }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.utility.borderLight }]}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="close" size={24} color={theme.colors.text.primary} />
+          </TouchableOpacity>
+
+          <Text style={[styles.headerTitle, { color: theme.colors.text.primary }]}>
+            {language === 'ja' ? '予算とチケット代' : 'Budget & Tickets'}
+          </Text>
+
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={isSaving}
+            style={[styles.headerButton, { opacity: isSaving ? 0.5 : 1 }]}
+          >
+            <Text style={[styles.saveText, { color: colors.blue[500] }]}>
+              {language === 'ja' ? '保存' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Yearly budget */}
+          <View style={[styles.section, { backgroundColor: theme.colors.background.card }]}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? '年間予算' : 'Yearly Budget'}
+            </Text>
+            <View style={[
+              styles.amountInput,
+              {
+                backgroundColor: theme.colors.background.secondary,
+                borderColor: theme.colors.utility.borderLight,
+              }
+            ]}>
+              <Text style={[styles.currency, { color: theme.colors.text.secondary }]}>¥</Text>
+              <TextInput
+                style={[styles.input, { color: theme.colors.text.primary }]}
+                value={yearlyBudget}
+                onChangeText={setYearlyBudget}
+                keyboardType="numeric"
+                placeholder={language === 'ja' ? '未設定' : 'Not set'}
+                placeholderTextColor={theme.colors.text.secondary}
+              />
+            </View>
+            <Text style={[styles.hint, { color: theme.colors.text.secondary }]}>
+              {language === 'ja'
+                ? 'チケット代とパーク内の支出の合計がホームに表示されます。空欄で予算なし。'
+                : 'Tickets and in-park spending are tracked against this on Home. Leave empty for no budget.'
+              }
+            </Text>
+          </View>
+
+          {/* Standard ticket prices */}
+          <View style={[styles.section, { backgroundColor: theme.colors.background.card }]}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? '標準チケット価格' : 'Standard Ticket Prices'}
+            </Text>
+            {PASS_TYPES.map(passType => (
+              <View key={passType} style={styles.priceRow}>
+                <Text style={[styles.priceLabel, { color: theme.colors.text.primary }]} numberOfLines={1}>
+                  {getPassTypeName(passType)}
+                </Text>
+                <View style={[
+                  styles.amountInput,
+                  styles.priceInput,
+                  {
+                    backgroundColor: theme.colors.background.secondary,
+                    borderColor: theme.colors.utility.borderLight,
+                  }
+                ]}>
+                  <Text style={[styles.currency, { color: theme.colors.text.secondary }]}>¥</Text>
+                  <TextInput
+                    style={[styles.input, { color: theme.colors.text.primary }]}
+                    value={ticketPrices[passType]}
+                    onChangeText={(text) => setTicketPrices(prev => ({ ...prev, [passType]: text }))}
+                    keyboardType="numeric"
+                    placeholder={String(DEFAULT_TICKET_PRICES[passType])}
+                    placeholderTextColor={theme.colors.text.secondary}
+                  />
+                </View>
+              </View>
+            ))}
+            <Text style={[styles.hint, { color: theme.colors.text.secondary }]}>
+              {language === 'ja'
+                ? '新しい来園記録のチケット代として入力されます'
+                : 'Filled in as the ticket price of new visits'
+              }
+            </Text>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing[4],
+    paddingVertical: spacing[3],
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    padding: spacing[2],
+    minWidth: 60,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    flex: 1,
+    textAlign: 'center',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    margin: spacing[4],
+    marginBottom: spacing[2],
+    borderRadius: borderRadius.lg,
+    padding: spacing[4],
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: spacing[3],
+  },
+  amountInput: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing[3],
+  },
+  currency: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginRight: spacing[2],
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: spacing[3],
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 18,
+    marginTop: spacing[2],
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing[2],
+  },
+  priceLabel: {
+    flex: 1,
+    fontSize: 14,
+    marginRight: spacing[3],
+  },
+  priceInput: {
+    width: 140,
+  },
+});
@@ -27,6 +27,7 @@ interface CompanionManagerProps {
   onCompanionToggle: (companionId: string) => void;
   onCompanionCreate: (name: string) => Promise<void>;
   onCompanionDelete?: (companionId: string) => Promise<void>;
+  onCompanionDetails?: (companion: Companion) => void;
   isCreating?: boolean;
   onInputFocus?: () => void;
   onInputBlur?: () => void;
@@ -40,6 +41,7 @@ export const CompanionManager: React.FC<CompanionManagerProps> = ({
   onCompanionToggle,
   onCompanionCreate,
   onCompanionDelete,
+  onCompanionDetails,
   isCreating = false,
   onInputFocus,
   onInputBlur,
@@ -283,6 +285,21 @@ export const CompanionManager: React.FC<CompanionManagerProps> = ({
                 )}
               </View>
 
+              {/* Stats Button */}
+              {onCompanionDetails && (
+                <TouchableOpacity
+                  style={styles.statsButton}
+                  onPress={() => onCompanionDetails(companion)}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Ionicons
+                    name="stats-chart-outline"
+                    size={18}
+                    color={theme.colors.text.secondary}
+                  />
+                </TouchableOpacity>
+              )}
+
               {/* Delete Button */}
               {onCompanionDelete && (
                 <TouchableOpacity
@@ -671,6 +688,9 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     borderWidth: 2,
   },
+  statsButton: {
+    padding: spacing[2],
+  },
   deleteButton: {
     padding: spacing[2],
   },
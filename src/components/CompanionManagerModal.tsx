@@ -24,6 +24,7 @@ interface CompanionManagerModalProps {
   onCompanionCreate: (name: string) => Promise<void>;
   onCompanionDelete: (companionId: string) => Promise<void>;
   onCompanionUpdate: (companionId: string, name: string) => Promise<void>;
+  onCompanionDetails?: (companion: Companion) => void;
 }
 
 export const CompanionManagerModal: React.FC<CompanionManagerModalProps> = ({
@@ -33,6 +34,7 @@ export const CompanionManagerModal: React.FC<CompanionManagerModalProps> = ({
   onCompanionCreate,
   onCompanionDelete,
   onCompanionUpdate,
+  onCompanionDetails,
 }) => {
   const { theme } = useTheme();
   const { language } = useLanguage();
@@ -287,6 +289,14 @@ export const CompanionManagerModal: React.FC<CompanionManagerModalProps> = ({
                               </Text>
                             </View>
                             <View style={styles.actionButtons}>
+                              {onCompanionDetails && (
+                                <TouchableOpacity
+                                  onPress={() => onCompanionDetails(companion)}
+                                  style={styles.actionButton}
+                                >
+                                  <Ionicons name="stats-chart-outline" size={18} color={colors.purple[500]} />
+                                </TouchableOpacity>
+                              )}
                               <TouchableOpacity
                                 onPress={() => handleEditStart(companion)}
                                 style={styles.actionButton}
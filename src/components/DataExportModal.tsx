@@ -8,6 +8,7 @@ import {
   Animated,
   Dimensions,
   ActivityIndicator,
+  Switch,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
@@ -40,6 +41,7 @@ export const DataExportModal: React.FC<DataExportModalProps> = ({
     totalPhotos: 0,
   });
   const [errorMessage, setErrorMessage] = useState('');
+  const [includePhotos, setIncludePhotos] = useState(false);
 
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.5)).current;
@@ -51,6 +53,7 @@ export const DataExportModal: React.FC<DataExportModalProps> = ({
       // Reset state
       setStep('preview');
       setErrorMessage('');
+      setIncludePhotos(false);
       
       // Animate in
       fadeAnim.setValue(0);
@@ -91,7 +94,7 @@ export const DataExportModal: React.FC<DataExportModalProps> = ({
     }).start();
 
     try {
-      const result = await dataMigrationService.exportData();
+      const result = await dataMigrationService.exportData({ includePhotos });
       
       if (result.success) {
         setStep('success');
@@ -142,26 +145,44 @@ export const DataExportModal: React.FC<DataExportModalProps> = ({
               {language === 'ja' ? 'データをエクスポート' : 'Export Data'}
             </Text>
 
-            <View style={[styles.warningBox, { 
-              backgroundColor: isDark ? 'rgba(255, 193, 7, 0.1)' : 'rgba(255, 193, 7, 0.1)',
-              borderColor: '#ffc107',
-            }]}>
-              <Ionicons name="warning" size={20} color="#ffc107" />
-              <Text style={[styles.warningText, { color: theme.colors.text.primary }]}>
-                {language === 'ja' 
-                  ? '重要: 写真データは引き継がれません'
-                  : 'Important: Photo data will not be transferred'
-                }
-              </Text>
-            </View>
+            {!includePhotos && (
+              <View style={[styles.warningBox, { 
+                backgroundColor: isDark ? 'rgba(255, 193, 7, 0.1)' : 'rgba(255, 193, 7, 0.1)',
+                borderColor: '#ffc107',
+              }]}>
+                <Ionicons name="warning" size={20} color="#ffc107" />
+                <Text style={[styles.warningText, { color: theme.colors.text.primary }]}>
+                  {language === 'ja' 
+                    ? '重要: 写真データは引き継がれません'
+                    : 'Important: Photo data will not be transferred'
+                  }
+                </Text>
+              </View>
+            )}
 
             <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
-              {language === 'ja' 
-                ? '以下のデータがJSONファイルとしてエクスポートされます。写真データは含まれませんのでご注意ください。'
-                : 'The following data will be exported as a JSON file. Please note that photo data is not included.'
+              {includePhotos
+                ? (language === 'ja'
+                  ? '以下のデータと写真ファイルがバックアップファイルにまとめてエクスポートされます。写真の枚数によってはファイルサイズが大きくなります。'
+                  : 'The following data and all photo files will be exported as a single backup file. The file may be large depending on the number of photos.')
+                : (language === 'ja' 
+                  ? '以下のデータがJSONファイルとしてエクスポートされます。写真データは含まれませんのでご注意ください。'
+                  : 'The following data will be exported as a JSON file. Please note that photo data is not included.')
               }
             </Text>
 
+            <View style={styles.optionRow}>
+              <Ionicons name="images-outline" size={20} color={theme.colors.text.secondary} />
+              <Text style={[styles.optionLabel, { color: theme.colors.text.primary }]}>
+                {language === 'ja' ? '写真を含める（フルバックアップ）' : 'Include photos (full backup)'}
+              </Text>
+              <Switch
+                value={includePhotos}
+                onValueChange={setIncludePhotos}
+                trackColor={{ false: theme.colors.text.secondary, true: '#4ecdc4' }}
+              />
+            </View>
+
             <View style={styles.dataPreview}>
               <View style={styles.dataItem}>
                 <Ionicons name="calendar" size={16} color={colors.purple[500]} />
@@ -193,10 +214,13 @@ export const DataExportModal: React.FC<DataExportModalProps> = ({
                 </Text>
               </View>
 
-              <View style={[styles.dataItem, styles.photoItem]}>
+              <View style={[styles.dataItem, !includePhotos && styles.photoItem]}>
                 <Ionicons name="camera" size={16} color={colors.red[500]} />
                 <Text style={[styles.dataLabel, { color: theme.colors.text.primary }]}>
-                  {language === 'ja' ? '写真（除外）' : 'Photos (Excluded)'}
+                  {includePhotos
+                    ? (language === 'ja' ? '写真' : 'Photos')
+                    : (language === 'ja' ? '写真（除外）' : 'Photos (Excluded)')
+                  }
                 </Text>
                 <Text style={[styles.dataValue, { color: colors.red[600] }]}>
                   {exportData.totalPhotos}
@@ -243,9 +267,9 @@ export const DataExportModal: React.FC<DataExportModalProps> = ({
             </Text>
 
             <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
-              {language === 'ja' 
-                ? 'データをJSONファイルに変換しています'
-                : 'Converting data to JSON file'
+              {includePhotos
+                ? (language === 'ja' ? 'データと写真をバックアップファイルにまとめています' : 'Bundling data and photos into a backup file')
+                : (language === 'ja' ? 'データをJSONファイルに変換しています' : 'Converting data to JSON file')
               }
             </Text>
 
@@ -450,6 +474,18 @@ const styles = StyleSheet.create({
   photoItem: {
     opacity: 0.6,
   },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    marginBottom: 16,
+  },
+  optionLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginLeft: 8,
+    flex: 1,
+  },
   dataLabel: {
     fontSize: 16,
     marginLeft: 8,
@@ -8,6 +8,7 @@ import {
   Animated,
   Dimensions,
   ActivityIndicator,
+  ScrollView,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
@@ -15,7 +16,16 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../contexts/ThemeContext';
 import { useLanguage } from '../contexts/LanguageContext';
 import { colors } from '../styles/colors';
-import { dataMigrationService, ImportResult } from '../services/dataMigrationService';
+import {
+  dataMigrationService,
+  ImportResult,
+  ImportFile,
+  ImportMode,
+  ImportPreview,
+  ConflictResolution,
+} from '../services/dataMigrationService';
+import { ParkType } from '../types/models';
+import { formatRecordError } from '../utils/importValidation';
 
 const { width, height } = Dimensions.get('window');
 
@@ -34,8 +44,12 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
   const { language } = useLanguage();
   const isDark = theme.mode === 'dark';
   
-  const [step, setStep] = useState<'warning' | 'importing' | 'success' | 'error'>('warning');
+  const [step, setStep] = useState<'warning' | 'loading' | 'preview' | 'importing' | 'success' | 'error'>('warning');
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [importFile, setImportFile] = useState<ImportFile | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
 
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.5)).current;
@@ -46,6 +60,10 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
       // Reset state
       setStep('warning');
       setImportResult(null);
+      setMode('merge');
+      setImportFile(null);
+      setPreview(null);
+      setResolutions({});
       
       // Animate in
       fadeAnim.setValue(0);
@@ -66,7 +84,55 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
     }
   }, [visible]);
 
+  const handleSelectFile = async () => {
+    setStep('loading');
+
+    const result = await dataMigrationService.selectImportFile();
+    if (!result.success || !result.file) {
+      if (result.message === 'Import cancelled') {
+        setStep('warning');
+        return;
+      }
+      setImportResult({
+        success: false,
+        message: result.message,
+        errors: result.errors
+      });
+      setStep('error');
+      return;
+    }
+
+    try {
+      const filePreview = await dataMigrationService.previewImport(result.file, mode, {});
+      setImportFile(result.file);
+      setPreview(filePreview);
+      setResolutions({});
+      setStep('preview');
+    } catch (error) {
+      setImportResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Import failed'
+      });
+      setStep('error');
+    }
+  };
+
+  const handleResolutionChange = async (visitId: string, resolution: ConflictResolution) => {
+    if (!importFile) return;
+
+    const nextResolutions = { ...resolutions, [visitId]: resolution };
+    setResolutions(nextResolutions);
+
+    try {
+      setPreview(await dataMigrationService.previewImport(importFile, mode, nextResolutions));
+    } catch (error) {
+      console.error('Failed to refresh import preview:', error);
+    }
+  };
+
   const handleImport = async () => {
+    if (!importFile) return;
+
     setStep('importing');
     
     // Animate progress
@@ -77,7 +143,7 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
     }).start();
 
     try {
-      const result = await dataMigrationService.importData();
+      const result = await dataMigrationService.applyImport(importFile, { mode, resolutions });
       setImportResult(result);
       
       if (result.success) {
@@ -115,6 +181,65 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
     });
   };
 
+  const renderModeOption = (value: ImportMode, icon: string, label: string) => {
+    const isSelected = mode === value;
+    return (
+      <TouchableOpacity
+        style={[
+          styles.modeOption,
+          {
+            borderColor: isSelected ? colors.purple[500] : (isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)'),
+            backgroundColor: isSelected ? 'rgba(124, 58, 237, 0.1)' : 'transparent',
+          },
+        ]}
+        onPress={() => setMode(value)}
+      >
+        <Ionicons name={icon as any} size={20} color={isSelected ? colors.purple[500] : theme.colors.text.secondary} />
+        <Text style={[styles.modeLabel, { color: theme.colors.text.primary }]}>
+          {label}
+        </Text>
+        {isSelected && <Ionicons name="checkmark-circle" size={20} color={colors.purple[500]} />}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSummaryRow = (icon: string, color: string, label: string, value: number) => (
+    <View style={styles.summaryItem}>
+      <Ionicons name={icon as any} size={16} color={color} />
+      <Text style={[styles.summaryLabel, { color: theme.colors.text.primary }]}>
+        {label}
+      </Text>
+      <Text style={[styles.summaryValue, { color }]}>
+        {value}
+      </Text>
+    </View>
+  );
+
+  const renderResolutionChip = (
+    visitId: string,
+    current: ConflictResolution,
+    value: ConflictResolution,
+    label: string
+  ) => {
+    const isSelected = current === value;
+    return (
+      <TouchableOpacity
+        style={[
+          styles.resolutionChip,
+          {
+            borderColor: isSelected ? colors.purple[500] : (isDark ? 'rgba(255,255,255,0.2)' : 'rgba(0,0,0,0.15)'),
+            backgroundColor: isSelected ? colors.purple[500] : 'transparent',
+          },
+        ]}
+        onPress={() => handleResolutionChange(visitId, value)}
+      >
+        <Text style={[styles.resolutionText, { color: isSelected ? 'white' : theme.colors.text.secondary }]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
   const renderContent = () => {
     switch (step) {
       case 'warning':
@@ -133,32 +258,56 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
               {language === 'ja' ? 'データをインポート' : 'Import Data'}
             </Text>
 
-            <View style={[styles.warningBox, { 
-              backgroundColor: isDark ? 'rgba(255, 59, 48, 0.1)' : 'rgba(255, 59, 48, 0.1)',
-              borderColor: '#ff3b30',
-            }]}>
-              <Ionicons name="alert-circle" size={20} color="#ff3b30" />
-              <Text style={[styles.warningText, { color: theme.colors.text.primary }]}>
+            <View style={styles.modeContainer}>
+              {renderModeOption(
+                'merge',
+                'git-merge-outline',
+                language === 'ja' ? '現在のデータに追加' : 'Merge with current data'
+              )}
+              {renderModeOption(
+                'replace',
+                'swap-horizontal-outline',
+                language === 'ja' ? '現在のデータを置き換え' : 'Replace current data'
+              )}
+            </View>
+
+            {mode === 'replace' ? (
+              <>
+                <View style={[styles.warningBox, { 
+                  backgroundColor: isDark ? 'rgba(255, 59, 48, 0.1)' : 'rgba(255, 59, 48, 0.1)',
+                  borderColor: '#ff3b30',
+                }]}>
+                  <Ionicons name="alert-circle" size={20} color="#ff3b30" />
+                  <Text style={[styles.warningText, { color: theme.colors.text.primary }]}>
+                    {language === 'ja' 
+                      ? '重要: 現在のデータは全て削除されます'
+                      : 'Important: All current data will be deleted'
+                    }
+                  </Text>
+                </View>
+
+                <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
+                  {language === 'ja' 
+                    ? 'インポートを実行すると、現在保存されているすべての来園記録、同行者、アクションデータが削除され、選択したファイルのデータに置き換わります。\n\nこの操作は取り消すことができません。'
+                    : 'Importing will delete all currently saved visit records, companions, and action data, replacing them with the data from the selected file.\n\nThis operation cannot be undone.'
+                  }
+                </Text>
+              </>
+            ) : (
+              <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
                 {language === 'ja' 
-                  ? '重要: 現在のデータは全て削除されます'
-                  : 'Important: All current data will be deleted'
+                  ? '現在のデータを残したまま、選択したファイルのデータを追加します。同じ日・同じパークの来園記録は、インポート前に確認して選択できます。'
+                  : 'The data from the selected file is added to your current data. Visits on the same date at the same park can be reviewed before importing.'
                 }
               </Text>
-            </View>
-
-            <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
-              {language === 'ja' 
-                ? 'インポートを実行すると、現在保存されているすべての来園記録、同行者、アクションデータが削除され、選択したファイルのデータに置き換わります。\n\nこの操作は取り消すことができません。'
-                : 'Importing will delete all currently saved visit records, companions, and action data, replacing them with the data from the selected file.\n\nThis operation cannot be undone.'
-              }
-            </Text>
+            )}
 
             <View style={styles.noteBox}>
               <Ionicons name="information-circle" size={16} color={colors.blue[500]} />
               <Text style={[styles.noteText, { color: theme.colors.text.secondary }]}>
                 {language === 'ja' 
-                  ? '写真データは復元されません'
-                  : 'Photo data will not be restored'
+                  ? '写真はフルバックアップファイルからのみ復元されます'
+                  : 'Photos are only restored from full backup files'
                 }
               </Text>
             </View>
@@ -173,6 +322,137 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
                 </Text>
               </TouchableOpacity>
 
+              <TouchableOpacity
+                style={[styles.button, styles.importButton]}
+                onPress={handleSelectFile}
+              >
+                <LinearGradient
+                  colors={['#ff6b6b', '#ee5a52']}
+                  style={styles.buttonGradient}
+                >
+                  <Text style={styles.buttonTextWhite}>
+                    {language === 'ja' ? 'ファイルを選択' : 'Select File'}
+                  </Text>
+                </LinearGradient>
+              </TouchableOpacity>
+            </View>
+          </>
+        );
+
+      case 'loading':
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <ActivityIndicator size="large" color={colors.purple[500]} />
+            </View>
+
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? 'ファイルを確認中...' : 'Checking file...'}
+            </Text>
+          </>
+        );
+
+      case 'preview':
+        return preview && (
+          <>
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? 'インポート内容の確認' : 'Review Import'}
+            </Text>
+
+            <Text style={[styles.fileName, { color: theme.colors.text.secondary }]} numberOfLines={1}>
+              {preview.fileName}
+            </Text>
+
+            <View style={styles.summaryContainer}>
+              {renderSummaryRow('calendar', colors.purple[500], language === 'ja' ? '追加する来園記録' : 'Visits to add', preview.visits.added)}
+              {preview.visits.replaced > 0 && renderSummaryRow('swap-horizontal', colors.red[500], language === 'ja' ? '置き換える来園記録' : 'Visits to replace', preview.visits.replaced)}
+              {preview.visits.skipped > 0 && renderSummaryRow('remove-circle-outline', colors.gray[500], language === 'ja' ? 'スキップする来園記録' : 'Visits to skip', preview.visits.skipped)}
+              {renderSummaryRow('people', colors.blue[500], language === 'ja' ? '追加する同行者' : 'Companions to add', preview.companions.added)}
+              {preview.companions.matched > 0 && renderSummaryRow('link', colors.blue[500], language === 'ja' ? '既存の同行者と一致' : 'Matched companions', preview.companions.matched)}
+              {renderSummaryRow('list', colors.green[500], language === 'ja' ? '追加するアクション' : 'Actions to add', preview.actions.added)}
+              {preview.includesPhotos && renderSummaryRow('camera', colors.red[500], language === 'ja' ? '写真' : 'Photos', preview.photos)}
+            </View>
+
+            {preview.danglingReferences.length > 0 && (
+              <View style={[styles.warningBox, {
+                backgroundColor: 'rgba(255, 193, 7, 0.1)',
+                borderColor: '#ffc107',
+              }]}>
+                <Ionicons name="warning" size={20} color="#ffc107" />
+                <Text style={[styles.warningText, { color: theme.colors.text.primary }]}>
+                  {language === 'ja'
+                    ? `リンク切れの参照が${preview.danglingReferences.length}件あります（該当データはスキップされます）`
+                    : `${preview.danglingReferences.length} broken references found (affected records will be skipped)`
+                  }
+                </Text>
+              </View>
+            )}
+
+            {preview.invalidRecords.length > 0 && (
+              <ScrollView style={styles.errorContainer} nestedScrollEnabled>
+                <Text style={[styles.errorTitle, { color: colors.red[600] }]}>
+                  {language === 'ja'
+                    ? `不正なデータ（来園記録${preview.skipped.visits}件・同行者${preview.skipped.companions}件・アクション${preview.skipped.actions}件）はスキップされます:`
+                    : `Invalid records will be skipped (${preview.skipped.visits} visits, ${preview.skipped.companions} companions, ${preview.skipped.actions} actions):`
+                  }
+                </Text>
+                {preview.invalidRecords.map((record, index) => (
+                  <Text key={index} style={[styles.errorText, { color: theme.colors.text.secondary }]}>
+                    • {formatRecordError(record)}
+                  </Text>
+                ))}
+              </ScrollView>
+            )}
+
+            {preview.conflicts.length > 0 && (
+              <>
+                <Text style={[styles.conflictTitle, { color: theme.colors.text.primary }]}>
+                  {language === 'ja'
+                    ? `重複する来園記録 (${preview.conflicts.length})`
+                    : `Duplicate visits (${preview.conflicts.length})`
+                  }
+                </Text>
+                <ScrollView style={styles.conflictList} nestedScrollEnabled>
+                  {preview.conflicts.map(conflict => (
+                    <View
+                      key={conflict.id}
+                      style={[styles.conflictItem, { borderColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)' }]}
+                    >
+                      <Text style={[styles.conflictDate, { color: theme.colors.text.primary }]}>
+                        {conflict.date.toLocaleDateString(language === 'ja' ? 'ja-JP' : 'en-US')}
+                        {' · '}
+                        {conflict.parkType === ParkType.LAND
+                          ? (language === 'ja' ? 'ランド' : 'Land')
+                          : (language === 'ja' ? 'シー' : 'Sea')
+                        }
+                      </Text>
+                      <Text style={[styles.conflictDetail, { color: theme.colors.text.secondary }]}>
+                        {language === 'ja'
+                          ? `現在: ${conflict.existingActionCount}件 / ファイル: ${conflict.incomingActionCount}件のアクション`
+                          : `Mine: ${conflict.existingActionCount} / Theirs: ${conflict.incomingActionCount} actions`
+                        }
+                      </Text>
+                      <View style={styles.resolutionRow}>
+                        {renderResolutionChip(conflict.id, conflict.resolution, 'keep-mine', language === 'ja' ? '現在を残す' : 'Keep mine')}
+                        {renderResolutionChip(conflict.id, conflict.resolution, 'keep-theirs', language === 'ja' ? 'ファイルを採用' : 'Keep theirs')}
+                        {renderResolutionChip(conflict.id, conflict.resolution, 'keep-both', language === 'ja' ? '両方残す' : 'Keep both')}
+                      </View>
+                    </View>
+                  ))}
+                </ScrollView>
+              </>
+            )}
+
+            <View style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton, { borderColor: theme.colors.text.secondary }]}
+                onPress={() => setStep('warning')}
+              >
+                <Text style={[styles.buttonText, { color: theme.colors.text.secondary }]}>
+                  {language === 'ja' ? '戻る' : 'Back'}
+                </Text>
+              </TouchableOpacity>
+
               <TouchableOpacity
                 style={[styles.button, styles.importButton]}
                 onPress={handleImport}
@@ -280,9 +560,34 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
                     {importResult.importedData.actions}
                   </Text>
                 </View>
+
+                {!!importResult.importedData.photos && (
+                  <View style={styles.summaryItem}>
+                    <Ionicons name="camera" size={16} color={colors.red[500]} />
+                    <Text style={[styles.summaryLabel, { color: theme.colors.text.primary }]}>
+                      {language === 'ja' ? '写真' : 'Photos'}
+                    </Text>
+                    <Text style={[styles.summaryValue, { color: colors.red[600] }]}>
+                      {importResult.importedData.photos}
+                    </Text>
+                  </View>
+                )}
               </View>
             )}
 
+            {importResult?.errors && importResult.errors.length > 0 && (
+              <ScrollView style={styles.errorContainer} nestedScrollEnabled>
+                <Text style={[styles.errorTitle, { color: colors.red[600] }]}>
+                  {language === 'ja' ? 'スキップされた項目:' : 'Skipped Items:'}
+                </Text>
+                {importResult.errors.map((error, index) => (
+                  <Text key={index} style={[styles.errorText, { color: theme.colors.text.secondary }]}>
+                    • {error}
+                  </Text>
+                ))}
+              </ScrollView>
+            )}
+
             <TouchableOpacity
               style={[styles.button, styles.importButton, { width: '100%' }]}
               onPress={handleClose}
@@ -352,7 +657,7 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
       visible={visible}
       transparent={true}
       animationType="none"
-      onRequestClose={step === 'importing' ? undefined : handleClose}
+      onRequestClose={step === 'importing' || step === 'loading' ? undefined : handleClose}
     >
       <BlurView
         style={styles.overlay}
@@ -362,7 +667,7 @@ export const DataImportModal: React.FC<DataImportModalProps> = ({
         <TouchableOpacity
           style={styles.overlay}
           activeOpacity={1}
-          onPress={step === 'importing' ? undefined : handleClose}
+          onPress={step === 'importing' || step === 'loading' ? undefined : handleClose}
         >
           <Animated.View
             style={[
@@ -456,6 +761,70 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     fontStyle: 'italic',
   },
+  modeContainer: {
+    width: '100%',
+    gap: 8,
+    marginBottom: 16,
+  },
+  modeOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  modeLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 8,
+    flex: 1,
+  },
+  fileName: {
+    fontSize: 13,
+    marginBottom: 8,
+    maxWidth: '100%',
+  },
+  conflictTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+    alignSelf: 'flex-start',
+    marginBottom: 8,
+  },
+  conflictList: {
+    width: '100%',
+    maxHeight: 220,
+    marginBottom: 16,
+  },
+  conflictItem: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  conflictDate: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  conflictDetail: {
+    fontSize: 13,
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  resolutionRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  resolutionChip: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  resolutionText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   summaryContainer: {
     width: '100%',
     marginBottom: 24,
@@ -477,6 +846,7 @@ const styles = StyleSheet.create({
   },
   errorContainer: {
     width: '100%',
+    maxHeight: 160,
     marginBottom: 16,
     padding: 12,
     borderRadius: 8,
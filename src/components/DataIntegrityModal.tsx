@@ -0,0 +1,710 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Animated,
+  Dimensions,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { BlurView } from 'expo-blur';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { colors } from '../styles/colors';
+import {
+  integrityService,
+  IntegrityIssue,
+  IntegrityIssueType,
+  IntegrityReport,
+  RepairPreview,
+  RepairResult,
+} from '../services/integrityService';
+
+const { width, height } = Dimensions.get('window');
+
+interface DataIntegrityModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onRepairComplete?: () => void;
+}
+
+const ISSUE_TYPES: IntegrityIssueType[] = [
+  'orphaned-action',
+  'action-count',
+  'photo-count',
+  'companion-link',
+  'missing-photo',
+  'action-out-of-range',
+];
+
+export const DataIntegrityModal: React.FC<DataIntegrityModalProps> = ({
+  visible,
+  onClose,
+  onRepairComplete,
+}) => {
+  const { theme, themeMode } = useTheme();
+  const { language } = useLanguage();
+  const isDark = themeMode === 'dark';
+
+  const [step, setStep] = useState<'scanning' | 'report' | 'confirm' | 'repairing' | 'repaired' | 'error'>('scanning');
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  // Issues to repair; destructive fixes are never selected up front
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [repairResult, setRepairResult] = useState<RepairResult | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const scaleAnim = useRef(new Animated.Value(0.5)).current;
+
+  useEffect(() => {
+    if (visible) {
+      setReport(null);
+      setRepairResult(null);
+      setErrorMessage('');
+      runScan();
+
+      // Animate in
+      fadeAnim.setValue(0);
+      scaleAnim.setValue(0.5);
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.spring(scaleAnim, {
+          toValue: 1,
+          useNativeDriver: true,
+          tension: 100,
+          friction: 8,
+        }),
+      ]).start();
+    }
+  }, [visible]);
+
+  const runScan = async () => {
+    setStep('scanning');
+    try {
+      const scanned = await integrityService.scan();
+      setReport(scanned);
+      setSelectedIds(new Set(scanned.issues.filter(issue => !issue.destructive).map(issue => issue.id)));
+      setStep('report');
+    } catch (error) {
+      setStep('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const getSelectedIssues = (): IntegrityIssue[] =>
+    report ? report.issues.filter(issue => selectedIds.has(issue.id)) : [];
+
+  const toggleIssues = (issues: IntegrityIssue[]) => {
+    const allSelected = issues.every(issue => selectedIds.has(issue.id));
+    const next = new Set(selectedIds);
+    issues.forEach(issue => (allSelected ? next.delete(issue.id) : next.add(issue.id)));
+    setSelectedIds(next);
+  };
+
+  // Show what will be deleted or rewritten before doing it
+  const handleRepairPress = () => {
+    if (getSelectedIssues().some(issue => issue.destructive)) {
+      setStep('confirm');
+    } else {
+      handleRepair();
+    }
+  };
+
+  const handleRepair = async () => {
+    setStep('repairing');
+    try {
+      const result = await integrityService.repair(Array.from(selectedIds));
+      setRepairResult(result);
+      setStep('repaired');
+      onRepairComplete?.();
+    } catch (error) {
+      setStep('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const handleClose = () => {
+    Animated.parallel([
+      Animated.timing(fadeAnim, {
+        toValue: 0,
+        duration: 200,
+        useNativeDriver: true,
+      }),
+      Animated.timing(scaleAnim, {
+        toValue: 0.5,
+        duration: 200,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      onClose();
+    });
+  };
+
+  const getIssueLabel = (type: IntegrityIssueType): string => {
+    switch (type) {
+      case 'orphaned-action':
+        return language === 'ja' ? '来園記録のないアクション' : 'Actions without a visit';
+      case 'action-count':
+        return language === 'ja' ? 'アクション数の不一致' : 'Mismatched action counts';
+      case 'photo-count':
+        return language === 'ja' ? '写真枚数の不一致' : 'Mismatched photo counts';
+      case 'companion-link':
+        return language === 'ja' ? '同行者リンクの不整合' : 'One-sided companion links';
+      case 'missing-photo':
+        return language === 'ja' ? 'ファイルが見つからない写真' : 'Photos with missing files';
+      case 'action-out-of-range':
+        return language === 'ja' ? '来園日と異なる日付のアクション' : 'Actions dated outside their visit';
+    }
+  };
+
+  const getRepairLabel = (type: IntegrityIssueType): string => {
+    switch (type) {
+      case 'orphaned-action':
+        return language === 'ja' ? '削除' : 'Deleted';
+      case 'action-count':
+      case 'photo-count':
+        return language === 'ja' ? '再計算' : 'Recalculated';
+      case 'companion-link':
+        return language === 'ja' ? 'リンクを修正' : 'Links fixed';
+      case 'missing-photo':
+        return language === 'ja' ? '写真を削除' : 'Photos removed';
+      case 'action-out-of-range':
+        return language === 'ja' ? '来園日に移動' : 'Moved to visit date';
+    }
+  };
+
+  // What the repair does to the user's data, for destructive issues
+  const getConsequence = (issue: IntegrityIssue): string | null => {
+    switch (issue.type) {
+      case 'orphaned-action':
+        return language === 'ja'
+          ? `このアクションと写真${issue.photoCount || 0}枚を削除します`
+          : `Deletes this action and its ${issue.photoCount || 0} photos`;
+      case 'missing-photo':
+        return language === 'ja' ? 'この写真の記録を削除します' : 'Removes this photo from the action';
+      case 'action-out-of-range':
+        return language === 'ja' ? '日付を来園日に変更します' : "Changes the action's date to the visit date";
+      default:
+        return null;
+    }
+  };
+
+  const getPreviewLines = (preview: RepairPreview): string[] => {
+    const lines: string[] = [];
+    if (preview.deletedActions > 0) {
+      lines.push(language === 'ja'
+        ? `アクション${preview.deletedActions}件を削除（写真${preview.deletedPhotos}枚を含む）`
+        : `Delete ${preview.deletedActions} actions (with ${preview.deletedPhotos} photos)`);
+    }
+    if (preview.removedPhotoRecords > 0) {
+      lines.push(language === 'ja'
+        ? `ファイルが見つからない写真${preview.removedPhotoRecords}枚の記録を削除`
+        : `Remove ${preview.removedPhotoRecords} photos whose files are missing`);
+    }
+    if (preview.movedActions > 0) {
+      lines.push(language === 'ja'
+        ? `アクション${preview.movedActions}件の日付を来園日に変更`
+        : `Move ${preview.movedActions} actions to their visit date`);
+    }
+    if (preview.fixedLinks > 0) {
+      lines.push(language === 'ja'
+        ? `同行者リンク${preview.fixedLinks}件を修正`
+        : `Fix ${preview.fixedLinks} companion links`);
+    }
+    if (preview.recountedVisits > 0) {
+      lines.push(language === 'ja'
+        ? `来園記録${preview.recountedVisits}件の件数を再計算`
+        : `Recalculate counts on ${preview.recountedVisits} visits`);
+    }
+    return lines;
+  };
+
+  const renderIssueSelection = (issues: IntegrityIssue[]) => (
+    <View style={styles.issueList}>
+      {ISSUE_TYPES.map(type => {
+        const typeIssues = issues.filter(issue => issue.type === type);
+        if (typeIssues.length === 0) return null;
+        const allSelected = typeIssues.every(issue => selectedIds.has(issue.id));
+        return (
+          <View key={type}>
+            <TouchableOpacity style={styles.issueRow} onPress={() => toggleIssues(typeIssues)}>
+              <Ionicons
+                name={allSelected ? 'checkbox' : 'square-outline'}
+                size={20}
+                color={allSelected ? colors.blue[500] : theme.colors.text.secondary}
+              />
+              <Text style={[styles.issueLabel, { color: theme.colors.text.primary }]}>
+                {getIssueLabel(type)}
+              </Text>
+              <Text style={[styles.issueCount, { color: theme.colors.text.secondary }]}>
+                {typeIssues.length}
+              </Text>
+            </TouchableOpacity>
+            {typeIssues.map(issue => {
+              const consequence = getConsequence(issue);
+              const selected = selectedIds.has(issue.id);
+              return (
+                <TouchableOpacity key={issue.id} style={styles.issueDetailRow} onPress={() => toggleIssues([issue])}>
+                  <Ionicons
+                    name={selected ? 'checkbox' : 'square-outline'}
+                    size={16}
+                    color={selected ? colors.blue[500] : theme.colors.text.secondary}
+                  />
+                  <View style={styles.issueDetailText}>
+                    <Text style={[styles.remainingText, { color: theme.colors.text.secondary }]}>
+                      {issue.message}
+                    </Text>
+                    {consequence && (
+                      <Text style={[styles.consequenceText, { color: colors.red[500] }]}>
+                        {consequence}
+                      </Text>
+                    )}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const renderIssueSummary = (issues: IntegrityIssue[], showRepair: boolean) => (
+    <View style={styles.issueList}>
+      {ISSUE_TYPES.map(type => {
+        const count = issues.filter(issue => issue.type === type).length;
+        if (count === 0) return null;
+        return (
+          <View key={type} style={styles.issueRow}>
+            <Ionicons
+              name={showRepair ? 'checkmark-circle' : 'alert-circle'}
+              size={16}
+              color={showRepair ? colors.green[500] : colors.orange[500]}
+            />
+            <Text style={[styles.issueLabel, { color: theme.colors.text.primary }]}>
+              {getIssueLabel(type)}
+              {showRepair ? ` · ${getRepairLabel(type)}` : ''}
+            </Text>
+            <Text style={[styles.issueCount, { color: theme.colors.text.secondary }]}>
+              {count}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  const renderContent = () => {
+    switch (step) {
+      case 'scanning':
+      case 'repairing':
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <ActivityIndicator size="large" color={colors.blue[500]} />
+            </View>
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {step === 'scanning'
+                ? (language === 'ja' ? 'データを確認中...' : 'Checking data...')
+                : (language === 'ja' ? '修復中...' : 'Repairing...')
+              }
+            </Text>
+          </>
+        );
+
+      case 'report':
+        if (!report) return null;
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <LinearGradient
+                colors={report.issues.length === 0 ? ['#4ecdc4', '#45b7b8'] : [colors.orange[400], colors.orange[600]]}
+                style={styles.iconGradient}
+              >
+                <Ionicons
+                  name={report.issues.length === 0 ? 'shield-checkmark' : 'construct'}
+                  size={32}
+                  color="white"
+                />
+              </LinearGradient>
+            </View>
+
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {report.issues.length === 0
+                ? (language === 'ja' ? '問題は見つかりませんでした' : 'No Problems Found')
+                : (language === 'ja' ? `${report.issues.length}件の問題` : `${report.issues.length} Problems Found`)
+              }
+            </Text>
+
+            <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
+              {language === 'ja'
+                ? `来園記録${report.checked.visits}件・アクション${report.checked.actions}件・同行者${report.checked.companions}人・写真${report.checked.photos}枚を確認しました。`
+                : `Checked ${report.checked.visits} visits, ${report.checked.actions} actions, ${report.checked.companions} companions and ${report.checked.photos} photos.`
+              }
+            </Text>
+
+            {report.issues.length > 0 && (
+              <>
+                <Text style={[styles.hintText, { color: theme.colors.text.secondary }]}>
+                  {language === 'ja'
+                    ? '修復する問題を選んでください。削除や日付の変更を伴う修復は初期状態で選択されていません。'
+                    : 'Choose the problems to repair. Fixes that delete data or change dates are not selected by default.'
+                  }
+                </Text>
+                <ScrollView style={styles.scrollArea}>
+                  {renderIssueSelection(report.issues)}
+                </ScrollView>
+              </>
+            )}
+
+            <View style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton, { borderColor: theme.colors.text.secondary }]}
+                onPress={handleClose}
+              >
+                <Text style={[styles.buttonText, { color: theme.colors.text.secondary }]}>
+                  {language === 'ja' ? '閉じる' : 'Close'}
+                </Text>
+              </TouchableOpacity>
+
+              {report.issues.length > 0 && (
+                <TouchableOpacity
+                  style={[styles.button, selectedIds.size === 0 && styles.buttonDisabled]}
+                  onPress={handleRepairPress}
+                  disabled={selectedIds.size === 0}
+                >
+                  <LinearGradient
+                    colors={['#4ecdc4', '#45b7b8']}
+                    style={styles.buttonGradient}
+                  >
+                    <Text style={styles.buttonTextWhite}>
+                      {language === 'ja' ? `修復する (${selectedIds.size})` : `Repair (${selectedIds.size})`}
+                    </Text>
+                  </LinearGradient>
+                </TouchableOpacity>
+              )}
+            </View>
+          </>
+        );
+
+      case 'confirm':
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <View style={[styles.iconGradient, { backgroundColor: colors.red[500] }]}>
+                <Ionicons name="warning" size={32} color="white" />
+              </View>
+            </View>
+
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? '修復の確認' : 'Confirm Repair'}
+            </Text>
+
+            <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
+              {language === 'ja'
+                ? '次の変更を行います。削除したデータは元に戻せません。'
+                : 'The following changes will be made. Deleted data cannot be restored.'
+              }
+            </Text>
+
+            <View style={[styles.issueList, styles.previewList]}>
+              {getPreviewLines(integrityService.previewRepair(getSelectedIssues())).map(line => (
+                <View key={line} style={styles.issueRow}>
+                  <Ionicons name="remove-circle" size={16} color={colors.red[500]} />
+                  <Text style={[styles.issueLabel, { color: theme.colors.text.primary }]}>{line}</Text>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton, { borderColor: theme.colors.text.secondary }]}
+                onPress={() => setStep('report')}
+              >
+                <Text style={[styles.buttonText, { color: theme.colors.text.secondary }]}>
+                  {language === 'ja' ? '戻る' : 'Back'}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity style={styles.button} onPress={handleRepair}>
+                <LinearGradient
+                  colors={[colors.red[500], colors.red[600]]}
+                  style={styles.buttonGradient}
+                >
+                  <Text style={styles.buttonTextWhite}>
+                    {language === 'ja' ? '修復する' : 'Repair'}
+                  </Text>
+                </LinearGradient>
+              </TouchableOpacity>
+            </View>
+          </>
+        );
+
+      case 'repaired':
+        if (!repairResult) return null;
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <LinearGradient
+                colors={['#4ecdc4', '#45b7b8']}
+                style={styles.iconGradient}
+              >
+                <Ionicons name="checkmark" size={32} color="white" />
+              </LinearGradient>
+            </View>
+
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? '修復完了' : 'Repair Complete'}
+            </Text>
+
+            <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
+              {language === 'ja'
+                ? `${repairResult.fixed.length}件の問題を修復しました。`
+                : `Fixed ${repairResult.fixed.length} problems.`
+              }
+            </Text>
+
+            <ScrollView style={styles.scrollArea}>
+              {renderIssueSummary(repairResult.fixed, true)}
+              {repairResult.remaining.length > 0 && (
+                <>
+                  <Text style={[styles.sectionTitle, { color: colors.red[500] }]}>
+                    {language === 'ja' ? '修復できなかった問題' : 'Could not be fixed'}
+                  </Text>
+                  {repairResult.remaining.map((issue, index) => (
+                    <Text key={index} style={[styles.remainingText, { color: theme.colors.text.secondary }]}>
+                      {issue.message}
+                    </Text>
+                  ))}
+                </>
+              )}
+            </ScrollView>
+
+            <TouchableOpacity style={[styles.button, { width: '100%' }]} onPress={handleClose}>
+              <LinearGradient
+                colors={['#4ecdc4', '#45b7b8']}
+                style={styles.buttonGradient}
+              >
+                <Text style={styles.buttonTextWhite}>
+                  {language === 'ja' ? '完了' : 'Done'}
+                </Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          </>
+        );
+
+      case 'error':
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <View style={[styles.iconGradient, { backgroundColor: colors.red[500] }]}>
+                <Ionicons name="close" size={32} color="white" />
+              </View>
+            </View>
+
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? 'エラー' : 'Error'}
+            </Text>
+
+            <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
+              {errorMessage || (language === 'ja' ? 'データの確認中にエラーが発生しました' : 'An error occurred while checking data')}
+            </Text>
+
+            <TouchableOpacity style={[styles.button, { width: '100%' }]} onPress={handleClose}>
+              <LinearGradient
+                colors={[colors.red[500], colors.red[600]]}
+                style={styles.buttonGradient}
+              >
+                <Text style={styles.buttonTextWhite}>
+                  {language === 'ja' ? '閉じる' : 'Close'}
+                </Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          </>
+        );
+    }
+  };
+
+  const isBusy = step === 'scanning' || step === 'repairing';
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="none"
+      onRequestClose={isBusy ? undefined : handleClose}
+    >
+      <BlurView
+        style={styles.overlay}
+        intensity={20}
+        tint={isDark ? 'dark' : 'light'}
+      >
+        <TouchableOpacity
+          style={styles.overlay}
+          activeOpacity={1}
+          onPress={isBusy ? undefined : handleClose}
+        >
+          <Animated.View
+            style={[
+              styles.modalContainer,
+              {
+                opacity: fadeAnim,
+                transform: [{ scale: scaleAnim }],
+                backgroundColor: isDark ? 'rgba(28, 28, 30, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+              },
+            ]}
+          >
+            <TouchableOpacity activeOpacity={1} onPress={(e) => e.stopPropagation()}>
+              <View style={styles.modal}>
+                {renderContent()}
+              </View>
+            </TouchableOpacity>
+          </Animated.View>
+        </TouchableOpacity>
+      </BlurView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 20,
+  },
+  modal: {
+    padding: 24,
+    alignItems: 'center',
+    maxWidth: width - 40,
+    width: '100%',
+  },
+  iconContainer: {
+    marginBottom: 16,
+  },
+  iconGradient: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 24,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  scrollArea: {
+    width: '100%',
+    maxHeight: height * 0.35,
+    marginBottom: 24,
+  },
+  issueList: {
+    width: '100%',
+  },
+  issueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  issueLabel: {
+    fontSize: 15,
+    marginLeft: 8,
+    flex: 1,
+  },
+  issueCount: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  issueDetailRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 4,
+    paddingLeft: 28,
+  },
+  issueDetailText: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  consequenceText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  hintText: {
+    fontSize: 13,
+    lineHeight: 18,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  previewList: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  remainingText: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: 4,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    width: '100%',
+  },
+  button: {
+    flex: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  cancelButton: {
+    borderWidth: 1,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonGradient: {
+    padding: 16,
+    alignItems: 'center',
+    borderRadius: 12,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonTextWhite: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
@@ -73,6 +73,17 @@ export const DrawerMenu: React.FC<DrawerMenuProps> = ({ visible, onClose }) => {
         navigation.navigate('VisitList' as never);
       }
     },
+    {
+      id: 'album',
+      title: language === 'ja' ? 'アルバム' : 'Album',
+      icon: 'images',
+      color: colors.pink[500],
+      description: language === 'ja' ? 'すべての写真とお気に入り' : 'All photos & favorites',
+      onPress: () => {
+        onClose();
+        navigation.navigate('Album' as never);
+      }
+    },
     {
       id: 'record',
       title: t('nav.record'),
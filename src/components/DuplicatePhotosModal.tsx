@@ -0,0 +1,553 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Animated,
+  Dimensions,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { BlurView } from 'expo-blur';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { colors } from '../styles/colors';
+import { PhotoThumbnail } from './PhotoThumbnail';
+import { ActionCategory, TimelineAction } from '../types/models';
+import {
+  duplicatePhotoService,
+  DuplicatePhotoGroup,
+  DuplicateResolution,
+} from '../services/duplicatePhotoService';
+
+const { width, height } = Dimensions.get('window');
+
+interface DuplicatePhotosModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onResolved?: () => void;
+}
+
+export const DuplicatePhotosModal: React.FC<DuplicatePhotosModalProps> = ({
+  visible,
+  onClose,
+  onResolved,
+}) => {
+  const { theme, themeMode } = useTheme();
+  const { language } = useLanguage();
+  const isDark = themeMode === 'dark';
+
+  const [step, setStep] = useState<'scanning' | 'review' | 'done' | 'error'>('scanning');
+  const [progress, setProgress] = useState<{ hashed: number; total: number } | null>(null);
+  const [groups, setGroups] = useState<DuplicatePhotoGroup[]>([]);
+  // Photo id to keep, per group id
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [resolvedCount, setResolvedCount] = useState(0);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const scaleAnim = useRef(new Animated.Value(0.5)).current;
+
+  useEffect(() => {
+    if (visible) {
+      setGroups([]);
+      setKeepIds({});
+      setResolvedCount(0);
+      setErrorMessage('');
+      runScan();
+
+      // Animate in
+      fadeAnim.setValue(0);
+      scaleAnim.setValue(0.5);
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.spring(scaleAnim, {
+          toValue: 1,
+          useNativeDriver: true,
+          tension: 100,
+          friction: 8,
+        }),
+      ]).start();
+    }
+  }, [visible]);
+
+  const runScan = async () => {
+    setStep('scanning');
+    setProgress(null);
+    try {
+      const found = await duplicatePhotoService.findDuplicates((hashed, total) => {
+        setProgress({ hashed, total });
+      });
+      setGroups(found);
+      setStep(found.length > 0 ? 'review' : 'done');
+    } catch (error) {
+      setStep('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const handleResolve = async (group: DuplicatePhotoGroup, resolution: DuplicateResolution) => {
+    const keepId = keepIds[group.id] || group.entries[0].photo.id;
+    const keep = group.entries.find(entry => entry.photo.id === keepId) || group.entries[0];
+
+    setResolvingId(group.id);
+    try {
+      await duplicatePhotoService.resolveGroup(group, keep, resolution);
+      const remaining = groups.filter(g => g.id !== group.id);
+      setGroups(remaining);
+      setResolvedCount(count => count + 1);
+      onResolved?.();
+      if (remaining.length === 0) {
+        setStep('done');
+      }
+    } catch (error) {
+      setStep('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const handleClose = () => {
+    Animated.parallel([
+      Animated.timing(fadeAnim, {
+        toValue: 0,
+        duration: 200,
+        useNativeDriver: true,
+      }),
+      Animated.timing(scaleAnim, {
+        toValue: 0.5,
+        duration: 200,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      onClose();
+    });
+  };
+
+  const formatDate = (date?: Date): string => {
+    if (!date) return '';
+    return date.toLocaleDateString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const formatTime = (date: Date): string => {
+    return date.toLocaleTimeString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getCategoryName = (category: ActionCategory): string => {
+    switch (category) {
+      case ActionCategory.ATTRACTION:
+        return language === 'ja' ? 'アトラクション' : 'Attraction';
+      case ActionCategory.RESTAURANT:
+        return language === 'ja' ? 'レストラン' : 'Restaurant';
+      case ActionCategory.SHOW:
+        return language === 'ja' ? 'ショー' : 'Show';
+      case ActionCategory.GREETING:
+        return language === 'ja' ? 'グリーティング' : 'Greeting';
+      case ActionCategory.SHOPPING:
+        return language === 'ja' ? 'ショッピング' : 'Shopping';
+      case ActionCategory.CUSTOM:
+        return language === 'ja' ? 'カスタム' : 'Custom';
+      default:
+        return language === 'ja' ? 'その他' : 'Other';
+    }
+  };
+
+  const getActionTitle = (action: TimelineAction): string =>
+    action.customTitle || action.locationName || getCategoryName(action.category);
+
+  const renderGroup = (group: DuplicatePhotoGroup) => {
+    const keepId = keepIds[group.id] || group.entries[0].photo.id;
+    const isResolving = resolvingId === group.id;
+    const actionCount = new Set(group.entries.map(entry => entry.action.id)).size;
+
+    return (
+      <View
+        key={group.id}
+        style={[styles.groupCard, { backgroundColor: theme.colors.background.secondary }]}
+      >
+        <Text style={[styles.groupTitle, { color: theme.colors.text.secondary }]}>
+          {language === 'ja'
+            ? `${actionCount}件のアクションに${group.entries.length}枚`
+            : `${group.entries.length} copies in ${actionCount} actions`
+          }
+        </Text>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {group.entries.map(entry => {
+            const isKept = entry.photo.id === keepId;
+            return (
+              <TouchableOpacity
+                key={entry.photo.id}
+                style={styles.entry}
+                onPress={() => setKeepIds(prev => ({ ...prev, [group.id]: entry.photo.id }))}
+                disabled={isResolving}
+              >
+                <View style={[styles.thumbnailFrame, { borderColor: isKept ? colors.purple[500] : 'transparent' }]}>
+                  <PhotoThumbnail photo={entry.photo} style={styles.thumbnail} />
+                  {isKept && (
+                    <View style={styles.keepBadge}>
+                      <Ionicons name="checkmark" size={12} color="white" />
+                    </View>
+                  )}
+                </View>
+                <Text style={[styles.entryTitle, { color: theme.colors.text.primary }]} numberOfLines={1}>
+                  {getActionTitle(entry.action)}
+                </Text>
+                <Text style={[styles.entryMeta, { color: theme.colors.text.secondary }]} numberOfLines={1}>
+                  {formatDate(entry.visitDate)} {formatTime(new Date(entry.action.time))}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        {isResolving ? (
+          <ActivityIndicator style={styles.groupSpinner} color={colors.purple[500]} />
+        ) : (
+          <View style={styles.groupActions}>
+            <TouchableOpacity
+              style={[styles.groupButton, { borderColor: colors.purple[500] }]}
+              onPress={() => handleResolve(group, 'share-file')}
+              disabled={!!resolvingId}
+            >
+              <Ionicons name="link" size={14} color={colors.purple[500]} />
+              <Text style={[styles.groupButtonText, { color: colors.purple[500] }]}>
+                {language === 'ja' ? 'ファイルを共有' : 'Share File'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.groupButton, { borderColor: colors.orange[500] }]}
+              onPress={() => handleResolve(group, 'keep-one')}
+              disabled={!!resolvingId}
+            >
+              <Ionicons name="trash-outline" size={14} color={colors.orange[500]} />
+              <Text style={[styles.groupButtonText, { color: colors.orange[500] }]}>
+                {language === 'ja' ? '選択中だけ残す' : 'Keep Selected'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    switch (step) {
+      case 'scanning':
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <ActivityIndicator size="large" color={colors.purple[500]} />
+            </View>
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? '重複を検索中...' : 'Looking for duplicates...'}
+            </Text>
+            {progress && progress.total > 0 && (
+              <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
+                {language === 'ja'
+                  ? `写真を解析中 ${progress.hashed} / ${progress.total}`
+                  : `Analyzing photos ${progress.hashed} / ${progress.total}`
+                }
+              </Text>
+            )}
+          </>
+        );
+
+      case 'review':
+        return (
+          <>
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? '重複した写真' : 'Duplicate Photos'}
+            </Text>
+            <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
+              {language === 'ja'
+                ? '残す写真を選び、他のコピーを削除するか、同じファイルを共有するかを選んでください。'
+                : 'Choose the copy to keep, then remove the others or let them share its file.'
+              }
+            </Text>
+
+            <ScrollView style={styles.scrollArea}>
+              {groups.map(renderGroup)}
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton, { borderColor: theme.colors.text.secondary }]}
+              onPress={handleClose}
+              disabled={!!resolvingId}
+            >
+              <Text style={[styles.buttonText, { color: theme.colors.text.secondary }]}>
+                {language === 'ja' ? '閉じる' : 'Close'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        );
+
+      case 'done':
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <LinearGradient
+                colors={['#4ecdc4', '#45b7b8']}
+                style={styles.iconGradient}
+              >
+                <Ionicons name="checkmark" size={32} color="white" />
+              </LinearGradient>
+            </View>
+
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {resolvedCount > 0
+                ? (language === 'ja' ? '整理完了' : 'All Sorted')
+                : (language === 'ja' ? '重複なし' : 'No Duplicates')
+              }
+            </Text>
+
+            <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
+              {resolvedCount > 0
+                ? (language === 'ja'
+                  ? `${resolvedCount}件の重複を整理しました。`
+                  : `Sorted out ${resolvedCount} duplicates.`)
+                : (language === 'ja'
+                  ? '複数のアクションに添付された同じ写真はありません。'
+                  : 'No photo is attached more than once.')
+              }
+            </Text>
+
+            <TouchableOpacity style={[styles.button, { width: '100%' }]} onPress={handleClose}>
+              <LinearGradient
+                colors={['#4ecdc4', '#45b7b8']}
+                style={styles.buttonGradient}
+              >
+                <Text style={styles.buttonTextWhite}>
+                  {language === 'ja' ? '完了' : 'Done'}
+                </Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          </>
+        );
+
+      case 'error':
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <View style={[styles.iconGradient, { backgroundColor: colors.red[500] }]}>
+                <Ionicons name="close" size={32} color="white" />
+              </View>
+            </View>
+
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? 'エラー' : 'Error'}
+            </Text>
+
+            <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
+              {errorMessage || (language === 'ja' ? '重複の検索中にエラーが発生しました' : 'An error occurred while looking for duplicates')}
+            </Text>
+
+            <TouchableOpacity style={[styles.button, { width: '100%' }]} onPress={handleClose}>
+              <LinearGradient
+                colors={[colors.red[500], colors.red[600]]}
+                style={styles.buttonGradient}
+              >
+                <Text style={styles.buttonTextWhite}>
+                  {language === 'ja' ? '閉じる' : 'Close'}
+                </Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          </>
+        );
+    }
+  };
+
+  const isBusy = step === 'scanning' || !!resolvingId;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="none"
+      onRequestClose={isBusy ? undefined : handleClose}
+    >
+      <BlurView
+        style={styles.overlay}
+        intensity={20}
+        tint={isDark ? 'dark' : 'light'}
+      >
+        <TouchableOpacity
+          style={styles.overlay}
+          activeOpacity={1}
+          onPress={isBusy ? undefined : handleClose}
+        >
+          <Animated.View
+            style={[
+              styles.modalContainer,
+              {
+                opacity: fadeAnim,
+                transform: [{ scale: scaleAnim }],
+                backgroundColor: isDark ? 'rgba(28, 28, 30, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+              },
+            ]}
+          >
+            <TouchableOpacity activeOpacity={1} onPress={(e) => e.stopPropagation()}>
+              <View style={styles.modal}>
+                {renderContent()}
+              </View>
+            </TouchableOpacity>
+          </Animated.View>
+        </TouchableOpacity>
+      </BlurView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 20,
+  },
+  modal: {
+    padding: 24,
+    alignItems: 'center',
+    maxWidth: width - 40,
+    width: '100%',
+  },
+  iconContainer: {
+    marginBottom: 16,
+  },
+  iconGradient: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 24,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  scrollArea: {
+    width: '100%',
+    maxHeight: height * 0.5,
+    marginBottom: 16,
+  },
+  groupCard: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  groupTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  entry: {
+    width: 96,
+    marginRight: 10,
+  },
+  thumbnailFrame: {
+    borderWidth: 3,
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  thumbnail: {
+    width: 90,
+    height: 90,
+  },
+  keepBadge: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: colors.purple[500],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  entryTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  entryMeta: {
+    fontSize: 11,
+  },
+  groupActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  groupButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+  },
+  groupButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  groupSpinner: {
+    marginTop: 12,
+  },
+  button: {
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  cancelButton: {
+    width: '100%',
+    borderWidth: 1,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonGradient: {
+    padding: 16,
+    alignItems: 'center',
+    borderRadius: 12,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonTextWhite: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
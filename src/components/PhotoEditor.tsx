@@ -20,7 +20,7 @@ import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useTheme } from '../contexts/ThemeContext';
 import { colors } from '../styles/colors';
 import { spacing, borderRadius } from '../styles/theme';
-import { photoService, PhotoMetadata, PHOTO_FILTERS } from '../services/photoService';
+import { photoService, PhotoEdit, PhotoMetadata, PHOTO_FILTERS } from '../services/photoService';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -47,6 +47,21 @@ interface EditState {
   };
 }
 
+// An edit that produced a new file and has not been saved yet
+interface PendingEdit {
+  type: PhotoEdit['type'];
+  params: any;
+  uri: string;
+  size: { width: number; height: number };
+}
+
+const CROP_PRESETS = [
+  { id: 'square', name: '1:1', ratio: 1 },
+  { id: 'landscape', name: '4:3', ratio: 4 / 3 },
+  { id: 'portrait', name: '3:4', ratio: 3 / 4 },
+  { id: 'wide', name: '16:9', ratio: 16 / 9 },
+];
+
 export const PhotoEditor: React.FC<PhotoEditorProps> = ({
   photo,
   visible,
@@ -58,6 +73,9 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({
   const [isProcessing, setIsProcessing] = useState(false);
   const [previewUri, setPreviewUri] = useState(photo.uri);
   const [hasChanges, setHasChanges] = useState(false);
+  const [pendingEdits, setPendingEdits] = useState<PendingEdit[]>([]);
+  // Low-resolution render of the filter and adjustments on top of previewUri
+  const [adjustedPreviewUri, setAdjustedPreviewUri] = useState<string | undefined>();
   
   // Edit state
   const [editState, setEditState] = useState<EditState>({
@@ -80,6 +98,30 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({
   const cropWidth = useRef(new Animated.Value(screenWidth - 100)).current;
   const cropHeight = useRef(new Animated.Value(screenWidth - 100)).current;
 
+  const hasColorChanges = editState.currentFilter !== 'original' ||
+    editState.brightness !== 0 || editState.contrast !== 0 || editState.saturation !== 0;
+
+  useEffect(() => {
+    if (!hasColorChanges) {
+      setAdjustedPreviewUri(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    const filter = PHOTO_FILTERS.find(f => f.id === editState.currentFilter);
+    photoService.previewColorAdjustments(previewUri, editState, filter)
+      .then(uri => {
+        if (!cancelled) setAdjustedPreviewUri(uri);
+      })
+      .catch(() => {
+        if (!cancelled) setAdjustedPreviewUri(undefined);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewUri, editState.currentFilter, editState.brightness, editState.contrast, editState.saturation]);
+
   useEffect(() => {
     if (visible) {
       Animated.parallel([
@@ -108,7 +150,8 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({
           {
             text: 'Discard',
             style: 'destructive',
-            onPress: () => {
+            onPress: async () => {
+              await discardPendingFiles();
               resetEdits();
               animateClose();
             },
@@ -133,6 +176,7 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({
         useNativeDriver: true,
       }),
     ]).start(() => {
+      photoService.clearPreviews();
       onClose();
     });
   };
@@ -146,53 +190,104 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({
       currentFilter: 'original',
     });
     setPreviewUri(photo.uri);
+    setPendingEdits([]);
     setHasChanges(false);
     setEditMode('none');
   };
 
-  const applyFilter = async (filterId: string) => {
+  const discardPendingFiles = async () => {
+    for (const edit of pendingEdits) {
+      await photoService.deleteEditedFile(edit.uri, photo.originalUri || photo.uri, photo.id);
+    }
+  };
+
+  const addPendingEdit = (edit: PendingEdit) => {
+    setPendingEdits(prev => [...prev, edit]);
+    setPreviewUri(edit.uri);
+    setHasChanges(true);
+  };
+
+  // Step back one unsaved edit, or one saved edit when nothing is pending
+  const undoLastEdit = async () => {
     setIsProcessing(true);
     try {
-      const filter = PHOTO_FILTERS.find(f => f.id === filterId);
-      if (filter) {
-        const filtered = await photoService.applyFilter(photo.uri, filter);
-        setPreviewUri(filtered);
-        setEditState({ ...editState, currentFilter: filterId });
-        setHasChanges(true);
+      if (pendingEdits.length > 0) {
+        const undone = pendingEdits[pendingEdits.length - 1];
+        const remaining = pendingEdits.slice(0, -1);
+        await photoService.deleteEditedFile(undone.uri, photo.originalUri || photo.uri, photo.id);
+        setPendingEdits(remaining);
+        setPreviewUri(remaining.length > 0 ? remaining[remaining.length - 1].uri : photo.uri);
+        if (undone.type === 'rotation') {
+          setEditState(prev => ({ ...prev, rotation: (prev.rotation - undone.params.degrees + 360) % 360 }));
+        }
+        setHasChanges(remaining.length > 0 || hasColorChanges);
+      } else if (photo.editHistory?.length) {
+        onSave(await photoService.refreshThumbnail(await photoService.undoEdit(photo)));
+        animateClose();
       }
     } catch (error) {
-      Alert.alert('Error', 'Failed to apply filter');
+      Alert.alert('Error', 'Failed to undo edit');
     } finally {
       setIsProcessing(false);
     }
   };
 
-  const adjustBrightness = async (value: number) => {
+  const restoreOriginal = () => {
+    Alert.alert(
+      'Restore Original?',
+      'All edits to this photo will be removed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: async () => {
+            setIsProcessing(true);
+            try {
+              await discardPendingFiles();
+              onSave(await photoService.refreshThumbnail(await photoService.revertToOriginal(photo)));
+              resetEdits();
+              animateClose();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to restore original');
+            } finally {
+              setIsProcessing(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Filters and adjustments are previewed at low resolution and rendered in full on save
+  const applyFilter = (filterId: string) => {
+    setEditState({ ...editState, currentFilter: filterId });
+    setHasChanges(true);
+  };
+
+  const adjustBrightness = (value: number) => {
     setEditState({ ...editState, brightness: value });
     setHasChanges(true);
-    // Note: Actual brightness adjustment would be applied on save
   };
 
-  const adjustContrast = async (value: number) => {
+  const adjustContrast = (value: number) => {
     setEditState({ ...editState, contrast: value });
     setHasChanges(true);
-    // Note: Actual contrast adjustment would be applied on save
   };
 
-  const adjustSaturation = async (value: number) => {
+  const adjustSaturation = (value: number) => {
     setEditState({ ...editState, saturation: value });
     setHasChanges(true);
-    // Note: Actual saturation adjustment would be applied on save
   };
 
   const rotatePhoto = async (degrees: number) => {
     setIsProcessing(true);
     try {
-      const newRotation = (editState.rotation + degrees) % 360;
+      const newRotation = (editState.rotation + degrees + 360) % 360;
       const rotated = await photoService.rotatePhoto(previewUri, degrees);
-      setPreviewUri(rotated);
+      const size = await photoService.getImageSize(rotated);
+      addPendingEdit({ type: 'rotation', params: { degrees }, uri: rotated, size });
       setEditState({ ...editState, rotation: newRotation });
-      setHasChanges(true);
     } catch (error) {
       Alert.alert('Error', 'Failed to rotate photo');
     } finally {
@@ -205,15 +300,29 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({
     
     setIsProcessing(true);
     try {
-      const cropped = await photoService.cropPhoto(previewUri, {
+      const cropData = {
         originX: editState.cropData.x,
         originY: editState.cropData.y,
         width: editState.cropData.width,
         height: editState.cropData.height,
-      });
-      setPreviewUri(cropped);
+      };
+      const cropped = await photoService.cropPhoto(previewUri, cropData);
+      const size = await photoService.getImageSize(cropped);
+      addPendingEdit({ type: 'crop', params: cropData, uri: cropped, size });
       setCropMode(false);
-      setHasChanges(true);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to crop photo');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const applyCropPreset = async (preset: typeof CROP_PRESETS[number]) => {
+    setIsProcessing(true);
+    try {
+      const cropped = await photoService.cropToAspectRatio(previewUri, preset.ratio);
+      const size = await photoService.getImageSize(cropped);
+      addPendingEdit({ type: 'crop', params: { aspectRatio: preset.name }, uri: cropped, size });
     } catch (error) {
       Alert.alert('Error', 'Failed to crop photo');
     } finally {
@@ -224,22 +333,32 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({
   const saveEdits = async () => {
     setIsProcessing(true);
     try {
-      // Create edited photo metadata
-      const editedPhoto: PhotoMetadata = {
-        ...photo,
-        uri: previewUri,
-        editHistory: [
-          ...(photo.editHistory || []),
-          {
-            id: photoService.generatePhotoId(),
-            type: 'filter',
-            params: editState,
-            timestamp: new Date(),
+      const edits = [...pendingEdits];
+
+      if (hasColorChanges) {
+        const filter = PHOTO_FILTERS.find(f => f.id === editState.currentFilter);
+        const adjusted = await photoService.applyColorAdjustments(previewUri, editState, filter);
+        edits.push({
+          type: 'filter',
+          params: {
+            filter: editState.currentFilter,
+            brightness: editState.brightness,
+            contrast: editState.contrast,
+            saturation: editState.saturation,
           },
-        ],
-      };
-      
-      onSave(editedPhoto);
+          uri: adjusted,
+          size: await photoService.getImageSize(adjusted),
+        });
+      }
+
+      // Each file-producing edit becomes its own history entry
+      const editedPhoto = edits.reduce(
+        (current, edit) => photoService.recordEdit(current, edit.type, edit.params, edit.uri, edit.size),
+        photo
+      );
+
+      setPendingEdits([]);
+      onSave(edits.length > 0 ? await photoService.refreshThumbnail(editedPhoto) : editedPhoto);
       animateClose();
     } catch (error) {
       Alert.alert('Error', 'Failed to save edits');
@@ -437,6 +556,24 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({
     </View>
   );
 
+  const renderCropOptions = () => (
+    <View style={styles.rotateContainer}>
+      {CROP_PRESETS.map(preset => (
+        <TouchableOpacity
+          key={preset.id}
+          style={styles.rotateButton}
+          onPress={() => applyCropPreset(preset)}
+          disabled={isProcessing}
+        >
+          <MaterialCommunityIcons name="crop" size={32} color={theme.colors.text.primary} />
+          <Text style={[styles.rotateButtonText, { color: theme.colors.text.secondary }]}>
+            {preset.name}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
   const renderRotateOptions = () => (
     <View style={styles.rotateContainer}>
       <TouchableOpacity
@@ -473,6 +610,8 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({
 
   const renderEditOptions = () => {
     switch (editMode) {
+      case 'crop':
+        return renderCropOptions();
       case 'filter':
         return renderFilterOptions();
       case 'adjust':
@@ -535,7 +674,7 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({
           {/* Photo Preview */}
           <View style={styles.photoContainer}>
             <Image
-              source={{ uri: previewUri }}
+              source={{ uri: adjustedPreviewUri || previewUri }}
               style={styles.photo}
               resizeMode="contain"
             />
@@ -557,6 +696,27 @@ export const PhotoEditor: React.FC<PhotoEditorProps> = ({
               </View>
             )}
             
+            {(pendingEdits.length > 0 || !!photo.originalUri) && (
+              <View style={styles.historyActions}>
+                <TouchableOpacity
+                  style={styles.historyButton}
+                  onPress={undoLastEdit}
+                  disabled={isProcessing}
+                >
+                  <Ionicons name="arrow-undo" size={20} color="white" />
+                </TouchableOpacity>
+                {!!photo.originalUri && (
+                  <TouchableOpacity
+                    style={styles.historyButton}
+                    onPress={restoreOriginal}
+                    disabled={isProcessing}
+                  >
+                    <MaterialCommunityIcons name="restore" size={20} color="white" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+            
             {isProcessing && (
               <View style={styles.processingOverlay}>
                 <ActivityIndicator size="large" color={colors.purple[400]} />
@@ -630,6 +790,21 @@ const styles = StyleSheet.create({
     borderColor: colors.purple[400],
     borderStyle: 'dashed',
   },
+  historyActions: {
+    position: 'absolute',
+    top: spacing[4],
+    right: spacing[4],
+    flexDirection: 'row',
+    gap: spacing[2],
+  },
+  historyButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   processingOverlay: {
     ...StyleSheet.absoluteFillObject,
     backgroundColor: 'rgba(0, 0, 0, 0.7)',
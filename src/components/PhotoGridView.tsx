@@ -5,7 +5,6 @@ import {
   StyleSheet,
   TouchableOpacity,
   ScrollView,
-  Image,
   Dimensions,
   RefreshControl,
   ActivityIndicator,
@@ -24,6 +23,7 @@ import { spacing, borderRadius } from '../styles/theme';
 import { PhotoMetadata, photoService, PhotoOrganizationOptions } from '../services/photoService';
 import { PhotoGallery } from './PhotoGallery';
 import { PhotoPreview } from './PhotoPreview';
+import { PhotoThumbnail } from './PhotoThumbnail';
 
 // Enable LayoutAnimation on Android
 if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
@@ -250,10 +250,9 @@ export const PhotoGridView: React.FC<PhotoGridViewProps> = ({
           onLongPress={() => handlePhotoLongPress(photo)}
         >
           <View style={[styles.photoContainer, isSelected && styles.photoContainerSelected]}>
-            <Image
-              source={{ uri: photo.thumbnailUri || photo.uri }}
+            <PhotoThumbnail
+              photo={photo}
               style={styles.photo}
-              resizeMode="cover"
             />
             
             {/* Selection overlay */}
@@ -4,7 +4,6 @@ import {
   Text,
   TouchableOpacity,
   StyleSheet,
-  Image,
   ScrollView,
   Alert,
 } from 'react-native';
@@ -13,6 +12,7 @@ import * as ImagePicker from 'expo-image-picker';
 import { useTheme } from '../contexts/ThemeContext';
 import { colors } from '../styles/colors';
 import { spacing, borderRadius } from '../styles/theme';
+import { PhotoThumbnail } from './PhotoThumbnail';
 
 interface PhotoManagerProps {
   photos: string[];
@@ -46,9 +46,9 @@ export const PhotoManager: React.FC<PhotoManagerProps> = ({
     try {
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [4, 3],
-        quality: 0.8,
+        // Untouched originals keep their EXIF (capture time, GPS);
+        // photos are compressed when the action is saved
+        quality: 1,
         allowsMultipleSelection: true,
         selectionLimit: Math.min(maxPhotos - photos.length, 5),
       });
@@ -126,7 +126,7 @@ export const PhotoManager: React.FC<PhotoManagerProps> = ({
         >
           {photos.map((uri, index) => (
             <View key={index} style={styles.photoItem}>
-              <Image source={{ uri }} style={styles.photo} />
+              <PhotoThumbnail photo={{ uri }} style={styles.photo} />
               <TouchableOpacity
                 style={styles.removeButton}
                 onPress={() => removePhoto(index)}
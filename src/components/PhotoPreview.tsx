@@ -22,6 +22,7 @@ import { spacing, borderRadius } from '../styles/theme';
 import { PhotoMetadata } from '../services/photoService';
 import { PhotoGallery } from './PhotoGallery';
 import { PhotoEditor } from './PhotoEditor';
+import { PhotoThumbnail } from './PhotoThumbnail';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
@@ -386,7 +387,7 @@ export const PhotoPreview: React.FC<PhotoPreviewProps> = ({
                   // Switch to the related photo
                 }}
               >
-                <Image source={{ uri: relatedPhoto.thumbnailUri || relatedPhoto.uri }} style={styles.relatedPhotoImage} />
+                <PhotoThumbnail photo={relatedPhoto} style={styles.relatedPhotoImage} />
               </TouchableOpacity>
             ))}
           </ScrollView>
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Image, ImageResizeMode, ImageStyle, StyleProp, View } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+import { photoService } from '../services/photoService';
+
+interface PhotoThumbnailProps {
+  photo: { id?: string; uri: string; thumbnailUri?: string };
+  style?: StyleProp<ImageStyle>;
+  resizeMode?: ImageResizeMode;
+}
+
+// Small photo for grids and lists; never decodes the full-resolution file
+export const PhotoThumbnail: React.FC<PhotoThumbnailProps> = ({
+  photo,
+  style,
+  resizeMode = 'cover',
+}) => {
+  const { theme } = useTheme();
+  const [uri, setUri] = useState<string | undefined>(() => photoService.getCachedThumbnail(photo));
+  const retried = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    retried.current = false;
+
+    photoService.getThumbnail(photo).then(thumbnailUri => {
+      if (!cancelled) setUri(thumbnailUri);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [photo.id, photo.uri, photo.thumbnailUri]);
+
+  // The thumbnail file disappeared since it was checked: regenerate once
+  const handleError = () => {
+    if (retried.current || uri === photo.uri) return;
+    retried.current = true;
+
+    photoService.invalidateThumbnail(photo);
+    photoService.getThumbnail({ id: photo.id, uri: photo.uri }).then(setUri);
+  };
+
+  if (!uri) {
+    return <View style={[style as any, { backgroundColor: theme.colors.background.secondary }]} />;
+  }
+
+  return (
+    <Image
+      source={{ uri }}
+      style={style}
+      resizeMode={resizeMode}
+      onError={handleError}
+    />
+  );
+};
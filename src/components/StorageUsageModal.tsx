@@ -0,0 +1,548 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Animated,
+  Dimensions,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { BlurView } from 'expo-blur';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { colors } from '../styles/colors';
+import { ParkType } from '../types/models';
+import { photoService } from '../services/photoService';
+import {
+  photoStorageService,
+  StorageUsageReport,
+  OrphanCleanupResult,
+} from '../services/photoStorageService';
+
+const { width, height } = Dimensions.get('window');
+
+interface StorageUsageModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onCleanupComplete?: () => void;
+}
+
+export const StorageUsageModal: React.FC<StorageUsageModalProps> = ({
+  visible,
+  onClose,
+  onCleanupComplete,
+}) => {
+  const { theme, themeMode } = useTheme();
+  const { language } = useLanguage();
+  const isDark = themeMode === 'dark';
+
+  const [step, setStep] = useState<'scanning' | 'report' | 'cleaning' | 'cleaned' | 'error'>('scanning');
+  const [report, setReport] = useState<StorageUsageReport | null>(null);
+  const [cleanupResult, setCleanupResult] = useState<OrphanCleanupResult | null>(null);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+  const scaleAnim = useRef(new Animated.Value(0.5)).current;
+
+  useEffect(() => {
+    if (visible) {
+      setReport(null);
+      setCleanupResult(null);
+      setErrorMessage('');
+      runScan();
+
+      // Animate in
+      fadeAnim.setValue(0);
+      scaleAnim.setValue(0.5);
+      Animated.parallel([
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.spring(scaleAnim, {
+          toValue: 1,
+          useNativeDriver: true,
+          tension: 100,
+          friction: 8,
+        }),
+      ]).start();
+    }
+  }, [visible]);
+
+  const runScan = async () => {
+    setStep('scanning');
+    try {
+      setReport(await photoStorageService.scan());
+      setStep('report');
+    } catch (error) {
+      setStep('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const handleDeleteOrphans = async () => {
+    if (!report) return;
+
+    setStep('cleaning');
+    try {
+      setCleanupResult(await photoStorageService.deleteOrphans(report.orphans));
+      setStep('cleaned');
+      onCleanupComplete?.();
+    } catch (error) {
+      setStep('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const handleClearCache = async () => {
+    setStep('cleaning');
+    try {
+      await photoService.clearCache();
+      onCleanupComplete?.();
+      await runScan();
+    } catch (error) {
+      setStep('error');
+      setErrorMessage(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const handleClose = () => {
+    Animated.parallel([
+      Animated.timing(fadeAnim, {
+        toValue: 0,
+        duration: 200,
+        useNativeDriver: true,
+      }),
+      Animated.timing(scaleAnim, {
+        toValue: 0.5,
+        duration: 200,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      onClose();
+    });
+  };
+
+  const formatDate = (date: Date): string => {
+    return date.toLocaleDateString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const getParkName = (parkType: ParkType): string => {
+    if (language === 'ja') {
+      return parkType === ParkType.LAND ? 'ランド' : 'シー';
+    }
+    return parkType === ParkType.LAND ? 'Land' : 'Sea';
+  };
+
+  const renderBreakdown = (usage: StorageUsageReport) => {
+    const rows = [
+      { key: 'photos', label: language === 'ja' ? '写真' : 'Photos', size: usage.photoSize, color: colors.purple[500] },
+      { key: 'thumbnails', label: language === 'ja' ? 'サムネイル' : 'Thumbnails', size: usage.thumbnailSize, color: colors.blue[500] },
+      { key: 'cache', label: language === 'ja' ? 'キャッシュ' : 'Cache', size: usage.cacheSize, color: colors.gray[400] },
+    ];
+
+    return (
+      <View style={styles.breakdown}>
+        <View style={[styles.usageBar, { backgroundColor: theme.colors.background.secondary }]}>
+          {usage.totalSize > 0 && rows.map(row => (
+            <View
+              key={row.key}
+              style={{ flex: row.size / usage.totalSize, backgroundColor: row.color }}
+            />
+          ))}
+        </View>
+        {rows.map(row => (
+          <View key={row.key} style={styles.row}>
+            <View style={[styles.legendDot, { backgroundColor: row.color }]} />
+            <Text style={[styles.rowLabel, { color: theme.colors.text.primary }]}>{row.label}</Text>
+            <Text style={[styles.rowValue, { color: theme.colors.text.secondary }]}>
+              {photoStorageService.formatSize(row.size)}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderVisits = (usage: StorageUsageReport) => {
+    if (usage.visits.length === 0) return null;
+
+    return (
+      <>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text.secondary }]}>
+          {language === 'ja' ? '来園ごとの使用量' : 'Usage by Visit'}
+        </Text>
+        {usage.visits.map(visit => (
+          <View key={visit.visitId} style={styles.row}>
+            <Ionicons
+              name={visit.parkType === ParkType.LAND ? 'home' : 'boat'}
+              size={14}
+              color={visit.parkType === ParkType.LAND ? colors.orange[500] : colors.blue[500]}
+            />
+            <Text style={[styles.rowLabel, { color: theme.colors.text.primary }]} numberOfLines={1}>
+              {formatDate(visit.date)} · {getParkName(visit.parkType)}
+            </Text>
+            <Text style={[styles.rowDetail, { color: theme.colors.text.secondary }]}>
+              {language === 'ja' ? `${visit.photoCount}枚` : `${visit.photoCount} photos`}
+            </Text>
+            <Text style={[styles.rowValue, { color: theme.colors.text.secondary }]}>
+              {photoStorageService.formatSize(visit.size)}
+            </Text>
+          </View>
+        ))}
+      </>
+    );
+  };
+
+  const renderContent = () => {
+    switch (step) {
+      case 'scanning':
+      case 'cleaning':
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <ActivityIndicator size="large" color={colors.blue[500]} />
+            </View>
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {step === 'scanning'
+                ? (language === 'ja' ? '使用量を計算中...' : 'Calculating usage...')
+                : (language === 'ja' ? '削除中...' : 'Cleaning up...')
+              }
+            </Text>
+          </>
+        );
+
+      case 'report':
+        if (!report) return null;
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <LinearGradient
+                colors={[colors.purple[400], colors.purple[600]]}
+                style={styles.iconGradient}
+              >
+                <Ionicons name="folder-open" size={32} color="white" />
+              </LinearGradient>
+            </View>
+
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {photoStorageService.formatSize(report.totalSize)}
+            </Text>
+            <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
+              {language === 'ja' ? '写真データの使用量' : 'Used by photo data'}
+            </Text>
+
+            <ScrollView style={styles.scrollArea}>
+              {renderBreakdown(report)}
+              {renderVisits(report)}
+
+              {report.orphans.length > 0 && (
+                <View style={[styles.orphanNotice, { backgroundColor: colors.orange[500] + '20' }]}>
+                  <Ionicons name="alert-circle" size={16} color={colors.orange[500]} />
+                  <Text style={[styles.orphanText, { color: theme.colors.text.primary }]}>
+                    {language === 'ja'
+                      ? `どの記録にも使われていないファイルが${report.orphans.length}件あります（${photoStorageService.formatSize(report.orphanSize)}）`
+                      : `${report.orphans.length} files are not used by any record (${photoStorageService.formatSize(report.orphanSize)})`
+                    }
+                  </Text>
+                </View>
+              )}
+
+              {report.cacheSize > 0 && (
+                <TouchableOpacity style={styles.linkButton} onPress={handleClearCache}>
+                  <Text style={[styles.linkButtonText, { color: colors.blue[500] }]}>
+                    {language === 'ja' ? 'キャッシュを消去' : 'Clear Cache'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+
+            <View style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton, { borderColor: theme.colors.text.secondary }]}
+                onPress={handleClose}
+              >
+                <Text style={[styles.buttonText, { color: theme.colors.text.secondary }]}>
+                  {language === 'ja' ? '閉じる' : 'Close'}
+                </Text>
+              </TouchableOpacity>
+
+              {report.orphans.length > 0 && (
+                <TouchableOpacity style={styles.button} onPress={handleDeleteOrphans}>
+                  <LinearGradient
+                    colors={[colors.orange[400], colors.orange[600]]}
+                    style={styles.buttonGradient}
+                  >
+                    <Text style={styles.buttonTextWhite}>
+                      {language === 'ja' ? '未使用を削除' : 'Delete Unused'}
+                    </Text>
+                  </LinearGradient>
+                </TouchableOpacity>
+              )}
+            </View>
+          </>
+        );
+
+      case 'cleaned':
+        if (!cleanupResult) return null;
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <LinearGradient
+                colors={['#4ecdc4', '#45b7b8']}
+                style={styles.iconGradient}
+              >
+                <Ionicons name="checkmark" size={32} color="white" />
+              </LinearGradient>
+            </View>
+
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? '削除完了' : 'Cleanup Complete'}
+            </Text>
+
+            <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
+              {language === 'ja'
+                ? `${cleanupResult.deleted}件のファイルを削除し、${photoStorageService.formatSize(cleanupResult.freedSize)}を解放しました。`
+                : `Deleted ${cleanupResult.deleted} files and freed ${photoStorageService.formatSize(cleanupResult.freedSize)}.`
+              }
+              {cleanupResult.skipped > 0 && (language === 'ja'
+                ? `\n使用中または作成直後の${cleanupResult.skipped}件は残しました。`
+                : `\n${cleanupResult.skipped} files in use or just created were kept.`
+              )}
+            </Text>
+
+            <TouchableOpacity style={[styles.button, { width: '100%' }]} onPress={handleClose}>
+              <LinearGradient
+                colors={['#4ecdc4', '#45b7b8']}
+                style={styles.buttonGradient}
+              >
+                <Text style={styles.buttonTextWhite}>
+                  {language === 'ja' ? '完了' : 'Done'}
+                </Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          </>
+        );
+
+      case 'error':
+        return (
+          <>
+            <View style={styles.iconContainer}>
+              <View style={[styles.iconGradient, { backgroundColor: colors.red[500] }]}>
+                <Ionicons name="close" size={32} color="white" />
+              </View>
+            </View>
+
+            <Text style={[styles.title, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? 'エラー' : 'Error'}
+            </Text>
+
+            <Text style={[styles.description, { color: theme.colors.text.secondary }]}>
+              {errorMessage || (language === 'ja' ? '使用量の計算中にエラーが発生しました' : 'An error occurred while calculating usage')}
+            </Text>
+
+            <TouchableOpacity style={[styles.button, { width: '100%' }]} onPress={handleClose}>
+              <LinearGradient
+                colors={[colors.red[500], colors.red[600]]}
+                style={styles.buttonGradient}
+              >
+                <Text style={styles.buttonTextWhite}>
+                  {language === 'ja' ? '閉じる' : 'Close'}
+                </Text>
+              </LinearGradient>
+            </TouchableOpacity>
+          </>
+        );
+    }
+  };
+
+  const isBusy = step === 'scanning' || step === 'cleaning';
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="none"
+      onRequestClose={isBusy ? undefined : handleClose}
+    >
+      <BlurView
+        style={styles.overlay}
+        intensity={20}
+        tint={isDark ? 'dark' : 'light'}
+      >
+        <TouchableOpacity
+          style={styles.overlay}
+          activeOpacity={1}
+          onPress={isBusy ? undefined : handleClose}
+        >
+          <Animated.View
+            style={[
+              styles.modalContainer,
+              {
+                opacity: fadeAnim,
+                transform: [{ scale: scaleAnim }],
+                backgroundColor: isDark ? 'rgba(28, 28, 30, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+              },
+            ]}
+          >
+            <TouchableOpacity activeOpacity={1} onPress={(e) => e.stopPropagation()}>
+              <View style={styles.modal}>
+                {renderContent()}
+              </View>
+            </TouchableOpacity>
+          </Animated.View>
+        </TouchableOpacity>
+      </BlurView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    borderRadius: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 10 },
+    shadowOpacity: 0.3,
+    shadowRadius: 20,
+    elevation: 20,
+  },
+  modal: {
+    padding: 24,
+    alignItems: 'center',
+    maxWidth: width - 40,
+    width: '100%',
+  },
+  iconContainer: {
+    marginBottom: 16,
+  },
+  iconGradient: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 24,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  scrollArea: {
+    width: '100%',
+    maxHeight: height * 0.4,
+    marginBottom: 24,
+  },
+  breakdown: {
+    width: '100%',
+  },
+  usageBar: {
+    flexDirection: 'row',
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  rowLabel: {
+    fontSize: 15,
+    marginLeft: 8,
+    flex: 1,
+  },
+  rowDetail: {
+    fontSize: 13,
+    marginRight: 12,
+  },
+  rowValue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  orphanNotice: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  orphanText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  linkButton: {
+    alignSelf: 'center',
+    paddingVertical: 8,
+    marginTop: 8,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    width: '100%',
+  },
+  button: {
+    flex: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  cancelButton: {
+    borderWidth: 1,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonGradient: {
+    padding: 16,
+    alignItems: 'center',
+    borderRadius: 12,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonTextWhite: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
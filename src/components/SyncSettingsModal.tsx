@@ -0,0 +1,366 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { colors } from '../styles/colors';
+import { spacing, borderRadius } from '../styles/theme';
+import { storage } from '../services/storage';
+import { syncService, SyncResult } from '../services/syncService';
+
+interface SyncSettingsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSyncComplete?: () => void;
+}
+
+export const SyncSettingsModal: React.FC<SyncSettingsModalProps> = ({
+  visible,
+  onClose,
+  onSyncComplete,
+}) => {
+  const { theme } = useTheme();
+  const { language } = useLanguage();
+
+  const [baseUrl, setBaseUrl] = useState('');
+  const [authToken, setAuthToken] = useState('');
+  const [isConfigured, setIsConfigured] = useState(false);
+  const [pending, setPending] = useState<{ dirty: number; deleted: number } | null>(null);
+  const [lastSyncDate, setLastSyncDate] = useState<Date | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    syncService.getConfig().then(config => {
+      setBaseUrl(config?.baseUrl || '');
+      setAuthToken(config?.authToken || '');
+      setIsConfigured(!!config?.baseUrl);
+    });
+    loadStatus();
+  }, [visible]);
+
+  const loadStatus = async () => {
+    try {
+      const [changes, syncedAt] = await Promise.all([
+        syncService.getPendingChanges(),
+        storage.getLastSyncDate(),
+      ]);
+      setPending(changes);
+      setLastSyncDate(syncedAt);
+    } catch (error) {
+      console.error('Failed to load sync status:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    const url = baseUrl.trim();
+    if (url && !/^https?:\/\/\S+$/.test(url)) {
+      Alert.alert(
+        language === 'ja' ? '入力内容を確認してください' : 'Please check your input',
+        language === 'ja'
+          ? 'サーバーURLは http:// または https:// で始まる必要があります'
+          : 'The server URL must start with http:// or https://'
+      );
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (url) {
+        await syncService.saveConfig({ baseUrl: url, authToken: authToken.trim() || undefined });
+      } else {
+        await syncService.clearConfig();
+      }
+      setIsConfigured(!!url);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save sync settings:', error);
+      Alert.alert(
+        language === 'ja' ? 'エラー' : 'Error',
+        language === 'ja' ? '同期設定の保存に失敗しました' : 'Failed to save sync settings'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const getResultMessage = (result: SyncResult): string => {
+    const sent = result.pushed.created + result.pushed.updated + result.pushed.deleted;
+    const received = result.pulled.created + result.pulled.updated + result.pulled.deleted;
+    const lines = language === 'ja'
+      ? [`送信: ${sent}件`, `受信: ${received}件`, `写真のアップロード: ${result.photosUploaded}枚`]
+      : [`Sent: ${sent}`, `Received: ${received}`, `Photos uploaded: ${result.photosUploaded}`];
+
+    if (result.conflicts > 0) {
+      lines.push(language === 'ja'
+        ? `競合: ${result.conflicts}件（新しい方を採用）`
+        : `Conflicts: ${result.conflicts} (newer copy kept)`);
+    }
+    if (result.errors.length > 0) {
+      lines.push('', ...result.errors.slice(0, 3));
+    }
+    return lines.join('\n');
+  };
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await syncService.sync();
+      Alert.alert(
+        result.success
+          ? (language === 'ja' ? '同期しました' : 'Sync Complete')
+          : (language === 'ja' ? '同期に失敗しました' : 'Sync Failed'),
+        getResultMessage(result)
+      );
+      // A partly failed sync may still have pulled records
+      onSyncComplete?.();
+    } finally {
+      setIsSyncing(false);
+      loadStatus();
+    }
+  };
+
+  const formatSyncDate = (date: Date) =>
+    date.toLocaleString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: theme.colors.text.primary,
+      backgroundColor: theme.colors.background.secondary,
+      borderColor: theme.colors.utility.borderLight,
+    },
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: theme.colors.background.primary }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.utility.borderLight }]}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="close" size={24} color={theme.colors.text.primary} />
+          </TouchableOpacity>
+
+          <Text style={[styles.headerTitle, { color: theme.colors.text.primary }]}>
+            {language === 'ja' ? 'クラウド同期' : 'Cloud Sync'}
+          </Text>
+
+          <TouchableOpacity
+            onPress={handleSave}
+            disabled={isSaving || isSyncing}
+            style={[styles.headerButton, { opacity: isSaving || isSyncing ? 0.5 : 1 }]}
+          >
+            <Text style={[styles.saveText, { color: colors.blue[500] }]}>
+              {language === 'ja' ? '保存' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Server */}
+          <View style={[styles.section, { backgroundColor: theme.colors.background.card }]}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? '同期サーバー' : 'Sync Server'}
+            </Text>
+            <Text style={[styles.label, { color: theme.colors.text.secondary }]}>
+              {language === 'ja' ? 'サーバーURL' : 'Server URL'}
+            </Text>
+            <TextInput
+              style={inputStyle}
+              value={baseUrl}
+              onChangeText={setBaseUrl}
+              placeholder="https://api.example.com"
+              placeholderTextColor={theme.colors.text.secondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <Text style={[styles.label, { color: theme.colors.text.secondary }]}>
+              {language === 'ja' ? 'アクセストークン（任意）' : 'Access Token (optional)'}
+            </Text>
+            <TextInput
+              style={inputStyle}
+              value={authToken}
+              onChangeText={setAuthToken}
+              placeholder={language === 'ja' ? '未設定' : 'Not set'}
+              placeholderTextColor={theme.colors.text.secondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+            <Text style={[styles.hint, { color: theme.colors.text.secondary }]}>
+              {language === 'ja'
+                ? '来園記録・同行者・アクション・写真を他の端末と同期します。URLを空欄にして保存すると同期を停止します。'
+                : 'Visits, companions, actions and photos are synced with your other devices. Save with an empty URL to stop syncing.'
+              }
+            </Text>
+          </View>
+
+          {/* Status */}
+          <View style={[styles.section, { backgroundColor: theme.colors.background.card }]}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? '同期の状態' : 'Sync Status'}
+            </Text>
+            <View style={styles.statusRow}>
+              <Text style={[styles.statusLabel, { color: theme.colors.text.secondary }]}>
+                {language === 'ja' ? '最終同期' : 'Last synced'}
+              </Text>
+              <Text style={[styles.statusValue, { color: theme.colors.text.primary }]}>
+                {lastSyncDate ? formatSyncDate(lastSyncDate) : (language === 'ja' ? 'なし' : 'Never')}
+              </Text>
+            </View>
+            {pending && (
+              <View style={styles.statusRow}>
+                <Text style={[styles.statusLabel, { color: theme.colors.text.secondary }]}>
+                  {language === 'ja' ? '未送信の変更' : 'Unsent changes'}
+                </Text>
+                <Text style={[styles.statusValue, { color: theme.colors.text.primary }]}>
+                  {pending.dirty + pending.deleted}
+                </Text>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[
+                styles.syncButton,
+                { backgroundColor: colors.blue[500] },
+                (!isConfigured || isSyncing) && styles.buttonDisabled,
+              ]}
+              onPress={handleSync}
+              disabled={!isConfigured || isSyncing}
+            >
+              {isSyncing ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Ionicons name="sync" size={18} color="white" />
+              )}
+              <Text style={styles.syncButtonText}>
+                {language === 'ja' ? '今すぐ同期' : 'Sync Now'}
+              </Text>
+            </TouchableOpacity>
+            {!isConfigured && (
+              <Text style={[styles.hint, { color: theme.colors.text.secondary }]}>
+                {language === 'ja'
+                  ? 'サーバーURLを保存すると同期できます'
+                  : 'Save a server URL to start syncing'
+                }
+              </Text>
+            )}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing[4],
+    paddingVertical: spacing[3],
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    padding: spacing[2],
+    minWidth: 60,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    flex: 1,
+    textAlign: 'center',
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    margin: spacing[4],
+    marginBottom: spacing[2],
+    borderRadius: borderRadius.lg,
+    padding: spacing[4],
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: spacing[3],
+  },
+  label: {
+    fontSize: 13,
+    marginBottom: spacing[1],
+  },
+  input: {
+    fontSize: 16,
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[3],
+    marginBottom: spacing[3],
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 18,
+    marginTop: spacing[2],
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing[2],
+  },
+  statusLabel: {
+    fontSize: 14,
+  },
+  statusValue: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  syncButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing[2],
+    marginTop: spacing[2],
+    paddingVertical: spacing[3],
+    borderRadius: borderRadius.md,
+  },
+  syncButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { colors } from '../styles/colors';
+import { spacing, borderRadius } from '../styles/theme';
+import { formatYen } from '../utils/spending';
+
+interface TicketPriceInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  suggestedPrice?: number; // Standard price of the selected pass
+}
+
+export const TicketPriceInput: React.FC<TicketPriceInputProps> = ({
+  value,
+  onChange,
+  suggestedPrice,
+}) => {
+  const { theme } = useTheme();
+  const { language } = useLanguage();
+
+  const showSuggestion = suggestedPrice !== undefined && value !== String(suggestedPrice);
+
+  return (
+    <View>
+      <View style={[
+        styles.inputContainer,
+        {
+          backgroundColor: theme.colors.background.secondary,
+          borderColor: theme.colors.utility.borderLight,
+        }
+      ]}>
+        <Text style={[styles.currency, { color: theme.colors.text.secondary }]}>¥</Text>
+        <TextInput
+          style={[styles.input, { color: theme.colors.text.primary }]}
+          value={value}
+          onChangeText={onChange}
+          keyboardType="numeric"
+          placeholder={suggestedPrice !== undefined ? String(suggestedPrice) : '0'}
+          placeholderTextColor={theme.colors.text.secondary}
+        />
+      </View>
+
+      {showSuggestion && (
+        <TouchableOpacity
+          style={styles.suggestion}
+          onPress={() => onChange(String(suggestedPrice))}
+        >
+          <Ionicons name="pricetag-outline" size={14} color={colors.purple[500]} />
+          <Text style={[styles.suggestionText, { color: colors.purple[500] }]}>
+            {language === 'ja'
+              ? `標準価格 ${formatYen(suggestedPrice!)} を入力`
+              : `Use standard price ${formatYen(suggestedPrice!)}`
+            }
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: borderRadius.lg,
+    paddingHorizontal: spacing[4],
+  },
+  currency: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginRight: spacing[2],
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: spacing[3],
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: spacing[2],
+  },
+  suggestionText: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginLeft: spacing[1],
+  },
+});
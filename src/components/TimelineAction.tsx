@@ -5,7 +5,6 @@ import {
   TouchableOpacity,
   StyleSheet,
   Animated,
-  Image,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons } from '@expo/vector-icons';
@@ -13,6 +12,8 @@ import { TimelineAction as TimelineActionType, ActionCategory } from '../types/m
 import { useTheme } from '../contexts/ThemeContext';
 import { colors } from '../styles/colors';
 import { spacing, borderRadius } from '../styles/theme';
+import { getActionSpend, formatYen } from '../utils/spending';
+import { PhotoThumbnail } from './PhotoThumbnail';
 
 interface TimelineActionProps {
   action: TimelineActionType;
@@ -104,6 +105,47 @@ export const TimelineAction: React.FC<TimelineActionProps> = ({
     return null;
   };
 
+  // Category-specific facts shown next to duration and wait time
+  const getCategoryDetails = (): { icon: keyof typeof Ionicons.glyphMap; text: string }[] => {
+    const details: { icon: keyof typeof Ionicons.glyphMap; text: string }[] = [];
+
+    switch (action.category) {
+      case ActionCategory.RESTAURANT:
+        if (action.mealType) {
+          const mealLabels = { BREAKFAST: 'Breakfast', LUNCH: 'Lunch', DINNER: 'Dinner', SNACK: 'Snack' };
+          details.push({ icon: 'restaurant-outline', text: mealLabels[action.mealType] });
+        }
+        if (getActionSpend(action) > 0) {
+          details.push({ icon: 'cash-outline', text: formatYen(getActionSpend(action)) });
+        }
+        break;
+      case ActionCategory.SHOPPING:
+        if (getActionSpend(action) > 0) {
+          details.push({ icon: 'cash-outline', text: formatYen(getActionSpend(action)) });
+        }
+        if (action.purchasedItems?.length) {
+          const count = action.purchasedItems.length;
+          details.push({ icon: 'bag-outline', text: `${count} item${count === 1 ? '' : 's'}` });
+        }
+        break;
+      case ActionCategory.SHOW:
+        if (action.showTime) {
+          details.push({ icon: 'musical-notes-outline', text: action.showTime });
+        }
+        if (action.performerNames?.length) {
+          details.push({ icon: 'people-outline', text: action.performerNames.join(', ') });
+        }
+        break;
+      case ActionCategory.GREETING:
+        if (action.performerNames?.length) {
+          details.push({ icon: 'people-outline', text: action.performerNames.join(', ') });
+        }
+        break;
+    }
+
+    return details;
+  };
+
   const getRatingStars = () => {
     if (!action.rating) return null;
     return Array.from({ length: 5 }, (_, i) => (
@@ -210,10 +252,9 @@ export const TimelineAction: React.FC<TimelineActionProps> = ({
                           { marginLeft: index > 0 ? -8 : 0 },
                         ]}
                       >
-                        <Image
-                          source={{ uri: photo.thumbnailUri || photo.uri }}
+                        <PhotoThumbnail
+                          photo={photo}
                           style={styles.thumbnailImage}
-                          resizeMode="cover"
                         />
                       </View>
                     ))}
@@ -291,6 +332,25 @@ export const TimelineAction: React.FC<TimelineActionProps> = ({
                   </View>
                 )}
 
+                {getCategoryDetails().map(detail => (
+                  <View key={detail.icon} style={styles.metaItem}>
+                    <Ionicons
+                      name={detail.icon}
+                      size={12}
+                      color={theme.colors.text.secondary}
+                    />
+                    <Text
+                      style={[
+                        styles.metaText,
+                        { color: theme.colors.text.secondary },
+                      ]}
+                      numberOfLines={1}
+                    >
+                      {detail.text}
+                    </Text>
+                  </View>
+                ))}
+
                 {action.rating && (
                   <View style={[styles.metaItem, styles.ratingContainer]}>
                     {getRatingStars()}
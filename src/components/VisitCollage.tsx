@@ -0,0 +1,190 @@
+import React, { forwardRef } from 'react';
+import Svg, {
+  Defs,
+  LinearGradient,
+  Stop,
+  ClipPath,
+  Rect,
+  Image as SvgImage,
+  Text as SvgText,
+} from 'react-native-svg';
+import { CollageLayout } from '../utils/collageLayout';
+
+export interface CollageHighlight {
+  time: string;
+  title: string;
+}
+
+interface VisitCollageProps {
+  layout: CollageLayout;
+  // Display size; the drawing is always in the layout's output pixels
+  width: number;
+  height: number;
+  parkName: string;
+  dateLabel: string;
+  weatherLabel?: string;
+  accentColor: string;
+  photos: (string | undefined)[]; // Data URIs, one per layout cell
+  highlightsTitle: string;
+  highlights: CollageHighlight[];
+  onPhotoLoad?: () => void;
+}
+
+const HIGHLIGHT_MAX_LENGTH = 26;
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+/**
+ * Visit summary drawn as SVG so it can be exported with toDataURL
+ */
+export const VisitCollage = forwardRef<Svg, VisitCollageProps>(({
+  layout,
+  width,
+  height,
+  parkName,
+  dateLabel,
+  weatherLabel,
+  accentColor,
+  photos,
+  highlightsTitle,
+  highlights,
+  onPhotoLoad,
+}, ref) => {
+  const { template, header, summary } = layout;
+
+  return (
+    <Svg
+      ref={ref}
+      width={width}
+      height={height}
+      viewBox={`0 0 ${template.width} ${template.height}`}
+    >
+      <Defs>
+        <LinearGradient id="background" x1="0" y1="0" x2="0" y2="1">
+          <Stop offset="0" stopColor={accentColor} stopOpacity="1" />
+          <Stop offset="1" stopColor="#1c1c1e" stopOpacity="1" />
+        </LinearGradient>
+        {layout.photos.map((cell, index) => (
+          <ClipPath key={index} id={`photo-${index}`}>
+            <Rect x={cell.x} y={cell.y} width={cell.width} height={cell.height} rx={24} />
+          </ClipPath>
+        ))}
+      </Defs>
+
+      <Rect x={0} y={0} width={template.width} height={template.height} fill="url(#background)" />
+
+      {/* Header */}
+      <SvgText
+        x={header.x}
+        y={header.height * 0.5}
+        fill="white"
+        fontSize={64}
+        fontWeight="bold"
+      >
+        {parkName}
+      </SvgText>
+      <SvgText
+        x={header.x}
+        y={header.height * 0.5 + 60}
+        fill="white"
+        fillOpacity={0.85}
+        fontSize={36}
+      >
+        {dateLabel}
+      </SvgText>
+      {weatherLabel && (
+        <SvgText
+          x={header.x + header.width}
+          y={header.height * 0.5 + 60}
+          fill="white"
+          fillOpacity={0.85}
+          fontSize={36}
+          textAnchor="end"
+        >
+          {weatherLabel}
+        </SvgText>
+      )}
+
+      {/* Photos */}
+      {layout.photos.map((cell, index) => (
+        photos[index] ? (
+          <SvgImage
+            key={index}
+            x={cell.x}
+            y={cell.y}
+            width={cell.width}
+            height={cell.height}
+            href={photos[index]}
+            preserveAspectRatio="xMidYMid slice"
+            clipPath={`url(#photo-${index})`}
+            onLoad={onPhotoLoad}
+          />
+        ) : (
+          <Rect
+            key={index}
+            x={cell.x}
+            y={cell.y}
+            width={cell.width}
+            height={cell.height}
+            rx={24}
+            fill="white"
+            fillOpacity={0.15}
+          />
+        )
+      ))}
+
+      {/* Highlights */}
+      <Rect
+        x={summary.x}
+        y={summary.y}
+        width={summary.width}
+        height={summary.height}
+        rx={24}
+        fill="white"
+        fillOpacity={0.12}
+      />
+      <SvgText
+        x={summary.x + 32}
+        y={summary.y + 56}
+        fill="white"
+        fontSize={32}
+        fontWeight="bold"
+      >
+        {highlightsTitle}
+      </SvgText>
+      {highlights.slice(0, template.maxActions).map((highlight, index) => (
+        <React.Fragment key={index}>
+          <SvgText
+            x={summary.x + 32}
+            y={summary.y + 112 + index * 56}
+            fill={accentColor}
+            fontSize={30}
+            fontWeight="bold"
+          >
+            {highlight.time}
+          </SvgText>
+          <SvgText
+            x={summary.x + 150}
+            y={summary.y + 112 + index * 56}
+            fill="white"
+            fontSize={30}
+          >
+            {truncate(highlight.title, HIGHLIGHT_MAX_LENGTH)}
+          </SvgText>
+        </React.Fragment>
+      ))}
+
+      <SvgText
+        x={template.width - 24}
+        y={template.height - 16}
+        fill="white"
+        fillOpacity={0.6}
+        fontSize={24}
+        textAnchor="end"
+      >
+        #TDRDays
+      </SvgText>
+    </Svg>
+  );
+});
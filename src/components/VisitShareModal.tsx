@@ -0,0 +1,494 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Dimensions,
+  ActivityIndicator,
+  Alert,
+  PixelRatio,
+} from 'react-native';
+import Svg from 'react-native-svg';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { Visit, TimelineAction, ParkType, ActionCategory, Photo } from '../types/models';
+import { colors } from '../styles/colors';
+import { spacing, borderRadius } from '../styles/theme';
+import { PhotoThumbnail } from './PhotoThumbnail';
+import { VisitCollage } from './VisitCollage';
+import { collageService } from '../services/collageService';
+import { CollageTemplateId, COLLAGE_TEMPLATES, getCollageLayout } from '../utils/collageLayout';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+const PREVIEW_WIDTH = screenWidth - spacing[4] * 2;
+const PHOTO_COLUMNS = 4;
+const PHOTO_SIZE = (screenWidth - spacing[4] * 2 - spacing[2] * (PHOTO_COLUMNS - 1)) / PHOTO_COLUMNS;
+// Photos that fail to load never report it; export without them after this
+const EXPORT_LOAD_TIMEOUT_MS = 3000;
+
+interface VisitShareModalProps {
+  visible: boolean;
+  onClose: () => void;
+  visit: Visit;
+  actions: TimelineAction[];
+}
+
+export const VisitShareModal: React.FC<VisitShareModalProps> = ({
+  visible,
+  onClose,
+  visit,
+  actions,
+}) => {
+  const { theme } = useTheme();
+  const { language, t } = useLanguage();
+
+  const [templateId, setTemplateId] = useState<CollageTemplateId>('grid');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [photoUris, setPhotoUris] = useState<(string | undefined)[]>([]);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportRef = useRef<Svg>(null);
+  const exportState = useRef({ loaded: 0, captured: false });
+  // Prepared data URIs by photo id and cell size
+  const preparedCache = useRef(new Map<string, string | undefined>());
+
+  const allPhotos = useMemo(
+    () => actions
+      .slice()
+      .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime())
+      .flatMap(action => action.photos || []),
+    [actions]
+  );
+
+  const template = COLLAGE_TEMPLATES[templateId];
+  const selectedPhotos = selectedIds
+    .map(id => allPhotos.find(photo => photo.id === id))
+    .filter((photo): photo is Photo => !!photo)
+    .slice(0, template.maxPhotos);
+  const layout = getCollageLayout(templateId, selectedPhotos.length);
+
+  useEffect(() => {
+    if (visible) {
+      preparedCache.current.clear();
+      setSelectedIds(collageService.getDefaultPhotos(actions, COLLAGE_TEMPLATES[templateId].maxPhotos).map(photo => photo.id));
+    }
+  }, [visible]);
+
+  // Re-crop the photos whenever the cells change
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+
+    const prepare = async () => {
+      setIsPreparing(true);
+      const uris = await Promise.all(selectedPhotos.map(async (photo, index) => {
+        const cell = layout.photos[index];
+        const key = `${photo.id}:${Math.round(cell.width)}x${Math.round(cell.height)}`;
+        if (!preparedCache.current.has(key)) {
+          preparedCache.current.set(key, await collageService.preparePhoto(photo, cell));
+        }
+        return preparedCache.current.get(key);
+      }));
+      if (!cancelled) {
+        setPhotoUris(uris);
+        setIsPreparing(false);
+      }
+    };
+
+    prepare();
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, templateId, selectedIds.join(',')]);
+
+  const getParkName = (parkType: ParkType): string => {
+    if (language === 'ja') {
+      return parkType === ParkType.LAND ? '東京ディズニーランド' : '東京ディズニーシー';
+    }
+    return parkType === ParkType.LAND ? 'Tokyo Disneyland' : 'Tokyo DisneySea';
+  };
+
+  const getParkColor = (parkType: ParkType): string => {
+    return parkType === ParkType.LAND ? colors.orange[500] : colors.blue[500];
+  };
+
+  const getWeatherLabel = (): string | undefined => {
+    switch (visit.weather) {
+      case 'SUNNY':
+        return `☀ ${t('record.sunny')}`;
+      case 'CLOUDY':
+        return `☁ ${t('record.cloudy')}`;
+      case 'RAINY':
+        return `☂ ${t('record.rainy')}`;
+      case 'SNOWY':
+        return `❄ ${t('record.snowy')}`;
+      default:
+        return undefined;
+    }
+  };
+
+  const getCategoryName = (category: ActionCategory): string => {
+    switch (category) {
+      case ActionCategory.ATTRACTION:
+        return language === 'ja' ? 'アトラクション' : 'Attraction';
+      case ActionCategory.RESTAURANT:
+        return language === 'ja' ? 'レストラン' : 'Restaurant';
+      case ActionCategory.SHOW:
+        return language === 'ja' ? 'ショー' : 'Show';
+      case ActionCategory.GREETING:
+        return language === 'ja' ? 'グリーティング' : 'Greeting';
+      case ActionCategory.SHOPPING:
+        return language === 'ja' ? 'ショッピング' : 'Shopping';
+      case ActionCategory.CUSTOM:
+        return language === 'ja' ? 'カスタム' : 'Custom';
+      default:
+        return language === 'ja' ? 'その他' : 'Other';
+    }
+  };
+
+  const getTemplateName = (id: CollageTemplateId): string => {
+    switch (id) {
+      case 'grid':
+        return language === 'ja' ? 'グリッド' : 'Grid';
+      case 'hero':
+        return language === 'ja' ? 'ヒーロー' : 'Hero';
+      case 'story':
+        return language === 'ja' ? 'ストーリー' : 'Story';
+    }
+  };
+
+  const collageProps = {
+    layout,
+    parkName: getParkName(visit.parkType),
+    dateLabel: new Date(visit.date).toLocaleDateString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      weekday: 'short',
+    }),
+    weatherLabel: getWeatherLabel(),
+    accentColor: getParkColor(visit.parkType),
+    photos: photoUris,
+    highlightsTitle: language === 'ja' ? '今日のハイライト' : 'Highlights',
+    highlights: collageService.getHighlights(actions, template.maxActions).map(action => ({
+      time: new Date(action.time).toLocaleTimeString(language === 'ja' ? 'ja-JP' : 'en-US', {
+        hour: '2-digit',
+        minute: '2-digit',
+        hour12: false,
+      }),
+      title: action.customTitle || action.locationName || getCategoryName(action.category),
+    })),
+  };
+
+  const togglePhoto = (photo: Photo) => {
+    if (selectedIds.includes(photo.id)) {
+      setSelectedIds(selectedIds.filter(id => id !== photo.id));
+    } else if (selectedPhotos.length < template.maxPhotos) {
+      // Drop ids hidden by a smaller template so the new photo is shown
+      setSelectedIds([...selectedPhotos.map(p => p.id), photo.id]);
+    }
+  };
+
+  const captureExport = () => {
+    if (exportState.current.captured || !exportRef.current) return;
+    exportState.current.captured = true;
+
+    exportRef.current.toDataURL(async base64 => {
+      try {
+        await collageService.shareImage(
+          base64,
+          visit,
+          language === 'ja' ? '来園記録を共有' : 'Share Visit'
+        );
+      } catch (error) {
+        console.error('Share failed:', error);
+        Alert.alert(
+          language === 'ja' ? 'エラー' : 'Error',
+          language === 'ja' ? '画像の共有に失敗しました' : 'Failed to share the image'
+        );
+      } finally {
+        setIsExporting(false);
+      }
+    }, { width: template.width, height: template.height });
+  };
+
+  const handleExportPhotoLoad = () => {
+    exportState.current.loaded++;
+    if (exportState.current.loaded >= photoUris.filter(Boolean).length) {
+      captureExport();
+    }
+  };
+
+  useEffect(() => {
+    if (!isExporting) return;
+    const waitFor = photoUris.filter(Boolean).length > 0 ? EXPORT_LOAD_TIMEOUT_MS : 100;
+    const timer = setTimeout(captureExport, waitFor);
+    return () => clearTimeout(timer);
+  }, [isExporting]);
+
+  const handleShare = () => {
+    exportState.current = { loaded: 0, captured: false };
+    setIsExporting(true);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: theme.colors.background.primary }]}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: theme.colors.utility.borderLight }]}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color={theme.colors.text.primary} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.colors.text.primary }]}>
+            {language === 'ja' ? '画像で共有' : 'Share as Image'}
+          </Text>
+          <View style={styles.closeButton} />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Preview */}
+          <View style={styles.preview}>
+            <VisitCollage
+              {...collageProps}
+              width={PREVIEW_WIDTH}
+              height={(PREVIEW_WIDTH * template.height) / template.width}
+            />
+            {isPreparing && (
+              <View style={styles.previewOverlay}>
+                <ActivityIndicator color="white" />
+              </View>
+            )}
+          </View>
+
+          {/* Templates */}
+          <View style={styles.templateRow}>
+            {(Object.keys(COLLAGE_TEMPLATES) as CollageTemplateId[]).map(id => {
+              const isSelected = id === templateId;
+              return (
+                <TouchableOpacity
+                  key={id}
+                  style={[
+                    styles.templateChip,
+                    {
+                      backgroundColor: isSelected ? getParkColor(visit.parkType) : theme.colors.background.secondary,
+                    },
+                  ]}
+                  onPress={() => setTemplateId(id)}
+                >
+                  <Text style={[styles.templateChipText, { color: isSelected ? 'white' : theme.colors.text.primary }]}>
+                    {getTemplateName(id)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {/* Photo selection */}
+          <View style={styles.photoHeader}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? '写真を選択' : 'Choose Photos'}
+            </Text>
+            <Text style={[styles.photoCount, { color: theme.colors.text.secondary }]}>
+              {selectedPhotos.length} / {template.maxPhotos}
+            </Text>
+          </View>
+
+          {allPhotos.length === 0 ? (
+            <Text style={[styles.emptyText, { color: theme.colors.text.secondary }]}>
+              {language === 'ja' ? 'この来園には写真がありません' : 'This visit has no photos'}
+            </Text>
+          ) : (
+            <View style={styles.photoGrid}>
+              {allPhotos.map(photo => {
+                const order = selectedPhotos.findIndex(p => p.id === photo.id);
+                return (
+                  <TouchableOpacity key={photo.id} onPress={() => togglePhoto(photo)}>
+                    <PhotoThumbnail photo={photo} style={styles.photo} />
+                    {order >= 0 && (
+                      <View style={[styles.photoBadge, { backgroundColor: getParkColor(visit.parkType) }]}>
+                        <Text style={styles.photoBadgeText}>{order + 1}</Text>
+                      </View>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+        </ScrollView>
+
+        {/* Share */}
+        <View style={[styles.footer, { borderTopColor: theme.colors.utility.borderLight }]}>
+          <TouchableOpacity
+            style={styles.shareButton}
+            onPress={handleShare}
+            disabled={isPreparing || isExporting}
+          >
+            <LinearGradient
+              colors={[getParkColor(visit.parkType), getParkColor(visit.parkType) + 'CC']}
+              style={styles.shareButtonGradient}
+            >
+              {isExporting ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <>
+                  <Ionicons name="share-outline" size={20} color="white" />
+                  <Text style={styles.shareButtonText}>
+                    {language === 'ja' ? '画像を共有' : 'Share Image'}
+                  </Text>
+                </>
+              )}
+            </LinearGradient>
+          </TouchableOpacity>
+        </View>
+
+        {/* Full-size copy drawn offscreen for the PNG export */}
+        {isExporting && (
+          <View style={styles.offscreen} pointerEvents="none">
+            <VisitCollage
+              ref={exportRef}
+              {...collageProps}
+              width={template.width / PixelRatio.get()}
+              height={template.height / PixelRatio.get()}
+              onPhotoLoad={handleExportPhotoLoad}
+            />
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing[4],
+    paddingVertical: spacing[3],
+    borderBottomWidth: 1,
+  },
+  closeButton: {
+    width: 40,
+    padding: spacing[2],
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  preview: {
+    margin: spacing[4],
+    borderRadius: borderRadius.lg,
+    overflow: 'hidden',
+  },
+  previewOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  templateRow: {
+    flexDirection: 'row',
+    gap: spacing[2],
+    paddingHorizontal: spacing[4],
+    marginBottom: spacing[4],
+  },
+  templateChip: {
+    flex: 1,
+    paddingVertical: spacing[2],
+    borderRadius: borderRadius.full,
+    alignItems: 'center',
+  },
+  templateChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  photoHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing[4],
+    marginBottom: spacing[2],
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  photoCount: {
+    fontSize: 14,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    padding: spacing[6],
+  },
+  photoGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing[2],
+    paddingHorizontal: spacing[4],
+    paddingBottom: spacing[6],
+  },
+  photo: {
+    width: PHOTO_SIZE,
+    height: PHOTO_SIZE,
+    borderRadius: borderRadius.md,
+  },
+  photoBadge: {
+    position: 'absolute',
+    top: spacing[1],
+    right: spacing[1],
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  photoBadgeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  footer: {
+    padding: spacing[4],
+    borderTopWidth: 1,
+  },
+  shareButton: {
+    borderRadius: borderRadius.lg,
+    overflow: 'hidden',
+  },
+  shareButtonGradient: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing[2],
+    paddingVertical: spacing[4],
+  },
+  shareButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  offscreen: {
+    position: 'absolute',
+    left: -10000,
+    top: 0,
+  },
+});
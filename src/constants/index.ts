@@ -1,3 +1,4 @@
 export * from './presets';
 export * from './icons';
-export * from './app';
\ No newline at end of file
+export * from './app';
+export * from './parkGeofences';
\ No newline at end of file
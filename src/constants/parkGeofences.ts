@@ -0,0 +1,102 @@
+import { ParkType, LandArea, SeaArea, ParkArea } from '../types/models';
+
+// [latitude, longitude]
+export type GeofencePoint = [number, number];
+
+export interface AreaGeofence {
+  parkType: ParkType;
+  area: ParkArea;
+  polygon: GeofencePoint[];
+}
+
+// Coarse bounding boxes on a round-number grid, not traced outlines: real area
+// borders are curved, so points near an edge may belong to the neighbouring
+// area. Areas of one park share edges so every point inside resolves once.
+export const PARK_AREA_GEOFENCES: AreaGeofence[] = [
+  // Tokyo Disneyland (entrance to the north, castle hub in the middle)
+  {
+    parkType: ParkType.LAND,
+    area: LandArea.WORLD_BAZAAR,
+    polygon: [[35.6360, 139.8800], [35.6360, 139.8830], [35.6335, 139.8830], [35.6335, 139.8800]],
+  },
+  {
+    parkType: ParkType.LAND,
+    area: LandArea.ADVENTURELAND,
+    polygon: [[35.6360, 139.8750], [35.6360, 139.8800], [35.6335, 139.8800], [35.6335, 139.8750]],
+  },
+  {
+    parkType: ParkType.LAND,
+    area: LandArea.WESTERNLAND,
+    polygon: [[35.6335, 139.8775], [35.6335, 139.8800], [35.6298, 139.8800], [35.6298, 139.8775]],
+  },
+  {
+    parkType: ParkType.LAND,
+    area: LandArea.CRITTER_COUNTRY,
+    polygon: [[35.6335, 139.8745], [35.6335, 139.8775], [35.6298, 139.8775], [35.6298, 139.8745]],
+  },
+  {
+    parkType: ParkType.LAND,
+    area: LandArea.FANTASYLAND,
+    polygon: [[35.6335, 139.8800], [35.6335, 139.8830], [35.6298, 139.8830], [35.6298, 139.8800]],
+  },
+  {
+    parkType: ParkType.LAND,
+    area: LandArea.TOMORROWLAND,
+    polygon: [[35.6360, 139.8830], [35.6360, 139.8865], [35.6318, 139.8865], [35.6318, 139.8830]],
+  },
+  {
+    parkType: ParkType.LAND,
+    area: LandArea.TOONTOWN,
+    polygon: [[35.6318, 139.8830], [35.6318, 139.8865], [35.6298, 139.8865], [35.6298, 139.8830]],
+  },
+
+  // Tokyo DisneySea (harbour to the north, volcano in the middle)
+  {
+    parkType: ParkType.SEA,
+    area: SeaArea.MEDITERRANEAN_HARBOR,
+    polygon: [[35.6285, 139.8800], [35.6285, 139.8880], [35.6265, 139.8880], [35.6265, 139.8800]],
+  },
+  {
+    parkType: ParkType.SEA,
+    area: SeaArea.AMERICAN_WATERFRONT,
+    polygon: [[35.6285, 139.8880], [35.6285, 139.8920], [35.6245, 139.8920], [35.6245, 139.8880]],
+  },
+  {
+    parkType: ParkType.SEA,
+    area: SeaArea.PORT_DISCOVERY,
+    polygon: [[35.6245, 139.8880], [35.6245, 139.8920], [35.6222, 139.8920], [35.6222, 139.8880]],
+  },
+  {
+    parkType: ParkType.SEA,
+    area: SeaArea.MYSTERIOUS_ISLAND,
+    polygon: [[35.6265, 139.8835], [35.6265, 139.8880], [35.6245, 139.8880], [35.6245, 139.8835]],
+  },
+  {
+    parkType: ParkType.SEA,
+    area: SeaArea.LOST_RIVER_DELTA,
+    polygon: [[35.6245, 139.8835], [35.6245, 139.8880], [35.6222, 139.8880], [35.6222, 139.8835]],
+  },
+  {
+    parkType: ParkType.SEA,
+    area: SeaArea.MERMAID_LAGOON,
+    polygon: [[35.6265, 139.8800], [35.6265, 139.8835], [35.6245, 139.8835], [35.6245, 139.8800]],
+  },
+  {
+    parkType: ParkType.SEA,
+    area: SeaArea.ARABIAN_COAST,
+    polygon: [[35.6245, 139.8800], [35.6245, 139.8835], [35.6222, 139.8835], [35.6222, 139.8800]],
+  },
+  {
+    parkType: ParkType.SEA,
+    area: SeaArea.FANTASY_SPRINGS,
+    polygon: [[35.6270, 139.8770], [35.6270, 139.8800], [35.6222, 139.8800], [35.6222, 139.8770]],
+  },
+];
+
+// Points this far outside every outline (in degrees, roughly 100 m) still
+// snap to the closest area; anything further is outside the parks
+export const GEOFENCE_SNAP_DISTANCE = 0.001;
+
+// Points inside an area but this close to its edge (roughly 30 m) are only a
+// guess, given how coarse the boxes are
+export const GEOFENCE_BOUNDARY_MARGIN = 0.0003;
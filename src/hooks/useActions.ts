@@ -17,6 +17,7 @@ import {
   UpdateInput,
   Photo,
 } from '../types/models';
+import { getActionMinutes } from '../utils/visitDuration';
 
 interface UseActionsReturn {
   // Data
@@ -49,7 +50,9 @@ interface UseActionsReturn {
   
   // Photo operations
   addPhotosToAction: (actionId: string, photos: Photo[]) => Promise<TimelineAction | null>;
+  addPhotosToActions: (photosByAction: Record<string, Photo[]>) => Promise<TimelineAction[]>;
   removePhotoFromAction: (actionId: string, photoId: string) => Promise<TimelineAction | null>;
+  updatePhoto: (actionId: string, photoId: string, updates: Partial<Omit<Photo, 'id'>>) => Promise<TimelineAction | null>;
 
   // Statistics
   getActionStatistics: (filter?: ActionFilter) => Promise<ActionStats>;
@@ -97,16 +100,19 @@ export function useActions(): UseActionsReturn {
         actionData.sortOrder = maxSortOrder + 1;
       }
 
-      const newAction = await storage.create<TimelineAction>(STORAGE_KEYS.ACTIONS, actionData);
-      
-      // Update visit's cached action count
-      const visit = await storage.get<Visit>(STORAGE_KEYS.VISITS, actionData.visitId);
-      if (visit) {
-        await storage.update<Visit>(STORAGE_KEYS.VISITS, visit.id, {
-          actionCount: (visit.actionCount || 0) + 1,
-          totalPhotoCount: (visit.totalPhotoCount || 0) + (actionData.photos?.length || 0),
-        });
-      }
+      const newAction = await storage.transaction(async tx => {
+        const action = tx.create<TimelineAction>(STORAGE_KEYS.ACTIONS, actionData);
+
+        // Update visit's cached action count
+        const visit = await tx.get<Visit>(STORAGE_KEYS.VISITS, actionData.visitId);
+        if (visit) {
+          await tx.update<Visit>(STORAGE_KEYS.VISITS, visit.id, {
+            actionCount: (visit.actionCount || 0) + 1,
+            totalPhotoCount: (visit.totalPhotoCount || 0) + (actionData.photos?.length || 0),
+          });
+        }
+        return action;
+      });
 
       await loadData();
       return newAction;
@@ -121,21 +127,25 @@ export function useActions(): UseActionsReturn {
     updates: UpdateInput<TimelineAction>
   ): Promise<TimelineAction | null> => {
     try {
-      const currentAction = await storage.get<TimelineAction>(STORAGE_KEYS.ACTIONS, id);
-      if (!currentAction) return null;
-
-      const updatedAction = await storage.update<TimelineAction>(STORAGE_KEYS.ACTIONS, id, updates);
-      
-      // Update visit's cached photo count if photos changed
-      if (updates.photos !== undefined && currentAction.photos.length !== updates.photos.length) {
-        const visit = await storage.get<Visit>(STORAGE_KEYS.VISITS, currentAction.visitId);
-        if (visit) {
-          const photoDiff = updates.photos.length - currentAction.photos.length;
-          await storage.update<Visit>(STORAGE_KEYS.VISITS, visit.id, {
-            totalPhotoCount: (visit.totalPhotoCount || 0) + photoDiff,
-          });
+      const updatedAction = await storage.transaction(async tx => {
+        const currentAction = await tx.get<TimelineAction>(STORAGE_KEYS.ACTIONS, id);
+        if (!currentAction) return null;
+
+        const action = await tx.update<TimelineAction>(STORAGE_KEYS.ACTIONS, id, updates);
+
+        // Update visit's cached photo count if photos changed
+        if (updates.photos !== undefined && currentAction.photos.length !== updates.photos.length) {
+          const visit = await tx.get<Visit>(STORAGE_KEYS.VISITS, currentAction.visitId);
+          if (visit) {
+            const photoDiff = updates.photos.length - currentAction.photos.length;
+            await tx.update<Visit>(STORAGE_KEYS.VISITS, visit.id, {
+              totalPhotoCount: (visit.totalPhotoCount || 0) + photoDiff,
+            });
+          }
         }
-      }
+        return action;
+      });
+      if (!updatedAction) return null;
 
       await loadData();
       return updatedAction;
@@ -147,21 +157,23 @@ export function useActions(): UseActionsReturn {
 
   const deleteAction = useCallback(async (id: string): Promise<boolean> => {
     try {
-      const action = await storage.get<TimelineAction>(STORAGE_KEYS.ACTIONS, id);
-      if (!action) return false;
+      const result = await storage.transaction(async tx => {
+        const action = await tx.get<TimelineAction>(STORAGE_KEYS.ACTIONS, id);
+        if (!action) return false;
+
+        await tx.delete(STORAGE_KEYS.ACTIONS, id);
 
-      const result = await storage.delete<TimelineAction>(STORAGE_KEYS.ACTIONS, id);
-      
-      if (result) {
         // Update visit's cached counts
-        const visit = await storage.get<Visit>(STORAGE_KEYS.VISITS, action.visitId);
+        const visit = await tx.get<Visit>(STORAGE_KEYS.VISITS, action.visitId);
         if (visit) {
-          await storage.update<Visit>(STORAGE_KEYS.VISITS, visit.id, {
+          await tx.update<Visit>(STORAGE_KEYS.VISITS, visit.id, {
             actionCount: Math.max((visit.actionCount || 0) - 1, 0),
             totalPhotoCount: Math.max((visit.totalPhotoCount || 0) - action.photos.length, 0),
           });
         }
-      }
+        return true;
+      });
+      if (!result) return false;
 
       await loadData();
       return result;
@@ -173,22 +185,24 @@ export function useActions(): UseActionsReturn {
 
   const deleteAllActions = useCallback(async (): Promise<boolean> => {
     try {
-      // Clear all actions
-      await storage.clear(STORAGE_KEYS.ACTIONS);
-      
-      // Reset action counts in all visits
-      const allVisits = await storage.getAll<Visit>(STORAGE_KEYS.VISITS);
-      if (allVisits.length > 0) {
-        const updates = allVisits.map(visit => ({
-          id: visit.id,
-          data: { 
-            actionCount: 0,
-            totalPhotoCount: 0
-          }
-        }));
-        await storage.updateMany<Visit>(STORAGE_KEYS.VISITS, updates);
-      }
-      
+      await storage.transaction(async tx => {
+        // Clear all actions
+        tx.clear(STORAGE_KEYS.ACTIONS);
+
+        // Reset action counts in all visits
+        const allVisits = await tx.getAll<Visit>(STORAGE_KEYS.VISITS);
+        await tx.updateMany<Visit>(
+          STORAGE_KEYS.VISITS,
+          allVisits.map(visit => ({
+            id: visit.id,
+            data: {
+              actionCount: 0,
+              totalPhotoCount: 0
+            }
+          }))
+        );
+      });
+
       await loadData();
       return true;
     } catch (err) {
@@ -230,24 +244,24 @@ export function useActions(): UseActionsReturn {
         });
       }
 
-      const newActions = await storage.createMany<TimelineAction>(
-        STORAGE_KEYS.ACTIONS,
-        actionsData
-      );
-
-      // Update visit cached counts
-      const visitUpdates = Object.entries(actionsByVisit).map(([visitId, visitActions]) => ({
-        id: visitId,
-        data: {
-          actionCount: actions.filter(a => a.visitId === visitId).length + visitActions.length,
-          totalPhotoCount: actions.filter(a => a.visitId === visitId).reduce((sum, a) => sum + a.photos.length, 0) +
-                          visitActions.reduce((sum, a) => sum + (a.photos?.length || 0), 0),
-        },
-      }));
+      const newActions = await storage.transaction(async tx => {
+        const created = actionsData.map(action =>
+          tx.create<TimelineAction>(STORAGE_KEYS.ACTIONS, action)
+        );
 
-      if (visitUpdates.length > 0) {
-        await storage.updateMany<Visit>(STORAGE_KEYS.VISITS, visitUpdates);
-      }
+        // Recompute visit cached counts from the staged actions
+        for (const visitId of Object.keys(actionsByVisit)) {
+          const visitActions = await tx.find<TimelineAction>(
+            STORAGE_KEYS.ACTIONS,
+            action => action.visitId === visitId
+          );
+          await tx.update<Visit>(STORAGE_KEYS.VISITS, visitId, {
+            actionCount: visitActions.length,
+            totalPhotoCount: visitActions.reduce((sum, a) => sum + (a.photos?.length || 0), 0),
+          });
+        }
+        return created;
+      });
 
       await loadData();
       return newActions;
@@ -255,7 +269,7 @@ export function useActions(): UseActionsReturn {
       setError(err as StorageError);
       throw err;
     }
-  }, [actions]);
+  }, []);
 
   const updateMultipleActions = useCallback(async (
     updates: Array<{ id: string; data: UpdateInput<TimelineAction> }>
@@ -275,43 +289,36 @@ export function useActions(): UseActionsReturn {
 
   const deleteMultipleActions = useCallback(async (ids: string[]): Promise<number> => {
     try {
-      // Get actions to update visit counts
-      const actionsToDelete = await Promise.all(
-        ids.map(id => storage.get<TimelineAction>(STORAGE_KEYS.ACTIONS, id))
-      );
-      const validActions = actionsToDelete.filter(Boolean) as TimelineAction[];
+      const deletedCount = await storage.transaction(async tx => {
+        // Get actions to update visit counts
+        const actionsToDelete = await Promise.all(
+          ids.map(id => tx.get<TimelineAction>(STORAGE_KEYS.ACTIONS, id))
+        );
+        const validActions = actionsToDelete.filter(Boolean) as TimelineAction[];
 
-      const deletedCount = await storage.deleteMany<TimelineAction>(STORAGE_KEYS.ACTIONS, ids);
+        const count = await tx.deleteMany(STORAGE_KEYS.ACTIONS, ids);
 
-      // Update visit cached counts
-      const visitCounts = validActions.reduce((acc, action) => {
-        if (!acc[action.visitId]) {
-          acc[action.visitId] = { actionCount: 0, photoCount: 0 };
-        }
-        acc[action.visitId].actionCount++;
-        acc[action.visitId].photoCount += action.photos.length;
-        return acc;
-      }, {} as Record<string, { actionCount: number; photoCount: number }>);
+        // Update visit cached counts
+        const visitCounts = validActions.reduce((acc, action) => {
+          if (!acc[action.visitId]) {
+            acc[action.visitId] = { actionCount: 0, photoCount: 0 };
+          }
+          acc[action.visitId].actionCount++;
+          acc[action.visitId].photoCount += action.photos.length;
+          return acc;
+        }, {} as Record<string, { actionCount: number; photoCount: number }>);
 
-      const visitUpdates = await Promise.all(
-        Object.entries(visitCounts).map(async ([visitId, counts]) => {
-          const visit = await storage.get<Visit>(STORAGE_KEYS.VISITS, visitId);
+        for (const [visitId, counts] of Object.entries(visitCounts)) {
+          const visit = await tx.get<Visit>(STORAGE_KEYS.VISITS, visitId);
           if (visit) {
-            return {
-              id: visitId,
-              data: {
-                actionCount: Math.max((visit.actionCount || 0) - counts.actionCount, 0),
-                totalPhotoCount: Math.max((visit.totalPhotoCount || 0) - counts.photoCount, 0),
-              },
-            };
+            await tx.update<Visit>(STORAGE_KEYS.VISITS, visitId, {
+              actionCount: Math.max((visit.actionCount || 0) - counts.actionCount, 0),
+              totalPhotoCount: Math.max((visit.totalPhotoCount || 0) - counts.photoCount, 0),
+            });
           }
-          return null;
-        })
-      ).then(results => results.filter(Boolean) as Array<{ id: string; data: Partial<Visit> }>);
-
-      if (visitUpdates.length > 0) {
-        await storage.updateMany<Visit>(STORAGE_KEYS.VISITS, visitUpdates);
-      }
+        }
+        return count;
+      });
 
       await loadData();
       return deletedCount;
@@ -324,9 +331,10 @@ export function useActions(): UseActionsReturn {
   // Query operations
   const getActionsByVisit = useCallback(async (visitId: string): Promise<TimelineAction[]> => {
     try {
-      const visitActions = await storage.find<TimelineAction>(
+      const visitActions = await storage.findByIndex<TimelineAction>(
         STORAGE_KEYS.ACTIONS,
-        action => action.visitId === visitId
+        'visitId',
+        visitId
       );
       return sortActions(visitActions, { field: 'time', direction: 'ASC' });
     } catch (err) {
@@ -339,9 +347,10 @@ export function useActions(): UseActionsReturn {
     category: ActionCategory
   ): Promise<TimelineAction[]> => {
     try {
-      return await storage.find<TimelineAction>(
+      return await storage.findByIndex<TimelineAction>(
         STORAGE_KEYS.ACTIONS,
-        action => action.category === category
+        'category',
+        category
       );
     } catch (err) {
       setError(err as StorageError);
@@ -351,9 +360,10 @@ export function useActions(): UseActionsReturn {
 
   const getActionsByArea = useCallback(async (area: ParkArea): Promise<TimelineAction[]> => {
     try {
-      return await storage.find<TimelineAction>(
+      return await storage.findByIndex<TimelineAction>(
         STORAGE_KEYS.ACTIONS,
-        action => action.area === area
+        'area',
+        area
       );
     } catch (err) {
       setError(err as StorageError);
@@ -365,26 +375,21 @@ export function useActions(): UseActionsReturn {
     dateRange: DateRange
   ): Promise<TimelineAction[]> => {
     try {
-      // First get visits in date range (using JST)
-      const visits = await storage.find<Visit>(
+      // First get visits in date range
+      const visits = await storage.findInDateRange<Visit>(
         STORAGE_KEYS.VISITS,
-        visit => {
-          const jstOffset = 9 * 60; // JST is UTC+9
-          const visitDate = new Date(visit.date);
-          const visitDateJST = new Date(visitDate.getTime() + (jstOffset * 60 * 1000));
-          const startDateJST = new Date(dateRange.startDate.getTime() + (jstOffset * 60 * 1000));
-          const endDateJST = new Date(dateRange.endDate.getTime() + (jstOffset * 60 * 1000));
-          
-          return visitDateJST >= startDateJST && visitDateJST <= endDateJST;
-        }
+        'date',
+        dateRange.startDate,
+        dateRange.endDate
       );
-      const visitIds = visits.map(v => v.id);
 
       // Then get actions for those visits
-      return await storage.find<TimelineAction>(
-        STORAGE_KEYS.ACTIONS,
-        action => visitIds.includes(action.visitId)
+      const visitActions = await Promise.all(
+        visits.map(visit =>
+          storage.findByIndex<TimelineAction>(STORAGE_KEYS.ACTIONS, 'visitId', visit.id)
+        )
       );
+      return visitActions.flat();
     } catch (err) {
       setError(err as StorageError);
       throw err;
@@ -395,8 +400,12 @@ export function useActions(): UseActionsReturn {
     filter: ActionFilter
   ): Promise<TimelineAction[]> => {
     try {
-      return await storage.find<TimelineAction>(
-        STORAGE_KEYS.ACTIONS,
+      // Narrow by the visit index first when possible
+      const candidates = filter.visitId
+        ? await storage.findByIndex<TimelineAction>(STORAGE_KEYS.ACTIONS, 'visitId', filter.visitId)
+        : await storage.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS);
+
+      return candidates.filter(
         action => {
           if (filter.visitId && action.visitId !== filter.visitId) return false;
           if (filter.category && action.category !== filter.category) return false;
@@ -474,6 +483,48 @@ export function useActions(): UseActionsReturn {
     }
   }, [updateAction]);
 
+  // Attach photos to several actions at once (bulk import), in one transaction
+  const addPhotosToActions = useCallback(async (
+    photosByAction: Record<string, Photo[]>
+  ): Promise<TimelineAction[]> => {
+    try {
+      const updatedActions = await storage.transaction(async tx => {
+        const updated: TimelineAction[] = [];
+        const visitIds = new Set<string>();
+
+        for (const [actionId, photos] of Object.entries(photosByAction)) {
+          if (photos.length === 0) continue;
+          const action = await tx.get<TimelineAction>(STORAGE_KEYS.ACTIONS, actionId);
+          if (!action) continue;
+
+          const result = await tx.update<TimelineAction>(STORAGE_KEYS.ACTIONS, actionId, {
+            photos: [...action.photos, ...photos],
+          });
+          if (result) updated.push(result);
+          visitIds.add(action.visitId);
+        }
+
+        // Recompute visit cached photo counts from the staged actions
+        for (const visitId of visitIds) {
+          const visitActions = await tx.find<TimelineAction>(
+            STORAGE_KEYS.ACTIONS,
+            action => action.visitId === visitId
+          );
+          await tx.update<Visit>(STORAGE_KEYS.VISITS, visitId, {
+            totalPhotoCount: visitActions.reduce((sum, a) => sum + (a.photos?.length || 0), 0),
+          });
+        }
+        return updated;
+      });
+
+      await loadData();
+      return updatedActions;
+    } catch (err) {
+      setError(err as StorageError);
+      throw err;
+    }
+  }, []);
+
   const removePhotoFromAction = useCallback(async (
     actionId: string,
     photoId: string
@@ -490,6 +541,26 @@ export function useActions(): UseActionsReturn {
     }
   }, [updateAction]);
 
+  // Caption, favorite and other per-photo fields
+  const updatePhoto = useCallback(async (
+    actionId: string,
+    photoId: string,
+    updates: Partial<Omit<Photo, 'id'>>
+  ): Promise<TimelineAction | null> => {
+    try {
+      const action = await storage.get<TimelineAction>(STORAGE_KEYS.ACTIONS, actionId);
+      if (!action) return null;
+
+      const updatedPhotos = action.photos.map(photo =>
+        photo.id === photoId ? { ...photo, ...updates } : photo
+      );
+      return await updateAction(actionId, { photos: updatedPhotos });
+    } catch (err) {
+      setError(err as StorageError);
+      throw err;
+    }
+  }, [updateAction]);
+
   // Statistics
   const getActionStatistics = useCallback(async (
     filter?: ActionFilter
@@ -499,19 +570,13 @@ export function useActions(): UseActionsReturn {
         ? await getFilteredActions(filter)
         : await storage.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS);
 
-      // Apply date range filter if needed (using JST)
+      // Apply date range filter if needed
       if (filter?.dateRange) {
-        const visits = await storage.find<Visit>(
+        const visits = await storage.findInDateRange<Visit>(
           STORAGE_KEYS.VISITS,
-          visit => {
-            const jstOffset = 9 * 60; // JST is UTC+9
-            const visitDate = new Date(visit.date);
-            const visitDateJST = new Date(visitDate.getTime() + (jstOffset * 60 * 1000));
-            const startDateJST = new Date(filter.dateRange!.startDate.getTime() + (jstOffset * 60 * 1000));
-            const endDateJST = new Date(filter.dateRange!.endDate.getTime() + (jstOffset * 60 * 1000));
-            
-            return visitDateJST >= startDateJST && visitDateJST <= endDateJST;
-          }
+          'date',
+          filter.dateRange.startDate,
+          filter.dateRange.endDate
         );
         const visitIds = new Set(visits.map(v => v.id));
         filteredActions = filteredActions.filter(action => visitIds.has(action.visitId));
@@ -565,13 +630,13 @@ export function useActions(): UseActionsReturn {
         .sort((a, b) => b.count - a.count)
         .slice(0, 10);
 
-      // Calculate area distribution
+      // Calculate area distribution (time includes queues)
       const areaStats = new Map<ParkArea, { visitCount: number; timeSpent: number }>();
       filteredActions.forEach(action => {
         const current = areaStats.get(action.area) || { visitCount: 0, timeSpent: 0 };
         areaStats.set(action.area, {
           visitCount: current.visitCount + 1,
-          timeSpent: current.timeSpent + (action.duration || 0),
+          timeSpent: current.timeSpent + getActionMinutes(action),
         });
       });
 
@@ -655,7 +720,9 @@ export function useActions(): UseActionsReturn {
 
     // Photo operations
     addPhotosToAction,
+    addPhotosToActions,
     removePhotoFromAction,
+    updatePhoto,
 
     // Statistics
     getActionStatistics,
@@ -16,6 +16,7 @@ import {
   CreateInput,
   UpdateInput,
 } from '../types/models';
+import { getVisitDuration } from '../utils/visitDuration';
 
 interface UseVisitsReturn {
   // Data
@@ -85,25 +86,21 @@ export function useVisits(): UseVisitsReturn {
   // Visit CRUD operations
   const createVisit = useCallback(async (visitData: CreateInput<Visit>): Promise<Visit> => {
     try {
-      const newVisit = await storage.create<Visit>(STORAGE_KEYS.VISITS, visitData);
-      
-      // Update companion visit IDs
-      if (visitData.companionIds?.length) {
-        const updates = visitData.companionIds.map(companionId => {
-          const companion = companions.find(c => c.id === companionId);
+      const newVisit = await storage.transaction(async tx => {
+        const visit = tx.create<Visit>(STORAGE_KEYS.VISITS, visitData);
+
+        // Update companion visit IDs
+        for (const companionId of visitData.companionIds || []) {
+          const companion = await tx.get<Companion>(STORAGE_KEYS.COMPANIONS, companionId);
           if (companion) {
-            return {
-              id: companionId,
-              data: { visitIds: [...(companion.visitIds || []), newVisit.id] },
-            };
+            await tx.update<Companion>(STORAGE_KEYS.COMPANIONS, companionId, {
+              visitIds: [...(companion.visitIds || []), visit.id],
+            });
           }
-          return null;
-        }).filter(Boolean) as Array<{ id: string; data: Partial<Companion> }>;
-
-        if (updates.length > 0) {
-          await storage.updateMany<Companion>(STORAGE_KEYS.COMPANIONS, updates);
         }
-      }
+
+        return visit;
+      });
 
       await loadData();
       return newVisit;
@@ -111,112 +108,113 @@ export function useVisits(): UseVisitsReturn {
       setError(err as StorageError);
       throw err;
     }
-  }, [companions]);
+  }, []);
 
   const updateVisit = useCallback(async (
     id: string,
     updates: UpdateInput<Visit>
   ): Promise<Visit | null> => {
     try {
-      const currentVisit = await storage.get<Visit>(STORAGE_KEYS.VISITS, id);
-      if (!currentVisit) return null;
-
-      // Handle companion changes
-      if (updates.companionIds && 
-          JSON.stringify(updates.companionIds) !== JSON.stringify(currentVisit.companionIds)) {
-        // Remove visit ID from old companions
-        const oldCompanionUpdates = currentVisit.companionIds.map(companionId => ({
-          id: companionId,
-          data: {
-            visitIds: companions.find(c => c.id === companionId)?.visitIds.filter(vid => vid !== id) || [],
-          },
-        }));
-
-        // Add visit ID to new companions
-        const newCompanionUpdates = updates.companionIds
-          .filter(cId => !currentVisit.companionIds.includes(cId))
-          .map(companionId => {
-            const companion = companions.find(c => c.id === companionId);
-            return {
-              id: companionId,
-              data: { visitIds: [...(companion?.visitIds || []), id] },
-            };
-          });
-
-        const allUpdates = [...oldCompanionUpdates, ...newCompanionUpdates];
-        if (allUpdates.length > 0) {
-          await storage.updateMany<Companion>(STORAGE_KEYS.COMPANIONS, allUpdates);
+      const updatedVisit = await storage.transaction(async tx => {
+        const currentVisit = await tx.get<Visit>(STORAGE_KEYS.VISITS, id);
+        if (!currentVisit) return null;
+
+        // Handle companion changes
+        if (updates.companionIds &&
+            JSON.stringify(updates.companionIds) !== JSON.stringify(currentVisit.companionIds)) {
+          // Remove visit ID from companions no longer on the visit
+          for (const companionId of currentVisit.companionIds) {
+            if (updates.companionIds.includes(companionId)) continue;
+            const companion = await tx.get<Companion>(STORAGE_KEYS.COMPANIONS, companionId);
+            if (companion) {
+              await tx.update<Companion>(STORAGE_KEYS.COMPANIONS, companionId, {
+                visitIds: companion.visitIds.filter(vid => vid !== id),
+              });
+            }
+          }
+
+          // Add visit ID to new companions
+          for (const companionId of updates.companionIds) {
+            if (currentVisit.companionIds.includes(companionId)) continue;
+            const companion = await tx.get<Companion>(STORAGE_KEYS.COMPANIONS, companionId);
+            if (companion) {
+              await tx.update<Companion>(STORAGE_KEYS.COMPANIONS, companionId, {
+                visitIds: [...(companion.visitIds || []), id],
+              });
+            }
+          }
         }
-      }
 
-      const updatedVisit = await storage.update<Visit>(STORAGE_KEYS.VISITS, id, updates);
+        return tx.update<Visit>(STORAGE_KEYS.VISITS, id, updates);
+      });
+
       await loadData();
       return updatedVisit;
     } catch (err) {
       setError(err as StorageError);
       throw err;
     }
-  }, [companions]);
+  }, []);
 
   const deleteVisit = useCallback(async (id: string): Promise<boolean> => {
     try {
       const visit = await storage.get<Visit>(STORAGE_KEYS.VISITS, id);
       if (!visit) return false;
 
-      // Remove visit ID from companions
-      if (visit.companionIds?.length) {
-        const updates = visit.companionIds.map(companionId => {
-          const companion = companions.find(c => c.id === companionId);
-          if (companion) {
-            return {
-              id: companionId,
-              data: { visitIds: companion.visitIds.filter(vid => vid !== id) },
-            };
-          }
-          return null;
-        }).filter(Boolean) as Array<{ id: string; data: Partial<Companion> }>;
-
-        if (updates.length > 0) {
-          await storage.updateMany<Companion>(STORAGE_KEYS.COMPANIONS, updates);
-        }
-      }
-
-      // Delete all actions for this visit
-      const actions = await storage.find<TimelineAction>(
+      // Look up links from the indexes, then remove everything in one commit
+      const linkedCompanions = await storage.findByIndex<Companion>(
+        STORAGE_KEYS.COMPANIONS,
+        'visitIds',
+        id
+      );
+      const actions = await storage.findByIndex<TimelineAction>(
         STORAGE_KEYS.ACTIONS,
-        action => action.visitId === id
+        'visitId',
+        id
       );
-      if (actions.length > 0) {
-        await storage.deleteMany(STORAGE_KEYS.ACTIONS, actions.map(a => a.id));
-      }
 
-      const result = await storage.delete<Visit>(STORAGE_KEYS.VISITS, id);
+      const result = await storage.transaction(async tx => {
+        // Remove visit ID from every companion linked to it
+        await tx.updateMany<Companion>(
+          STORAGE_KEYS.COMPANIONS,
+          linkedCompanions.map(companion => ({
+            id: companion.id,
+            data: { visitIds: companion.visitIds.filter(vid => vid !== id) },
+          }))
+        );
+
+        // Delete all actions for this visit
+        await tx.deleteMany(STORAGE_KEYS.ACTIONS, actions.map(a => a.id));
+
+        return tx.delete(STORAGE_KEYS.VISITS, id);
+      });
       await loadData();
       return result;
     } catch (err) {
       setError(err as StorageError);
       throw err;
     }
-  }, [companions]);
+  }, []);
 
   const deleteAllVisits = useCallback(async (): Promise<boolean> => {
     try {
-      // Delete all visits
-      await storage.clear(STORAGE_KEYS.VISITS);
-      
-      // Delete all actions
-      await storage.clear(STORAGE_KEYS.ACTIONS);
-      
-      // Clear companion visit IDs
-      const allCompanions = await storage.getAll<Companion>(STORAGE_KEYS.COMPANIONS);
-      if (allCompanions.length > 0) {
-        const updates = allCompanions.map(companion => ({
-          id: companion.id,
-          data: { visitIds: [] }
-        }));
-        await storage.updateMany<Companion>(STORAGE_KEYS.COMPANIONS, updates);
-      }
-      
+      await storage.transaction(async tx => {
+        // Delete all visits and actions
+        tx.clear(STORAGE_KEYS.VISITS);
+        tx.clear(STORAGE_KEYS.ACTIONS);
+
+        // Clear companion visit IDs
+        const allCompanions = await tx.getAll<Companion>(STORAGE_KEYS.COMPANIONS);
+        await tx.updateMany<Companion>(
+          STORAGE_KEYS.COMPANIONS,
+          allCompanions.map(companion => ({
+            id: companion.id,
+            data: { visitIds: [] },
+          }))
+        );
+      });
+
+
       await loadData();
       return true;
     } catch (err) {
@@ -274,50 +272,38 @@ export function useVisits(): UseVisitsReturn {
       const companion = await storage.get<Companion>(STORAGE_KEYS.COMPANIONS, id);
       if (!companion) return false;
 
-      // Remove companion from all visits
-      if (companion.visitIds?.length) {
-        const visitUpdates = companion.visitIds.map(visitId => {
-          const visit = visits.find(v => v.id === visitId);
-          if (visit) {
-            return {
-              id: visitId,
-              data: { companionIds: visit.companionIds.filter(cId => cId !== id) },
-            };
-          }
-          return null;
-        }).filter(Boolean) as Array<{ id: string; data: Partial<Visit> }>;
+      const linkedVisits = await storage.findByIndex<Visit>(STORAGE_KEYS.VISITS, 'companionIds', id);
 
-        if (visitUpdates.length > 0) {
-          await storage.updateMany<Visit>(STORAGE_KEYS.VISITS, visitUpdates);
-        }
-      }
+      const result = await storage.transaction(async tx => {
+        // Remove companion from all visits
+        await tx.updateMany<Visit>(
+          STORAGE_KEYS.VISITS,
+          linkedVisits.map(visit => ({
+            id: visit.id,
+            data: { companionIds: visit.companionIds.filter(cId => cId !== id) },
+          }))
+        );
 
-      const result = await storage.delete<Companion>(STORAGE_KEYS.COMPANIONS, id);
+        return tx.delete(STORAGE_KEYS.COMPANIONS, id);
+      });
       await loadData();
       return result;
     } catch (err) {
       setError(err as StorageError);
       throw err;
     }
-  }, [visits]);
+  }, []);
 
   // Query operations
   const getVisitsByDateRange = useCallback(async (
     dateRange: DateRange
   ): Promise<Visit[]> => {
     try {
-      return await storage.find<Visit>(
+      return await storage.findInDateRange<Visit>(
         STORAGE_KEYS.VISITS,
-        visit => {
-          // 日本時間での日付比較
-          const jstOffset = 9 * 60; // JST is UTC+9
-          const visitDate = new Date(visit.date);
-          const visitDateJST = new Date(visitDate.getTime() + (jstOffset * 60 * 1000));
-          const startDateJST = new Date(dateRange.startDate.getTime() + (jstOffset * 60 * 1000));
-          const endDateJST = new Date(dateRange.endDate.getTime() + (jstOffset * 60 * 1000));
-          
-          return visitDateJST >= startDateJST && visitDateJST <= endDateJST;
-        }
+        'date',
+        dateRange.startDate,
+        dateRange.endDate
       );
     } catch (err) {
       setError(err as StorageError);
@@ -327,9 +313,10 @@ export function useVisits(): UseVisitsReturn {
 
   const getVisitsByCompanion = useCallback(async (companionId: string): Promise<Visit[]> => {
     try {
-      return await storage.find<Visit>(
+      return await storage.findByIndex<Visit>(
         STORAGE_KEYS.VISITS,
-        visit => visit.companionIds.includes(companionId)
+        'companionIds',
+        companionId
       );
     } catch (err) {
       setError(err as StorageError);
@@ -339,9 +326,10 @@ export function useVisits(): UseVisitsReturn {
 
   const getVisitsByPark = useCallback(async (parkType: ParkType): Promise<Visit[]> => {
     try {
-      return await storage.find<Visit>(
+      return await storage.findByIndex<Visit>(
         STORAGE_KEYS.VISITS,
-        visit => visit.parkType === parkType
+        'parkType',
+        parkType
       );
     } catch (err) {
       setError(err as StorageError);
@@ -397,10 +385,25 @@ export function useVisits(): UseVisitsReturn {
       const landVisits = filteredVisits.filter(v => v.parkType === ParkType.LAND);
       const seaVisits = filteredVisits.filter(v => v.parkType === ParkType.SEA);
 
-      // Calculate average visit duration based on pass type
-      let totalDuration = 0;
-      const durationCount = filteredVisits.length;
-      
+      // Calculate visit duration from entry/exit times or the timeline
+      const actionsByVisit = new Map<string, TimelineAction[]>();
+      (await storage.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS)).forEach(action => {
+        const visitActions = actionsByVisit.get(action.visitId);
+        if (visitActions) {
+          visitActions.push(action);
+        } else {
+          actionsByVisit.set(action.visitId, [action]);
+        }
+      });
+      const durations = filteredVisits
+        .map(visit => getVisitDuration(visit, actionsByVisit.get(visit.id) || []))
+        .filter(duration => duration.range);
+      const measuredVisitCount = durations.length;
+
+      const averageOf = (values: number[]): number | undefined =>
+        values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+      const minutesAfterMidnight = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
       // Get pass type duration mapping (in minutes)
       const getPassTypeDuration = (passType?: PassType): number => {
         switch (passType) {
@@ -414,15 +417,11 @@ export function useVisits(): UseVisitsReturn {
             return 12 * 60; // Default to 1-day for backward compatibility
         }
       };
-      
-      filteredVisits.forEach(visit => {
-        const duration = getPassTypeDuration(visit.passType);
-        totalDuration += duration;
-      });
-      
-      const averageVisitDuration = durationCount > 0 
-        ? totalDuration / durationCount // Already in minutes
-        : 0; // Return 0 instead of undefined when no data
+
+      // Fall back to the pass type estimate until a visit has times to measure
+      const averageVisitDuration = measuredVisitCount > 0
+        ? averageOf(durations.map(duration => duration.totalMinutes))!
+        : averageOf(filteredVisits.map(visit => getPassTypeDuration(visit.passType))) || 0;
 
       // Calculate companion statistics
       const companionStats = new Map<string, number>();
@@ -468,6 +467,10 @@ export function useVisits(): UseVisitsReturn {
         landVisits: landVisits.length,
         seaVisits: seaVisits.length,
         averageVisitDuration,
+        measuredVisitCount,
+        averageEntryTime: averageOf(durations.map(duration => minutesAfterMidnight(duration.range!.start))),
+        averageExitTime: averageOf(durations.map(duration => minutesAfterMidnight(duration.range!.end))),
+        averageIdleTime: averageOf(durations.map(duration => duration.idleMinutes)),
         favoriteCompanions,
         visitsByMonth,
         visitsByYear,
@@ -3,7 +3,7 @@ import { NavigationContainer } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { useTheme } from '../contexts/ThemeContext';
 import { TabNavigator } from './TabNavigator';
-import { VisitDetailScreen } from '../screens';
+import { VisitDetailScreen, PhotoImportReviewScreen, AlbumScreen, CompanionDetailScreen } from '../screens';
 import { EditVisitScreen } from '../screens/EditVisitScreen';
 import { colors } from '../styles/colors';
 
@@ -38,6 +38,9 @@ export const AppNavigator = () => {
         <Stack.Screen name="Main" component={TabNavigator} />
         <Stack.Screen name="VisitDetail" component={VisitDetailScreen} />
         <Stack.Screen name="EditVisit" component={EditVisitScreen} />
+        <Stack.Screen name="PhotoImportReview" component={PhotoImportReviewScreen} />
+        <Stack.Screen name="Album" component={AlbumScreen} />
+        <Stack.Screen name="CompanionDetail" component={CompanionDetailScreen} />
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -0,0 +1,632 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Modal,
+  Image,
+  TextInput,
+  Dimensions,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useActions } from '../hooks/useActions';
+import { useVisits } from '../hooks/useVisits';
+import {
+  TimelineAction,
+  ActionCategory,
+  Photo,
+  ParkArea,
+  LandArea,
+  SeaArea,
+} from '../types/models';
+import { colors } from '../styles/colors';
+import { spacing, borderRadius } from '../styles/theme';
+import { Header } from '../components/Header';
+import { PhotoThumbnail } from '../components/PhotoThumbnail';
+import { PhotoEditor } from '../components/PhotoEditor';
+import { photoService, PhotoMetadata } from '../services/photoService';
+
+interface RouteParams {
+  visitId?: string; // Omitted for the album of every visit
+}
+
+type AlbumGroupBy = 'action' | 'area' | 'category';
+
+interface AlbumEntry {
+  photo: Photo;
+  action: TimelineAction;
+}
+
+interface AlbumSection {
+  key: string;
+  title: string;
+  subtitle?: string;
+  entries: AlbumEntry[];
+}
+
+const { width: screenWidth } = Dimensions.get('window');
+const GRID_COLUMNS = 3;
+const GRID_GAP = spacing[1];
+const TILE_SIZE = (screenWidth - spacing[4] * 2 - GRID_GAP * (GRID_COLUMNS - 1)) / GRID_COLUMNS;
+
+const AREA_LABELS_EN: Record<ParkArea, string> = {
+  [LandArea.WORLD_BAZAAR]: 'World Bazaar',
+  [LandArea.ADVENTURELAND]: 'Adventureland',
+  [LandArea.WESTERNLAND]: 'Westernland',
+  [LandArea.CRITTER_COUNTRY]: 'Critter Country',
+  [LandArea.FANTASYLAND]: 'Fantasyland',
+  [LandArea.TOONTOWN]: 'Toontown',
+  [LandArea.TOMORROWLAND]: 'Tomorrowland',
+  [SeaArea.MEDITERRANEAN_HARBOR]: 'Mediterranean Harbor',
+  [SeaArea.AMERICAN_WATERFRONT]: 'American Waterfront',
+  [SeaArea.PORT_DISCOVERY]: 'Port Discovery',
+  [SeaArea.LOST_RIVER_DELTA]: 'Lost River Delta',
+  [SeaArea.ARABIAN_COAST]: 'Arabian Coast',
+  [SeaArea.MERMAID_LAGOON]: 'Mermaid Lagoon',
+  [SeaArea.MYSTERIOUS_ISLAND]: 'Mysterious Island',
+  [SeaArea.FANTASY_SPRINGS]: 'Fantasy Springs',
+};
+
+export const AlbumScreen = () => {
+  const navigation = useNavigation();
+  const route = useRoute();
+  const { theme } = useTheme();
+  const { language } = useLanguage();
+  const { getActionsByVisit, getFilteredActions, updatePhoto } = useActions();
+  const { visits } = useVisits();
+
+  const { visitId } = (route.params || {}) as RouteParams;
+  const [actions, setActions] = useState<TimelineAction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [groupBy, setGroupBy] = useState<AlbumGroupBy>('action');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [viewing, setViewing] = useState<AlbumEntry | null>(null);
+  const [captionDraft, setCaptionDraft] = useState('');
+  const [editing, setEditing] = useState<PhotoMetadata | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadPhotos();
+    });
+
+    return unsubscribe;
+  }, [navigation, visitId]);
+
+  const loadPhotos = async () => {
+    try {
+      const loaded = visitId
+        ? await getActionsByVisit(visitId)
+        : await getFilteredActions({});
+      setActions(loaded.filter(action => action.photos.length > 0));
+    } catch (error) {
+      Alert.alert(
+        language === 'ja' ? 'エラー' : 'Error',
+        language === 'ja' ? '写真の読み込みに失敗しました' : 'Failed to load photos'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDate = (date: Date): string => {
+    return new Date(date).toLocaleDateString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const formatTime = (date: Date): string => {
+    return new Date(date).toLocaleTimeString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getAreaLabel = (area: ParkArea): string => {
+    return language === 'ja' ? area : AREA_LABELS_EN[area] || area;
+  };
+
+  const getCategoryName = (category: ActionCategory): string => {
+    switch (category) {
+      case ActionCategory.ATTRACTION:
+        return language === 'ja' ? 'アトラクション' : 'Attraction';
+      case ActionCategory.RESTAURANT:
+        return language === 'ja' ? 'レストラン' : 'Restaurant';
+      case ActionCategory.SHOW:
+        return language === 'ja' ? 'ショー' : 'Show';
+      case ActionCategory.GREETING:
+        return language === 'ja' ? 'グリーティング' : 'Greeting';
+      case ActionCategory.SHOPPING:
+        return language === 'ja' ? 'ショッピング' : 'Shopping';
+      case ActionCategory.CUSTOM:
+        return language === 'ja' ? 'カスタム' : 'Custom';
+      default:
+        return language === 'ja' ? 'その他' : 'Other';
+    }
+  };
+
+  const getActionTitle = (action: TimelineAction): string =>
+    action.customTitle || action.locationName || getCategoryName(action.category);
+
+  const visitDates = useMemo(() => {
+    const dates = new Map<string, Date>();
+    visits.forEach(visit => dates.set(visit.id, new Date(visit.date)));
+    return dates;
+  }, [visits]);
+
+  // Newest visit first across visits; within a visit, in timeline order
+  const entries = useMemo(() => {
+    const sortedActions = [...actions].sort((a, b) => {
+      const visitDiff = (visitDates.get(b.visitId)?.getTime() || 0) - (visitDates.get(a.visitId)?.getTime() || 0);
+      return visitDiff || new Date(a.time).getTime() - new Date(b.time).getTime();
+    });
+
+    return sortedActions.flatMap(action =>
+      action.photos
+        .filter(photo => !favoritesOnly || photo.isFavorite)
+        .map(photo => ({ photo, action }))
+    );
+  }, [actions, visitDates, favoritesOnly]);
+
+  const sections = useMemo(() => {
+    const grouped = new Map<string, AlbumSection>();
+
+    entries.forEach(entry => {
+      const { action } = entry;
+      let section: Omit<AlbumSection, 'entries'>;
+
+      switch (groupBy) {
+        case 'area':
+          section = { key: action.area, title: getAreaLabel(action.area) };
+          break;
+        case 'category':
+          section = { key: action.category, title: getCategoryName(action.category) };
+          break;
+        default:
+          section = {
+            key: action.id,
+            title: getActionTitle(action),
+            subtitle: visitId
+              ? formatTime(action.time)
+              : `${formatDate(visitDates.get(action.visitId) || action.time)} ${formatTime(action.time)}`,
+          };
+      }
+
+      if (!grouped.has(section.key)) {
+        grouped.set(section.key, { ...section, entries: [] });
+      }
+      grouped.get(section.key)!.entries.push(entry);
+    });
+
+    return Array.from(grouped.values());
+  }, [entries, groupBy, visitDates, visitId, language]);
+
+  // Apply a photo change locally and persist it to the owning action
+  const savePhotoChanges = async (entry: AlbumEntry, updates: Partial<Omit<Photo, 'id'>>) => {
+    const updatedPhoto = { ...entry.photo, ...updates };
+    setActions(prev => prev.map(action =>
+      action.id === entry.action.id
+        ? { ...action, photos: action.photos.map(photo => photo.id === updatedPhoto.id ? updatedPhoto : photo) }
+        : action
+    ));
+    setViewing(current => current?.photo.id === updatedPhoto.id ? { ...current, photo: updatedPhoto } : current);
+
+    try {
+      await updatePhoto(entry.action.id, entry.photo.id, updates);
+    } catch (error) {
+      Alert.alert(
+        language === 'ja' ? 'エラー' : 'Error',
+        language === 'ja' ? '写真の保存に失敗しました' : 'Failed to save photo'
+      );
+      loadPhotos();
+    }
+  };
+
+  const toggleFavorite = (entry: AlbumEntry) => {
+    savePhotoChanges(entry, { isFavorite: !entry.photo.isFavorite });
+  };
+
+  const openViewer = (entry: AlbumEntry) => {
+    setViewing(entry);
+    setCaptionDraft(entry.photo.caption || '');
+  };
+
+  const closeViewer = () => {
+    if (viewing && captionDraft.trim() !== (viewing.photo.caption || '')) {
+      savePhotoChanges(viewing, { caption: captionDraft.trim() || undefined });
+    }
+    setViewing(null);
+    setEditing(null);
+  };
+
+  const openEditor = async () => {
+    if (!viewing) return;
+    try {
+      setEditing(await photoService.getPhotoMetadata(viewing.photo));
+    } catch (error) {
+      Alert.alert(
+        language === 'ja' ? 'エラー' : 'Error',
+        language === 'ja' ? '写真を開けませんでした' : 'Failed to open photo'
+      );
+    }
+  };
+
+  // The editor has already written the edited file and its thumbnail
+  const saveEdit = (edited: PhotoMetadata) => {
+    if (!viewing) return;
+    savePhotoChanges(viewing, {
+      uri: edited.uri,
+      width: edited.width,
+      height: edited.height,
+      thumbnailUri: edited.thumbnailUri,
+      originalUri: edited.originalUri,
+      editHistory: edited.editHistory,
+      perceptualHash: undefined,
+    });
+  };
+
+  const openOwningAction = () => {
+    if (!viewing) return;
+    const { action } = viewing;
+    closeViewer();
+
+    // Returns to the visit screen if it is already open underneath
+    (navigation as any).navigate('VisitDetail', { visitId: action.visitId, actionId: action.id }, { pop: true });
+  };
+
+  const renderToolbar = () => {
+    const groupOptions: Array<{ value: AlbumGroupBy; label: string }> = [
+      { value: 'action', label: language === 'ja' ? 'アクション' : 'Action' },
+      { value: 'area', label: language === 'ja' ? 'エリア' : 'Area' },
+      { value: 'category', label: language === 'ja' ? 'カテゴリ' : 'Category' },
+    ];
+
+    return (
+      <View style={styles.toolbar}>
+        <View style={[styles.segment, { backgroundColor: theme.colors.background.secondary }]}>
+          {groupOptions.map(option => {
+            const isSelected = groupBy === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.segmentOption, isSelected && { backgroundColor: colors.purple[500] }]}
+                onPress={() => setGroupBy(option.value)}
+              >
+                <Text style={[
+                  styles.segmentText,
+                  { color: isSelected ? 'white' : theme.colors.text.secondary }
+                ]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <TouchableOpacity
+          style={[
+            styles.favoriteFilter,
+            {
+              backgroundColor: favoritesOnly ? colors.pink[500] : theme.colors.background.secondary,
+            },
+          ]}
+          onPress={() => setFavoritesOnly(!favoritesOnly)}
+        >
+          <Ionicons
+            name={favoritesOnly ? 'heart' : 'heart-outline'}
+            size={18}
+            color={favoritesOnly ? 'white' : theme.colors.text.secondary}
+          />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderSection = (section: AlbumSection) => (
+    <View key={section.key} style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={[styles.sectionTitle, { color: theme.colors.text.primary }]} numberOfLines={1}>
+          {section.title}
+        </Text>
+        <Text style={[styles.sectionSubtitle, { color: theme.colors.text.secondary }]}>
+          {section.subtitle ? `${section.subtitle} · ` : ''}
+          {language === 'ja' ? `${section.entries.length}枚` : `${section.entries.length} photos`}
+        </Text>
+      </View>
+
+      <View style={styles.grid}>
+        {section.entries.map(entry => (
+          <TouchableOpacity
+            key={`${entry.action.id}-${entry.photo.id}`}
+            style={styles.tile}
+            onPress={() => openViewer(entry)}
+            activeOpacity={0.8}
+          >
+            <PhotoThumbnail photo={entry.photo} style={styles.tileImage} />
+            <TouchableOpacity
+              style={styles.tileFavorite}
+              onPress={() => toggleFavorite(entry)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Ionicons
+                name={entry.photo.isFavorite ? 'heart' : 'heart-outline'}
+                size={18}
+                color={entry.photo.isFavorite ? colors.pink[500] : 'white'}
+              />
+            </TouchableOpacity>
+            {!!entry.photo.caption && (
+              <View style={styles.tileCaption}>
+                <Text style={styles.tileCaptionText} numberOfLines={1}>
+                  {entry.photo.caption}
+                </Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons
+        name={favoritesOnly ? 'heart-outline' : 'images-outline'}
+        size={48}
+        color={theme.colors.text.secondary}
+      />
+      <Text style={[styles.emptyStateText, { color: theme.colors.text.secondary }]}>
+        {favoritesOnly
+          ? (language === 'ja' ? 'お気に入りの写真はまだありません' : 'No favorite photos yet')
+          : (language === 'ja' ? 'まだ写真がありません' : 'No photos yet')
+        }
+      </Text>
+    </View>
+  );
+
+  const renderViewer = () => (
+    <Modal
+      visible={!!viewing}
+      animationType="fade"
+      onRequestClose={closeViewer}
+    >
+      {viewing && (
+        <KeyboardAvoidingView
+          style={styles.viewer}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <View style={styles.viewerHeader}>
+            <TouchableOpacity style={styles.viewerButton} onPress={closeViewer}>
+              <Ionicons name="close" size={26} color="white" />
+            </TouchableOpacity>
+            <View style={styles.viewerHeaderActions}>
+              <TouchableOpacity style={styles.viewerButton} onPress={openEditor}>
+                <Ionicons name="create-outline" size={26} color="white" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.viewerButton} onPress={() => toggleFavorite(viewing)}>
+                <Ionicons
+                  name={viewing.photo.isFavorite ? 'heart' : 'heart-outline'}
+                  size={26}
+                  color={viewing.photo.isFavorite ? colors.pink[500] : 'white'}
+                />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <Image
+            source={{ uri: viewing.photo.uri }}
+            style={styles.viewerImage}
+            resizeMode="contain"
+          />
+
+          <View style={styles.viewerFooter}>
+            <TouchableOpacity style={styles.viewerAction} onPress={openOwningAction}>
+              <Ionicons name="navigate-circle-outline" size={18} color="white" />
+              <Text style={styles.viewerActionText} numberOfLines={1}>
+                {getActionTitle(viewing.action)} · {formatTime(viewing.action.time)}
+              </Text>
+              <Ionicons name="chevron-forward" size={16} color="rgba(255, 255, 255, 0.7)" />
+            </TouchableOpacity>
+
+            <TextInput
+              style={styles.captionInput}
+              value={captionDraft}
+              onChangeText={setCaptionDraft}
+              placeholder={language === 'ja' ? 'キャプションを追加...' : 'Add a caption...'}
+              placeholderTextColor="rgba(255, 255, 255, 0.5)"
+              maxLength={200}
+              multiline
+            />
+          </View>
+
+          {/* Mounted per photo; the editor keeps its working state from the first render */}
+          {editing && (
+            <PhotoEditor
+              photo={editing}
+              visible
+              onClose={() => setEditing(null)}
+              onSave={saveEdit}
+            />
+          )}
+        </KeyboardAvoidingView>
+      )}
+    </Modal>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background.primary }]}>
+      <Header
+        title={visitId
+          ? (language === 'ja' ? 'アルバム' : 'Album')
+          : (language === 'ja' ? 'すべての写真' : 'All Photos')
+        }
+        subtitle={language === 'ja' ? `${entries.length}枚` : `${entries.length} photos`}
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      {renderToolbar()}
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {!isLoading && sections.length === 0 ? renderEmptyState() : sections.map(renderSection)}
+      </ScrollView>
+
+      {renderViewer()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing[4],
+    paddingVertical: spacing[3],
+    gap: spacing[2],
+  },
+  segment: {
+    flex: 1,
+    flexDirection: 'row',
+    borderRadius: borderRadius.lg,
+    padding: 2,
+  },
+  segmentOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing[2],
+    borderRadius: borderRadius.md,
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  favoriteFilter: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  section: {
+    paddingHorizontal: spacing[4],
+    marginBottom: spacing[4],
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+    marginBottom: spacing[2],
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    marginRight: spacing[2],
+  },
+  sectionSubtitle: {
+    fontSize: 12,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: GRID_GAP,
+  },
+  tile: {
+    width: TILE_SIZE,
+    height: TILE_SIZE,
+    borderRadius: borderRadius.sm,
+    overflow: 'hidden',
+  },
+  tileImage: {
+    width: '100%',
+    height: '100%',
+  },
+  tileFavorite: {
+    position: 'absolute',
+    top: spacing[1],
+    right: spacing[1],
+  },
+  tileCaption: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    paddingHorizontal: spacing[1],
+    paddingVertical: 2,
+  },
+  tileCaptionText: {
+    color: 'white',
+    fontSize: 10,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: spacing[8],
+  },
+  emptyStateText: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginTop: spacing[3],
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  viewerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingTop: Platform.OS === 'ios' ? 50 : spacing[4],
+    paddingHorizontal: spacing[4],
+  },
+  viewerHeaderActions: {
+    flexDirection: 'row',
+    gap: spacing[2],
+  },
+  viewerButton: {
+    padding: spacing[2],
+  },
+  viewerImage: {
+    flex: 1,
+    width: '100%',
+  },
+  viewerFooter: {
+    padding: spacing[4],
+    paddingBottom: Platform.OS === 'ios' ? 34 : spacing[4],
+    gap: spacing[3],
+  },
+  viewerAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[2],
+  },
+  viewerActionText: {
+    flex: 1,
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  captionInput: {
+    color: 'white',
+    fontSize: 14,
+    minHeight: 40,
+    maxHeight: 100,
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    borderRadius: borderRadius.md,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+});
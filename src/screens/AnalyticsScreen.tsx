@@ -48,6 +48,9 @@ import {
   ActionFilter,
   DateRange,
 } from '../types/models';
+import { calculateSpendingStats, formatYen } from '../utils/spending';
+import { calculateWaitTimeStats, formatWaitTime } from '../utils/waitTimes';
+import { formatDuration } from '../utils/visitDuration';
 
 // Period types for analytics
 type PeriodType = 'monthly' | 'yearly' | 'all-time' | 'custom';
@@ -305,6 +308,48 @@ export const AnalyticsScreen = () => {
     };
   }, [currentFilter, isLoading, getVisitStatistics, getActionStatistics]);
 
+  // Visits in the selected period
+  const periodVisits = useMemo(() => {
+    const dateRange = currentFilter.visitFilter?.dateRange;
+    return dateRange
+      ? visits.filter(visit => {
+          const time = new Date(visit.date).getTime();
+          return time >= dateRange.startDate.getTime() && time <= dateRange.endDate.getTime();
+        })
+      : visits;
+  }, [visits, currentFilter]);
+
+  const spendingStats = useMemo(() => {
+    return calculateSpendingStats(periodVisits, actions, companions);
+  }, [periodVisits, actions, companions]);
+
+  const waitTimeStats = useMemo(() => {
+    return calculateWaitTimeStats(periodVisits, actions);
+  }, [periodVisits, actions]);
+
+  const getCategoryName = (category: ActionCategory): string => {
+    switch (category) {
+      case ActionCategory.ATTRACTION:
+        return language === 'ja' ? 'アトラクション' : 'Attraction';
+      case ActionCategory.RESTAURANT:
+        return language === 'ja' ? 'レストラン' : 'Restaurant';
+      case ActionCategory.SHOW:
+        return language === 'ja' ? 'ショー' : 'Show';
+      case ActionCategory.GREETING:
+        return language === 'ja' ? 'グリーティング' : 'Greeting';
+      case ActionCategory.SHOPPING:
+        return language === 'ja' ? 'ショッピング' : 'Shopping';
+      default:
+        return language === 'ja' ? 'その他' : 'Other';
+    }
+  };
+
+  // Minutes after midnight as H:MM
+  const formatClockTime = (minutes: number): string => {
+    const rounded = Math.round(minutes);
+    return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+  };
+
   // Statistics cards data with proper translation and debugging
   const statsCards = useMemo(() => {
     if (!visitStats || !actionStats || !t) return [];
@@ -345,13 +390,52 @@ export const AnalyticsScreen = () => {
       },
       {
         title: t('analytics.avgVisitDuration') || (language === 'ja' ? '平均滞在時間' : 'Avg Duration'),
-        value: `${Math.round((avgDuration || 0) / 60)}h`,
+        value: formatDuration(avgDuration || 0, language),
         icon: 'time' as keyof typeof Ionicons.glyphMap,
         color: '#facc15',
-        subtitle: t('analytics.hoursPerVisit') || (language === 'ja' ? '来園あたりの時間' : 'Hours per visit'),
+        // Without measured visits the average is the pass type estimate
+        subtitle: visitStats?.measuredVisitCount && visitStats.averageIdleTime !== undefined
+          ? (language === 'ja'
+            ? `空き時間 ${formatDuration(visitStats.averageIdleTime, language)}`
+            : `${formatDuration(visitStats.averageIdleTime, language)} idle`)
+          : (t('analytics.hoursPerVisit') || (language === 'ja' ? '来園あたりの時間' : 'Hours per visit')),
+      },
+      ...(visitStats?.averageEntryTime !== undefined && visitStats.averageExitTime !== undefined ? [{
+        title: language === 'ja' ? '平均入退園時刻' : 'Avg Entry / Exit',
+        value: `${formatClockTime(visitStats.averageEntryTime)}–${formatClockTime(visitStats.averageExitTime)}`,
+        icon: 'log-in' as keyof typeof Ionicons.glyphMap,
+        color: '#10b981',
+        subtitle: language === 'ja'
+          ? `${visitStats.measuredVisitCount}回の来園から算出`
+          : `From ${visitStats.measuredVisitCount} visits`,
+      }] : []),
+      {
+        title: language === 'ja' ? '総支出' : 'Total Spending',
+        value: formatYen(spendingStats.totalSpend),
+        icon: 'wallet' as keyof typeof Ionicons.glyphMap,
+        color: '#f97316',
+        subtitle: `${formatYen(spendingStats.averagePerVisit)} ${t('analytics.perVisit') || (language === 'ja' ? '来園あたり' : 'per visit')}`,
+      },
+      {
+        title: language === 'ja' ? 'チケット代' : 'Tickets',
+        value: formatYen(spendingStats.ticketSpend),
+        icon: 'ticket' as keyof typeof Ionicons.glyphMap,
+        color: '#ec4899',
+        subtitle: language === 'ja'
+          ? `パーク内 ${formatYen(spendingStats.totalSpend - spendingStats.ticketSpend)}`
+          : `${formatYen(spendingStats.totalSpend - spendingStats.ticketSpend)} in park`,
+      },
+      {
+        title: language === 'ja' ? '平均待ち時間' : 'Avg Wait',
+        value: formatWaitTime(waitTimeStats.averageWaitTime, language),
+        icon: 'hourglass' as keyof typeof Ionicons.glyphMap,
+        color: '#06b6d4',
+        subtitle: language === 'ja'
+          ? `${waitTimeStats.totalRecords}件の記録`
+          : `${waitTimeStats.totalRecords} records`,
       },
     ];
-  }, [visitStats, actionStats, selectedPeriod, t, language]);
+  }, [visitStats, actionStats, spendingStats, waitTimeStats, selectedPeriod, t, language]);
 
   // Pie chart data for park visits
   const parkVisitsData = useMemo((): SimplePieChartData[] => {
@@ -515,9 +599,159 @@ export const AnalyticsScreen = () => {
       .map((area: any) => ({
         label: area?.area ? area.area.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, (l: string) => l.toUpperCase()) : 'Unknown',
         value: area?.visitCount || 0,
-        description: area?.timeSpent ? `${Math.round(area.timeSpent / 60)}h spent` : undefined,
+        description: area?.timeSpent
+          ? (language === 'ja' ? `${formatDuration(area.timeSpent, language)}滞在` : `${formatDuration(area.timeSpent, language)} spent`)
+          : undefined,
       }));
-  }, [actionStats]);
+  }, [actionStats, language]);
+
+  // Spending breakdown: tickets plus each category with recorded purchases
+  const spendingCategoriesData = useMemo((): SimplePieChartData[] => {
+    const categoryColors: Record<string, string> = {
+      [ActionCategory.RESTAURANT]: '#22c55e',
+      [ActionCategory.SHOPPING]: '#facc15',
+      [ActionCategory.ATTRACTION]: colors.purple[500],
+      [ActionCategory.SHOW]: '#3b82f6',
+      [ActionCategory.GREETING]: '#06b6d4',
+    };
+
+    const data: SimplePieChartData[] = spendingStats.spendByCategory.map(entry => ({
+      label: getCategoryName(entry.category),
+      value: entry.amount,
+      color: categoryColors[entry.category] || '#64748b',
+    }));
+    if (spendingStats.ticketSpend > 0) {
+      data.unshift({
+        label: language === 'ja' ? 'チケット' : 'Tickets',
+        value: spendingStats.ticketSpend,
+        color: '#ec4899',
+      });
+    }
+    return data;
+  }, [spendingStats, language]);
+
+  const spendingAreasData = useMemo((): BarChartData[] => {
+    return spendingStats.spendByArea
+      .slice(0, 10)
+      .map(entry => ({
+        label: entry.area,
+        value: entry.amount,
+      }));
+  }, [spendingStats]);
+
+  const spendingMonthsData = useMemo((): BarChartData[] => {
+    return spendingStats.spendByMonth.map(entry => {
+      const [year, month] = entry.month.split('-').map(Number);
+      return {
+        label: language === 'ja' ? `${year}年${month}月` : `${year}/${month}`,
+        value: entry.amount,
+      };
+    });
+  }, [spendingStats, language]);
+
+  const companionSpendingData = useMemo((): RankingItem[] => {
+    return spendingStats.spendByCompanion.map((entry, index) => ({
+      id: entry.companion.id,
+      name: entry.companion.name,
+      value: entry.amount,
+      subtitle: language === 'ja' ? '一緒の来園の支出（円）' : 'Spent on visits together (¥)',
+      color: '#f97316',
+      trend: index < 3 ? 'up' : 'neutral' as const,
+    }));
+  }, [spendingStats, language]);
+
+  const waitHoursData = useMemo((): LineChartData[] => {
+    return waitTimeStats.byHour.map(entry => ({
+      x: entry.hour,
+      y: Math.round(entry.average),
+      label: language === 'ja' ? `${entry.hour}時` : `${entry.hour}:00`,
+    }));
+  }, [waitTimeStats, language]);
+
+  const waitTrendData = useMemo((): LineChartData[] => {
+    return waitTimeStats.trend.map(entry => {
+      const [year, month] = entry.month.split('-').map(Number);
+      return {
+        x: entry.month,
+        y: Math.round(entry.average),
+        label: `${String(year).slice(2)}/${month}`,
+      };
+    });
+  }, [waitTimeStats]);
+
+  const waitConditionsData = useMemo((): BarChartData[] => {
+    const getWeatherName = (weather: NonNullable<Visit['weather']>): string => {
+      switch (weather) {
+        case 'SUNNY':
+          return language === 'ja' ? '晴れ' : 'Sunny';
+        case 'CLOUDY':
+          return language === 'ja' ? '曇り' : 'Cloudy';
+        case 'RAINY':
+          return language === 'ja' ? '雨' : 'Rainy';
+        case 'SNOWY':
+          return language === 'ja' ? '雪' : 'Snowy';
+      }
+    };
+    const getDescription = (count: number) =>
+      language === 'ja' ? `${count}件` : `${count} records`;
+
+    return [
+      ...waitTimeStats.byDayType.map(entry => ({
+        label: entry.dayType === 'WEEKEND'
+          ? (language === 'ja' ? '週末' : 'Weekend')
+          : (language === 'ja' ? '平日' : 'Weekday'),
+        value: Math.round(entry.average),
+        description: getDescription(entry.count),
+        color: entry.dayType === 'WEEKEND' ? '#ec4899' : '#3b82f6',
+      })),
+      ...waitTimeStats.byWeather.map(entry => ({
+        label: getWeatherName(entry.weather),
+        value: Math.round(entry.average),
+        description: getDescription(entry.count),
+        color: '#06b6d4',
+      })),
+    ];
+  }, [waitTimeStats, language]);
+
+  const waitMonthsData = useMemo((): BarChartData[] => {
+    return waitTimeStats.byMonth.map(entry => ({
+      label: language === 'ja' ? `${entry.month}月` : new Date(2000, entry.month - 1, 1).toLocaleString('en', { month: 'short' }),
+      value: Math.round(entry.average),
+      description: language === 'ja' ? `${entry.count}件` : `${entry.count} records`,
+    }));
+  }, [waitTimeStats, language]);
+
+  // Average, median and range of each attraction's waits
+  const waitAttractionsData = useMemo((): BarChartData[] => {
+    return waitTimeStats.byAttraction.slice(0, 10).map(entry => ({
+      label: entry.locationName,
+      value: Math.round(entry.average),
+      description: language === 'ja'
+        ? `中央値 ${formatWaitTime(entry.median, language)} ・ ${formatWaitTime(entry.shortest.waitTime, language)}〜${formatWaitTime(entry.longest.waitTime, language)}`
+        : `Median ${formatWaitTime(entry.median, language)} · ${formatWaitTime(entry.shortest.waitTime, language)}–${formatWaitTime(entry.longest.waitTime, language)}`,
+    }));
+  }, [waitTimeStats, language]);
+
+  // Personal best per attraction, for attractions ridden more than once
+  const waitRecordsData = useMemo((): RankingItem[] => {
+    const formatDate = (date: Date) => language === 'ja'
+      ? `${date.getFullYear()}/${date.getMonth() + 1}/${date.getDate()}`
+      : date.toLocaleDateString('en');
+
+    return waitTimeStats.byAttraction
+      .filter(entry => entry.count > 1)
+      .map(entry => ({
+        id: entry.locationName,
+        name: entry.locationName,
+        value: entry.shortest.waitTime,
+        subtitle: language === 'ja'
+          ? `ベスト ${formatDate(entry.shortest.date)} ・ 最長 ${formatWaitTime(entry.longest.waitTime, language)}（${formatDate(entry.longest.date)}）`
+          : `Best ${formatDate(entry.shortest.date)} · Worst ${formatWaitTime(entry.longest.waitTime, language)} (${formatDate(entry.longest.date)})`,
+        color: '#06b6d4',
+        trend: 'neutral' as const,
+      }))
+      .sort((a, b) => a.value - b.value);
+  }, [waitTimeStats, language]);
 
   // Get years with visits for calendar display
   const yearsWithVisits = useMemo(() => {
@@ -583,7 +817,14 @@ export const AnalyticsScreen = () => {
       let shareText = `🏰 TDR Days ${periodText}の記録 ✨\n\n`;
       shareText += `📊 来園数: ${visitStats?.totalVisits || 0}回\n`;
       shareText += `🎢 アクション数: ${actionStats?.totalActions || 0}件\n`;
-      shareText += `📸 写真: ${actionStats?.photoCount || 0}枚\n\n`;
+      shareText += `📸 写真: ${actionStats?.photoCount || 0}枚\n`;
+      if (spendingStats.totalSpend > 0) {
+        shareText += `💴 支出: ${formatYen(spendingStats.totalSpend)}\n`;
+      }
+      if (waitTimeStats.totalRecords > 0) {
+        shareText += `⏱️ 平均待ち時間: ${formatWaitTime(waitTimeStats.averageWaitTime, 'ja')}\n`;
+      }
+      shareText += `\n`;
       
       if (topAttraction) {
         shareText += `🎯 よく行くアトラクション: ${topAttraction}\n`;
@@ -721,6 +962,17 @@ export const AnalyticsScreen = () => {
             animationDelay={chart.delay}
           />
         );
+      case 'line':
+        return (
+          <LineChart
+            key={chart.key}
+            data={chart.data}
+            title={chart.title}
+            color={chart.color}
+            height={isTabletOrLarger ? 300 : 250}
+            animationDelay={chart.delay}
+          />
+        );
       case 'heatmap':
         return (
           <HeatMap
@@ -796,6 +1048,88 @@ export const AnalyticsScreen = () => {
       });
     }
     
+    if (spendingCategoriesData.length > 0) {
+      charts.push({
+        key: 'spending-categories',
+        type: 'pie',
+        data: spendingCategoriesData,
+        title: language === 'ja' ? '支出の内訳（円）' : 'Spending Breakdown (¥)',
+        delay: 1100,
+      });
+    }
+
+    if (spendingAreasData.length > 0) {
+      charts.push({
+        key: 'spending-areas',
+        type: 'bar',
+        data: spendingAreasData,
+        title: language === 'ja' ? 'エリア別の支出（円）' : 'Spending by Area (¥)',
+        delay: 1150,
+      });
+    }
+
+    if (spendingMonthsData.length > 1) {
+      charts.push({
+        key: 'spending-months',
+        type: 'bar',
+        data: spendingMonthsData,
+        title: language === 'ja' ? '月別の支出（円）' : 'Spending by Month (¥)',
+        delay: 1175,
+      });
+    }
+
+    if (waitAttractionsData.length > 0) {
+      charts.push({
+        key: 'wait-attractions',
+        type: 'bar',
+        data: waitAttractionsData,
+        title: language === 'ja' ? 'アトラクション別の待ち時間（分）' : 'Wait Time by Attraction (min)',
+        delay: 1180,
+      });
+    }
+
+    if (waitHoursData.length > 1) {
+      charts.push({
+        key: 'wait-hours',
+        type: 'line',
+        data: waitHoursData,
+        title: language === 'ja' ? '時間帯別の平均待ち時間（分）' : 'Average Wait by Hour (min)',
+        color: '#06b6d4',
+        delay: 1185,
+      });
+    }
+
+    if (waitConditionsData.length > 0) {
+      charts.push({
+        key: 'wait-conditions',
+        type: 'bar',
+        data: waitConditionsData,
+        title: language === 'ja' ? '曜日・天気別の平均待ち時間（分）' : 'Average Wait by Day and Weather (min)',
+        delay: 1190,
+      });
+    }
+
+    if (waitMonthsData.length > 1) {
+      charts.push({
+        key: 'wait-months',
+        type: 'bar',
+        data: waitMonthsData,
+        title: language === 'ja' ? '月別の平均待ち時間（分）' : 'Average Wait by Month (min)',
+        delay: 1192,
+      });
+    }
+
+    if (waitTrendData.length > 1) {
+      charts.push({
+        key: 'wait-trend',
+        type: 'line',
+        data: waitTrendData,
+        title: language === 'ja' ? '待ち時間の推移（分）' : 'Wait Time Trend (min)',
+        color: colors.purple[500],
+        delay: 1195,
+      });
+    }
+
     if (visitHeatMapData.length > 0) {
       charts.push({
         key: 'visit-heatmap',
@@ -808,7 +1142,7 @@ export const AnalyticsScreen = () => {
     }
     
     return charts;
-  }, [parkVisitsData, actionCategoriesData, areaDistributionData, visitHeatMapData]);
+  }, [parkVisitsData, actionCategoriesData, areaDistributionData, spendingCategoriesData, spendingAreasData, spendingMonthsData, waitAttractionsData, waitHoursData, waitConditionsData, waitMonthsData, waitTrendData, visitHeatMapData, language]);
 
   // Handle error state
   if (hasError) {
@@ -1151,6 +1485,27 @@ export const AnalyticsScreen = () => {
                   animationDelay={1800}
                 />
               )}
+
+              {/* Spending by Companion */}
+              {companionSpendingData.length > 0 && (
+                <TopRankingList
+                  data={companionSpendingData}
+                  title={language === 'ja' ? '同行者別の支出' : 'Spending by Companion'}
+                  limit={6}
+                  animationDelay={2000}
+                />
+              )}
+
+              {/* Personal Best Waits */}
+              {waitRecordsData.length > 0 && (
+                <TopRankingList
+                  data={waitRecordsData}
+                  title={language === 'ja' ? '待ち時間の自己ベスト（分）' : 'Personal Best Waits (min)'}
+                  limit={8}
+                  showTrend={false}
+                  animationDelay={2200}
+                />
+              )}
               
               {/* Show message if no ranking data */}
               {(!Array.isArray(topAttractionsData) || topAttractionsData.length === 0) && 
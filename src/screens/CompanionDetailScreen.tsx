@@ -0,0 +1,406 @@
+import React, { useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useVisits } from '../hooks/useVisits';
+import { useActions } from '../hooks/useActions';
+import { ActionCategory, ParkType, Visit } from '../types/models';
+import { colors } from '../styles/colors';
+import { spacing, borderRadius } from '../styles/theme';
+import { Header } from '../components/Header';
+import {
+  StatsCard,
+  BarChart,
+  TopRankingList,
+  type BarChartData,
+  type RankingItem,
+} from '../components/charts';
+import { calculateCompanionStats, getDaysSince, getSharedVisits } from '../utils/companionStats';
+
+interface RouteParams {
+  companionId: string;
+}
+
+export const CompanionDetailScreen = () => {
+  const navigation = useNavigation();
+  const route = useRoute();
+  const { theme } = useTheme();
+  const { language } = useLanguage();
+  const { visits, companions, isLoading: visitsLoading, refreshData: refreshVisits } = useVisits();
+  const { actions, isLoading: actionsLoading, refreshData: refreshActions } = useActions();
+
+  const { companionId } = route.params as RouteParams;
+  const isLoading = visitsLoading || actionsLoading;
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', () => {
+      refreshVisits();
+      refreshActions();
+    });
+
+    return unsubscribe;
+  }, [navigation]);
+
+  const companion = companions.find(c => c.id === companionId);
+
+  const stats = useMemo(() => {
+    return companion ? calculateCompanionStats(companion, visits, actions) : null;
+  }, [companion, visits, actions]);
+
+  const sharedVisits = useMemo(() => {
+    return companion ? getSharedVisits(companion, visits) : [];
+  }, [companion, visits]);
+
+  const actionCountByVisit = useMemo(() => {
+    const counts = new Map<string, number>();
+    actions.forEach(action => counts.set(action.visitId, (counts.get(action.visitId) || 0) + 1));
+    return counts;
+  }, [actions]);
+
+  const yearsData = useMemo((): BarChartData[] => {
+    return (stats?.visitsByYear || []).map(entry => ({
+      label: language === 'ja' ? `${entry.year}年` : String(entry.year),
+      value: entry.count,
+    }));
+  }, [stats, language]);
+
+  const attractionsData = useMemo((): RankingItem[] => {
+    return (stats?.favoriteAttractions || []).map(entry => ({
+      id: entry.locationName,
+      name: entry.locationName,
+      value: entry.count,
+      subtitle: language === 'ja' ? '一緒に乗った回数' : 'Rides together',
+      color: colors.purple[500],
+    }));
+  }, [stats, language]);
+
+  const formatDate = (date: Date): string => {
+    return new Date(date).toLocaleDateString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      weekday: 'short',
+    });
+  };
+
+  const getParkName = (parkType: ParkType): string => {
+    return parkType === ParkType.LAND
+      ? (language === 'ja' ? 'ディズニーランド' : 'Disneyland')
+      : (language === 'ja' ? 'ディズニーシー' : 'DisneySea');
+  };
+
+  const getCategoryName = (category: ActionCategory): string => {
+    switch (category) {
+      case ActionCategory.ATTRACTION:
+        return language === 'ja' ? 'アトラクション' : 'Attraction';
+      case ActionCategory.RESTAURANT:
+        return language === 'ja' ? 'レストラン' : 'Restaurant';
+      case ActionCategory.SHOW:
+        return language === 'ja' ? 'ショー' : 'Show';
+      case ActionCategory.GREETING:
+        return language === 'ja' ? 'グリーティング' : 'Greeting';
+      case ActionCategory.SHOPPING:
+        return language === 'ja' ? 'ショッピング' : 'Shopping';
+      default:
+        return language === 'ja' ? 'その他' : 'Other';
+    }
+  };
+
+  const getDaysSinceText = (days: number): string => {
+    if (days === 0) return language === 'ja' ? '今日' : 'Today';
+    return language === 'ja' ? `${days}日` : `${days} day${days !== 1 ? 's' : ''}`;
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons name="people-outline" size={48} color={theme.colors.text.secondary} />
+      <Text style={[styles.emptyTitle, { color: theme.colors.text.primary }]}>
+        {language === 'ja' ? 'まだ一緒に来園していません' : 'No visits together yet'}
+      </Text>
+      <Text style={[styles.emptyText, { color: theme.colors.text.secondary }]}>
+        {language === 'ja'
+          ? '来園記録で同行者に選ぶと、ここに統計が表示されます'
+          : 'Add them as a companion on a visit to see stats here'
+        }
+      </Text>
+    </View>
+  );
+
+  const renderVisitRow = (visit: Visit) => {
+    const actionCount = actionCountByVisit.get(visit.id) || 0;
+    const isLand = visit.parkType === ParkType.LAND;
+
+    return (
+      <TouchableOpacity
+        key={visit.id}
+        style={[styles.visitRow, { borderBottomColor: theme.colors.utility.borderLight }]}
+        onPress={() => (navigation as any).navigate('VisitDetail', { visitId: visit.id })}
+      >
+        <View style={[styles.visitDot, { backgroundColor: isLand ? colors.purple[500] : '#3b82f6' }]} />
+        <View style={styles.visitInfo}>
+          <Text style={[styles.visitDate, { color: theme.colors.text.primary }]}>
+            {formatDate(visit.date)}
+          </Text>
+          <Text style={[styles.visitMeta, { color: theme.colors.text.secondary }]}>
+            {getParkName(visit.parkType)}
+            {' ・ '}
+            {language === 'ja' ? `${actionCount}件のアクション` : `${actionCount} actions`}
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={18} color={theme.colors.text.secondary} />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderStats = () => {
+    if (!stats) return renderEmptyState();
+
+    const daysSince = getDaysSince(stats.lastVisitDate);
+
+    return (
+      <>
+        {/* Summary */}
+        <View style={styles.statsGrid}>
+          <View style={styles.statItem}>
+            <StatsCard
+              title={language === 'ja' ? '一緒に来園' : 'Visits Together'}
+              value={language === 'ja' ? `${stats.visitCount}回` : stats.visitCount}
+              icon="people"
+              color={colors.purple[500]}
+              subtitle={language === 'ja'
+                ? `ランド ${stats.landVisits} ・ シー ${stats.seaVisits}`
+                : `Land ${stats.landVisits} · Sea ${stats.seaVisits}`
+              }
+            />
+          </View>
+          <View style={styles.statItem}>
+            <StatsCard
+              title={language === 'ja' ? '前回から' : 'Since Last Visit'}
+              value={getDaysSinceText(daysSince)}
+              icon="hourglass"
+              color="#06b6d4"
+              subtitle={formatDate(stats.lastVisitDate)}
+              animationDelay={100}
+            />
+          </View>
+        </View>
+
+        <Text style={[styles.sinceText, { color: theme.colors.text.secondary }]}>
+          {language === 'ja'
+            ? `${formatDate(stats.firstVisitDate)}から一緒に来園`
+            : `Visiting together since ${formatDate(stats.firstVisitDate)}`
+          }
+        </Text>
+
+        {/* Year by year */}
+        {yearsData.length > 0 && (
+          <View style={styles.section}>
+            <BarChart
+              data={yearsData}
+              title={language === 'ja' ? '年別の来園回数' : 'Visits by Year'}
+              height={260}
+              animationDelay={200}
+            />
+          </View>
+        )}
+
+        {/* Favorite areas and activities */}
+        {(stats.favoriteAreas.length > 0 || stats.commonActivities.length > 0) && (
+          <View style={[styles.card, { backgroundColor: theme.colors.background.card }]}>
+            {stats.favoriteAreas.length > 0 && (
+              <>
+                <Text style={[styles.cardTitle, { color: theme.colors.text.primary }]}>
+                  {language === 'ja' ? 'よく行くエリア' : 'Favorite Areas'}
+                </Text>
+                <View style={styles.chips}>
+                  {stats.favoriteAreas.map((area, index) => (
+                    <View key={area} style={[styles.chip, { backgroundColor: theme.colors.background.secondary }]}>
+                      <Text style={[styles.chipRank, { color: colors.purple[500] }]}>{index + 1}</Text>
+                      <Text style={[styles.chipText, { color: theme.colors.text.primary }]}>{area}</Text>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
+
+            {stats.commonActivities.length > 0 && (
+              <>
+                <Text style={[styles.cardTitle, styles.cardTitleSpaced, { color: theme.colors.text.primary }]}>
+                  {language === 'ja' ? '一緒にしたこと' : 'Things Done Together'}
+                </Text>
+                <View style={styles.chips}>
+                  {stats.commonActivities.map(activity => (
+                    <View key={activity.category} style={[styles.chip, { backgroundColor: theme.colors.background.secondary }]}>
+                      <Text style={[styles.chipText, { color: theme.colors.text.primary }]}>
+                        {getCategoryName(activity.category)}
+                      </Text>
+                      <Text style={[styles.chipCount, { color: theme.colors.text.secondary }]}>
+                        {activity.count}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
+          </View>
+        )}
+
+        {/* Favorite attractions together */}
+        {attractionsData.length > 0 && (
+          <View style={styles.section}>
+            <TopRankingList
+              data={attractionsData}
+              title={language === 'ja' ? '一緒に乗ったアトラクション' : 'Attractions Together'}
+              limit={8}
+              animationDelay={300}
+            />
+          </View>
+        )}
+
+        {/* Shared visits */}
+        <View style={[styles.card, { backgroundColor: theme.colors.background.card }]}>
+          <Text style={[styles.cardTitle, { color: theme.colors.text.primary }]}>
+            {language === 'ja' ? '一緒の来園記録' : 'Visits Together'}
+          </Text>
+          {sharedVisits.map(renderVisitRow)}
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background.primary }]}>
+      <Header
+        title={companion?.name || (language === 'ja' ? '同行者' : 'Companion')}
+        subtitle={stats
+          ? (language === 'ja' ? `${stats.visitCount}回一緒に来園` : `${stats.visitCount} visits together`)
+          : undefined
+        }
+        showBackButton
+        onBackPress={() => navigation.goBack()}
+      />
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner} showsVerticalScrollIndicator={false}>
+        {isLoading ? null : !companion ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="alert-circle-outline" size={48} color={theme.colors.text.secondary} />
+            <Text style={[styles.emptyTitle, { color: theme.colors.text.primary }]}>
+              {language === 'ja' ? '同行者が見つかりません' : 'Companion not found'}
+            </Text>
+          </View>
+        ) : renderStats()}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: spacing[4],
+    paddingBottom: spacing[8],
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    gap: spacing[3],
+  },
+  statItem: {
+    flex: 1,
+  },
+  sinceText: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: spacing[3],
+  },
+  section: {
+    marginTop: spacing[4],
+  },
+  card: {
+    marginTop: spacing[4],
+    borderRadius: borderRadius.lg,
+    padding: spacing[4],
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: spacing[3],
+  },
+  cardTitleSpaced: {
+    marginTop: spacing[4],
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing[2],
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    borderRadius: borderRadius.full,
+    gap: spacing[2],
+  },
+  chipRank: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  chipCount: {
+    fontSize: 13,
+  },
+  visitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing[3],
+    borderBottomWidth: 1,
+  },
+  visitDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: spacing[3],
+  },
+  visitInfo: {
+    flex: 1,
+  },
+  visitDate: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  visitMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: spacing[8],
+    paddingHorizontal: spacing[6],
+  },
+  emptyTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: spacing[3],
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: spacing[2],
+  },
+});
@@ -22,8 +22,11 @@ import { CalendarPicker } from '../components/CalendarPicker';
 import { ParkSelector } from '../components/ParkSelector';
 import { CompanionManager } from '../components/CompanionManager';
 import { SuccessModal } from '../components/SuccessModal';
+import { TicketPriceInput } from '../components/TicketPriceInput';
 import { useVisits } from '../hooks/useVisits';
 import { ParkType, PassType } from '../types/models';
+import { budgetService, DEFAULT_TICKET_PRICES } from '../services/budgetService';
+import { parseYen } from '../utils/spending';
 
 type WeatherType = 'SUNNY' | 'CLOUDY' | 'RAINY' | 'SNOWY';
 
@@ -93,6 +96,8 @@ export const EditVisitScreen = () => {
   const [selectedCompanionIds, setSelectedCompanionIds] = useState<string[]>([]);
   const [selectedWeather, setSelectedWeather] = useState<WeatherType | undefined>();
   const [notes, setNotes] = useState('');
+  const [ticketPrice, setTicketPrice] = useState('');
+  const [ticketPrices, setTicketPrices] = useState<Record<PassType, number>>(DEFAULT_TICKET_PRICES);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
@@ -113,6 +118,7 @@ export const EditVisitScreen = () => {
           setSelectedCompanionIds(visit.companionIds);
           setSelectedWeather(visit.weather);
           setNotes(visit.notes || '');
+          setTicketPrice(visit.ticketPrice !== undefined ? String(visit.ticketPrice) : '');
         } else {
           Alert.alert(
             t('record.error'),
@@ -133,6 +139,7 @@ export const EditVisitScreen = () => {
     };
 
     loadVisitData();
+    budgetService.getSettings().then(settings => setTicketPrices(settings.ticketPrices));
   }, [visitId]);
 
   const handleSave = async () => {
@@ -156,6 +163,7 @@ export const EditVisitScreen = () => {
         companionIds: selectedCompanionIds,
         weather: selectedWeather,
         notes: notes.trim() || undefined,
+        ticketPrice: parseYen(ticketPrice),
       };
 
       await updateVisit(visitId, visitData);
@@ -432,6 +440,25 @@ export const EditVisitScreen = () => {
             </View>
           </View>
 
+          {/* Ticket Price */}
+          <View style={[styles.section, { marginBottom: rSpacing(24) }]}>
+            <Text style={[
+              styles.sectionTitle,
+              {
+                color: theme.colors.text.primary,
+                fontSize: rFontSize(18),
+                marginBottom: rSpacing(12),
+              }
+            ]}>
+              {language === 'ja' ? 'チケット代' : 'Ticket Price'}
+            </Text>
+            <TicketPriceInput
+              value={ticketPrice}
+              onChange={setTicketPrice}
+              suggestedPrice={ticketPrices[selectedPassType]}
+            />
+          </View>
+
           {/* Companion Manager */}
           <View style={[styles.section, { marginBottom: rSpacing(24) }]}>
             <CompanionManager
@@ -440,6 +467,7 @@ export const EditVisitScreen = () => {
               onCompanionToggle={handleCompanionToggle}
               onCompanionCreate={handleCompanionCreate}
               onCompanionDelete={handleCompanionDelete}
+              onCompanionDetails={(companion) => (navigation as any).navigate('CompanionDetail', { companionId: companion.id })}
               isCreating={isLoading}
             />
           </View>
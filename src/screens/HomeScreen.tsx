@@ -36,7 +36,10 @@ import { ActionModal } from '../components/ActionModal';
 import { VisitFilter } from '../components/VisitFilter';
 import { GridLayout } from '../components/layouts/GridLayout';
 import { ResponsiveContainer, ResponsiveSection } from '../components/layouts/ResponsiveContainer';
+import { BudgetSettingsModal } from '../components/BudgetSettingsModal';
 import { getDailyGreeting } from '../utils/greetings';
+import { getYearSpend, formatYen } from '../utils/spending';
+import { budgetService } from '../services/budgetService';
 import {
   Visit,
   TimelineAction,
@@ -201,6 +204,13 @@ export const HomeScreen = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [floatingAnimation] = useState(new Animated.Value(0));
   const [dailyGreeting, setDailyGreeting] = useState<{ text: string; area?: string; isSpecial: boolean }>({ text: 'ようこそ', isSpecial: false });
+  const [yearlyBudget, setYearlyBudget] = useState<number | undefined>();
+  const [showBudgetSettings, setShowBudgetSettings] = useState(false);
+
+  const loadBudget = useCallback(async () => {
+    const settings = await budgetService.getSettings();
+    setYearlyBudget(settings.yearlyBudget);
+  }, []);
 
   // Load daily greeting
   useEffect(() => {
@@ -272,17 +282,24 @@ export const HomeScreen = () => {
     return { totalVisits, landVisits, seaVisits, totalActions, recentVisits };
   }, [visits]);
 
+  // This year's spending against the optional budget
+  const budgetProgress = useMemo(() => {
+    const spent = getYearSpend(visits, actions, new Date().getFullYear());
+    const ratio = yearlyBudget ? spent / yearlyBudget : 0;
+    return { spent, ratio, remaining: yearlyBudget ? yearlyBudget - spent : 0 };
+  }, [visits, actions, yearlyBudget]);
+
   // Refresh handler
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
     try {
-      await Promise.all([refreshVisits(), refreshActions()]);
+      await Promise.all([refreshVisits(), refreshActions(), loadBudget()]);
     } catch (error) {
       console.error('Error refreshing data:', error);
     } finally {
       setRefreshing(false);
     }
-  }, [refreshVisits, refreshActions]);
+  }, [refreshVisits, refreshActions, loadBudget]);
 
   // Auto-refresh when screen comes into focus
   useEffect(() => {
@@ -559,6 +576,74 @@ export const HomeScreen = () => {
           </View>
         </View>
 
+        {/* Yearly Budget Section */}
+        {visits.length > 0 && (
+          <View style={styles.budgetSection}>
+            <Text style={[styles.sectionTitle, { color: theme?.colors?.text?.primary || '#000' }]}>
+              {language === 'ja' ? `${new Date().getFullYear()}年の支出 💴` : `${new Date().getFullYear()} Spending 💴`}
+            </Text>
+
+            <TouchableOpacity
+              style={styles.budgetCard}
+              activeOpacity={0.8}
+              onPress={() => setShowBudgetSettings(true)}
+            >
+              <LinearGradient
+                colors={[colors.purple[100], colors.purple[50]]}
+                style={styles.budgetGradient}
+              >
+                <View style={styles.budgetHeader}>
+                  <Text style={[styles.budgetSpent, { color: colors.purple[700] }]}>
+                    {formatYen(budgetProgress.spent)}
+                  </Text>
+                  {yearlyBudget ? (
+                    <Text style={[styles.budgetTotal, { color: colors.purple[600] }]}>
+                      / {formatYen(yearlyBudget)}
+                    </Text>
+                  ) : null}
+                </View>
+
+                {yearlyBudget ? (
+                  <>
+                    <View style={styles.budgetBarTrack}>
+                      <View
+                        style={[
+                          styles.budgetBarFill,
+                          {
+                            width: `${Math.min(budgetProgress.ratio, 1) * 100}%`,
+                            backgroundColor: budgetProgress.ratio > 1
+                              ? colors.semantic.error.main
+                              : budgetProgress.ratio > 0.8
+                                ? colors.yellow[500]
+                                : colors.purple[500],
+                          },
+                        ]}
+                      />
+                    </View>
+                    <Text style={[styles.budgetFooterText, { color: colors.purple[600] }]}>
+                      {budgetProgress.remaining >= 0
+                        ? (language === 'ja'
+                          ? `残り ${formatYen(budgetProgress.remaining)}（${Math.round(budgetProgress.ratio * 100)}%使用）`
+                          : `${formatYen(budgetProgress.remaining)} left (${Math.round(budgetProgress.ratio * 100)}% used)`)
+                        : (language === 'ja'
+                          ? `予算を ${formatYen(-budgetProgress.remaining)} オーバー`
+                          : `${formatYen(-budgetProgress.remaining)} over budget`)
+                      }
+                    </Text>
+                  </>
+                ) : (
+                  <View style={styles.budgetSetup}>
+                    <Ionicons name="add-circle-outline" size={16} color={colors.purple[600]} />
+                    <Text style={[styles.budgetSetupText, { color: colors.purple[600] }]}>
+                      {language === 'ja' ? '年間予算を設定する' : 'Set a yearly budget'}
+                    </Text>
+                  </View>
+                )}
+              </LinearGradient>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Recent Activity Section (if any visits exist) */}
         {visits.length > 0 && (
           <View style={styles.recentActivitySection}>
@@ -656,6 +741,12 @@ export const HomeScreen = () => {
         visible={menuVisible}
         onClose={() => setMenuVisible(false)}
       />
+
+      <BudgetSettingsModal
+        visible={showBudgetSettings}
+        onClose={() => setShowBudgetSettings(false)}
+        onSave={settings => setYearlyBudget(settings.yearlyBudget)}
+      />
     </SwipeableScreen>
   );
 };
@@ -964,6 +1055,56 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+  budgetSection: {
+    paddingHorizontal: 16,
+    marginBottom: 32,
+  },
+  budgetCard: {
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  budgetGradient: {
+    padding: 20,
+  },
+  budgetHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+  },
+  budgetSpent: {
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  budgetTotal: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  budgetBarTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: 'rgba(255, 255, 255, 0.7)',
+    overflow: 'hidden',
+    marginTop: 12,
+  },
+  budgetBarFill: {
+    height: '100%',
+    borderRadius: 5,
+  },
+  budgetFooterText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  budgetSetup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  budgetSetupText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   
   // Decorative line styles
   decorativeLine: {
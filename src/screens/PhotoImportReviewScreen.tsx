@@ -0,0 +1,563 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { useTheme } from '../contexts/ThemeContext';
+import { useLanguage } from '../contexts/LanguageContext';
+import { useActions } from '../hooks/useActions';
+import { TimelineAction } from '../types/models';
+import { colors } from '../styles/colors';
+import { spacing, borderRadius } from '../styles/theme';
+import { Header } from '../components/Header';
+import { PhotoThumbnail } from '../components/PhotoThumbnail';
+import { photoService } from '../services/photoService';
+import {
+  PhotoAssignment,
+  assignPhotosToActions,
+  groupAssignmentsByAction,
+} from '../utils/photoAssignment';
+
+interface RouteParams {
+  visitId: string;
+  uris: string[];
+}
+
+type ImportStep = 'processing' | 'review' | 'saving';
+
+export const PhotoImportReviewScreen = () => {
+  const navigation = useNavigation();
+  const route = useRoute();
+  const { theme } = useTheme();
+  const { language } = useLanguage();
+  const { getActionsByVisit, addPhotosToActions } = useActions();
+
+  const { visitId, uris } = route.params as RouteParams;
+  const [step, setStep] = useState<ImportStep>('processing');
+  const [progress, setProgress] = useState(0);
+  const [actions, setActions] = useState<TimelineAction[]>([]);
+  const [assignments, setAssignments] = useState<PhotoAssignment[]>([]);
+  const [selectedPhotoId, setSelectedPhotoId] = useState<string | null>(null);
+
+  // Photos created so far, cleaned up if the import is abandoned
+  const createdPhotos = useRef<PhotoAssignment['photo'][]>([]);
+  const saved = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const prepareImport = async () => {
+      try {
+        const visitActions = await getActionsByVisit(visitId);
+
+        for (const uri of uris) {
+          if (cancelled) return;
+          try {
+            const photo = await photoService.createPhoto(uri);
+            if (cancelled) {
+              photoService.deletePhotoFiles(photo);
+              return;
+            }
+            createdPhotos.current.push(photo);
+          } catch (error) {
+            console.error('Failed to import photo:', error);
+          }
+          setProgress(createdPhotos.current.length);
+        }
+        if (cancelled) return;
+
+        setActions(sortByTime(visitActions));
+        setAssignments(assignPhotosToActions(createdPhotos.current, visitActions));
+        setStep('review');
+      } catch (error) {
+        Alert.alert(
+          language === 'ja' ? 'エラー' : 'Error',
+          language === 'ja' ? '写真の読み込みに失敗しました' : 'Failed to load photos'
+        );
+        navigation.goBack();
+      }
+    };
+
+    prepareImport();
+
+    return () => {
+      cancelled = true;
+      if (!saved.current) {
+        createdPhotos.current.forEach(photo => photoService.deletePhotoFiles(photo));
+      }
+    };
+  }, []);
+
+  const sortByTime = (items: TimelineAction[]): TimelineAction[] =>
+    [...items].sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+
+  const formatTime = (date: Date | string): string => {
+    return new Date(date).toLocaleTimeString(language === 'ja' ? 'ja-JP' : 'en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getActionTitle = (action: TimelineAction): string =>
+    action.customTitle || action.locationName || action.area;
+
+  const getActionTimeRange = (action: TimelineAction): string => {
+    const start = new Date(action.time);
+    if (!action.duration) return formatTime(start);
+    const end = new Date(start.getTime() + action.duration * 60 * 1000);
+    return `${formatTime(start)} - ${formatTime(end)}`;
+  };
+
+  const summary = useMemo(() => ({
+    matched: assignments.filter(a => a.actionId && (a.match === 'window' || a.match === 'manual')).length,
+    nearest: assignments.filter(a => a.actionId && a.match === 'nearest').length,
+    unassigned: assignments.filter(a => !a.actionId).length,
+  }), [assignments]);
+
+  const assignedCount = assignments.length - summary.unassigned;
+
+  const moveSelectedPhoto = (actionId?: string) => {
+    if (!selectedPhotoId) return;
+
+    setAssignments(prev => prev.map(assignment => {
+      if (assignment.photo.id !== selectedPhotoId) return assignment;
+      if (assignment.actionId === actionId) return assignment;
+      return { ...assignment, actionId, match: actionId ? 'manual' : 'none', distanceMinutes: undefined };
+    }));
+    setSelectedPhotoId(null);
+  };
+
+  const handleCancel = () => {
+    if (step !== 'review' || assignedCount === 0) {
+      navigation.goBack();
+      return;
+    }
+
+    Alert.alert(
+      language === 'ja' ? 'インポートを中止' : 'Cancel Import',
+      language === 'ja' ? '選択した写真は追加されません。よろしいですか？' : 'The selected photos will not be added. Continue?',
+      [
+        { text: language === 'ja' ? '続ける' : 'Keep Editing', style: 'cancel' },
+        {
+          text: language === 'ja' ? '中止' : 'Discard',
+          style: 'destructive',
+          onPress: () => navigation.goBack(),
+        },
+      ]
+    );
+  };
+
+  const handleSave = async () => {
+    if (assignedCount === 0) return;
+
+    try {
+      setStep('saving');
+      await addPhotosToActions(groupAssignmentsByAction(assignments));
+      saved.current = true;
+
+      // Photos left unassigned are not kept
+      assignments
+        .filter(assignment => !assignment.actionId)
+        .forEach(assignment => photoService.deletePhotoFiles(assignment.photo));
+
+      navigation.goBack();
+    } catch (error) {
+      setStep('review');
+      Alert.alert(
+        language === 'ja' ? 'エラー' : 'Error',
+        language === 'ja' ? '写真の保存に失敗しました' : 'Failed to save photos'
+      );
+    }
+  };
+
+  const renderPhoto = (assignment: PhotoAssignment) => {
+    const isSelected = assignment.photo.id === selectedPhotoId;
+
+    return (
+      <TouchableOpacity
+        key={assignment.photo.id}
+        style={[
+          styles.photoItem,
+          isSelected && { borderColor: colors.purple[500] },
+        ]}
+        onPress={() => setSelectedPhotoId(isSelected ? null : assignment.photo.id)}
+        activeOpacity={0.8}
+      >
+        <PhotoThumbnail photo={assignment.photo} style={styles.photoImage} />
+        <View style={styles.photoOverlay}>
+          <Text style={styles.photoTime}>
+            {assignment.photo.takenAt
+              ? formatTime(assignment.photo.takenAt)
+              : (language === 'ja' ? '時刻なし' : 'No time')
+            }
+          </Text>
+        </View>
+        {assignment.actionId && assignment.match === 'nearest' && (
+          <View style={[styles.photoBadge, { backgroundColor: colors.orange[500] }]}>
+            <Text style={styles.photoBadgeText}>
+              {language === 'ja'
+                ? `±${assignment.distanceMinutes}分`
+                : `±${assignment.distanceMinutes}m`
+              }
+            </Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderActionGroup = (action: TimelineAction) => {
+    const group = assignments.filter(assignment => assignment.actionId === action.id);
+    if (group.length === 0) return null;
+
+    return (
+      <View key={action.id} style={[styles.section, { backgroundColor: theme.colors.background.card }]}>
+        <View style={styles.groupHeader}>
+          <Text style={[styles.groupTitle, { color: theme.colors.text.primary }]} numberOfLines={1}>
+            {getActionTitle(action)}
+          </Text>
+          <Text style={[styles.groupTime, { color: theme.colors.text.secondary }]}>
+            {getActionTimeRange(action)}
+          </Text>
+        </View>
+        <View style={styles.photoGrid}>
+          {group.map(renderPhoto)}
+        </View>
+      </View>
+    );
+  };
+
+  const renderUnassignedGroup = () => {
+    const group = assignments.filter(assignment => !assignment.actionId);
+    if (group.length === 0) return null;
+
+    return (
+      <View style={[styles.section, { backgroundColor: theme.colors.background.card }]}>
+        <View style={styles.groupHeader}>
+          <Text style={[styles.groupTitle, { color: theme.colors.text.primary }]}>
+            {language === 'ja' ? '追加しない写真' : 'Not Imported'}
+          </Text>
+        </View>
+        <Text style={[styles.groupHint, { color: theme.colors.text.secondary }]}>
+          {language === 'ja'
+            ? '写真をタップしてアクションを選ぶと追加されます'
+            : 'Tap a photo and choose an action to import it'
+          }
+        </Text>
+        <View style={styles.photoGrid}>
+          {group.map(renderPhoto)}
+        </View>
+      </View>
+    );
+  };
+
+  const renderSummary = () => (
+    <View style={[styles.section, { backgroundColor: theme.colors.background.card }]}>
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryItem}>
+          <Text style={[styles.summaryValue, { color: colors.green[500] }]}>{summary.matched}</Text>
+          <Text style={[styles.summaryLabel, { color: theme.colors.text.secondary }]}>
+            {language === 'ja' ? '確定' : 'Matched'}
+          </Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={[styles.summaryValue, { color: colors.orange[500] }]}>{summary.nearest}</Text>
+          <Text style={[styles.summaryLabel, { color: theme.colors.text.secondary }]}>
+            {language === 'ja' ? '近い時間' : 'Nearest'}
+          </Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={[styles.summaryValue, { color: theme.colors.text.secondary }]}>{summary.unassigned}</Text>
+          <Text style={[styles.summaryLabel, { color: theme.colors.text.secondary }]}>
+            {language === 'ja' ? '未割当' : 'Unassigned'}
+          </Text>
+        </View>
+      </View>
+      {actions.length === 0 && (
+        <Text style={[styles.groupHint, { color: theme.colors.text.secondary }]}>
+          {language === 'ja'
+            ? 'この来園にはまだアクションがありません。先にアクションを追加してください。'
+            : 'This visit has no actions yet. Add actions first.'
+          }
+        </Text>
+      )}
+    </View>
+  );
+
+  const renderActionPicker = () => {
+    if (!selectedPhotoId) return null;
+    const current = assignments.find(assignment => assignment.photo.id === selectedPhotoId);
+
+    return (
+      <View style={[styles.pickerPanel, { backgroundColor: theme.colors.background.card, borderTopColor: theme.colors.utility.borderLight }]}>
+        <Text style={[styles.pickerTitle, { color: theme.colors.text.secondary }]}>
+          {language === 'ja' ? '移動先を選択' : 'Move to'}
+        </Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.pickerContent}>
+          {actions.map(action => {
+            const isCurrent = current?.actionId === action.id;
+            return (
+              <TouchableOpacity
+                key={action.id}
+                style={[
+                  styles.pickerChip,
+                  {
+                    backgroundColor: isCurrent ? colors.purple[500] : theme.colors.background.secondary,
+                    borderColor: isCurrent ? colors.purple[500] : theme.colors.utility.borderLight,
+                  },
+                ]}
+                onPress={() => moveSelectedPhoto(action.id)}
+              >
+                <Text style={[styles.pickerChipTime, { color: isCurrent ? 'white' : theme.colors.text.secondary }]}>
+                  {formatTime(action.time)}
+                </Text>
+                <Text
+                  style={[styles.pickerChipText, { color: isCurrent ? 'white' : theme.colors.text.primary }]}
+                  numberOfLines={1}
+                >
+                  {getActionTitle(action)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity
+            style={[styles.pickerChip, { backgroundColor: theme.colors.background.secondary, borderColor: theme.colors.utility.borderLight }]}
+            onPress={() => moveSelectedPhoto(undefined)}
+          >
+            <Ionicons name="remove-circle-outline" size={14} color={colors.red[500]} />
+            <Text style={[styles.pickerChipText, { color: colors.red[500] }]}>
+              {language === 'ja' ? '追加しない' : 'Skip'}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    );
+  };
+
+  if (step === 'processing') {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background.primary }]}>
+        <Header
+          title={language === 'ja' ? '写真を一括追加' : 'Import Photos'}
+          showBackButton
+          onBackPress={handleCancel}
+        />
+        <View style={styles.processingContainer}>
+          <ActivityIndicator size="large" color={colors.purple[500]} />
+          <Text style={[styles.processingText, { color: theme.colors.text.primary }]}>
+            {language === 'ja' ? '撮影時刻を読み込み中...' : 'Reading capture times...'}
+          </Text>
+          <Text style={[styles.processingCount, { color: theme.colors.text.secondary }]}>
+            {progress} / {uris.length}
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background.primary }]}>
+      <Header
+        title={language === 'ja' ? '写真の割り当て' : 'Review Photos'}
+        showBackButton
+        onBackPress={handleCancel}
+      />
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {renderSummary()}
+        {actions.map(renderActionGroup)}
+        {renderUnassignedGroup()}
+      </ScrollView>
+
+      {renderActionPicker()}
+
+      <View style={[styles.footer, { backgroundColor: theme.colors.background.card, borderTopColor: theme.colors.utility.borderLight }]}>
+        <TouchableOpacity
+          style={[
+            styles.saveButton,
+            { backgroundColor: assignedCount > 0 ? colors.purple[500] : colors.gray[400] },
+          ]}
+          onPress={handleSave}
+          disabled={assignedCount === 0 || step === 'saving'}
+        >
+          {step === 'saving' ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <>
+              <Ionicons name="checkmark" size={18} color="white" />
+              <Text style={styles.saveButtonText}>
+                {language === 'ja' ? `${assignedCount}枚を保存` : `Save ${assignedCount} photos`}
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+  processingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  processingText: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginTop: spacing[4],
+  },
+  processingCount: {
+    fontSize: 14,
+    marginTop: spacing[2],
+  },
+  section: {
+    marginHorizontal: spacing[4],
+    marginTop: spacing[4],
+    borderRadius: borderRadius.xl,
+    padding: spacing[4],
+  },
+  summaryRow: {
+    flexDirection: 'row',
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    marginTop: spacing[1],
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing[3],
+  },
+  groupTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    marginRight: spacing[2],
+  },
+  groupTime: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  groupHint: {
+    fontSize: 12,
+    marginTop: spacing[2],
+    marginBottom: spacing[3],
+  },
+  photoGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing[2],
+  },
+  photoItem: {
+    width: 88,
+    height: 88,
+    borderRadius: borderRadius.md,
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  photoImage: {
+    width: '100%',
+    height: '100%',
+  },
+  photoOverlay: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    paddingVertical: 2,
+    alignItems: 'center',
+  },
+  photoTime: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  photoBadge: {
+    position: 'absolute',
+    top: spacing[1],
+    right: spacing[1],
+    paddingHorizontal: spacing[1],
+    borderRadius: borderRadius.sm,
+  },
+  photoBadgeText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  pickerPanel: {
+    borderTopWidth: 1,
+    paddingTop: spacing[3],
+    paddingBottom: spacing[2],
+  },
+  pickerTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginHorizontal: spacing[4],
+    marginBottom: spacing[2],
+  },
+  pickerContent: {
+    paddingHorizontal: spacing[4],
+    gap: spacing[2],
+  },
+  pickerChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing[1],
+    maxWidth: 200,
+    paddingHorizontal: spacing[3],
+    paddingVertical: spacing[2],
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+  },
+  pickerChipTime: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  pickerChipText: {
+    fontSize: 13,
+    fontWeight: '500',
+    flexShrink: 1,
+  },
+  footer: {
+    padding: spacing[4],
+    borderTopWidth: 1,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing[3],
+    borderRadius: borderRadius.lg,
+    gap: spacing[2],
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
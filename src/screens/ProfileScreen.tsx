@@ -15,6 +15,7 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
 import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
 // import * as Haptics from 'expo-haptics'; // Uncomment when installed
 import { useTheme } from '../contexts/ThemeContext';
 import { useLanguage, Language } from '../contexts/LanguageContext';
@@ -31,9 +32,15 @@ import { CompanionManagerModal } from '../components/CompanionManagerModal';
 import { ReviewRequestModal } from '../components/ReviewRequestModal';
 import { DataExportModal } from '../components/DataExportModal';
 import { DataImportModal } from '../components/DataImportModal';
+import { DataIntegrityModal } from '../components/DataIntegrityModal';
+import { StorageUsageModal } from '../components/StorageUsageModal';
+import { DuplicatePhotosModal } from '../components/DuplicatePhotosModal';
+import { BudgetSettingsModal } from '../components/BudgetSettingsModal';
+import { SyncSettingsModal } from '../components/SyncSettingsModal';
 import { profileService, UserProfile } from '../services/profileService';
 import { reviewService } from '../services/reviewService';
 import { updateService } from '../services/updateService';
+import { photoStorageService } from '../services/photoStorageService';
 import { useVisits } from '../hooks/useVisits';
 import { useActions } from '../hooks/useActions';
 import { resetDailyGreeting, getNewRandomGreeting, forceSetGreeting } from '../utils/greetings';
@@ -43,6 +50,7 @@ import { getVersionString, getCopyrightString } from '../constants/app';
 const { width } = Dimensions.get('window');
 
 export const ProfileScreen = () => {
+  const navigation = useNavigation();
   const { theme, themeConfig, toggleTheme } = useTheme();
   const { t, language, setLanguage } = useLanguage();
   const isDark = theme.mode === 'dark';
@@ -57,6 +65,12 @@ export const ProfileScreen = () => {
   const [showReviewModal, setShowReviewModal] = useState(false);
   const [showDataExport, setShowDataExport] = useState(false);
   const [showDataImport, setShowDataImport] = useState(false);
+  const [showDataIntegrity, setShowDataIntegrity] = useState(false);
+  const [showStorageUsage, setShowStorageUsage] = useState(false);
+  const [showDuplicatePhotos, setShowDuplicatePhotos] = useState(false);
+  const [showBudgetSettings, setShowBudgetSettings] = useState(false);
+  const [showSyncSettings, setShowSyncSettings] = useState(false);
+  const [storageSize, setStorageSize] = useState<number | null>(null);
   
   // Get actual data from hooks
   const { visits, deleteAllVisits, companions, createCompanion, deleteCompanion, updateCompanion, refreshData } = useVisits();
@@ -64,6 +78,7 @@ export const ProfileScreen = () => {
 
   useEffect(() => {
     loadProfile();
+    loadStorageSize();
   }, []);
 
   const loadProfile = async () => {
@@ -75,6 +90,14 @@ export const ProfileScreen = () => {
     }
   };
 
+  const loadStorageSize = async () => {
+    try {
+      setStorageSize(await photoStorageService.getTotalSize());
+    } catch (error) {
+      console.error('Error loading storage size:', error);
+    }
+  };
+
   const handleProfileUpdate = (updatedProfile: UserProfile) => {
     setUserProfile(updatedProfile);
   };
@@ -187,6 +210,12 @@ export const ProfileScreen = () => {
       value: `${companions.length}${language === 'ja' ? '人' : ''}`,
       action: () => setShowCompanionManager(true) 
     },
+    { 
+      icon: 'wallet', 
+      label: language === 'ja' ? '予算とチケット代' : 'Budget & Tickets', 
+      section: 'preferences', 
+      action: () => setShowBudgetSettings(true) 
+    },
     { 
       icon: 'language', 
       label: language === 'ja' ? '言語設定' : 'Language', 
@@ -206,6 +235,31 @@ export const ProfileScreen = () => {
       section: 'data', 
       action: () => setShowDataImport(true) 
     },
+    { 
+      icon: 'sync', 
+      label: language === 'ja' ? 'クラウド同期' : 'Cloud Sync', 
+      section: 'data', 
+      action: () => setShowSyncSettings(true) 
+    },
+    { 
+      icon: 'construct', 
+      label: language === 'ja' ? 'データを検査・修復' : 'Check & Repair Data', 
+      section: 'data', 
+      action: () => setShowDataIntegrity(true) 
+    },
+    { 
+      icon: 'server', 
+      label: language === 'ja' ? 'ストレージ使用量' : 'Storage Usage', 
+      section: 'data', 
+      value: storageSize !== null ? photoStorageService.formatSize(storageSize) : undefined,
+      action: () => setShowStorageUsage(true) 
+    },
+    { 
+      icon: 'copy', 
+      label: language === 'ja' ? '重複した写真を整理' : 'Find Duplicate Photos', 
+      section: 'data', 
+      action: () => setShowDuplicatePhotos(true) 
+    },
     { 
       icon: 'trash', 
       label: language === 'ja' ? '来園記録を全削除' : 'Delete All Visit Records', 
@@ -538,6 +592,10 @@ export const ProfileScreen = () => {
         onCompanionUpdate={async (id, name) => {
           await updateCompanion(id, { name });
         }}
+        onCompanionDetails={(companion) => {
+          setShowCompanionManager(false);
+          (navigation as any).navigate('CompanionDetail', { companionId: companion.id });
+        }}
       />
       
       {/* Review Request Modal */}
@@ -559,6 +617,42 @@ export const ProfileScreen = () => {
         onImportComplete={handleDataImportComplete}
       />
       
+      {/* Data Integrity Modal */}
+      <DataIntegrityModal
+        visible={showDataIntegrity}
+        onClose={() => setShowDataIntegrity(false)}
+        onRepairComplete={refreshData}
+      />
+
+      <StorageUsageModal
+        visible={showStorageUsage}
+        onClose={() => {
+          setShowStorageUsage(false);
+          loadStorageSize();
+        }}
+        onCleanupComplete={loadStorageSize}
+      />
+
+      <DuplicatePhotosModal
+        visible={showDuplicatePhotos}
+        onClose={() => {
+          setShowDuplicatePhotos(false);
+          loadStorageSize();
+        }}
+        onResolved={refreshData}
+      />
+
+      <BudgetSettingsModal
+        visible={showBudgetSettings}
+        onClose={() => setShowBudgetSettings(false)}
+      />
+
+      <SyncSettingsModal
+        visible={showSyncSettings}
+        onClose={() => setShowSyncSettings(false)}
+        onSyncComplete={refreshData}
+      />
+      
       <DrawerMenu
         visible={menuVisible}
         onClose={() => setMenuVisible(false)}
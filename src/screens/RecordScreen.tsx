@@ -28,9 +28,12 @@ import { ParkSelector } from '../components/ParkSelector';
 import { CompanionManager } from '../components/CompanionManager';
 import { ResponsiveContainer, ResponsiveSection } from '../components/layouts/ResponsiveContainer';
 import { SuccessModal } from '../components/SuccessModal';
+import { TicketPriceInput } from '../components/TicketPriceInput';
 import { useVisits } from '../hooks/useVisits';
 import { useResponsive } from '../hooks/useResponsive';
 import { ParkType, PassType, CreateInput, Visit } from '../types/models';
+import { budgetService, DEFAULT_TICKET_PRICES } from '../services/budgetService';
+import { parseYen } from '../utils/spending';
 
 type WeatherType = 'SUNNY' | 'CLOUDY' | 'RAINY' | 'SNOWY';
 
@@ -123,6 +126,8 @@ export const RecordScreen = () => {
   const [selectedCompanionIds, setSelectedCompanionIds] = useState<string[]>([]);
   const [selectedWeather, setSelectedWeather] = useState<WeatherType | undefined>();
   const [notes, setNotes] = useState('');
+  const [ticketPrice, setTicketPrice] = useState('');
+  const [ticketPrices, setTicketPrices] = useState<Record<PassType, number>>(DEFAULT_TICKET_PRICES);
   const [isSaving, setIsSaving] = useState(false);
   const [menuVisible, setMenuVisible] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
@@ -183,6 +188,16 @@ export const RecordScreen = () => {
     }
   };
 
+  // Fill in the pass's standard price unless the user typed their own
+  const handlePassTypeSelect = (passType: PassType) => {
+    setTicketPrice(prev =>
+      !prev || (selectedPassType && prev === String(ticketPrices[selectedPassType]))
+        ? String(ticketPrices[passType])
+        : prev
+    );
+    setSelectedPassType(passType);
+  };
+
   const handleWeatherSelect = (weather: WeatherType) => {
     setSelectedWeather(prev => prev === weather ? undefined : weather);
   };
@@ -198,6 +213,7 @@ export const RecordScreen = () => {
       setSelectedCompanionIds([]);
       setSelectedWeather(undefined);
       setNotes('');
+      setTicketPrice('');
       setIsSaving(false);
       setShowSuccessModal(false);
       setSavedVisitId(null);
@@ -205,6 +221,7 @@ export const RecordScreen = () => {
       // Reset animations
       advancedAnimValue.setValue(0);
       saveButtonScale.setValue(1);
+      budgetService.getSettings().then(settings => setTicketPrices(settings.ticketPrices));
     });
 
     return unsubscribe;
@@ -245,6 +262,7 @@ export const RecordScreen = () => {
         companionIds: selectedCompanionIds,
         weather: selectedWeather,
         notes: notes.trim() || undefined,
+        ticketPrice: parseYen(ticketPrice),
       };
 
       // Create new visit (RecordScreen is only for new visits now)
@@ -257,6 +275,7 @@ export const RecordScreen = () => {
       setSelectedCompanionIds([]);
       setSelectedWeather(undefined);
       setNotes('');
+      setTicketPrice('');
 
       // Show success modal
       setSavedVisitId(resultVisit.id);
@@ -428,7 +447,7 @@ export const RecordScreen = () => {
                 return (
                   <TouchableOpacity
                     key={passOption.type}
-                    onPress={() => setSelectedPassType(passOption.type)}
+                    onPress={() => handlePassTypeSelect(passOption.type)}
                     style={[
                       styles.passTypeButton,
                       {
@@ -485,6 +504,27 @@ export const RecordScreen = () => {
             </View>
           </View>
 
+          {/* Ticket Price */}
+          {selectedPassType && (
+            <View style={[styles.section, { marginBottom: safeRSpacing(24) }]}>
+              <Text style={[
+                styles.sectionTitle,
+                {
+                  color: theme.colors.text.primary,
+                  fontSize: safeRFontSize(18),
+                  marginBottom: safeRSpacing(12),
+                }
+              ]}>
+                {language === 'ja' ? 'チケット代' : 'Ticket Price'}
+              </Text>
+              <TicketPriceInput
+                value={ticketPrice}
+                onChange={setTicketPrice}
+                suggestedPrice={ticketPrices[selectedPassType]}
+              />
+            </View>
+          )}
+
           {/* Companion Manager */}
           <View style={[styles.section, { marginBottom: safeRSpacing(24) }]}>
             <CompanionManager
@@ -493,6 +533,7 @@ export const RecordScreen = () => {
               onCompanionToggle={handleCompanionToggle}
               onCompanionCreate={handleCompanionCreate}
               onCompanionDelete={handleCompanionDelete}
+              onCompanionDetails={(companion) => (navigation as any).navigate('CompanionDetail', { companionId: companion.id })}
               isCreating={isLoading}
               titleRef={companionTitleRef}
               onAddButtonPress={handleCompanionAddButtonPress}
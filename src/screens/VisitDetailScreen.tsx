@@ -6,11 +6,10 @@ import {
   TouchableOpacity,
   StyleSheet,
   Alert,
-  Share,
-  Image,
 } from 'react-native';
 import { Ionicons, FontAwesome5 } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import * as ImagePicker from 'expo-image-picker';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { useTheme } from '../contexts/ThemeContext';
 import { useLanguage } from '../contexts/LanguageContext';
@@ -24,9 +23,14 @@ import { SwipeableScreen } from '../components/SwipeableScreen';
 import { DrawerMenu } from '../components/DrawerMenu';
 import { ActionModal } from '../components/ActionModal';
 import { ActionDetailModal } from '../components/ActionDetailModal';
+import { PhotoThumbnail } from '../components/PhotoThumbnail';
+import { VisitShareModal } from '../components/VisitShareModal';
+import { getVisitSpend, formatYen } from '../utils/spending';
+import { getVisitDuration, formatDuration } from '../utils/visitDuration';
 
 interface RouteParams {
   visitId: string;
+  actionId?: string; // Open this action's details once loaded (from the album)
 }
 
 export const VisitDetailScreen = () => {
@@ -37,7 +41,7 @@ export const VisitDetailScreen = () => {
   const { getVisit, deleteVisit, companions } = useVisits();
   const { getActionsByVisit } = useActions();
   
-  const { visitId } = route.params as RouteParams;
+  const { visitId, actionId: focusActionId } = route.params as RouteParams;
   const [visit, setVisit] = useState<Visit | null>(null);
   const [actions, setActions] = useState<TimelineAction[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -47,11 +51,27 @@ export const VisitDetailScreen = () => {
   const [actionDetailModalVisible, setActionDetailModalVisible] = useState(false);
   const [selectedAction, setSelectedAction] = useState<TimelineAction | undefined>();
   const [isEditMode, setIsEditMode] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
   const [sortedActions, setSortedActions] = useState<TimelineAction[]>([]);
 
+  // Load on focus so edits and imported photos show after returning
   useEffect(() => {
-    loadVisitData();
-  }, [visitId]);
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadVisitData();
+    });
+
+    return unsubscribe;
+  }, [navigation, visitId]);
+
+  useEffect(() => {
+    if (!focusActionId) return;
+    const target = actions.find(action => action.id === focusActionId);
+    if (!target) return;
+
+    setSelectedAction(target);
+    setActionDetailModalVisible(true);
+    (navigation as any).setParams({ actionId: undefined });
+  }, [focusActionId, actions]);
 
   useEffect(() => {
     // Use actions as-is (in order they were added/arranged)
@@ -60,7 +80,6 @@ export const VisitDetailScreen = () => {
 
   const loadVisitData = async () => {
     try {
-      setIsLoading(true);
       const [visitData, actionsData] = await Promise.all([
         getVisit(visitId),
         getActionsByVisit(visitId)
@@ -104,22 +123,9 @@ export const VisitDetailScreen = () => {
     );
   };
 
-  const handleShareVisit = async () => {
+  const handleShareVisit = () => {
     if (!visit) return;
-
-    const shareText = `${formatDate(visit.date)}の${getParkName(visit.parkType)}来園記録\n\n` +
-      `アクション数: ${actions.length}件\n` +
-      `写真数: ${getTotalPhotoCount()}枚\n` +
-      (visit.notes ? `\nメモ: ${visit.notes}` : '') +
-      '\n\n#TDRDays #ディズニー';
-
-    try {
-      await Share.share({
-        message: shareText,
-      });
-    } catch (error) {
-      console.error('Share failed:', error);
-    }
+    setShowShareModal(true);
   };
 
   const formatDate = (date: Date): string => {
@@ -279,6 +285,39 @@ export const VisitDetailScreen = () => {
     setActionModalVisible(true);
   };
 
+  const handleImportPhotos = async () => {
+    const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permissionResult.granted) {
+      Alert.alert(
+        language === 'ja' ? '権限が必要です' : 'Permission Required',
+        language === 'ja' ? 'フォトライブラリへのアクセス権限が必要です' : 'Photo library access is required'
+      );
+      return;
+    }
+
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        // Originals keep the EXIF capture time used for matching
+        quality: 1,
+        allowsMultipleSelection: true,
+        selectionLimit: 0,
+      });
+
+      if (!result.canceled && result.assets.length > 0) {
+        (navigation as any).navigate('PhotoImportReview', {
+          visitId,
+          uris: result.assets.map(asset => asset.uri),
+        });
+      }
+    } catch (error) {
+      Alert.alert(
+        language === 'ja' ? 'エラー' : 'Error',
+        language === 'ja' ? '写真の選択に失敗しました' : 'Failed to select photos'
+      );
+    }
+  };
+
   const handleActionPress = (action: TimelineAction) => {
     setSelectedAction(action);
     setActionDetailModalVisible(true);
@@ -448,9 +487,9 @@ export const VisitDetailScreen = () => {
                     { zIndex: 3 - photoIndex, marginLeft: photoIndex > 0 ? -spacing[2] : 0 }
                   ]}
                 >
-                  <Image 
-                    source={{ uri: photo.uri }} 
-                    style={styles.photoPreviewImage} 
+                  <PhotoThumbnail
+                    photo={photo}
+                    style={styles.photoPreviewImage}
                   />
                 </View>
               ))}
@@ -477,20 +516,15 @@ export const VisitDetailScreen = () => {
     );
   };
 
-  const getVisitDuration = (): string | null => {
-    if (!visit?.startTime || !visit?.endTime) return null;
-    
-    const start = new Date(visit.startTime);
-    const end = new Date(visit.endTime);
-    const diffMs = end.getTime() - start.getTime();
-    const hours = Math.floor(diffMs / (1000 * 60 * 60));
-    const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
-    
-    if (language === 'ja') {
-      return `${hours}時間${minutes}分`;
-    } else {
-      return `${hours}h ${minutes}m`;
+  const getVisitDurationText = (): string | null => {
+    if (!visitDuration.range) return null;
+
+    const text = formatDuration(visitDuration.totalMinutes, language);
+    // Times not entered on the visit come from the first and last actions
+    if (visitDuration.range.source !== 'explicit') {
+      return language === 'ja' ? `${text}（タイムラインから算出）` : `${text} (from timeline)`;
     }
+    return text;
   };
 
   const getCompanionNames = (): string => {
@@ -555,6 +589,9 @@ export const VisitDetailScreen = () => {
     );
   }
 
+  const visitSpend = getVisitSpend(visit, actions);
+  const visitDuration = getVisitDuration(visit, actions);
+
   return (
     <SwipeableScreen onSwipeFromLeft={() => setMenuVisible(true)}>
       <View style={[styles.container, { backgroundColor: theme.colors.background.primary }]}>
@@ -647,14 +684,29 @@ export const VisitDetailScreen = () => {
               </Text>
             </View>
 
-            {visit.startTime && visit.endTime && (
+            {visitDuration.range && (
               <View style={styles.infoItem}>
                 <Ionicons name="time" size={20} color={theme.colors.text.secondary} />
                 <Text style={[styles.infoLabel, { color: theme.colors.text.secondary }]}>
                   {language === 'ja' ? '滞在時間' : 'Duration'}
                 </Text>
                 <Text style={[styles.infoValue, { color: theme.colors.text.primary }]}>
-                  {getVisitDuration()}
+                  {getVisitDurationText()}
+                </Text>
+              </View>
+            )}
+
+            {visitDuration.idleMinutes > 0 && (
+              <View style={styles.infoItem}>
+                <Ionicons name="cafe" size={20} color={theme.colors.text.secondary} />
+                <Text style={[styles.infoLabel, { color: theme.colors.text.secondary }]}>
+                  {language === 'ja' ? '空き時間' : 'Idle Time'}
+                </Text>
+                <Text style={[styles.infoValue, { color: theme.colors.text.primary }]}>
+                  {language === 'ja'
+                    ? `${formatDuration(visitDuration.idleMinutes, language)}（${visitDuration.idleGaps.length}回）`
+                    : `${formatDuration(visitDuration.idleMinutes, language)} (${visitDuration.idleGaps.length} gaps)`
+                  }
                 </Text>
               </View>
             )}
@@ -720,7 +772,37 @@ export const VisitDetailScreen = () => {
                 </Text>
               </LinearGradient>
             </View>
+
+            {visitSpend.total > 0 && (
+              <View style={styles.statCard}>
+                <LinearGradient
+                  colors={['rgba(249, 115, 22, 0.1)', 'rgba(234, 88, 12, 0.1)']}
+                  style={styles.statCardGradient}
+                >
+                  <Ionicons name="wallet" size={24} color="#f97316" />
+                  <Text
+                    style={[styles.statValue, { color: theme.colors.text.primary }]}
+                    numberOfLines={1}
+                    adjustsFontSizeToFit
+                  >
+                    {formatYen(visitSpend.total)}
+                  </Text>
+                  <Text style={[styles.statLabel, { color: theme.colors.text.secondary }]}>
+                    {language === 'ja' ? '支出' : 'Spent'}
+                  </Text>
+                </LinearGradient>
+              </View>
+            )}
           </View>
+
+          {visitSpend.total > 0 && (
+            <Text style={[styles.spendBreakdown, { color: theme.colors.text.secondary }]}>
+              {language === 'ja'
+                ? `チケット ${formatYen(visitSpend.ticket)} ・ パーク内 ${formatYen(visitSpend.purchases)}`
+                : `Ticket ${formatYen(visitSpend.ticket)} · In park ${formatYen(visitSpend.purchases)}`
+              }
+            </Text>
+          )}
         </View>
 
         {/* Photo Gallery */}
@@ -733,6 +815,15 @@ export const VisitDetailScreen = () => {
                   : `Photos (${getTotalPhotoCount()})` 
                 }
               </Text>
+              <TouchableOpacity
+                style={styles.seeAllButton}
+                onPress={() => (navigation as any).navigate('Album', { visitId })}
+              >
+                <Text style={[styles.seeAllButtonText, { color: colors.purple[500] }]}>
+                  {language === 'ja' ? 'アルバム' : 'Album'}
+                </Text>
+                <Ionicons name="chevron-forward" size={14} color={colors.purple[500]} />
+              </TouchableOpacity>
             </View>
             
             <ScrollView 
@@ -753,9 +844,9 @@ export const VisitDetailScreen = () => {
                         setActionDetailModalVisible(true);
                       }}
                     >
-                      <Image 
-                        source={{ uri: photo.uri }} 
-                        style={styles.photoGalleryImage} 
+                      <PhotoThumbnail
+                        photo={photo}
+                        style={styles.photoGalleryImage}
                       />
                       <View style={styles.photoGalleryOverlay}>
                         <View style={[styles.photoGalleryCategory, { backgroundColor: getCategoryColor(action.category) }]}>
@@ -813,6 +904,20 @@ export const VisitDetailScreen = () => {
                   </Text>
                 </TouchableOpacity>
               )}
+              {actions.length > 0 && !isEditMode && (
+                <TouchableOpacity
+                  style={[
+                    styles.editButton,
+                    { backgroundColor: theme.colors.background.secondary, borderColor: theme.colors.utility.borderLight }
+                  ]}
+                  onPress={handleImportPhotos}
+                >
+                  <Ionicons name="images" size={14} color={theme.colors.text.secondary} />
+                  <Text style={[styles.editButtonText, { color: theme.colors.text.secondary }]}>
+                    {language === 'ja' ? '写真' : 'Photos'}
+                  </Text>
+                </TouchableOpacity>
+              )}
               <TouchableOpacity
                 style={[styles.addButton, { backgroundColor: colors.blue[500] }]}
                 onPress={handleAddAction}
@@ -873,6 +978,7 @@ export const VisitDetailScreen = () => {
           onClose={handleActionModalClose}
           visitId={visitId}
           parkType={visit.parkType}
+          visitDate={new Date(visit.date)}
           action={editingAction}
           onSave={handleActionSave}
         />
@@ -884,6 +990,15 @@ export const VisitDetailScreen = () => {
         action={selectedAction || null}
         onEdit={handleEditAction}
       />
+
+      {visit && (
+        <VisitShareModal
+          visible={showShareModal}
+          onClose={() => setShowShareModal(false)}
+          visit={visit}
+          actions={actions}
+        />
+      )}
     </SwipeableScreen>
   );
 };
@@ -985,6 +1100,14 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: spacing[1],
   },
+  seeAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  seeAllButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   editRecordButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1065,6 +1188,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: spacing[1],
   },
+  spendBreakdown: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: spacing[3],
+  },
   timeline: {
     paddingLeft: spacing[2],
     paddingRight: spacing[2],
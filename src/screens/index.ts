@@ -4,4 +4,7 @@ export { RecordScreen } from './RecordScreen';
 export { AnalyticsScreen } from './AnalyticsScreen';
 export { ProfileScreen } from './ProfileScreen';
 export { VisitListScreen } from './VisitListScreen';
-export { VisitDetailScreen } from './VisitDetailScreen';
\ No newline at end of file
+export { VisitDetailScreen } from './VisitDetailScreen';
+export { PhotoImportReviewScreen } from './PhotoImportReviewScreen';
+export { AlbumScreen } from './AlbumScreen';
+export { CompanionDetailScreen } from './CompanionDetailScreen';
\ No newline at end of file
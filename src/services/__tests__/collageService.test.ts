@@ -0,0 +1,55 @@
+import { collageService } from '../collageService';
+import { Photo } from '../../types/models';
+
+// Crop rectangles passed to the manipulator
+const mockCrops: Array<{ originX: number; originY: number; width: number; height: number }> = [];
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  cacheDirectory: 'file:///cache/',
+  makeDirectoryAsync: jest.fn(async () => undefined),
+  deleteAsync: jest.fn(async () => undefined),
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(async () => true),
+  shareAsync: jest.fn(async () => undefined),
+}));
+
+jest.mock('expo-image-manipulator', () => ({
+  SaveFormat: { JPEG: 'jpeg', PNG: 'png' },
+  ImageManipulator: {
+    manipulate: () => {
+      const context = {
+        crop: (rect: any) => {
+          mockCrops.push(rect);
+          return context;
+        },
+        resize: () => context,
+        renderAsync: async () => ({
+          width: 3000,
+          height: 4000,
+          saveAsync: async () => ({ uri: 'file:///cache/collage-cell.jpg', base64: 'AAAA' }),
+        }),
+      };
+      return context;
+    },
+  },
+}));
+
+describe('collageService.preparePhoto', () => {
+  it('crops a rotated photo within the file it reads rather than the stored size', async () => {
+    // The file on disk is 3000x4000; the stored size is from before the rotation
+    const photo: Photo = { id: 'p1', uri: 'file:///documents/photos/rotated.jpg', width: 4000, height: 3000 };
+
+    const dataUri = await collageService.preparePhoto(photo, { x: 0, y: 0, width: 300, height: 200 });
+
+    expect(dataUri).toBe('data:image/jpeg;base64,AAAA');
+    const [crop] = mockCrops;
+    expect(crop.originX).toBeGreaterThanOrEqual(0);
+    expect(crop.originY).toBeGreaterThanOrEqual(0);
+    expect(crop.originX + crop.width).toBeLessThanOrEqual(3000);
+    expect(crop.originY + crop.height).toBeLessThanOrEqual(4000);
+    expect(crop).toEqual({ originX: 0, originY: 1000, width: 3000, height: 2000 });
+  });
+});
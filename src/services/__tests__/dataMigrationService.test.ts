@@ -0,0 +1,258 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as DocumentPicker from 'expo-document-picker';
+import { storage, STORAGE_KEYS } from '../storage';
+import { dataMigrationService, ImportFile } from '../dataMigrationService';
+import { validateExportData } from '../../utils/importValidation';
+import { ActionCategory, Companion, LandArea, ParkType, SeaArea, TimelineAction, Visit } from '../../types/models';
+import validExport from '../../utils/__tests__/fixtures/valid-export.json';
+
+// In-memory file system behind both expo-file-system APIs
+const mockFiles = new Map<string, Uint8Array>();
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  EncodingType: { UTF8: 'utf8', Base64: 'base64' },
+  makeDirectoryAsync: jest.fn(async () => undefined),
+  deleteAsync: jest.fn(async (uri: string) => {
+    mockFiles.delete(uri);
+  }),
+  readAsStringAsync: jest.fn(async (uri: string) => Buffer.from(mockFiles.get(uri)!).toString('utf8')),
+  writeAsStringAsync: jest.fn(async (uri: string, content: string) => {
+    mockFiles.set(uri, Uint8Array.from(Buffer.from(content, 'utf8')));
+  }),
+}));
+
+jest.mock('expo-file-system/next', () => ({
+  File: class {
+    uri: string;
+
+    constructor(uri: string) {
+      this.uri = uri;
+    }
+
+    get exists() {
+      return mockFiles.has(this.uri);
+    }
+
+    create(options: { overwrite?: boolean } = {}) {
+      if (this.exists && !options.overwrite) throw new Error(`${this.uri} exists`);
+      mockFiles.set(this.uri, new Uint8Array(0));
+    }
+
+    delete() {
+      mockFiles.delete(this.uri);
+    }
+
+    open() {
+      const uri = this.uri;
+      if (!mockFiles.has(uri)) throw new Error(`${uri} not found`);
+      return {
+        offset: 0,
+        get size() {
+          return mockFiles.get(uri)!.length;
+        },
+        readBytes(length: number) {
+          const chunk = mockFiles.get(uri)!.slice(this.offset, this.offset + length);
+          this.offset += chunk.length;
+          return chunk;
+        },
+        writeBytes(bytes: Uint8Array) {
+          const current = mockFiles.get(uri)!;
+          const next = new Uint8Array(Math.max(current.length, this.offset + bytes.length));
+          next.set(current);
+          next.set(bytes, this.offset);
+          mockFiles.set(uri, next);
+          this.offset += bytes.length;
+        },
+        close() {},
+      };
+    }
+  },
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(async () => false),
+}));
+
+jest.mock('expo-document-picker', () => ({
+  getDocumentAsync: jest.fn(),
+}));
+
+const loadFixture = (): ImportFile => {
+  const validation = validateExportData(JSON.parse(JSON.stringify(validExport)));
+  return {
+    fileName: 'valid-export.json',
+    uri: 'file:///cache/valid-export.json',
+    data: validation.validData,
+    archive: null,
+    invalidRecords: validation.errors,
+    skipped: validation.skipped,
+  };
+};
+
+const createLocalVisit = (date: string, parkType: ParkType) =>
+  storage.create<Visit>(STORAGE_KEYS.VISITS, {
+    date: new Date(date),
+    parkType,
+    companionIds: [],
+  } as unknown as Omit<Visit, 'id' | 'createdAt' | 'updatedAt'>);
+
+const createLocalAction = (visitId: string) =>
+  storage.create<TimelineAction>(STORAGE_KEYS.ACTIONS, {
+    visitId,
+    photos: [],
+  } as unknown as Omit<TimelineAction, 'id' | 'createdAt' | 'updatedAt'>);
+
+const getIds = async (key: string) => (await storage.getAll<Visit | Companion | TimelineAction>(key)).map(item => item.id);
+
+describe('dataMigrationService.applyImport', () => {
+  beforeEach(async () => {
+    await storage.clearAll();
+    await AsyncStorage.clear();
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('replaces every collection with the imported records', async () => {
+    await createLocalVisit('2023-01-01T00:00:00.000Z', ParkType.LAND);
+
+    const result = await dataMigrationService.applyImport(loadFixture(), { mode: 'replace' });
+
+    expect(result.success).toBe(true);
+    expect((await getIds(STORAGE_KEYS.VISITS)).sort()).toEqual(['v1', 'v2']);
+    expect(await getIds(STORAGE_KEYS.COMPANIONS)).toEqual(['c1']);
+    expect((await getIds(STORAGE_KEYS.ACTIONS)).sort()).toEqual(['a1', 'a2']);
+  });
+
+  it('keeps the existing data when a replace import fails to commit', async () => {
+    const local = await createLocalVisit('2023-01-01T00:00:00.000Z', ParkType.LAND);
+    jest.spyOn(AsyncStorage, 'multiSet').mockRejectedValueOnce(new Error('disk full'));
+
+    const result = await dataMigrationService.applyImport(loadFixture(), { mode: 'replace' });
+
+    expect(result.success).toBe(false);
+    expect(await getIds(STORAGE_KEYS.VISITS)).toEqual([local.id]);
+    expect(await getIds(STORAGE_KEYS.COMPANIONS)).toEqual([]);
+    expect(await getIds(STORAGE_KEYS.ACTIONS)).toEqual([]);
+  });
+
+  it('swaps a conflicting local visit and its actions for the imported one with keep-theirs', async () => {
+    const local = await createLocalVisit('2024-05-01T00:00:00.000Z', ParkType.LAND);
+    const localAction = await createLocalAction(local.id);
+
+    const result = await dataMigrationService.applyImport(loadFixture(), {
+      mode: 'merge',
+      resolutions: { v1: 'keep-theirs' },
+    });
+
+    expect(result.success).toBe(true);
+    expect((await getIds(STORAGE_KEYS.VISITS)).sort()).toEqual(['v1', 'v2']);
+    expect(await getIds(STORAGE_KEYS.ACTIONS)).not.toContain(localAction.id);
+    expect((await getIds(STORAGE_KEYS.ACTIONS)).sort()).toEqual(['a1', 'a2']);
+  });
+
+  it('keeps the local visit and its actions when a keep-theirs merge fails to commit', async () => {
+    const local = await createLocalVisit('2024-05-01T00:00:00.000Z', ParkType.LAND);
+    const localAction = await createLocalAction(local.id);
+    jest.spyOn(AsyncStorage, 'multiRemove').mockRejectedValueOnce(new Error('disk full'));
+
+    const result = await dataMigrationService.applyImport(loadFixture(), {
+      mode: 'merge',
+      resolutions: { v1: 'keep-theirs' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(await getIds(STORAGE_KEYS.VISITS)).toEqual([local.id]);
+    expect(await getIds(STORAGE_KEYS.ACTIONS)).toEqual([localAction.id]);
+    expect(await getIds(STORAGE_KEYS.COMPANIONS)).toEqual([]);
+  });
+});
+
+describe('dataMigrationService backup archives', () => {
+  const photoBytes = Uint8Array.from([255, 216, 255, 224, 1, 2, 3]);
+
+  // Two visits with one photographed action each, exported to a backup
+  const exportBackup = async (): Promise<ImportFile> => {
+    const visits = [
+      await createLocalVisit('2024-05-01T00:00:00.000Z', ParkType.LAND),
+      await createLocalVisit('2024-05-02T00:00:00.000Z', ParkType.SEA),
+    ];
+    for (const [index, visit] of visits.entries()) {
+      const photoId = `p${index + 1}`;
+      const uri = `file:///documents/photos/${photoId}.jpg`;
+      const thumbnailUri = `file:///documents/thumbnails/${photoId}.jpg`;
+      mockFiles.set(uri, photoBytes);
+      mockFiles.set(thumbnailUri, photoBytes.slice(0, 3));
+
+      await storage.create<TimelineAction>(STORAGE_KEYS.ACTIONS, {
+        visitId: visit.id,
+        category: ActionCategory.ATTRACTION,
+        area: visit.parkType === ParkType.LAND ? LandArea.TOMORROWLAND : SeaArea.PORT_DISCOVERY,
+        time: new Date(visit.date),
+        photos: [{ id: photoId, uri, thumbnailUri }],
+      } as unknown as Omit<TimelineAction, 'id' | 'createdAt' | 'updatedAt'>);
+    }
+
+    const exported = await dataMigrationService.exportData({ includePhotos: true });
+    expect(exported.success).toBe(true);
+
+    (DocumentPicker.getDocumentAsync as jest.Mock).mockResolvedValue({
+      canceled: false,
+      assets: [{ uri: exported.filePath, name: 'backup.zip' }],
+    });
+    const selected = await dataMigrationService.selectImportFile();
+    expect(selected.success).toBe(true);
+    return selected.file!;
+  };
+
+  const photoFiles = () => Array.from(mockFiles.keys()).filter(uri => !uri.endsWith('.zip')).sort();
+
+  beforeEach(async () => {
+    await storage.clearAll();
+    await AsyncStorage.clear();
+    mockFiles.clear();
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('restores archived photos next to existing files without overwriting them', async () => {
+    const file = await exportBackup();
+    expect(file.archive!.files).toHaveLength(4);
+    const existingFiles = photoFiles();
+
+    const result = await dataMigrationService.applyImport(file, { mode: 'replace' });
+
+    expect(result.success).toBe(true);
+    expect(result.importedData?.photos).toBe(2);
+    const actions = await storage.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS);
+    for (const photo of actions.flatMap(action => action.photos)) {
+      expect(existingFiles).not.toContain(photo.uri);
+      expect(mockFiles.get(photo.uri)).toEqual(photoBytes);
+      expect(mockFiles.get(photo.thumbnailUri!)).toEqual(photoBytes.slice(0, 3));
+    }
+    existingFiles.forEach(uri => expect(mockFiles.has(uri)).toBe(true));
+  });
+
+  it('does not unpack files of visits the merge skips', async () => {
+    const file = await exportBackup();
+    const existingFiles = photoFiles();
+
+    // Both visits conflict with the local ones and default to keep-mine
+    const result = await dataMigrationService.applyImport(file, { mode: 'merge' });
+
+    expect(result.success).toBe(true);
+    expect(result.importedData?.photos).toBe(0);
+    expect(photoFiles()).toEqual(existingFiles);
+  });
+
+  it('removes unpacked files when the import fails to commit', async () => {
+    const file = await exportBackup();
+    const existingFiles = photoFiles();
+    jest.spyOn(AsyncStorage, 'multiSet').mockRejectedValueOnce(new Error('disk full'));
+
+    const result = await dataMigrationService.applyImport(file, { mode: 'replace' });
+
+    expect(result.success).toBe(false);
+    expect(photoFiles()).toEqual(existingFiles);
+  });
+});
@@ -0,0 +1,85 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { storage, STORAGE_KEYS } from '../storage';
+import { integrityService } from '../integrityService';
+import { ActionCategory, LandArea, ParkType, TimelineAction, Visit } from '../../types/models';
+
+jest.mock('expo-file-system', () => ({
+  getInfoAsync: jest.fn(async (uri: string) => ({ exists: !uri.includes('missing') })),
+}));
+
+const createVisit = () =>
+  storage.create<Visit>(STORAGE_KEYS.VISITS, {
+    date: new Date('2024-05-01T00:00:00'),
+    parkType: ParkType.LAND,
+    companionIds: [],
+    actionCount: 1,
+    totalPhotoCount: 2,
+  } as unknown as Omit<Visit, 'id' | 'createdAt' | 'updatedAt'>);
+
+const createAction = (visitId: string, photoUris: string[]) =>
+  storage.create<TimelineAction>(STORAGE_KEYS.ACTIONS, {
+    visitId,
+    category: ActionCategory.ATTRACTION,
+    area: LandArea.TOMORROWLAND,
+    time: new Date('2024-05-01T10:00:00'),
+    photos: photoUris.map((uri, index) => ({ id: `photo-${index}`, uri })),
+  } as unknown as Omit<TimelineAction, 'id' | 'createdAt' | 'updatedAt'>);
+
+describe('integrityService', () => {
+  let visit: Visit;
+  let action: TimelineAction;
+  let orphan: TimelineAction;
+
+  beforeEach(async () => {
+    await storage.clearAll();
+    await AsyncStorage.clear();
+
+    // One photo file is missing; one action belongs to a deleted visit
+    visit = await createVisit();
+    action = await createAction(visit.id, ['file:///photos/ok.jpg', 'file:///photos/missing.jpg']);
+    orphan = await createAction('deleted-visit', ['file:///photos/orphan.jpg']);
+  });
+
+  it('marks deleting and rewriting fixes as destructive', async () => {
+    const { issues } = await integrityService.scan();
+
+    expect(issues.map(issue => [issue.type, issue.destructive]).sort()).toEqual([
+      ['missing-photo', true],
+      ['orphaned-action', true],
+    ]);
+  });
+
+  it('reports what a repair would delete', async () => {
+    const { issues } = await integrityService.scan();
+
+    expect(integrityService.previewRepair(issues)).toEqual({
+      deletedActions: 1,
+      deletedPhotos: 1,
+      removedPhotoRecords: 1,
+      movedActions: 0,
+      fixedLinks: 0,
+      recountedVisits: 0,
+    });
+  });
+
+  it('changes nothing when no issue is selected', async () => {
+    const result = await integrityService.repair([]);
+
+    expect(result.fixed).toEqual([]);
+    expect(await storage.get(STORAGE_KEYS.ACTIONS, orphan.id)).not.toBeNull();
+    expect((await storage.get<TimelineAction>(STORAGE_KEYS.ACTIONS, action.id))!.photos).toHaveLength(2);
+  });
+
+  it('repairs only the selected issues', async () => {
+    const { issues } = await integrityService.scan();
+    const missingPhoto = issues.find(issue => issue.type === 'missing-photo')!;
+
+    const result = await integrityService.repair([missingPhoto.id]);
+
+    expect(result.fixed.map(issue => issue.id)).toEqual([missingPhoto.id]);
+    expect(result.remaining).toEqual([]);
+    expect((await storage.get<TimelineAction>(STORAGE_KEYS.ACTIONS, action.id))!.photos).toHaveLength(1);
+    expect((await storage.get<Visit>(STORAGE_KEYS.VISITS, visit.id))!.totalPhotoCount).toBe(1);
+    expect(await storage.get(STORAGE_KEYS.ACTIONS, orphan.id)).not.toBeNull();
+  });
+});
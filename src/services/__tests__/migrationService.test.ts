@@ -0,0 +1,47 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { storage, STORAGE_KEYS } from '../storage';
+import { CURRENT_DATA_VERSION, migrationService } from '../migrationService';
+import { ParkType, PassType, Visit } from '../../types/models';
+
+// A visit written before passType existed
+const createLegacyVisit = () =>
+  storage.create<Visit>(STORAGE_KEYS.VISITS, {
+    date: new Date('2024-04-01'),
+    parkType: ParkType.LAND,
+    companionIds: [],
+  } as unknown as Omit<Visit, 'id' | 'createdAt' | 'updatedAt'>);
+
+const getStoredVisit = async (id: string) =>
+  JSON.parse((await AsyncStorage.getItem(`${STORAGE_KEYS.VISITS}:record:${id}`)) || 'null');
+
+describe('migrationService.runPendingMigrations', () => {
+  beforeEach(async () => {
+    await storage.clearAll();
+    await AsyncStorage.clear();
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('migrates stored records and then bumps the data version', async () => {
+    const visit = await createLegacyVisit();
+
+    const applied = await migrationService.runPendingMigrations();
+
+    expect(applied).toBe(CURRENT_DATA_VERSION - 1);
+    expect((await getStoredVisit(visit.id)).passType).toBe(PassType.ONE_DAY);
+    expect(await storage.getDataVersion()).toBe(CURRENT_DATA_VERSION);
+    expect(await storage.getMigrations()).toHaveLength(applied);
+  });
+
+  it('leaves the data and the data version untouched when the commit fails', async () => {
+    const visit = await createLegacyVisit();
+    jest.spyOn(AsyncStorage, 'multiSet').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(migrationService.runPendingMigrations()).rejects.toThrow();
+
+    expect((await getStoredVisit(visit.id)).passType).toBeUndefined();
+    expect(await AsyncStorage.getItem('@tdr_days:journal')).toBeNull();
+    expect(await storage.getDataVersion()).toBe(1);
+    expect(await storage.getMigrations()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,142 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { storage, STORAGE_KEYS } from '../storage';
+import { photoService } from '../photoService';
+import { Photo, TimelineAction } from '../../types/models';
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  cacheDirectory: 'file:///cache/',
+  makeDirectoryAsync: jest.fn(async () => undefined),
+  deleteAsync: jest.fn(async () => undefined),
+  moveAsync: jest.fn(async () => undefined),
+  readDirectoryAsync: jest.fn(async () => []),
+}));
+
+jest.mock('expo-image-manipulator', () => ({
+  SaveFormat: { JPEG: 'jpeg', PNG: 'png' },
+  ImageManipulator: {
+    manipulate: () => ({
+      resize: jest.fn(),
+      renderAsync: async () => ({
+        width: 800,
+        height: 600,
+        saveAsync: async () => ({ uri: 'file:///cache/ImageManipulator/rendered.jpg' }),
+      }),
+    }),
+  },
+}));
+
+const ORIGINAL = 'file:///documents/photos/original.jpg';
+const EDITED = 'file:///documents/photos/edited.jpg';
+
+const editedPhoto = (id: string): Photo =>
+  photoService.recordEdit<Photo>(
+    { id, uri: ORIGINAL, width: 4000, height: 3000 },
+    'filter',
+    { filterId: 'sepia' },
+    EDITED,
+    { width: 4000, height: 3000 }
+  );
+
+const saveAction = (photos: Photo[]) =>
+  storage.create<TimelineAction>(STORAGE_KEYS.ACTIONS, {
+    visitId: 'visit',
+    photos,
+  } as unknown as Omit<TimelineAction, 'id' | 'createdAt' | 'updatedAt'>);
+
+describe('photoService edit files', () => {
+  beforeEach(async () => {
+    await storage.clearAll();
+    await AsyncStorage.clear();
+    (FileSystem.deleteAsync as jest.Mock).mockClear();
+    (FileSystem.moveAsync as jest.Mock).mockClear();
+  });
+
+  it('deletes the undone file when only the photo being undone uses it', async () => {
+    const photo = editedPhoto('p1');
+    await saveAction([photo]);
+
+    const undone = await photoService.undoEdit(photo);
+
+    expect(undone.uri).toBe(ORIGINAL);
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith(EDITED, { idempotent: true });
+  });
+
+  it('records the size of the edited file and restores the previous one on undo', async () => {
+    const rotated = photoService.recordEdit(
+      editedPhoto('p1'),
+      'rotation',
+      { degrees: 90 },
+      'file:///documents/photos/rotated.jpg',
+      { width: 3000, height: 4000 }
+    );
+    expect([rotated.width, rotated.height]).toEqual([3000, 4000]);
+    await saveAction([rotated]);
+
+    const undone = await photoService.undoEdit(rotated);
+    expect([undone.width, undone.height]).toEqual([4000, 3000]);
+
+    const reverted = await photoService.revertToOriginal(rotated);
+    expect(reverted.uri).toBe(ORIGINAL);
+    expect([reverted.width, reverted.height]).toEqual([4000, 3000]);
+  });
+
+  it('keeps edited files that another photo record still refers to', async () => {
+    // Duplicate resolution pointed a second record at the same file
+    const photo = editedPhoto('p1');
+    await saveAction([photo, { ...photo, id: 'p2' }]);
+
+    await photoService.undoEdit(photo);
+    await photoService.revertToOriginal(photo);
+    await photoService.deleteEditedFile(EDITED, ORIGINAL, photo.id);
+
+    expect(FileSystem.deleteAsync).not.toHaveBeenCalled();
+  });
+});
+
+describe('photoService edit thumbnails and previews', () => {
+  const OLD_THUMBNAIL = 'file:///documents/thumbnails/p1.jpg';
+
+  beforeEach(async () => {
+    await storage.clearAll();
+    await AsyncStorage.clear();
+    (FileSystem.deleteAsync as jest.Mock).mockClear();
+    (FileSystem.moveAsync as jest.Mock).mockClear();
+  });
+
+  it('gives an edited photo a new thumbnail and deletes the old one', async () => {
+    const photo = { ...editedPhoto('p1'), thumbnailUri: OLD_THUMBNAIL };
+    await saveAction([photo]);
+
+    const refreshed = await photoService.refreshThumbnail(photo);
+
+    expect(refreshed.thumbnailUri).toBe('file:///documents/thumbnails/edited.jpg');
+    expect(FileSystem.moveAsync).toHaveBeenCalledWith({
+      from: 'file:///cache/ImageManipulator/rendered.jpg',
+      to: refreshed.thumbnailUri,
+    });
+    expect(FileSystem.deleteAsync).toHaveBeenCalledWith(OLD_THUMBNAIL, { idempotent: true });
+    expect(photoService.getCachedThumbnail(refreshed)).toBe(refreshed.thumbnailUri);
+  });
+
+  it('keeps the old thumbnail when another photo record uses it', async () => {
+    const photo = { ...editedPhoto('p1'), thumbnailUri: OLD_THUMBNAIL };
+    await saveAction([photo, { ...photo, id: 'p2' }]);
+
+    await photoService.refreshThumbnail(photo);
+
+    expect(FileSystem.deleteAsync).not.toHaveBeenCalledWith(OLD_THUMBNAIL, expect.anything());
+  });
+
+  it('deletes only the editor previews from the cache directory', async () => {
+    (FileSystem.readDirectoryAsync as jest.Mock).mockResolvedValueOnce(['preview_1.jpg', 'decoded.png', 'preview_2.jpg']);
+
+    await photoService.clearPreviews();
+
+    expect((FileSystem.deleteAsync as jest.Mock).mock.calls.map(([uri]) => uri)).toEqual([
+      'file:///cache/photos/preview_1.jpg',
+      'file:///cache/photos/preview_2.jpg',
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { storage, STORAGE_KEYS } from '../storage';
+import { Companion } from '../../types/models';
+
+const KEY = STORAGE_KEYS.COMPANIONS;
+
+const newCompanion = (name: string) => ({ name, visitIds: [] as string[] });
+
+const getStoredIndex = async (): Promise<string[]> =>
+  JSON.parse((await AsyncStorage.getItem(`${KEY}:index`)) || '[]');
+
+describe('StorageService', () => {
+  beforeEach(async () => {
+    await storage.clearAll();
+    await AsyncStorage.clear();
+  });
+
+  it('keeps every id in the index when creates run concurrently', async () => {
+    const created = await Promise.all(
+      Array.from({ length: 20 }, (_, index) => storage.create<Companion>(KEY, newCompanion(`Friend ${index}`)))
+    );
+
+    const index = await getStoredIndex();
+    expect(index).toHaveLength(20);
+    expect(new Set(index)).toEqual(new Set(created.map(companion => companion.id)));
+    expect(await storage.getAll<Companion>(KEY)).toHaveLength(20);
+  });
+
+  it('keeps the index consistent when creates and deletes interleave', async () => {
+    const existing = await storage.createMany<Companion>(KEY, [newCompanion('A'), newCompanion('B')]);
+
+    const [, created] = await Promise.all([
+      storage.delete(KEY, existing[0].id),
+      storage.create<Companion>(KEY, newCompanion('C')),
+      storage.deleteMany(KEY, [existing[1].id]),
+    ]);
+
+    expect(await getStoredIndex()).toEqual([created.id]);
+  });
+
+  it('serializes transactions with plain writes to the same collection', async () => {
+    const [, created] = await Promise.all([
+      storage.transaction(async tx => {
+        tx.create<Companion>(KEY, newCompanion('In transaction'));
+      }),
+      storage.create<Companion>(KEY, newCompanion('Outside')),
+    ]);
+
+    const names = (await storage.getAll<Companion>(KEY)).map(companion => companion.name).sort();
+    expect(names).toEqual(['In transaction', 'Outside']);
+    expect(await getStoredIndex()).toContain(created.id);
+  });
+
+  it('does not lose a write made while a transaction is working', async () => {
+    const companion = await storage.create<Companion>(KEY, newCompanion('Before'));
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+
+    const transaction = storage.transaction(async tx => {
+      const current = (await tx.get<Companion>(KEY, companion.id))!;
+      await gate;
+      tx.put<Companion>(KEY, { ...current, visitIds: ['visit'] });
+    });
+    const outside = storage.update<Companion>(KEY, companion.id, { name: 'Renamed' });
+    release();
+    await Promise.all([transaction, outside]);
+
+    expect(await storage.get<Companion>(KEY, companion.id)).toMatchObject({ name: 'Renamed', visitIds: ['visit'] });
+  });
+
+  it('runs queued writes after a failed one', async () => {
+    const stored = { ...newCompanion('Stored'), id: 'same', createdAt: new Date(), updatedAt: new Date() };
+    await storage.importMany<Companion>(KEY, [stored]);
+
+    const [duplicate, created] = await Promise.allSettled([
+      storage.importMany<Companion>(KEY, [stored]),
+      storage.create<Companion>(KEY, newCompanion('After')),
+    ]);
+
+    expect(duplicate.status).toBe('rejected');
+    expect(created.status).toBe('fulfilled');
+    expect(await getStoredIndex()).toEqual(['same', (created as PromiseFulfilledResult<Companion>).value.id]);
+  });
+});
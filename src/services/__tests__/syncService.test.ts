@@ -0,0 +1,184 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { storage, STORAGE_KEYS } from '../storage';
+import { syncService, SyncResponse, SyncTransport } from '../syncService';
+import { Companion, ParkType, Visit } from '../../types/models';
+
+const { startServer } = require('../../../scripts/mock-sync-server');
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+}));
+
+// Talks to the mock server with Node's http module instead of fetch
+class NodeTransport implements SyncTransport {
+  baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl;
+  }
+
+  request<T = any>(method: string, path: string, body?: any): Promise<SyncResponse<T>> {
+    return new Promise((resolve, reject) => {
+      const req = http.request(`${this.baseUrl}/api/v1${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+      }, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('end', () => {
+          const text = Buffer.concat(chunks).toString();
+          resolve({ status: res.statusCode || 0, data: text ? JSON.parse(text) : null });
+        });
+      });
+      req.on('error', reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+  }
+
+  async upload<T = any>(): Promise<SyncResponse<T>> {
+    throw new Error('Photos are not synced in these tests');
+  }
+}
+
+const createVisit = (notes: string) =>
+  storage.create<Visit>(STORAGE_KEYS.VISITS, {
+    date: new Date('2024-05-01T00:00:00.000Z'),
+    parkType: ParkType.LAND,
+    companionIds: [],
+    notes,
+  } as unknown as Omit<Visit, 'id' | 'createdAt' | 'updatedAt'>);
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('syncService with the mock sync server', () => {
+  let server: http.Server;
+  let transport: NodeTransport;
+
+  // Another device editing the server directly
+  const getRemoteVisits = async (): Promise<any[]> =>
+    (await transport.request('GET', '/visits')).data.records;
+
+  const getRemoteVisit = async (clientId: string) =>
+    (await getRemoteVisits()).find(record => record.client_id === clientId);
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    server = startServer(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    transport = new NodeTransport(`http://localhost:${(server.address() as AddressInfo).port}`);
+    syncService.setTransport(transport);
+  });
+
+  afterAll(async () => {
+    syncService.setTransport(null);
+    await new Promise(resolve => server.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  // The server keeps its records between tests; every test works on its own visits
+  beforeEach(async () => {
+    await storage.clearAll();
+    await AsyncStorage.clear();
+  });
+
+  it('pushes new local records', async () => {
+    const companion = await storage.create<Companion>(STORAGE_KEYS.COMPANIONS, {
+      name: 'Mickey',
+    } as unknown as Omit<Companion, 'id' | 'createdAt' | 'updatedAt'>);
+    const visit = await createVisit('pushed');
+
+    const result = await syncService.sync();
+
+    expect(result.success).toBe(true);
+    expect(result.pushed.created).toBe(2);
+    expect(await getRemoteVisit(visit.id)).toMatchObject({ notes: 'pushed', deleted_at: null });
+    expect(await syncService.getPendingChanges()).toEqual({ dirty: 0, deleted: 0 });
+    expect((await storage.get<Companion>(STORAGE_KEYS.COMPANIONS, companion.id))!.remoteId).toBeDefined();
+  });
+
+  it('pulls records created on another device', async () => {
+    const now = new Date().toISOString();
+    await transport.request('POST', '/visits', {
+      visit: {
+        client_id: 'remote-visit',
+        date: '2024-06-01T00:00:00.000Z',
+        park_type: ParkType.SEA,
+        companion_ids: [],
+        notes: 'pulled',
+        created_at: now,
+        updated_at: now,
+      },
+    });
+
+    const result = await syncService.sync();
+
+    expect(result.success).toBe(true);
+    const visit = await storage.get<Visit>(STORAGE_KEYS.VISITS, 'remote-visit');
+    expect(visit).toMatchObject({ notes: 'pulled', parkType: ParkType.SEA });
+    expect(visit!.date).toEqual(new Date('2024-06-01T00:00:00.000Z'));
+  });
+
+  it('keeps the remote copy when it was updated after the local one', async () => {
+    const visit = await createVisit('original');
+    await syncService.sync();
+    const remote = await getRemoteVisit(visit.id);
+
+    await storage.update<Visit>(STORAGE_KEYS.VISITS, visit.id, { notes: 'local edit' });
+    await tick();
+    await transport.request('PATCH', `/visits/${remote.id}`, {
+      visit: { ...remote, notes: 'remote edit', updated_at: new Date().toISOString() },
+    });
+
+    const result = await syncService.sync();
+
+    expect(result.conflicts).toBe(1);
+    expect((await storage.get<Visit>(STORAGE_KEYS.VISITS, visit.id))!.notes).toBe('remote edit');
+    expect((await getRemoteVisit(visit.id)).notes).toBe('remote edit');
+  });
+
+  it('keeps the local copy when it was updated after the remote one', async () => {
+    const visit = await createVisit('original');
+    await syncService.sync();
+    const remote = await getRemoteVisit(visit.id);
+
+    await transport.request('PATCH', `/visits/${remote.id}`, {
+      visit: { ...remote, notes: 'remote edit', updated_at: new Date().toISOString() },
+    });
+    await tick();
+    await storage.update<Visit>(STORAGE_KEYS.VISITS, visit.id, { notes: 'local edit' });
+
+    const result = await syncService.sync();
+
+    expect(result.conflicts).toBe(1);
+    expect((await storage.get<Visit>(STORAGE_KEYS.VISITS, visit.id))!.notes).toBe('local edit');
+    expect((await getRemoteVisit(visit.id)).notes).toBe('local edit');
+  });
+
+  it('pushes local deletions without pulling the deleted records back', async () => {
+    const visit = await createVisit('deleted here');
+    await syncService.sync();
+
+    await storage.delete(STORAGE_KEYS.VISITS, visit.id);
+    const result = await syncService.sync();
+
+    expect(result.success).toBe(true);
+    expect(result.pushed.deleted).toBe(1);
+    expect(await storage.get(STORAGE_KEYS.VISITS, visit.id)).toBeNull();
+    expect((await getRemoteVisit(visit.id)).deleted_at).not.toBeNull();
+    expect(await syncService.getPendingChanges()).toEqual({ dirty: 0, deleted: 0 });
+  });
+
+  it('deletes records deleted on another device', async () => {
+    const visit = await createVisit('deleted elsewhere');
+    await syncService.sync();
+    const remote = await getRemoteVisit(visit.id);
+
+    await transport.request('DELETE', `/visits/${remote.id}`);
+    const result = await syncService.sync();
+
+    expect(result.pulled.deleted).toBe(1);
+    expect(await storage.get(STORAGE_KEYS.VISITS, visit.id)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PassType } from '../types/models';
+
+export interface BudgetSettings {
+  yearlyBudget?: number; // In yen; no budget when unset
+  ticketPrices: Record<PassType, number>; // Suggested price for new visits
+}
+
+// A per-device preference like the language and profile: it is not part of
+// exports, backups or sync, so a restored device starts from the defaults
+const BUDGET_KEY = '@TDRDays:budget';
+
+// Middle of each pass's variable price range (adult, yen)
+export const DEFAULT_TICKET_PRICES: Record<PassType, number> = {
+  [PassType.ONE_DAY]: 9400,
+  [PassType.EARLY_EVENING]: 7600,
+  [PassType.WEEKNIGHT]: 5300,
+};
+
+class BudgetService {
+  private static instance: BudgetService;
+
+  private constructor() {}
+
+  static getInstance(): BudgetService {
+    if (!BudgetService.instance) {
+      BudgetService.instance = new BudgetService();
+    }
+    return BudgetService.instance;
+  }
+
+  async getSettings(): Promise<BudgetSettings> {
+    try {
+      const data = await AsyncStorage.getItem(BUDGET_KEY);
+      if (data) {
+        const saved = JSON.parse(data);
+        return {
+          yearlyBudget: saved.yearlyBudget,
+          ticketPrices: { ...DEFAULT_TICKET_PRICES, ...saved.ticketPrices },
+        };
+      }
+    } catch (error) {
+      console.error('Error reading budget settings:', error);
+    }
+
+    return { ticketPrices: { ...DEFAULT_TICKET_PRICES } };
+  }
+
+  async saveSettings(settings: BudgetSettings): Promise<void> {
+    try {
+      await AsyncStorage.setItem(BUDGET_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.error('Error saving budget settings:', error);
+      throw error;
+    }
+  }
+
+  async getTicketPrice(passType: PassType): Promise<number> {
+    const settings = await this.getSettings();
+    return settings.ticketPrices[passType];
+  }
+}
+
+export const budgetService = BudgetService.getInstance();
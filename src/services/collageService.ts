@@ -0,0 +1,135 @@
+/**
+ * Collage Service
+ * Picks photos and highlights for a visit summary image, prepares the photos
+ * for drawing, and shares the rendered PNG
+ */
+
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { photoService } from './photoService';
+import { Photo, TimelineAction, Visit } from '../types/models';
+import { CollageRect } from '../utils/collageLayout';
+
+const COLLAGE_DIR = 'collages/';
+
+class CollageService {
+  private static instance: CollageService;
+
+  private constructor() {}
+
+  static getInstance(): CollageService {
+    if (!CollageService.instance) {
+      CollageService.instance = new CollageService();
+    }
+    return CollageService.instance;
+  }
+
+  /**
+   * Favorites first, then one photo per action in turn so the whole day is
+   * covered rather than the first few actions
+   */
+  getDefaultPhotos(actions: TimelineAction[], max: number): Photo[] {
+    const timeline = this.sortByTime(actions);
+    const all = timeline.flatMap(action => action.photos || []);
+    const selected = all.filter(photo => photo.isFavorite).slice(0, max);
+
+    for (let round = 0; selected.length < max; round++) {
+      const picks = timeline
+        .map(action => (action.photos || [])[round])
+        .filter((photo): photo is Photo => !!photo);
+      if (picks.length === 0) break;
+
+      for (const photo of picks) {
+        if (selected.length >= max) break;
+        if (!selected.some(p => p.id === photo.id)) selected.push(photo);
+      }
+    }
+
+    return selected;
+  }
+
+  /**
+   * The most memorable actions (photos, favorites, time spent), in timeline order
+   */
+  getHighlights(actions: TimelineAction[], max: number): TimelineAction[] {
+    const score = (action: TimelineAction) =>
+      (action.photos?.length || 0) +
+      (action.photos?.some(photo => photo.isFavorite) ? 3 : 0) +
+      (action.duration || 0) / 60;
+
+    const top = actions
+      .slice()
+      .sort((a, b) => score(b) - score(a))
+      .slice(0, max);
+    return this.sortByTime(top);
+  }
+
+  /**
+   * JPEG data URI of the photo cropped to fill the cell, no larger than the
+   * cell. Embedded data keeps the SVG export independent of file access.
+   */
+  async preparePhoto(photo: Photo, cell: CollageRect): Promise<string | undefined> {
+    try {
+      // The stored size can predate an edit; a crop outside the file fails
+      const size = await photoService.getImageSize(photo.uri);
+
+      // Centre crop to the cell's aspect ratio
+      const cellRatio = cell.width / cell.height;
+      const cropWidth = Math.min(size.width, size.height * cellRatio);
+      const cropHeight = cropWidth / cellRatio;
+
+      const context = ImageManipulator.manipulate(photo.uri);
+      context.crop({
+        originX: Math.round((size.width - cropWidth) / 2),
+        originY: Math.round((size.height - cropHeight) / 2),
+        width: Math.round(cropWidth),
+        height: Math.round(cropHeight),
+      });
+      if (cropWidth > cell.width) {
+        context.resize({ width: Math.round(cell.width), height: Math.round(cell.height) });
+      }
+
+      const image = await context.renderAsync();
+      const result = await image.saveAsync({ format: SaveFormat.JPEG, compress: 0.85, base64: true });
+      await FileSystem.deleteAsync(result.uri, { idempotent: true }).catch(() => undefined);
+
+      return result.base64 ? `data:image/jpeg;base64,${result.base64}` : undefined;
+    } catch (error) {
+      console.error('Failed to prepare collage photo:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Save the rendered PNG (base64) to the cache and open the share sheet
+   */
+  async shareImage(base64Png: string, visit: Visit, dialogTitle?: string): Promise<void> {
+    const dir = `${FileSystem.cacheDirectory}${COLLAGE_DIR}`;
+    const date = new Date(visit.date);
+    const stamp = `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+    const fileUri = `${dir}TDR_Days_${stamp}.png`;
+
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    await FileSystem.writeAsStringAsync(fileUri, base64Png, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(fileUri, {
+      mimeType: 'image/png',
+      UTI: 'public.png',
+      dialogTitle,
+    });
+  }
+
+  private sortByTime(actions: TimelineAction[]): TimelineAction[] {
+    return actions
+      .slice()
+      .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+  }
+}
+
+export const collageService = CollageService.getInstance();
@@ -4,26 +4,144 @@
  */
 
 import * as FileSystem from 'expo-file-system';
+import { File } from 'expo-file-system/next';
 import * as DocumentPicker from 'expo-document-picker';
 import * as Sharing from 'expo-sharing';
-import { storage, STORAGE_KEYS } from './storage';
-import { Visit, Companion, TimelineAction, Photo } from '../types/models';
+import { storage, STORAGE_KEYS, StorageTransaction } from './storage';
+import { migrationService } from './migrationService';
+import { Visit, Companion, TimelineAction, Photo, ParkType } from '../types/models';
+import {
+  validateExportData,
+  formatRecordError,
+  RecordError,
+  ImportValidationResult,
+} from '../utils/importValidation';
+import { decodeUtf8, encodeUtf8, isZipArchive, ZipReader, ZipWriter } from '../utils/zipArchive';
+
+// Identifies full backup archives (ZIP of photo files + a JSON manifest)
+export const BACKUP_FORMAT = 'tdr-days-backup';
+
+// Archive entry holding the BackupArchive manifest and data
+const BACKUP_MANIFEST_ENTRY = 'backup.json';
+
+// Directories in the document directory that restored files are written to
+const PHOTO_DIR = 'photos/';
+const THUMBNAIL_DIR = 'thumbnails/';
 
 export interface ExportData {
   version: string;
   exportDate: string;
   visits: Omit<Visit, 'totalPhotoCount'>[];
   companions: Companion[];
-  actions: Array<Omit<TimelineAction, 'photos'> & { photoCount: number }>;
+  // photos is only present in full backups, with uris relative to the archive
+  actions: Array<Omit<TimelineAction, 'photos'> & { photoCount: number; photos?: Photo[] }>;
   metadata: {
     totalVisits: number;
     totalActions: number;
     totalCompanions: number;
     exportedPhotos: number;
+    includesPhotos?: boolean;
     note: string;
   };
 }
 
+export interface BackupFileEntry {
+  path: string; // Entry name inside the archive, e.g. photos/<photoId>.jpg
+  photoId: string;
+  kind: 'photo' | 'thumbnail';
+  size: number;
+}
+
+// Contents of the manifest entry; each file is a separate archive entry
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  manifest: {
+    version: string;
+    createdAt: string;
+    fileCount: number;
+    totalBytes: number;
+    missingFiles: string[]; // Photo ids whose files could not be read
+  };
+  data: ExportData;
+  files: BackupFileEntry[];
+}
+
+export interface ExportOptions {
+  includePhotos?: boolean;
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+// How to handle an imported visit that matches an existing one (same date + park)
+export type ConflictResolution = 'keep-mine' | 'keep-theirs' | 'keep-both';
+
+export interface ImportFile {
+  fileName: string;
+  uri: string; // Picked file; backup entries are read from it when applying
+  data: ExportData; // Only the records that passed validation
+  archive: BackupArchive | null;
+  invalidRecords: RecordError[];
+  skipped: ImportValidationResult['skipped'];
+}
+
+export interface ImportFileResult {
+  success: boolean;
+  message: string;
+  file?: ImportFile;
+  errors?: string[];
+}
+
+export interface ImportOptions {
+  mode: ImportMode;
+  resolutions?: Record<string, ConflictResolution>; // Keyed by imported visit id
+}
+
+export interface VisitConflict {
+  id: string; // Imported visit id
+  date: Date;
+  parkType: ParkType;
+  existing: Visit;
+  existingActionCount: number;
+  incomingActionCount: number;
+  resolution: ConflictResolution;
+}
+
+export interface ImportPreview {
+  mode: ImportMode;
+  fileName: string;
+  exportDate: string;
+  includesPhotos: boolean;
+  photos: number;
+  visits: { added: number; replaced: number; skipped: number };
+  companions: { added: number; matched: number };
+  actions: { added: number; removed: number };
+  conflicts: VisitConflict[];
+  danglingReferences: string[];
+  invalidRecords: RecordError[];
+  skipped: ImportValidationResult['skipped'];
+}
+
+// Old id (from the import file) -> id the record is stored under
+interface ImportIdMap {
+  companions: Map<string, string>;
+  visits: Map<string, string>;
+  actions: Map<string, string>;
+}
+
+interface ImportPlan {
+  idMap: ImportIdMap;
+  companionsToCreate: Companion[];
+  companionsToUpdate: Array<{ id: string; data: Partial<Companion> }>;
+  visitsToCreate: Visit[];
+  visitIdsToDelete: string[];
+  actionsToCreate: TimelineAction[];
+  actionIdsToDelete: string[];
+  conflicts: VisitConflict[];
+  danglingReferences: string[];
+  matchedCompanionCount: number;
+  skippedVisitCount: number;
+}
+
 export interface ImportResult {
   success: boolean;
   message: string;
@@ -31,6 +149,7 @@ export interface ImportResult {
     visits: number;
     companions: number;
     actions: number;
+    photos?: number;
   };
   errors?: string[];
 }
@@ -48,9 +167,13 @@ class DataMigrationService {
   }
 
   /**
-   * Export all user data to JSON format
+   * Export all user data to JSON format.
+   * With includePhotos, photo and thumbnail files are bundled into a backup archive.
+   * Device settings (language, profile, budget) are not exported.
    */
-  async exportData(): Promise<{ success: boolean; filePath?: string; error?: string }> {
+  async exportData(options: ExportOptions = {}): Promise<{ success: boolean; filePath?: string; error?: string }> {
+    const { includePhotos = false } = options;
+
     try {
       // Get all data from storage
       const [visits, companions, actions] = await Promise.all([
@@ -80,7 +203,7 @@ class DataMigrationService {
 
       // Create export data structure
       const exportData: ExportData = {
-        version: '1.0.0',
+        version: migrationService.formatExportVersion(),
         exportDate: new Date().toISOString(),
         visits: sanitizedVisits,
         companions,
@@ -89,23 +212,32 @@ class DataMigrationService {
           totalVisits: visits.length,
           totalActions: actions.length,
           totalCompanions: companions.length,
-          exportedPhotos: totalPhotos,
-          note: 'Photos are not included in this export. Only visit records, companions, and action data are exported.'
+          exportedPhotos: includePhotos ? totalPhotos : 0,
+          includesPhotos: includePhotos,
+          note: includePhotos
+            ? 'Full backup. Photo and thumbnail files are bundled in this archive.'
+            : 'Photos are not included in this export. Only visit records, companions, and action data are exported.'
         }
       };
 
       // Create file name with timestamp
       const timestamp = new Date().toISOString().split('T')[0].replace(/-/g, '');
-      const fileName = `TDR_Days_Export_${timestamp}.json`;
+      const fileName = includePhotos
+        ? `TDR_Days_Backup_${timestamp}.zip`
+        : `TDR_Days_Export_${timestamp}.json`;
       const filePath = `${FileSystem.documentDirectory}${fileName}`;
 
       // Write to file
-      await FileSystem.writeAsStringAsync(filePath, JSON.stringify(exportData, null, 2));
+      if (includePhotos) {
+        await this.writeBackupArchive(filePath, exportData, actions);
+      } else {
+        await FileSystem.writeAsStringAsync(filePath, JSON.stringify(exportData, null, 2));
+      }
 
       // Share the file
       if (await Sharing.isAvailableAsync()) {
         await Sharing.shareAsync(filePath, {
-          mimeType: 'application/json',
+          mimeType: includePhotos ? 'application/zip' : 'application/json',
           dialogTitle: 'Export TDR Days Data'
         });
       }
@@ -124,13 +256,14 @@ class DataMigrationService {
   }
 
   /**
-   * Import data from JSON file
+   * Pick and parse a JSON export or a full backup archive.
+   * Nothing is written until applyImport is called.
    */
-  async importData(): Promise<ImportResult> {
+  async selectImportFile(): Promise<ImportFileResult> {
     try {
-      // Pick document
+      // Pick document (some providers report ZIP files as octet-stream)
       const result = await DocumentPicker.getDocumentAsync({
-        type: 'application/json',
+        type: ['application/json', 'application/zip', 'application/octet-stream', '*/*'],
         copyToCacheDirectory: true
       });
 
@@ -141,58 +274,137 @@ class DataMigrationService {
         };
       }
 
-      // Read file content
-      const fileContent = await FileSystem.readAsStringAsync(result.assets[0].uri);
-      const importData: ExportData = JSON.parse(fileContent);
+      // Read file content; for backups only the manifest, photo files stay in the archive
+      const asset = result.assets[0];
+      const archive = this.readBackupManifest(asset.uri);
+      const parsed = archive ? archive.data : JSON.parse(await FileSystem.readAsStringAsync(asset.uri));
 
-      // Validate import data structure
-      const validationResult = this.validateImportData(importData);
-      if (!validationResult.isValid) {
+      // Upgrade files from older app versions, then validate every record;
+      // invalid records are skipped rather than failing the import
+      const validation = validateExportData(this.upgradeExportData(parsed));
+      const archiveErrors = archive ? this.validateBackupArchive(archive) : [];
+      if (!validation.isValid || archiveErrors.length > 0) {
         return {
           success: false,
           message: 'Invalid file format',
-          errors: validationResult.errors
+          errors: [...validation.errors.map(formatRecordError), ...archiveErrors]
         };
       }
 
-      // Clear existing data
-      await Promise.all([
-        storage.clear(STORAGE_KEYS.VISITS),
-        storage.clear(STORAGE_KEYS.COMPANIONS),
-        storage.clear(STORAGE_KEYS.ACTIONS)
-      ]);
+      return {
+        success: true,
+        message: 'File loaded',
+        file: {
+          fileName: asset.name,
+          uri: asset.uri,
+          data: validation.validData,
+          archive,
+          invalidRecords: validation.errors,
+          skipped: validation.skipped
+        }
+      };
+    } catch (error) {
+      console.error('Import file error:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to read import file'
+      };
+    }
+  }
 
-      // Import companions first (needed for visit relationships)
-      for (const companion of importData.companions) {
-        await storage.create(STORAGE_KEYS.COMPANIONS, companion);
-      }
+  /**
+   * Dry run: describe what importing the file would do without writing anything
+   */
+  async previewImport(
+    file: ImportFile,
+    mode: ImportMode,
+    resolutions: Record<string, ConflictResolution> = {}
+  ): Promise<ImportPreview> {
+    const plan = await this.planImport(storage, file.data, mode, resolutions, new Map());
 
-      // Import visits
-      for (const visit of importData.visits) {
-        await storage.create(STORAGE_KEYS.VISITS, visit);
-      }
+    return {
+      mode,
+      fileName: file.fileName,
+      exportDate: file.data.exportDate,
+      includesPhotos: !!file.archive,
+      photos: file.data.actions.reduce((total, action) => total + (action.photos?.length || 0), 0),
+      visits: {
+        added: plan.visitsToCreate.length,
+        replaced: plan.visitIdsToDelete.length,
+        skipped: plan.skippedVisitCount
+      },
+      companions: {
+        added: plan.companionsToCreate.length,
+        matched: plan.matchedCompanionCount
+      },
+      actions: {
+        added: plan.actionsToCreate.length,
+        removed: plan.actionIdsToDelete.length
+      },
+      conflicts: plan.conflicts,
+      danglingReferences: plan.danglingReferences,
+      invalidRecords: file.invalidRecords,
+      skipped: file.skipped
+    };
+  }
 
-      // Import actions (restore empty photos array)
-      for (const action of importData.actions) {
-        const { photoCount, ...actionData } = action;
-        const fullAction = {
-          ...actionData,
-          photos: [] as Photo[] // Photos are not imported
-        };
-        await storage.create(STORAGE_KEYS.ACTIONS, fullAction);
-      }
+  /**
+   * Import a previously selected file.
+   * 'replace' wipes current data; 'merge' keeps it and applies per-conflict resolutions.
+   */
+  async applyImport(file: ImportFile, options: ImportOptions): Promise<ImportResult> {
+    // Files unpacked for this import, removed again if it does not commit
+    let unpackedUris: string[] = [];
 
+    try {
+      // Where each archived file would be restored; nothing is written yet
+      const restoreTargets = file.archive
+        ? this.planRestoreTargets(file.archive)
+        : new Map<string, string>();
+
+      // Plan against the same state the writes commit on top of, so keep-theirs
+      // deletes exactly the local visits and actions the resolutions were made for
+      const { plan, restoreErrors } = await storage.transaction(async tx => {
+        const txPlan = await this.planImport(
+          tx,
+          file.data,
+          options.mode,
+          options.resolutions || {},
+          restoreTargets
+        );
+
+        // Only unpack files of photos the plan actually imports
+        const restored = file.archive
+          ? await this.unpackBackupFiles(file.uri, restoreTargets, txPlan)
+          : { uris: [] as string[], errors: [] as string[] };
+        unpackedUris = restored.uris;
+        this.dropUnrestoredPhotos(txPlan, new Set(restored.uris));
+
+        await this.stageImportPlan(tx, txPlan, options.mode);
+        return { plan: txPlan, restoreErrors: restored.errors };
+      });
+
+      const errors = [
+        ...file.invalidRecords.map(formatRecordError),
+        ...restoreErrors,
+        ...plan.danglingReferences
+      ];
       return {
         success: true,
-        message: 'Data imported successfully',
+        message: options.mode === 'merge' ? 'Data merged successfully' : 'Data imported successfully',
         importedData: {
-          visits: importData.visits.length,
-          companions: importData.companions.length,
-          actions: importData.actions.length
-        }
+          visits: plan.visitsToCreate.length,
+          companions: plan.companionsToCreate.length,
+          actions: plan.actionsToCreate.length,
+          photos: plan.actionsToCreate.reduce((total, action) => total + action.photos.length, 0)
+        },
+        errors: errors.length > 0 ? errors : undefined
       };
     } catch (error) {
       console.error('Import error:', error);
+      await Promise.all(unpackedUris.map(uri =>
+        FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => undefined)
+      ));
       return {
         success: false,
         message: error instanceof Error ? error.message : 'Import failed'
@@ -201,42 +413,534 @@ class DataMigrationService {
   }
 
   /**
-   * Validate import data structure
+   * Stage every write of an import plan on one transaction: either every write
+   * lands or, in replace mode too, the existing data is left as it was
    */
-  private validateImportData(data: any): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
+  private async stageImportPlan(tx: StorageTransaction, plan: ImportPlan, mode: ImportMode): Promise<void> {
+    if (mode === 'replace') {
+      tx.clear(STORAGE_KEYS.VISITS);
+      tx.clear(STORAGE_KEYS.COMPANIONS);
+      tx.clear(STORAGE_KEYS.ACTIONS);
+    }
+
+    // Remove visits (and their actions) replaced by keep-theirs resolutions
+    await tx.deleteMany(STORAGE_KEYS.ACTIONS, plan.actionIdsToDelete);
+    await tx.deleteMany(STORAGE_KEYS.VISITS, plan.visitIdsToDelete);
+
+    plan.companionsToCreate.forEach(companion => tx.put<Companion>(STORAGE_KEYS.COMPANIONS, companion));
+    await tx.updateMany<Companion>(STORAGE_KEYS.COMPANIONS, plan.companionsToUpdate);
+    plan.visitsToCreate.forEach(visit => tx.put<Visit>(STORAGE_KEYS.VISITS, visit));
+    plan.actionsToCreate.forEach(action => tx.put<TimelineAction>(STORAGE_KEYS.ACTIONS, action));
+  }
+
+  /**
+   * Work out every write an import needs.
+   * Incoming ids are kept unless they collide with an existing record, and every
+   * reference (Visit.companionIds, Companion.visitIds, TimelineAction.visitId) is
+   * rewritten through the resulting old-id -> new-id maps.
+   * Existing data is read from source: storage for a preview, the import
+   * transaction when applying.
+   * In merge mode:
+   * - Companions are matched by id or name; otherwise added.
+   * - Visits on the same date at the same park are conflicts resolved per visit
+   *   (defaulting to keep-mine).
+   */
+  private async planImport(
+    source: Pick<StorageTransaction, 'getAll'>,
+    importData: ExportData,
+    mode: ImportMode,
+    resolutions: Record<string, ConflictResolution>,
+    restoreTargets: Map<string, string>
+  ): Promise<ImportPlan> {
+    // Replace mode starts from an empty store
+    const [visits, companions, actions] = mode === 'merge'
+      ? await Promise.all([
+          source.getAll<Visit>(STORAGE_KEYS.VISITS),
+          source.getAll<Companion>(STORAGE_KEYS.COMPANIONS),
+          source.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS),
+        ])
+      : [[] as Visit[], [] as Companion[], [] as TimelineAction[]];
+
+    const usedIds = new Set<string>([
+      ...visits.map(v => v.id),
+      ...companions.map(c => c.id),
+      ...actions.map(a => a.id),
+    ]);
+    const claimId = (id: string): string => {
+      const newId = id && !usedIds.has(id) ? id : storage.generateId();
+      usedIds.add(newId);
+      return newId;
+    };
+
+    const idMap: ImportIdMap = {
+      companions: new Map(),
+      visits: new Map(),
+      actions: new Map(),
+    };
+    const danglingReferences: string[] = [];
+
+    // Companions
+    const companionsToCreate: Companion[] = [];
+    const companionsByName = new Map(companions.map(c => [this.normalizeName(c.name), c]));
+    let matchedCompanionCount = 0;
+
+    for (const incoming of importData.companions) {
+      const sameId = companions.find(c => c.id === incoming.id);
+      const match = sameId && this.normalizeName(sameId.name) === this.normalizeName(incoming.name)
+        ? sameId
+        : companionsByName.get(this.normalizeName(incoming.name));
+
+      if (match) {
+        idMap.companions.set(incoming.id, match.id);
+        matchedCompanionCount++;
+        continue;
+      }
+
+      const id = claimId(incoming.id);
+      idMap.companions.set(incoming.id, id);
+      companionsToCreate.push({
+        ...incoming,
+        id,
+        visitIds: [],
+        createdAt: new Date(incoming.createdAt),
+        updatedAt: new Date(incoming.updatedAt),
+      });
+    }
+
+    // Visits
+    const visitsToCreate: Visit[] = [];
+    const visitIdsToDelete: string[] = [];
+    const skippedVisitIds = new Set<string>();
+    const conflicts: VisitConflict[] = [];
+
+    for (const incoming of importData.visits) {
+      const duplicate = visits.find(v =>
+        v.parkType === incoming.parkType &&
+        v.date.toDateString() === new Date(incoming.date).toDateString()
+      );
+
+      if (duplicate) {
+        const resolution = resolutions[incoming.id] || 'keep-mine';
+        conflicts.push({
+          id: incoming.id,
+          date: new Date(incoming.date),
+          parkType: incoming.parkType,
+          existing: duplicate,
+          existingActionCount: actions.filter(a => a.visitId === duplicate.id).length,
+          incomingActionCount: importData.actions.filter(a => a.visitId === incoming.id).length,
+          resolution,
+        });
+
+        if (resolution === 'keep-mine') {
+          skippedVisitIds.add(incoming.id);
+          continue;
+        }
+        if (resolution === 'keep-theirs' && !visitIdsToDelete.includes(duplicate.id)) {
+          visitIdsToDelete.push(duplicate.id);
+        }
+      }
+
+      const id = claimId(incoming.id);
+      idMap.visits.set(incoming.id, id);
+      visitsToCreate.push({
+        ...incoming,
+        id,
+        date: new Date(incoming.date),
+        companionIds: [],
+        startTime: incoming.startTime ? new Date(incoming.startTime) : undefined,
+        endTime: incoming.endTime ? new Date(incoming.endTime) : undefined,
+        actionCount: 0,
+        totalPhotoCount: 0,
+        createdAt: new Date(incoming.createdAt),
+        updatedAt: new Date(incoming.updatedAt),
+      });
+    }
+
+    // Companion <-> visit links, collected from both sides of the relationship
+    const links = new Map<string, Set<string>>(); // new visit id -> new companion ids
+    const link = (visitId: string, companionId: string) => {
+      if (!links.has(visitId)) {
+        links.set(visitId, new Set());
+      }
+      links.get(visitId)!.add(companionId);
+    };
+
+    for (const incoming of importData.visits) {
+      const visitId = idMap.visits.get(incoming.id);
+      if (!visitId) continue;
+
+      for (const companionId of incoming.companionIds || []) {
+        const newCompanionId = idMap.companions.get(companionId);
+        if (newCompanionId) {
+          link(visitId, newCompanionId);
+        } else {
+          danglingReferences.push(`Visit ${incoming.id} references missing companion ${companionId}`);
+        }
+      }
+    }
+
+    for (const incoming of importData.companions) {
+      const companionId = idMap.companions.get(incoming.id)!;
 
-    if (!data || typeof data !== 'object') {
-      errors.push('Invalid JSON structure');
-      return { isValid: false, errors };
+      for (const visitId of incoming.visitIds || []) {
+        const newVisitId = idMap.visits.get(visitId);
+        if (newVisitId) {
+          link(newVisitId, companionId);
+        } else if (!skippedVisitIds.has(visitId)) {
+          danglingReferences.push(`Companion ${incoming.id} references missing visit ${visitId}`);
+        }
+      }
     }
 
-    if (!data.version) {
-      errors.push('Missing version information');
+    visitsToCreate.forEach(visit => {
+      visit.companionIds = Array.from(links.get(visit.id) || []);
+    });
+
+    // Actions (only for visits that are being added)
+    const actionsToCreate: TimelineAction[] = [];
+    for (const incoming of importData.actions) {
+      const visitId = idMap.visits.get(incoming.visitId);
+      if (!visitId) {
+        if (!skippedVisitIds.has(incoming.visitId)) {
+          danglingReferences.push(`Action ${incoming.id} references missing visit ${incoming.visitId}`);
+        }
+        continue;
+      }
+
+      const { photoCount, photos = [], ...actionData } = incoming;
+      const id = claimId(incoming.id);
+      idMap.actions.set(incoming.id, id);
+      actionsToCreate.push({
+        ...actionData,
+        id,
+        visitId,
+        time: new Date(incoming.time),
+        photos: this.rewritePhotoUris(photos, restoreTargets),
+        createdAt: new Date(incoming.createdAt),
+        updatedAt: new Date(incoming.updatedAt),
+      });
+    }
+
+    this.countVisitActions(visitsToCreate, actionsToCreate);
+
+    // Companion visitIds: drop deleted visits, add links for added visits
+    const visitIdsByCompanion = new Map<string, string[]>();
+    visitsToCreate.forEach(visit => visit.companionIds.forEach(companionId => {
+      visitIdsByCompanion.set(companionId, [...(visitIdsByCompanion.get(companionId) || []), visit.id]);
+    }));
+
+    companionsToCreate.forEach(companion => {
+      companion.visitIds = visitIdsByCompanion.get(companion.id) || [];
+    });
+
+    const companionsToUpdate = companions
+      .map(companion => {
+        const added = visitIdsByCompanion.get(companion.id) || [];
+        const kept = companion.visitIds.filter(visitId => !visitIdsToDelete.includes(visitId));
+        if (added.length === 0 && kept.length === companion.visitIds.length) return null;
+        return {
+          id: companion.id,
+          data: { visitIds: Array.from(new Set([...kept, ...added])) },
+        };
+      })
+      .filter(Boolean) as Array<{ id: string; data: Partial<Companion> }>;
+
+    return {
+      idMap,
+      companionsToCreate,
+      companionsToUpdate,
+      visitsToCreate,
+      visitIdsToDelete,
+      actionsToCreate,
+      actionIdsToDelete: actions.filter(a => visitIdsToDelete.includes(a.visitId)).map(a => a.id),
+      conflicts,
+      danglingReferences,
+      matchedCompanionCount,
+      skippedVisitCount: skippedVisitIds.size,
+    };
+  }
+
+  // Recompute cached counts for added visits
+  private countVisitActions(visits: Visit[], actions: TimelineAction[]) {
+    visits.forEach(visit => {
+      const visitActions = actions.filter(a => a.visitId === visit.id);
+      visit.actionCount = visitActions.length;
+      visit.totalPhotoCount = visitActions.reduce((total, a) => total + a.photos.length, 0);
+    });
+  }
+
+  private normalizeName(name: string): string {
+    return (name || '').trim().toLowerCase();
+  }
+
+  /**
+   * Write a full backup as a ZIP archive. Photo and thumbnail files are streamed
+   * in one entry each, then a manifest entry holds the data with photo uris
+   * rewritten to entry names. Files are copied in chunks with the JS thread
+   * released in between, so the UI stays responsive during large backups.
+   */
+  private async writeBackupArchive(
+    filePath: string,
+    exportData: ExportData,
+    actions: TimelineAction[]
+  ): Promise<void> {
+    const files: BackupFileEntry[] = [];
+    const missingFiles: string[] = [];
+    const photosByAction = new Map(actions.map(action => [action.id, action.photos]));
+
+    const backupFile = new File(filePath);
+    backupFile.create({ overwrite: true });
+    const handle = backupFile.open();
+
+    try {
+      const writer = new ZipWriter(handle);
+
+      const archiveFile = async (
+        uri: string,
+        photoId: string,
+        kind: BackupFileEntry['kind']
+      ): Promise<string | undefined> => {
+        const source = new File(uri);
+        if (!source.exists) return undefined;
+
+        const dir = kind === 'photo' ? PHOTO_DIR : THUMBNAIL_DIR;
+        const path = `${dir}${photoId}.${this.getFileExtension(uri)}`;
+        const sourceHandle = source.open();
+        try {
+          const entry = await writer.addEntry(path, sourceHandle);
+          files.push({ path, photoId, kind, size: entry.size });
+        } finally {
+          sourceHandle.close();
+        }
+        return path;
+      };
+
+      const archivedActions: ExportData['actions'] = [];
+      for (const action of exportData.actions) {
+        const photos: Photo[] = [];
+
+        for (const photo of photosByAction.get(action.id) || []) {
+          const path = await archiveFile(photo.uri, photo.id, 'photo');
+          if (!path) {
+            missingFiles.push(photo.id);
+            continue;
+          }
+
+          const thumbnailPath = photo.thumbnailUri && photo.thumbnailUri !== photo.uri
+            ? await archiveFile(photo.thumbnailUri, photo.id, 'thumbnail')
+            : undefined;
+
+          photos.push({ ...photo, uri: path, thumbnailUri: thumbnailPath });
+        }
+
+        archivedActions.push({ ...action, photos });
+      }
+
+      const archive: BackupArchive = {
+        format: BACKUP_FORMAT,
+        manifest: {
+          version: exportData.version,
+          createdAt: exportData.exportDate,
+          fileCount: files.length,
+          totalBytes: files.reduce((total, file) => total + file.size, 0),
+          missingFiles
+        },
+        data: {
+          ...exportData,
+          actions: archivedActions,
+          metadata: {
+            ...exportData.metadata,
+            exportedPhotos: archivedActions.reduce((total, action) => total + (action.photos?.length || 0), 0)
+          }
+        },
+        files
+      };
+      writer.addBytes(BACKUP_MANIFEST_ENTRY, encodeUtf8(JSON.stringify(archive)));
+      writer.finish();
+    } catch (error) {
+      // A half-written entry leaves the archive unreadable
+      handle.close();
+      backupFile.delete();
+      throw error;
     }
+    handle.close();
+  }
 
-    if (!Array.isArray(data.visits)) {
-      errors.push('Invalid visits data');
+  /**
+   * Read the manifest of a ZIP backup, leaving the file entries in the archive.
+   * Returns null for plain JSON exports.
+   */
+  private readBackupManifest(uri: string): BackupArchive | null {
+    const handle = new File(uri).open();
+    try {
+      if (!isZipArchive(handle.readBytes(4))) return null;
+
+      const reader = new ZipReader(handle);
+      if (!reader.hasEntry(BACKUP_MANIFEST_ENTRY)) {
+        throw new Error('Missing backup manifest');
+      }
+      return JSON.parse(decodeUtf8(reader.readEntry(BACKUP_MANIFEST_ENTRY)));
+    } finally {
+      handle.close();
     }
+  }
+
+  /**
+   * Choose where each archived file would be restored: photos/<photoId> as
+   * before, or a fresh name when a local file already uses that path.
+   * Returns a map of archive path -> local uri; nothing is written.
+   */
+  private planRestoreTargets(archive: BackupArchive): Map<string, string> {
+    const targets = new Map<string, string>();
+
+    for (const file of archive.files) {
+      const dir = `${FileSystem.documentDirectory}${file.kind === 'photo' ? PHOTO_DIR : THUMBNAIL_DIR}`;
+      const name = String(file.photoId).replace(/[^A-Za-z0-9_-]/g, '_');
+      const extension = this.getFileExtension(file.path);
 
-    if (!Array.isArray(data.companions)) {
-      errors.push('Invalid companions data');
+      let targetUri = `${dir}${name}.${extension}`;
+      if (new File(targetUri).exists || Array.from(targets.values()).includes(targetUri)) {
+        targetUri = `${dir}${name}_${storage.generateId()}.${extension}`;
+      }
+      targets.set(file.path, targetUri);
     }
 
-    if (!Array.isArray(data.actions)) {
-      errors.push('Invalid actions data');
+    return targets;
+  }
+
+  /**
+   * Copy the archived files of the photos a plan imports to their restore
+   * targets, one entry at a time. Files of skipped records are left alone.
+   */
+  private async unpackBackupFiles(
+    archiveUri: string,
+    restoreTargets: Map<string, string>,
+    plan: ImportPlan
+  ): Promise<{ uris: string[]; errors: string[] }> {
+    const uris: string[] = [];
+    const errors: string[] = [];
+
+    const needed = new Set<string>();
+    plan.actionsToCreate.forEach(action => action.photos.forEach(photo => {
+      needed.add(photo.uri);
+      if (photo.thumbnailUri) needed.add(photo.thumbnailUri);
+    }));
+    if (needed.size === 0) return { uris, errors };
+
+    await Promise.all([PHOTO_DIR, THUMBNAIL_DIR].map(dir =>
+      FileSystem.makeDirectoryAsync(`${FileSystem.documentDirectory}${dir}`, { intermediates: true })
+        .catch(() => undefined) // Directory already exists
+    ));
+
+    const handle = new File(archiveUri).open();
+    try {
+      const reader = new ZipReader(handle);
+
+      for (const [path, targetUri] of restoreTargets) {
+        if (!needed.has(targetUri)) continue;
+
+        const target = new File(targetUri);
+        let created = false;
+        try {
+          target.create();
+          created = true;
+          const targetHandle = target.open();
+          try {
+            reader.copyEntry(path, targetHandle);
+          } finally {
+            targetHandle.close();
+          }
+          uris.push(targetUri);
+        } catch (error) {
+          if (created) target.delete();
+          errors.push(`Failed to restore ${path}`);
+        }
+      }
+    } finally {
+      handle.close();
     }
 
-    if (!data.metadata) {
-      errors.push('Missing metadata');
+    return { uris, errors };
+  }
+
+  /**
+   * Drop photos whose file could not be restored, then recount the visits
+   */
+  private dropUnrestoredPhotos(plan: ImportPlan, restoredUris: Set<string>) {
+    plan.actionsToCreate.forEach(action => {
+      action.photos = action.photos
+        .filter(photo => restoredUris.has(photo.uri))
+        .map(photo => ({
+          ...photo,
+          thumbnailUri: photo.thumbnailUri && restoredUris.has(photo.thumbnailUri) ? photo.thumbnailUri : undefined
+        }));
+    });
+    this.countVisitActions(plan.visitsToCreate, plan.actionsToCreate);
+  }
+
+  /**
+   * Point archived photos at their restore targets, dropping photos whose file is not in the archive
+   */
+  private rewritePhotoUris(photos: Photo[], restoreTargets: Map<string, string>): Photo[] {
+    return photos
+      .filter(photo => restoreTargets.has(photo.uri))
+      .map(photo => ({
+        ...photo,
+        uri: restoreTargets.get(photo.uri)!,
+        thumbnailUri: photo.thumbnailUri ? restoreTargets.get(photo.thumbnailUri) : undefined,
+        takenAt: photo.takenAt ? new Date(photo.takenAt) : undefined
+      }));
+  }
+
+  /**
+   * Run data migrations on an export file written by an older app version
+   */
+  private upgradeExportData(data: any): any {
+    if (!data || !Array.isArray(data.visits) || !Array.isArray(data.companions) || !Array.isArray(data.actions)) {
+      return data; // Left for the validator to report
     }
 
+    const fromVersion = migrationService.parseExportVersion(data.version);
+    const { visits, companions, actions } = migrationService.migrateCollections(
+      { visits: data.visits, companions: data.companions, actions: data.actions },
+      fromVersion
+    );
+
     return {
-      isValid: errors.length === 0,
-      errors
+      ...data,
+      version: migrationService.formatExportVersion(),
+      visits,
+      companions,
+      actions
     };
   }
 
+  /**
+   * Validate backup archive structure (the bundled data is validated separately)
+   */
+  private validateBackupArchive(archive: any): string[] {
+    const errors: string[] = [];
+
+    if (archive.format !== BACKUP_FORMAT) {
+      errors.push('Unknown backup format');
+    }
+
+    if (!archive.manifest) {
+      errors.push('Missing backup manifest');
+    }
+
+    if (!Array.isArray(archive.files)) {
+      errors.push('Invalid backup files');
+    }
+
+    return errors;
+  }
+
+  private getFileExtension(uri: string): string {
+    const match = uri.split('?')[0].match(/\.([a-zA-Z0-9]+)$/);
+    return match ? match[1].toLowerCase() : 'jpg';
+  }
+
   /**
    * Get export preview (data counts)
    */
@@ -0,0 +1,176 @@
+/**
+ * Duplicate Photo Service
+ * Finds the same picture attached to several actions by perceptual hash,
+ * and merges a group into one photo or one shared file
+ */
+
+import { storage, STORAGE_KEYS, StorageTransaction } from './storage';
+import { photoService } from './photoService';
+import { photoStorageService } from './photoStorageService';
+import { Photo, TimelineAction, Visit } from '../types/models';
+import { groupBySimilarHash } from '../utils/perceptualHash';
+
+export interface DuplicatePhotoEntry {
+  action: TimelineAction;
+  visitDate?: Date;
+  photo: Photo;
+}
+
+export interface DuplicatePhotoGroup {
+  id: string;
+  entries: DuplicatePhotoEntry[]; // In timeline order
+}
+
+// 'keep-one'   - remove every other copy from its action
+// 'share-file' - other actions keep their photo (caption, favorite) but use the kept file
+export type DuplicateResolution = 'keep-one' | 'share-file';
+
+class DuplicatePhotoService {
+  private static instance: DuplicatePhotoService;
+
+  private constructor() {}
+
+  static getInstance(): DuplicatePhotoService {
+    if (!DuplicatePhotoService.instance) {
+      DuplicatePhotoService.instance = new DuplicatePhotoService();
+    }
+    return DuplicatePhotoService.instance;
+  }
+
+  /**
+   * Hash photos that have no hash yet (saved before hashing existed, or
+   * edited since), then group the similar ones across all actions
+   */
+  async findDuplicates(onProgress?: (hashed: number, total: number) => void): Promise<DuplicatePhotoGroup[]> {
+    const [visits, actions] = await Promise.all([
+      storage.getAll<Visit>(STORAGE_KEYS.VISITS),
+      storage.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS),
+    ]);
+
+    await this.hashMissingPhotos(actions, onProgress);
+
+    const visitDates = new Map(visits.map(visit => [visit.id, new Date(visit.date)]));
+    const entries: DuplicatePhotoEntry[] = actions
+      .slice()
+      .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime())
+      .flatMap(action => (action.photos || []).map(photo => ({
+        action,
+        visitDate: visitDates.get(action.visitId),
+        photo,
+      })));
+
+    return groupBySimilarHash(entries, entry => entry.photo.perceptualHash)
+      // Copies that already share one file need no review
+      .filter(group => new Set(group.map(entry => entry.photo.uri)).size > 1)
+      .map(group => ({ id: group[0].photo.id, entries: group }));
+  }
+
+  /**
+   * Merge a group into the kept photo. Files no photo uses afterwards are
+   * deleted. Two copies in the same action are always reduced to one.
+   */
+  async resolveGroup(
+    group: DuplicatePhotoGroup,
+    keep: DuplicatePhotoEntry,
+    resolution: DuplicateResolution
+  ): Promise<void> {
+    const others = group.entries.filter(entry => entry.photo.id !== keep.photo.id);
+    const detached = others.flatMap(entry => [
+      entry.photo.uri,
+      entry.photo.thumbnailUri,
+      entry.photo.originalUri,
+      ...(entry.photo.editHistory || []).map(edit => edit.uri),
+    ]).filter((uri): uri is string => !!uri);
+
+    await storage.transaction(async tx => {
+      const visitIds = new Set<string>();
+
+      for (const entry of others) {
+        const action = await tx.get<TimelineAction>(STORAGE_KEYS.ACTIONS, entry.action.id);
+        if (!action) continue;
+
+        const removeCopy = resolution === 'keep-one' || entry.action.id === keep.action.id;
+        const photos = removeCopy
+          ? action.photos.filter(photo => photo.id !== entry.photo.id)
+          : action.photos.map(photo => photo.id === entry.photo.id ? this.shareFile(photo, keep.photo) : photo);
+
+        await tx.update<TimelineAction>(STORAGE_KEYS.ACTIONS, action.id, { photos });
+        if (removeCopy) visitIds.add(action.visitId);
+      }
+
+      await this.recomputePhotoCounts(tx, visitIds);
+    });
+
+    others.forEach(entry => photoService.invalidateThumbnail(entry.photo));
+    await photoStorageService.deleteDetachedFiles(detached);
+  }
+
+  private async hashMissingPhotos(
+    actions: TimelineAction[],
+    onProgress?: (hashed: number, total: number) => void
+  ): Promise<void> {
+    const missing = actions.flatMap(action =>
+      (action.photos || [])
+        .filter(photo => !photo.perceptualHash)
+        .map(photo => ({ action, photo }))
+    );
+    if (missing.length === 0) return;
+
+    const hashes = new Map<string, string>();
+    for (let i = 0; i < missing.length; i++) {
+      onProgress?.(i, missing.length);
+      const hash = await photoService.computePerceptualHash(missing[i].photo.uri);
+      if (hash) {
+        hashes.set(missing[i].photo.id, hash);
+        missing[i].photo.perceptualHash = hash;
+      }
+    }
+    onProgress?.(missing.length, missing.length);
+    if (hashes.size === 0) return;
+
+    // Re-read each action so edits made while hashing are kept
+    const actionIds = new Set(missing.map(item => item.action.id));
+    await storage.transaction(async tx => {
+      for (const actionId of actionIds) {
+        const action = await tx.get<TimelineAction>(STORAGE_KEYS.ACTIONS, actionId);
+        if (!action) continue;
+
+        await tx.update<TimelineAction>(STORAGE_KEYS.ACTIONS, actionId, {
+          photos: action.photos.map(photo =>
+            !photo.perceptualHash && hashes.has(photo.id)
+              ? { ...photo, perceptualHash: hashes.get(photo.id) }
+              : photo
+          ),
+        });
+      }
+    });
+  }
+
+  // The photo keeps its id, caption and favorite; its own edits are dropped
+  private shareFile(photo: Photo, kept: Photo): Photo {
+    return {
+      ...photo,
+      uri: kept.uri,
+      thumbnailUri: kept.thumbnailUri,
+      width: kept.width,
+      height: kept.height,
+      perceptualHash: kept.perceptualHash,
+      originalUri: undefined,
+      editHistory: [],
+    };
+  }
+
+  private async recomputePhotoCounts(tx: StorageTransaction, visitIds: Set<string>) {
+    for (const visitId of visitIds) {
+      const visitActions = await tx.find<TimelineAction>(
+        STORAGE_KEYS.ACTIONS,
+        action => action.visitId === visitId
+      );
+      await tx.update<Visit>(STORAGE_KEYS.VISITS, visitId, {
+        totalPhotoCount: visitActions.reduce((sum, action) => sum + (action.photos?.length || 0), 0),
+      });
+    }
+  }
+}
+
+export const duplicatePhotoService = DuplicatePhotoService.getInstance();
@@ -0,0 +1,368 @@
+/**
+ * Integrity Service
+ * Scans stored data for drift in denormalized fields and broken references,
+ * and repairs the issues the user picks in a single storage transaction
+ */
+
+import * as FileSystem from 'expo-file-system';
+import { storage, STORAGE_KEYS, StorageTransaction } from './storage';
+import { Companion, TimelineAction, Visit } from '../types/models';
+
+export type IntegrityIssueType =
+  | 'orphaned-action'      // action.visitId points to no visit
+  | 'action-count'         // visit.actionCount differs from its actions
+  | 'photo-count'          // visit.totalPhotoCount differs from its actions' photos
+  | 'companion-link'       // visit <-> companion link exists on one side only
+  | 'missing-photo'        // photo uri points to a file that no longer exists
+  | 'action-out-of-range'; // action time is not on its visit's date
+
+export interface IntegrityIssue {
+  id: string; // Stable across scans, used to pick issues to repair
+  type: IntegrityIssueType;
+  recordId: string; // Visit, action or companion the issue is reported on
+  message: string;
+  // Extra ids needed to repair (companion/visit id for links, photo id)
+  relatedId?: string;
+  // Repair deletes or rewrites what the user entered, not just cached fields
+  destructive: boolean;
+  // Photos deleted along with an orphaned action
+  photoCount?: number;
+}
+
+// Types whose repair deletes records or rewrites user-entered values
+const DESTRUCTIVE_TYPES: IntegrityIssueType[] = ['orphaned-action', 'missing-photo', 'action-out-of-range'];
+
+// What repairing a set of issues will change, shown before confirming
+export interface RepairPreview {
+  deletedActions: number;
+  deletedPhotos: number; // Photos on deleted actions
+  removedPhotoRecords: number; // Photo entries whose file is missing
+  movedActions: number;
+  fixedLinks: number;
+  recountedVisits: number;
+}
+
+export interface IntegrityReport {
+  checkedAt: Date;
+  issues: IntegrityIssue[];
+  checked: {
+    visits: number;
+    companions: number;
+    actions: number;
+    photos: number;
+  };
+}
+
+export interface RepairResult {
+  fixed: IntegrityIssue[];
+  // Selected issues found again after repair (should be empty)
+  remaining: IntegrityIssue[];
+}
+
+class IntegrityService {
+  private static instance: IntegrityService;
+
+  private constructor() {}
+
+  static getInstance(): IntegrityService {
+    if (!IntegrityService.instance) {
+      IntegrityService.instance = new IntegrityService();
+    }
+    return IntegrityService.instance;
+  }
+
+  /**
+   * Check all stored data without changing anything
+   */
+  async scan(): Promise<IntegrityReport> {
+    const [visits, companions, actions] = await Promise.all([
+      storage.getAll<Visit>(STORAGE_KEYS.VISITS),
+      storage.getAll<Companion>(STORAGE_KEYS.COMPANIONS),
+      storage.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS),
+    ]);
+
+    const issues: IntegrityIssue[] = [];
+    const addIssue = (issue: Omit<IntegrityIssue, 'id' | 'destructive'>) => {
+      issues.push({
+        ...issue,
+        id: this.issueKey(issue),
+        destructive: DESTRUCTIVE_TYPES.includes(issue.type),
+      });
+    };
+    const visitsById = new Map(visits.map(visit => [visit.id, visit]));
+    const companionsById = new Map(companions.map(companion => [companion.id, companion]));
+
+    // Actions: orphans, dates and photo files
+    const actionsByVisit = new Map<string, TimelineAction[]>();
+    let photoCount = 0;
+    for (const action of actions) {
+      const visit = visitsById.get(action.visitId);
+      if (!visit) {
+        addIssue({
+          type: 'orphaned-action',
+          recordId: action.id,
+          message: `Action ${action.id} belongs to missing visit ${action.visitId}`,
+          photoCount: action.photos?.length || 0,
+        });
+        continue;
+      }
+
+      actionsByVisit.set(visit.id, [...(actionsByVisit.get(visit.id) || []), action]);
+
+      if (!this.isSameDay(action.time, visit.date)) {
+        addIssue({
+          type: 'action-out-of-range',
+          recordId: action.id,
+          message: `Action ${action.id} is dated ${this.formatDay(action.time)} but its visit is on ${this.formatDay(visit.date)}`,
+        });
+      }
+
+      for (const photo of action.photos || []) {
+        photoCount++;
+        if (!(await this.fileExists(photo.uri))) {
+          addIssue({
+            type: 'missing-photo',
+            recordId: action.id,
+            relatedId: photo.id,
+            message: `Photo ${photo.id} on action ${action.id} points to a missing file`,
+          });
+        }
+      }
+    }
+
+    // Visits: cached counts and companion links
+    for (const visit of visits) {
+      const visitActions = actionsByVisit.get(visit.id) || [];
+      const photos = visitActions.reduce((sum, action) => sum + (action.photos?.length || 0), 0);
+
+      if ((visit.actionCount || 0) !== visitActions.length) {
+        addIssue({
+          type: 'action-count',
+          recordId: visit.id,
+          message: `Visit ${visit.id} has actionCount ${visit.actionCount || 0} but ${visitActions.length} actions`,
+        });
+      }
+      if ((visit.totalPhotoCount || 0) !== photos) {
+        addIssue({
+          type: 'photo-count',
+          recordId: visit.id,
+          message: `Visit ${visit.id} has totalPhotoCount ${visit.totalPhotoCount || 0} but ${photos} photos`,
+        });
+      }
+
+      for (const companionId of visit.companionIds || []) {
+        const companion = companionsById.get(companionId);
+        if (!companion || !companion.visitIds.includes(visit.id)) {
+          addIssue({
+            type: 'companion-link',
+            recordId: visit.id,
+            relatedId: companionId,
+            message: companion
+              ? `Companion ${companionId} is on visit ${visit.id} but does not list it`
+              : `Visit ${visit.id} lists missing companion ${companionId}`,
+          });
+        }
+      }
+    }
+
+    for (const companion of companions) {
+      for (const visitId of companion.visitIds || []) {
+        const visit = visitsById.get(visitId);
+        if (!visit || !visit.companionIds.includes(companion.id)) {
+          addIssue({
+            type: 'companion-link',
+            recordId: companion.id,
+            relatedId: visitId,
+            message: visit
+              ? `Companion ${companion.id} lists visit ${visitId} but the visit does not list them`
+              : `Companion ${companion.id} lists missing visit ${visitId}`,
+          });
+        }
+      }
+    }
+
+    return {
+      checkedAt: new Date(),
+      issues,
+      checked: {
+        visits: visits.length,
+        companions: companions.length,
+        actions: actions.length,
+        photos: photoCount,
+      },
+    };
+  }
+
+  /**
+   * Count what repairing the given issues would delete or change
+   */
+  previewRepair(issues: IntegrityIssue[]): RepairPreview {
+    const count = (type: IntegrityIssueType) => issues.filter(issue => issue.type === type).length;
+    const orphans = issues.filter(issue => issue.type === 'orphaned-action');
+
+    return {
+      deletedActions: orphans.length,
+      deletedPhotos: orphans.reduce((sum, issue) => sum + (issue.photoCount || 0), 0),
+      removedPhotoRecords: count('missing-photo'),
+      movedActions: count('action-out-of-range'),
+      fixedLinks: count('companion-link'),
+      recountedVisits: new Set(
+        issues.filter(issue => issue.type === 'action-count' || issue.type === 'photo-count').map(issue => issue.recordId)
+      ).size,
+    };
+  }
+
+  /**
+   * Fix only the selected issues of a fresh scan, in one transaction.
+   * Nothing is changed for issues that are not selected.
+   */
+  async repair(issueIds: string[]): Promise<RepairResult> {
+    const selected = new Set(issueIds);
+    const report = await this.scan();
+    const issues = report.issues.filter(issue => selected.has(issue.id));
+    if (issues.length === 0) {
+      return { fixed: [], remaining: [] };
+    }
+
+    await storage.transaction(async tx => {
+      // Visits whose cached counts change with the selected fixes
+      const recountVisitIds = new Set<string>();
+
+      // Structural fixes first; cached counts are recomputed from the result
+      for (const issue of issues) {
+        switch (issue.type) {
+          case 'orphaned-action':
+            await tx.delete(STORAGE_KEYS.ACTIONS, issue.recordId);
+            break;
+          case 'missing-photo': {
+            const visitId = await this.removePhoto(tx, issue.recordId, issue.relatedId!);
+            if (visitId) recountVisitIds.add(visitId);
+            break;
+          }
+          case 'action-out-of-range':
+            await this.moveActionToVisitDay(tx, issue.recordId);
+            break;
+          case 'companion-link':
+            await this.repairCompanionLink(tx, issue);
+            break;
+          case 'action-count':
+          case 'photo-count':
+            recountVisitIds.add(issue.recordId);
+            break;
+        }
+      }
+
+      await this.recomputeCounts(tx, recountVisitIds);
+    });
+
+    const { issues: found } = await this.scan();
+    const remaining = found.filter(issue => selected.has(issue.id));
+    const remainingIds = new Set(remaining.map(issue => issue.id));
+
+    return {
+      fixed: issues.filter(issue => !remainingIds.has(issue.id)),
+      remaining,
+    };
+  }
+
+  // Returns the visit of the action, whose photo count changes
+  private async removePhoto(tx: StorageTransaction, actionId: string, photoId: string): Promise<string | null> {
+    const action = await tx.get<TimelineAction>(STORAGE_KEYS.ACTIONS, actionId);
+    if (!action) return null;
+
+    await tx.update<TimelineAction>(STORAGE_KEYS.ACTIONS, actionId, {
+      photos: action.photos.filter(photo => photo.id !== photoId),
+    });
+    return action.visitId;
+  }
+
+  // Keep the time of day, move the date onto the visit's date
+  private async moveActionToVisitDay(tx: StorageTransaction, actionId: string) {
+    const action = await tx.get<TimelineAction>(STORAGE_KEYS.ACTIONS, actionId);
+    const visit = action && await tx.get<Visit>(STORAGE_KEYS.VISITS, action.visitId);
+    if (!action || !visit) return;
+
+    const time = new Date(action.time);
+    const visitDate = new Date(visit.date);
+    time.setFullYear(visitDate.getFullYear(), visitDate.getMonth(), visitDate.getDate());
+
+    await tx.update<TimelineAction>(STORAGE_KEYS.ACTIONS, actionId, { time });
+  }
+
+  // Complete the link when both records exist, otherwise drop the dangling id
+  private async repairCompanionLink(tx: StorageTransaction, issue: IntegrityIssue) {
+    const fromVisit = await tx.get<Visit>(STORAGE_KEYS.VISITS, issue.recordId);
+    const visitId = fromVisit ? fromVisit.id : issue.relatedId!;
+    const companionId = fromVisit ? issue.relatedId! : issue.recordId;
+
+    const visit = fromVisit || await tx.get<Visit>(STORAGE_KEYS.VISITS, visitId);
+    const companion = await tx.get<Companion>(STORAGE_KEYS.COMPANIONS, companionId);
+
+    if (visit && companion) {
+      if (!visit.companionIds.includes(companionId)) {
+        await tx.update<Visit>(STORAGE_KEYS.VISITS, visitId, {
+          companionIds: [...visit.companionIds, companionId],
+        });
+      }
+      if (!companion.visitIds.includes(visitId)) {
+        await tx.update<Companion>(STORAGE_KEYS.COMPANIONS, companionId, {
+          visitIds: [...companion.visitIds, visitId],
+        });
+      }
+    } else if (visit) {
+      await tx.update<Visit>(STORAGE_KEYS.VISITS, visitId, {
+        companionIds: visit.companionIds.filter(id => id !== companionId),
+      });
+    } else if (companion) {
+      await tx.update<Companion>(STORAGE_KEYS.COMPANIONS, companionId, {
+        visitIds: companion.visitIds.filter(id => id !== visitId),
+      });
+    }
+  }
+
+  private async recomputeCounts(tx: StorageTransaction, visitIds: Set<string>) {
+    if (visitIds.size === 0) return;
+
+    const [visits, actions] = await Promise.all([
+      tx.getAll<Visit>(STORAGE_KEYS.VISITS),
+      tx.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS),
+    ]);
+
+    for (const visit of visits.filter(item => visitIds.has(item.id))) {
+      const visitActions = actions.filter(action => action.visitId === visit.id);
+      const actionCount = visitActions.length;
+      const totalPhotoCount = visitActions.reduce((sum, action) => sum + (action.photos?.length || 0), 0);
+
+      if ((visit.actionCount || 0) !== actionCount || (visit.totalPhotoCount || 0) !== totalPhotoCount) {
+        await tx.update<Visit>(STORAGE_KEYS.VISITS, visit.id, { actionCount, totalPhotoCount });
+      }
+    }
+  }
+
+  // Only local files can be checked; remote and asset-library URIs are assumed valid
+  private async fileExists(uri: string): Promise<boolean> {
+    if (!uri || !uri.startsWith('file://')) return true;
+
+    try {
+      const info = await FileSystem.getInfoAsync(uri);
+      return info.exists;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private isSameDay(a: Date, b: Date): boolean {
+    return new Date(a).toDateString() === new Date(b).toDateString();
+  }
+
+  private formatDay(date: Date): string {
+    const d = new Date(date);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  }
+
+  private issueKey(issue: Pick<IntegrityIssue, 'type' | 'recordId' | 'relatedId'>): string {
+    return `${issue.type}:${issue.recordId}:${issue.relatedId || ''}`;
+  }
+}
+
+export const integrityService = IntegrityService.getInstance();
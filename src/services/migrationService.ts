@@ -0,0 +1,230 @@
+/**
+ * Migration Service
+ * Runs ordered, idempotent data migrations on stored data at app start
+ * and on older export files during import
+ */
+
+import { storage, STORAGE_KEYS } from './storage';
+import { Companion, LandArea, PassType, SeaArea, TimelineAction, Visit } from '../types/models';
+
+// Raw collections as stored or exported (may predate the current models)
+export interface MigrationCollections {
+  visits: Array<Record<string, any>>;
+  companions: Array<Record<string, any>>;
+  actions: Array<Record<string, any>>;
+}
+
+export interface MigrationStep {
+  version: number;
+  description: string;
+  // Must be idempotent: running a step twice gives the same result
+  migrate: (data: MigrationCollections) => MigrationCollections;
+}
+
+// Area names written by older versions -> current enum values
+const LEGACY_AREA_NAMES: Record<string, string> = {
+  // Enum keys
+  ...Object.fromEntries(Object.entries(LandArea)),
+  ...Object.fromEntries(Object.entries(SeaArea)),
+  // English names
+  'World Bazaar': LandArea.WORLD_BAZAAR,
+  'Adventureland': LandArea.ADVENTURELAND,
+  'Westernland': LandArea.WESTERNLAND,
+  'Critter Country': LandArea.CRITTER_COUNTRY,
+  'Fantasyland': LandArea.FANTASYLAND,
+  'Toontown': LandArea.TOONTOWN,
+  'Tomorrowland': LandArea.TOMORROWLAND,
+  'Mediterranean Harbor': SeaArea.MEDITERRANEAN_HARBOR,
+  'American Waterfront': SeaArea.AMERICAN_WATERFRONT,
+  'Port Discovery': SeaArea.PORT_DISCOVERY,
+  'Lost River Delta': SeaArea.LOST_RIVER_DELTA,
+  'Arabian Coast': SeaArea.ARABIAN_COAST,
+  'Mermaid Lagoon': SeaArea.MERMAID_LAGOON,
+  'Mysterious Island': SeaArea.MYSTERIOUS_ISLAND,
+  'Fantasy Springs': SeaArea.FANTASY_SPRINGS,
+  // Spelling variants
+  'ミッキーのトゥーンタウン': LandArea.TOONTOWN,
+  'ウェスタンランド': LandArea.WESTERNLAND,
+  'メディテレーニアン・ハーバー': SeaArea.MEDITERRANEAN_HARBOR,
+  'アメリカン・ウォーターフロント': SeaArea.AMERICAN_WATERFRONT,
+  'ポート・ディスカバリー': SeaArea.PORT_DISCOVERY,
+  'ロストリバー・デルタ': SeaArea.LOST_RIVER_DELTA,
+  'アラビアン・コースト': SeaArea.ARABIAN_COAST,
+  'マーメイド・ラグーン': SeaArea.MERMAID_LAGOON,
+  'ミステリアス・アイランド': SeaArea.MYSTERIOUS_ISLAND,
+  'ファンタジー・スプリングス': SeaArea.FANTASY_SPRINGS,
+};
+
+// Ordered migration registry. Append new steps with the next version number.
+export const MIGRATIONS: MigrationStep[] = [
+  {
+    version: 2,
+    description: 'Backfill passType = ONE_DAY on visits without a pass type',
+    migrate: data => ({
+      ...data,
+      visits: data.visits.map(visit =>
+        visit.passType ? visit : { ...visit, passType: PassType.ONE_DAY }
+      ),
+    }),
+  },
+  {
+    version: 3,
+    description: 'Normalize legacy area names on actions',
+    migrate: data => ({
+      ...data,
+      actions: data.actions.map(action => {
+        const area = LEGACY_AREA_NAMES[String(action.area || '').trim()];
+        return area && area !== action.area ? { ...action, area } : action;
+      }),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Recompute cached actionCount and totalPhotoCount on visits',
+    migrate: data => {
+      const counts = new Map<string, { actions: number; photos: number }>();
+      data.actions.forEach(action => {
+        const current = counts.get(action.visitId) || { actions: 0, photos: 0 };
+        // Exported actions carry photoCount instead of photos
+        const photos = Array.isArray(action.photos) ? action.photos.length : (action.photoCount || 0);
+        counts.set(action.visitId, { actions: current.actions + 1, photos: current.photos + photos });
+      });
+
+      return {
+        ...data,
+        visits: data.visits.map(visit => ({
+          ...visit,
+          actionCount: counts.get(visit.id)?.actions || 0,
+          totalPhotoCount: counts.get(visit.id)?.photos || 0,
+        })),
+      };
+    },
+  },
+  {
+    version: 5,
+    description: 'Convert purchasedItems from names to { name, price } items',
+    migrate: data => ({
+      ...data,
+      actions: data.actions.map(action => {
+        if (!Array.isArray(action.purchasedItems) ||
+            !action.purchasedItems.some((item: any) => typeof item === 'string')) {
+          return action;
+        }
+        return {
+          ...action,
+          purchasedItems: action.purchasedItems.map((item: any) =>
+            typeof item === 'string' ? { name: item } : item
+          ),
+        };
+      }),
+    }),
+  },
+];
+
+export const CURRENT_DATA_VERSION = MIGRATIONS.reduce((max, step) => Math.max(max, step.version), 1);
+
+class MigrationService {
+  private static instance: MigrationService;
+  private runningMigration: Promise<number> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): MigrationService {
+    if (!MigrationService.instance) {
+      MigrationService.instance = new MigrationService();
+    }
+    return MigrationService.instance;
+  }
+
+  /**
+   * Apply every migration newer than the stored data version.
+   * Returns the number of steps applied.
+   */
+  async runPendingMigrations(): Promise<number> {
+    // Avoid two concurrent runs rewriting the same collections
+    if (!this.runningMigration) {
+      this.runningMigration = this.runMigrations().finally(() => {
+        this.runningMigration = null;
+      });
+    }
+    return this.runningMigration;
+  }
+
+  /**
+   * Upgrade collections from an older data version to the current one
+   */
+  migrateCollections(data: MigrationCollections, fromVersion: number): MigrationCollections {
+    return this.getPendingSteps(fromVersion).reduce((current, step) => step.migrate(current), data);
+  }
+
+  /**
+   * Parse the data version of an export file ('1.0.0' -> 1)
+   */
+  parseExportVersion(version: string | undefined): number {
+    const major = parseInt(String(version || ''), 10);
+    return isNaN(major) || major < 1 ? 1 : major;
+  }
+
+  formatExportVersion(version: number = CURRENT_DATA_VERSION): string {
+    return `${version}.0.0`;
+  }
+
+  private async runMigrations(): Promise<number> {
+    const dataVersion = await storage.getDataVersion();
+    const applied = await storage.getMigrations();
+    const appliedVersions = new Set(applied.map(migration => migration.version));
+    const steps = this.getPendingSteps(dataVersion).filter(step => !appliedVersions.has(step.version));
+
+    if (steps.length === 0) {
+      if (dataVersion < CURRENT_DATA_VERSION) {
+        await storage.setDataVersion(CURRENT_DATA_VERSION);
+      }
+      return 0;
+    }
+
+    const [visits, companions, actions] = await Promise.all([
+      storage.getAll(STORAGE_KEYS.VISITS),
+      storage.getAll(STORAGE_KEYS.COMPANIONS),
+      storage.getAll(STORAGE_KEYS.ACTIONS),
+    ]);
+
+    let data: MigrationCollections = { visits, companions, actions };
+    for (const step of steps) {
+      data = step.migrate(data);
+      console.log(`Applied data migration ${step.version}: ${step.description}`);
+    }
+
+    // Stage every migrated record in one journaled transaction; if the commit
+    // fails it is rolled back and the data version stays where it was
+    await storage.transaction(async tx => {
+      const collections: Array<[string, Array<Record<string, any>>]> = [
+        [STORAGE_KEYS.VISITS, data.visits],
+        [STORAGE_KEYS.COMPANIONS, data.companions],
+        [STORAGE_KEYS.ACTIONS, data.actions],
+      ];
+      collections.forEach(([key, items]) => {
+        items.forEach(item => tx.put(key, item as Visit | Companion | TimelineAction));
+      });
+    });
+
+    // Only record the migrations once the migrated data is committed
+    for (const step of steps) {
+      await storage.addMigration({
+        version: step.version,
+        appliedAt: new Date(),
+        description: step.description,
+      });
+    }
+    await storage.setDataVersion(CURRENT_DATA_VERSION);
+
+    return steps.length;
+  }
+
+  private getPendingSteps(fromVersion: number): MigrationStep[] {
+    return MIGRATIONS
+      .filter(step => step.version > fromVersion)
+      .sort((a, b) => a.version - b.version);
+  }
+}
+
+export const migrationService = MigrationService.getInstance();
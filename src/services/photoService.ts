@@ -1,9 +1,18 @@
-// import * as ImageManipulator from 'expo-image-manipulator'; // Removed dependency
+import { ImageManipulator, ImageManipulatorContext, SaveFormat } from 'expo-image-manipulator';
 import * as FileSystem from 'expo-file-system';
 // import * as MediaLibrary from 'expo-media-library'; // Removed dependency
 import * as ImagePicker from 'expo-image-picker';
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { storage, STORAGE_KEYS } from './storage';
+import { Photo, PhotoEdit, TimelineAction } from '../types/models';
+import { applyColorMatrix, buildColorMatrix, ColorAdjustments, isIdentityMatrix } from '../utils/colorMatrix';
+import { base64ToBytes, bytesToBase64, decodePng, encodePng } from '../utils/png';
+import { ExifData, readExif } from '../utils/exif';
+import { resolveParkArea } from '../utils/areaResolver';
+import { computeDifferenceHash, HASH_WIDTH, HASH_HEIGHT } from '../utils/perceptualHash';
+
+export type { PhotoEdit };
 
 // Photo-related types
 export interface PhotoMetadata {
@@ -34,14 +43,20 @@ export interface PhotoMetadata {
   tags?: string[];
   album?: string;
   isFavorite?: boolean;
+  originalUri?: string;
   editHistory?: PhotoEdit[];
 }
 
-export interface PhotoEdit {
-  id: string;
-  type: 'crop' | 'filter' | 'brightness' | 'contrast' | 'saturation' | 'rotation';
-  params: any;
-  timestamp: Date;
+// Anything that carries an edit history (Photo or PhotoMetadata)
+interface EditablePhoto {
+  id?: string;
+  uri: string;
+  thumbnailUri?: string;
+  width?: number;
+  height?: number;
+  originalUri?: string;
+  editHistory?: PhotoEdit[];
+  perceptualHash?: string;
 }
 
 export interface PhotoFilter {
@@ -59,16 +74,22 @@ export interface PhotoCompressionOptions {
 }
 
 export interface PhotoOrganizationOptions {
-  groupBy?: 'date' | 'location' | 'album' | 'tags';
+  groupBy?: 'date' | 'location' | 'area' | 'album' | 'tags';
   sortBy?: 'date' | 'name' | 'size' | 'favorites';
   sortOrder?: 'asc' | 'desc';
 }
 
 // Cache configuration
-const CACHE_KEY_PREFIX = 'photo_cache_';
-const THUMBNAIL_CACHE_PREFIX = 'thumb_cache_';
-const METADATA_CACHE_PREFIX = 'meta_cache_';
-const CACHE_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const CACHE_KEY_PREFIX = 'photo_cache_'; // Legacy, only cleared
+const THUMBNAIL_CACHE_PREFIX = 'thumb_cache_'; // Legacy, only cleared
+const THUMBNAIL_SIZE = 400; // Shortest side in pixels
+const PREVIEW_PREFIX = 'preview_';
+// Longest side for colour processing; pixels are decoded in JS
+const FILTER_MAX_SIZE = 1920;
+// Hash input is decoded at this multiple of the hash grid and averaged in JS,
+// so the result does not depend on the platform's resize filter
+const HASH_SAMPLE_SCALE = 8;
+const METADATA_CACHE_PREFIX = 'meta_cache_'; // Legacy, only cleared
 
 // Photo filters
 export const PHOTO_FILTERS: PhotoFilter[] = [
@@ -111,11 +132,19 @@ export const PHOTO_FILTERS: PhotoFilter[] = [
 
 class PhotoService {
   private cacheDir: string;
+  // Persistent photos and thumbnails; not purged by the OS
+  private photoDir: string;
   private thumbnailDir: string;
+  // Thumbnails known to exist on disk, by photo id (or uri)
+  private thumbnailCache = new Map<string, string>();
+  private pendingThumbnails = new Map<string, Promise<string>>();
+  // Size of each file manipulate wrote, so edits need not decode it again
+  private writtenSizes = new Map<string, { width: number; height: number }>();
 
   constructor() {
     this.cacheDir = `${FileSystem.cacheDirectory}photos/`;
-    this.thumbnailDir = `${FileSystem.cacheDirectory}thumbnails/`;
+    this.thumbnailDir = `${FileSystem.documentDirectory}thumbnails/`;
+    this.photoDir = `${FileSystem.documentDirectory}photos/`;
     this.initializeDirectories();
   }
 
@@ -123,6 +152,7 @@ class PhotoService {
     try {
       await FileSystem.makeDirectoryAsync(this.cacheDir, { intermediates: true });
       await FileSystem.makeDirectoryAsync(this.thumbnailDir, { intermediates: true });
+      await FileSystem.makeDirectoryAsync(this.photoDir, { intermediates: true });
     } catch (error) {
       console.error('Failed to initialize photo directories:', error);
     }
@@ -139,134 +169,522 @@ class PhotoService {
     } = options;
 
     try {
-      // Note: Image compression is not available without expo-image-manipulator
-      // Returning original URI for now
-      console.log('Compression would be applied with options:', { quality, maxWidth, maxHeight, format, keepAspectRatio });
-      return uri;
+      const { width, height } = await this.getImageSize(uri);
+      const scale = Math.min(maxWidth / width, maxHeight / height, 1);
+
+      return await this.manipulate(uri, context => {
+        if (scale < 1) {
+          context.resize(keepAspectRatio
+            ? { width: Math.round(width * scale) }
+            : { width: Math.min(width, maxWidth), height: Math.min(height, maxHeight) });
+        }
+      }, { quality, format });
     } catch (error) {
       console.error('Photo compression failed:', error);
       throw error;
     }
   }
 
-  // Generate thumbnail
-  async generateThumbnail(uri: string, size: number = 200): Promise<string> {
-    const cacheKey = `${THUMBNAIL_CACHE_PREFIX}${size}_${this.getFileNameFromUri(uri)}`;
-    
-    // Check cache first
-    const cachedThumbnail = await this.getCachedItem(cacheKey);
-    if (cachedThumbnail) {
-      return cachedThumbnail;
-    }
+  /**
+   * Write a thumbnail to the thumbnail directory, named after the photo id so
+   * regenerating it keeps the stored thumbnailUri valid.
+   * Falls back to the original uri for remote photos or on failure.
+   */
+  async generateThumbnail(uri: string, size: number = THUMBNAIL_SIZE, photoId?: string): Promise<string> {
+    if (!uri.startsWith('file://')) return uri;
 
     try {
-      // Note: Thumbnail generation is not available without expo-image-manipulator
-      // Returning original URI for now
-      console.log('Thumbnail would be generated with size:', size);
-      
-      // Cache the original URI
-      await this.setCachedItem(cacheKey, uri);
-      
-      return uri;
+      const { width, height } = await this.getImageSize(uri);
+      const scale = size / Math.min(width, height);
+      const name = photoId || this.getFileNameFromUri(uri).replace(/\.[^.]+$/, '');
+
+      return await this.manipulate(uri, context => {
+        if (scale < 1) {
+          context.resize({ width: Math.round(width * scale), height: Math.round(height * scale) });
+        }
+      }, { quality: 0.7, target: `${this.thumbnailDir}${name}.jpg` });
     } catch (error) {
       console.error('Thumbnail generation failed:', error);
       return uri; // Return original URI as fallback
     }
   }
 
-  // Extract EXIF data
-  async extractExifData(uri: string): Promise<PhotoMetadata['exif'] | undefined> {
+  /**
+   * Build a Photo for a newly attached file: capture time and GPS from EXIF,
+   * a compressed copy in the photo directory, its size and thumbnail
+   */
+  async createPhoto(sourceUri: string, id: string = this.generatePhotoId()): Promise<Photo> {
+    // Read EXIF first; compression re-encodes the image without it
+    const exif = await this.readExifData(sourceUri);
+
+    let uri = sourceUri;
+    if (!sourceUri.startsWith(this.photoDir)) {
+      try {
+        uri = await this.compressPhoto(sourceUri);
+      } catch (error) {
+        // Keep the picked file rather than losing the photo
+      }
+    }
+
+    const photo: Photo = { id, uri };
+    if (exif?.takenAt) photo.takenAt = exif.takenAt;
+    if (exif?.gps) photo.location = exif.gps;
+
     try {
-      // Note: Expo doesn't provide direct EXIF reading, so we'll use ImagePicker's exif option
-      // This is a placeholder for demonstration
-      // In a real implementation, you might use a native module or server-side processing
-      return {
-        make: 'Unknown',
-        model: 'Unknown',
-        iso: undefined,
-        aperture: undefined,
-        exposureTime: undefined,
-        focalLength: undefined,
-        flash: false,
-        orientation: 1,
-      };
+      const { width, height } = await this.getImageSize(uri);
+      photo.width = width;
+      photo.height = height;
+    } catch (error) {
+      console.error('Failed to read photo size:', error);
+    }
+
+    const perceptualHash = await this.computePerceptualHash(uri);
+    if (perceptualHash) photo.perceptualHash = perceptualHash;
+
+    const thumbnailUri = await this.generateThumbnail(uri, THUMBNAIL_SIZE, id);
+    if (thumbnailUri !== uri) {
+      photo.thumbnailUri = thumbnailUri;
+      this.thumbnailCache.set(id, thumbnailUri);
+    }
+    return photo;
+  }
+
+  // Thumbnail already verified in this session, if any
+  getCachedThumbnail(photo: { id?: string; uri: string }): string | undefined {
+    return this.thumbnailCache.get(photo.id || photo.uri);
+  }
+
+  /**
+   * Uri to show in grids and lists. Regenerates the thumbnail when it is
+   * missing (older photos, or files lost on restore); falls back to the photo.
+   */
+  async getThumbnail(photo: { id?: string; uri: string; thumbnailUri?: string }): Promise<string> {
+    const key = photo.id || photo.uri;
+    const cached = this.thumbnailCache.get(key);
+    if (cached) return cached;
+
+    let pending = this.pendingThumbnails.get(key);
+    if (!pending) {
+      pending = this.resolveThumbnail(photo).finally(() => {
+        this.pendingThumbnails.delete(key);
+      });
+      this.pendingThumbnails.set(key, pending);
+    }
+    return pending;
+  }
+
+  // Forget a thumbnail that failed to load so the next request regenerates it
+  invalidateThumbnail(photo: { id?: string; uri: string }): void {
+    this.thumbnailCache.delete(photo.id || photo.uri);
+  }
+
+  private async resolveThumbnail(photo: { id?: string; uri: string; thumbnailUri?: string }): Promise<string> {
+    const key = photo.id || photo.uri;
+
+    if (photo.thumbnailUri && photo.thumbnailUri !== photo.uri) {
+      try {
+        const info = await FileSystem.getInfoAsync(photo.thumbnailUri);
+        if (info.exists) {
+          this.thumbnailCache.set(key, photo.thumbnailUri);
+          return photo.thumbnailUri;
+        }
+      } catch (error) {
+        // Regenerate below
+      }
+    }
+
+    const thumbnailUri = await this.generateThumbnail(photo.uri, THUMBNAIL_SIZE, photo.id);
+    if (thumbnailUri !== photo.uri) {
+      this.thumbnailCache.set(key, thumbnailUri);
+    }
+    return thumbnailUri;
+  }
+
+  // Parse EXIF from a local JPEG or HEIC file; undefined when absent or unreadable
+  async readExifData(uri: string): Promise<ExifData | undefined> {
+    if (!uri.startsWith('file://')) return undefined;
+
+    try {
+      return await readExif(async (position, length) => {
+        const data = await FileSystem.readAsStringAsync(uri, {
+          encoding: FileSystem.EncodingType.Base64,
+          position,
+          length,
+        });
+        return base64ToBytes(data);
+      });
     } catch (error) {
       console.error('EXIF extraction failed:', error);
       return undefined;
     }
   }
 
+  // Extract EXIF data
+  async extractExifData(uri: string): Promise<PhotoMetadata['exif'] | undefined> {
+    const exif = await this.readExifData(uri);
+    if (!exif) return undefined;
+
+    const { takenAt, gps, ...camera } = exif;
+    return camera;
+  }
+
   // Extract location from photo
   async extractLocation(uri: string): Promise<PhotoMetadata['location'] | undefined> {
+    const exif = await this.readExifData(uri);
+    return exif?.gps;
+  }
+
+  /**
+   * Full metadata for a stored photo. EXIF is read from the unedited file,
+   * since edits and compression drop it.
+   */
+  async getPhotoMetadata(photo: Photo): Promise<PhotoMetadata> {
+    const [info, exif] = await Promise.all([
+      this.getPhotoInfo(photo.uri),
+      this.readExifData(photo.originalUri || photo.uri),
+    ]);
+    const { takenAt, gps, ...camera } = exif || {};
+
+    return {
+      id: photo.id,
+      uri: photo.uri,
+      thumbnailUri: photo.thumbnailUri,
+      width: photo.width || info.width,
+      height: photo.height || info.height,
+      takenAt: photo.takenAt ? new Date(photo.takenAt) : takenAt || new Date(),
+      location: photo.location || gps,
+      exif: exif ? camera : undefined,
+      size: info.size,
+      mimeType: this.getMimeType(photo.uri),
+      caption: photo.caption,
+      originalUri: photo.originalUri,
+      editHistory: photo.editHistory,
+    };
+  }
+
+  // Apply photo filter
+  async applyFilter(uri: string, filter: PhotoFilter): Promise<string> {
+    return this.applyColorAdjustments(uri, {}, filter);
+  }
+
+  // Adjust photo brightness (-1 to 1)
+  async adjustBrightness(uri: string, brightness: number): Promise<string> {
+    return this.applyColorAdjustments(uri, { brightness });
+  }
+
+  // Small, temporary version of applyColorAdjustments for the editor preview
+  async previewColorAdjustments(uri: string, adjustments: ColorAdjustments, filter?: PhotoFilter): Promise<string> {
+    return this.applyColorAdjustments(uri, adjustments, filter, {
+      maxSize: 720,
+      target: `${this.cacheDir}${PREVIEW_PREFIX}${this.generatePhotoId()}.jpg`,
+    });
+  }
+
+  // Delete every preview written by previewColorAdjustments
+  async clearPreviews(): Promise<void> {
     try {
-      // This is a placeholder - actual implementation would require native modules
-      // or server-side processing to extract GPS EXIF data
-      return undefined;
+      const names = await FileSystem.readDirectoryAsync(this.cacheDir);
+      await Promise.all(names
+        .filter(name => name.startsWith(PREVIEW_PREFIX))
+        .map(name => FileSystem.deleteAsync(`${this.cacheDir}${name}`, { idempotent: true })));
     } catch (error) {
-      console.error('Location extraction failed:', error);
-      return undefined;
+      console.error('Failed to delete edit previews:', error);
     }
   }
 
-  // Apply photo filter
-  async applyFilter(uri: string, filter: PhotoFilter): Promise<string> {
-    if (filter.id === 'original') {
+  /**
+   * Apply a filter followed by brightness/contrast/saturation in one pass.
+   * Returns the input uri when nothing would change.
+   */
+  async applyColorAdjustments(
+    uri: string,
+    adjustments: ColorAdjustments,
+    filter?: PhotoFilter,
+    options: { maxSize?: number; target?: string } = {}
+  ): Promise<string> {
+    const matrix = buildColorMatrix(adjustments, filter?.matrix);
+    if (isIdentityMatrix(matrix)) {
       return uri;
     }
 
+    const { maxSize = FILTER_MAX_SIZE } = options;
+    const pngUri = `${this.cacheDir}${this.generatePhotoId()}.png`;
+    let decodedUri: string | undefined;
+
     try {
-      // Note: Filter application is not available without expo-image-manipulator
-      // This would require a custom native module or server-side processing
-      console.log('Filter would be applied:', filter.name);
-      return uri;
+      // Decode through PNG, the one format whose pixels can be read in JS
+      const context = ImageManipulator.manipulate(uri);
+      const { width, height } = await this.getImageSize(uri);
+      const scale = maxSize / Math.max(width, height);
+      if (scale < 1) {
+        context.resize({ width: Math.round(width * scale), height: Math.round(height * scale) });
+      }
+      const image = await context.renderAsync();
+      const decoded = await image.saveAsync({ format: SaveFormat.PNG, base64: true });
+      decodedUri = decoded.uri;
+
+      const pixels = applyColorMatrix(decodePng(base64ToBytes(decoded.base64 || '')), matrix);
+
+      await FileSystem.makeDirectoryAsync(this.cacheDir, { intermediates: true });
+      await FileSystem.writeAsStringAsync(pngUri, bytesToBase64(encodePng(pixels)), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+
+      // Re-encode as JPEG; the intermediate PNG is uncompressed
+      return await this.manipulate(pngUri, () => {}, { target: options.target });
     } catch (error) {
-      console.error('Filter application failed:', error);
+      console.error('Colour adjustment failed:', error);
       throw error;
+    } finally {
+      await FileSystem.deleteAsync(pngUri, { idempotent: true }).catch(() => undefined);
+      if (decodedUri) {
+        await FileSystem.deleteAsync(decodedUri, { idempotent: true }).catch(() => undefined);
+      }
     }
   }
 
-  // Adjust photo brightness
-  async adjustBrightness(uri: string, brightness: number): Promise<string> {
+  /**
+   * Difference hash of a photo for duplicate detection, or undefined if the
+   * file cannot be decoded
+   */
+  async computePerceptualHash(uri: string): Promise<string | undefined> {
+    let decodedUri: string | undefined;
+
     try {
-      // Brightness should be between -1 and 1
-      const adjustedBrightness = Math.max(-1, Math.min(1, brightness));
-      
-      // Note: Expo Image Manipulator doesn't support brightness adjustment directly
-      // This would require a custom implementation
-      return uri;
+      const image = await ImageManipulator.manipulate(uri)
+        .resize({ width: HASH_WIDTH * HASH_SAMPLE_SCALE, height: HASH_HEIGHT * HASH_SAMPLE_SCALE })
+        .renderAsync();
+      const decoded = await image.saveAsync({ format: SaveFormat.PNG, base64: true });
+      decodedUri = decoded.uri;
+
+      return computeDifferenceHash(decodePng(base64ToBytes(decoded.base64 || '')));
     } catch (error) {
-      console.error('Brightness adjustment failed:', error);
-      throw error;
+      console.error('Failed to hash photo:', error);
+      return undefined;
+    } finally {
+      if (decodedUri) {
+        await FileSystem.deleteAsync(decodedUri, { idempotent: true }).catch(() => undefined);
+      }
     }
   }
 
-  // Crop photo
+  // Crop photo (coordinates in source pixels, clamped to the image)
   async cropPhoto(
     uri: string,
     cropData: { originX: number; originY: number; width: number; height: number }
   ): Promise<string> {
     try {
-      // Note: Cropping is not available without expo-image-manipulator
-      console.log('Crop would be applied with data:', cropData);
-      return uri;
+      const { width, height } = await this.getImageSize(uri);
+      const originX = Math.max(0, Math.min(Math.round(cropData.originX), width - 1));
+      const originY = Math.max(0, Math.min(Math.round(cropData.originY), height - 1));
+
+      return await this.manipulate(uri, context => {
+        context.crop({
+          originX,
+          originY,
+          width: Math.max(1, Math.min(Math.round(cropData.width), width - originX)),
+          height: Math.max(1, Math.min(Math.round(cropData.height), height - originY)),
+        });
+      });
     } catch (error) {
       console.error('Photo crop failed:', error);
       throw error;
     }
   }
 
-  // Rotate photo
+  // Largest centred crop with the given aspect ratio (width / height)
+  async cropToAspectRatio(uri: string, aspectRatio: number): Promise<string> {
+    const { width, height } = await this.getImageSize(uri);
+    const cropWidth = Math.min(width, height * aspectRatio);
+    const cropHeight = cropWidth / aspectRatio;
+
+    return this.cropPhoto(uri, {
+      originX: (width - cropWidth) / 2,
+      originY: (height - cropHeight) / 2,
+      width: cropWidth,
+      height: cropHeight,
+    });
+  }
+
+  // Rotate photo (clockwise)
   async rotatePhoto(uri: string, degrees: number): Promise<string> {
     try {
-      // Note: Rotation is not available without expo-image-manipulator
-      console.log('Rotation would be applied with degrees:', degrees);
-      return uri;
+      if (degrees % 360 === 0) return uri;
+      return await this.manipulate(uri, context => {
+        context.rotate(degrees);
+      });
     } catch (error) {
       console.error('Photo rotation failed:', error);
       throw error;
     }
   }
 
+  // Edit history
+  /**
+   * Point the photo at an edited file of the given size and record the edit.
+   * The first edit remembers the unedited file as originalUri; the
+   * perceptual hash no longer matches the file and is recomputed later.
+   */
+  recordEdit<T extends EditablePhoto>(
+    photo: T,
+    type: PhotoEdit['type'],
+    params: any,
+    editedUri: string,
+    size: { width: number; height: number }
+  ): T {
+    return {
+      ...photo,
+      uri: editedUri,
+      width: size.width,
+      height: size.height,
+      originalUri: photo.originalUri || photo.uri,
+      perceptualHash: undefined,
+      editHistory: [
+        ...(photo.editHistory || []),
+        {
+          id: this.generatePhotoId(),
+          type,
+          params,
+          timestamp: new Date(),
+          uri: editedUri,
+          previousWidth: photo.width,
+          previousHeight: photo.height,
+        },
+      ],
+    };
+  }
+
+  // Step back one edit and delete the file it produced
+  async undoEdit<T extends EditablePhoto>(photo: T): Promise<T> {
+    const history = photo.editHistory || [];
+    if (history.length === 0 || !photo.originalUri) return photo;
+
+    const undone = history[history.length - 1];
+    const remaining = history.slice(0, -1);
+    const previousUri = [...remaining].reverse().find(edit => edit.uri)?.uri || photo.originalUri;
+
+    if (undone.uri) {
+      await this.deleteEditedFile(undone.uri, photo.originalUri, photo.id);
+    }
+
+    return {
+      ...photo,
+      ...this.getSizeBefore(undone),
+      uri: previousUri,
+      originalUri: remaining.length > 0 ? photo.originalUri : undefined,
+      editHistory: remaining,
+      perceptualHash: undefined,
+    };
+  }
+
+  // Drop every edit and go back to the unedited file
+  async revertToOriginal<T extends EditablePhoto>(photo: T): Promise<T> {
+    if (!photo.originalUri) return photo;
+
+    for (const edit of photo.editHistory || []) {
+      if (edit.uri) {
+        await this.deleteEditedFile(edit.uri, photo.originalUri, photo.id);
+      }
+    }
+
+    const [firstEdit] = photo.editHistory || [];
+    return {
+      ...photo,
+      ...(firstEdit ? this.getSizeBefore(firstEdit) : {}),
+      uri: photo.originalUri,
+      originalUri: undefined,
+      editHistory: [],
+      perceptualHash: undefined,
+    };
+  }
+
+  // Size to restore when an edit is undone; empty for edits recorded without it
+  private getSizeBefore(edit: PhotoEdit): { width?: number; height?: number } {
+    return edit.previousWidth && edit.previousHeight
+      ? { width: edit.previousWidth, height: edit.previousHeight }
+      : {};
+  }
+
+  /**
+   * Delete a file an edit produced. Only files this service wrote are deleted:
+   * never the original, and never a file another photo record still refers to
+   * (duplicate resolution can leave several records sharing one file).
+   * References held by photoId itself are ignored; it is dropping the file.
+   */
+  async deleteEditedFile(uri: string, originalUri?: string, photoId?: string): Promise<void> {
+    if (uri === originalUri || !uri.startsWith(this.photoDir)) return;
+    if (await this.isFileShared(uri, photoId)) return;
+
+    try {
+      this.writtenSizes.delete(uri);
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    } catch (error) {
+      console.error('Failed to delete edited photo:', error);
+    }
+  }
+
+  /**
+   * Replace the thumbnail of a photo whose file an edit changed. The new
+   * thumbnail is named after the edited file, so its uri changes and views
+   * showing the old one reload; the old thumbnail is deleted.
+   */
+  async refreshThumbnail<T extends EditablePhoto>(photo: T): Promise<T> {
+    this.invalidateThumbnail(photo);
+    const previous = photo.thumbnailUri;
+    const generated = await this.generateThumbnail(photo.uri, THUMBNAIL_SIZE);
+    const thumbnailUri = generated !== photo.uri ? generated : undefined;
+
+    if (previous && previous !== thumbnailUri && previous.startsWith(this.thumbnailDir) &&
+        !(await this.isFileShared(previous, photo.id))) {
+      try {
+        await FileSystem.deleteAsync(previous, { idempotent: true });
+      } catch (error) {
+        console.error('Failed to delete old thumbnail:', error);
+      }
+    }
+
+    if (thumbnailUri) {
+      this.thumbnailCache.set(photo.id || photo.uri, thumbnailUri);
+    }
+    return { ...photo, thumbnailUri };
+  }
+
+  // Whether a photo record other than photoId refers to the file
+  private async isFileShared(uri: string, photoId?: string): Promise<boolean> {
+    const actions = await storage.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS);
+    return actions.some(action => (action.photos || []).some(photo =>
+      photo.id !== photoId && this.getFileUris(photo).includes(uri)
+    ));
+  }
+
+  // Every file a photo record refers to: current, thumbnail, original and edits
+  getFileUris(photo: Photo): string[] {
+    return [
+      photo.uri,
+      photo.thumbnailUri,
+      photo.originalUri,
+      ...(photo.editHistory || []).map(edit => edit.uri),
+    ].filter((uri): uri is string => !!uri);
+  }
+
+  // Remove the files written by createPhoto for a photo that was never saved
+  async deletePhotoFiles(photo: Photo): Promise<void> {
+    this.invalidateThumbnail(photo);
+
+    const uris = [photo.uri, photo.thumbnailUri].filter((uri): uri is string =>
+      !!uri && (uri.startsWith(this.photoDir) || uri.startsWith(this.thumbnailDir))
+    );
+
+    await Promise.all(uris.map(async uri => {
+      try {
+        this.writtenSizes.delete(uri);
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+      } catch (error) {
+        console.error('Failed to delete photo file:', error);
+      }
+    }));
+  }
+
   // Batch process photos
   async batchProcess(
     uris: string[],
@@ -337,6 +755,9 @@ class PhotoService {
             ? `${photo.location.latitude.toFixed(2)},${photo.location.longitude.toFixed(2)}`
             : 'No Location';
           break;
+        case 'area':
+          key = (photo.location && resolveParkArea(photo.location)?.area) || 'Unknown Area';
+          break;
         case 'album':
           key = photo.album || 'Uncategorized';
           break;
@@ -390,37 +811,6 @@ class PhotoService {
   }
 
   // Cache management
-  private async getCachedItem(key: string): Promise<string | null> {
-    try {
-      const cached = await AsyncStorage.getItem(key);
-      if (cached) {
-        const { uri, timestamp } = JSON.parse(cached);
-        if (Date.now() - timestamp < CACHE_EXPIRY_MS) {
-          return uri;
-        }
-        // Remove expired cache
-        await AsyncStorage.removeItem(key);
-      }
-    } catch (error) {
-      console.error('Cache retrieval failed:', error);
-    }
-    return null;
-  }
-
-  private async setCachedItem(key: string, uri: string): Promise<void> {
-    try {
-      await AsyncStorage.setItem(
-        key,
-        JSON.stringify({
-          uri,
-          timestamp: Date.now(),
-        })
-      );
-    } catch (error) {
-      console.error('Cache storage failed:', error);
-    }
-  }
-
   async clearCache(): Promise<void> {
     try {
       // Clear AsyncStorage cache
@@ -432,9 +822,8 @@ class PhotoService {
       );
       await AsyncStorage.multiRemove(cacheKeys);
       
-      // Clear file system cache
+      // Clear file system cache (thumbnails are persistent and kept)
       await FileSystem.deleteAsync(this.cacheDir, { idempotent: true });
-      await FileSystem.deleteAsync(this.thumbnailDir, { idempotent: true });
       
       // Recreate directories
       await this.initializeDirectories();
@@ -446,28 +835,66 @@ class PhotoService {
   async getCacheSize(): Promise<number> {
     try {
       const cacheInfo = await FileSystem.getInfoAsync(this.cacheDir);
-      const thumbnailInfo = await FileSystem.getInfoAsync(this.thumbnailDir);
-      
-      let totalSize = 0;
-      if (cacheInfo.exists && cacheInfo.size) {
-        totalSize += cacheInfo.size;
-      }
-      if (thumbnailInfo.exists && thumbnailInfo.size) {
-        totalSize += thumbnailInfo.size;
-      }
-      
-      return totalSize;
+      return cacheInfo.exists && cacheInfo.size ? cacheInfo.size : 0;
     } catch (error) {
       console.error('Failed to get cache size:', error);
       return 0;
     }
   }
 
+  // Run a manipulation and save the result as a new file in the photo directory
+  private async manipulate(
+    uri: string,
+    apply: (context: ImageManipulatorContext) => void,
+    options: { quality?: number; format?: 'jpeg' | 'png'; target?: string } = {}
+  ): Promise<string> {
+    const { quality = 0.9, format = 'jpeg' } = options;
+
+    const context = ImageManipulator.manipulate(uri);
+    apply(context);
+    const image = await context.renderAsync();
+    const result = await image.saveAsync({
+      compress: quality,
+      format: format === 'png' ? SaveFormat.PNG : SaveFormat.JPEG,
+    });
+
+    // The manipulator writes to the cache directory, which the OS may purge
+    const target = options.target || `${this.photoDir}${this.generatePhotoId()}.${format === 'png' ? 'png' : 'jpg'}`;
+    await FileSystem.makeDirectoryAsync(target.slice(0, target.lastIndexOf('/') + 1), { intermediates: true });
+    await FileSystem.deleteAsync(target, { idempotent: true });
+    await FileSystem.moveAsync({ from: result.uri, to: target });
+    this.writtenSizes.set(target, { width: result.width, height: result.height });
+    return target;
+  }
+
+  async getImageSize(uri: string): Promise<{ width: number; height: number }> {
+    const written = this.writtenSizes.get(uri);
+    if (written) return { ...written };
+
+    const image = await ImageManipulator.manipulate(uri).renderAsync();
+    return { width: image.width, height: image.height };
+  }
+
   // Helper methods
   private getFileNameFromUri(uri: string): string {
     return uri.split('/').pop() || `photo_${Date.now()}`;
   }
 
+  private getMimeType(uri: string): string {
+    const extension = uri.split('?')[0].split('.').pop()?.toLowerCase();
+    switch (extension) {
+      case 'png':
+        return 'image/png';
+      case 'heic':
+      case 'heif':
+        return 'image/heic';
+      case 'webp':
+        return 'image/webp';
+      default:
+        return 'image/jpeg';
+    }
+  }
+
   generatePhotoId(): string {
     return `photo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -475,12 +902,11 @@ class PhotoService {
   async getPhotoInfo(uri: string): Promise<{ width: number; height: number; size: number }> {
     try {
       const fileInfo = await FileSystem.getInfoAsync(uri);
-      
-      // Note: Getting image dimensions would require additional implementation
-      // Using placeholder values for demonstration
+      const { width, height } = await this.getImageSize(uri);
+
       return {
-        width: 1920,
-        height: 1080,
+        width,
+        height,
         size: fileInfo.exists && fileInfo.size ? fileInfo.size : 0,
       };
     } catch (error) {
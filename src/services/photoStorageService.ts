@@ -0,0 +1,242 @@
+/**
+ * Photo Storage Service
+ * Measures the photo and thumbnail files kept on the device and removes the
+ * ones no action refers to any more (left behind by deleted actions/photos)
+ */
+
+import * as FileSystem from 'expo-file-system';
+import { storage, STORAGE_KEYS } from './storage';
+import { photoService } from './photoService';
+import { TimelineAction, Visit, ParkType } from '../types/models';
+
+// Directories written by photoService, relative to the document directory
+const PHOTO_DIR = 'photos/';
+const THUMBNAIL_DIR = 'thumbnails/';
+
+// Files this recent may belong to an import or edit that is not saved yet
+const ORPHAN_GRACE_PERIOD_MS = 10 * 60 * 1000;
+
+export interface StoredPhotoFile {
+  uri: string;
+  kind: 'photo' | 'thumbnail';
+  size: number;
+  modifiedAt?: Date;
+}
+
+export interface VisitStorageUsage {
+  visitId: string;
+  date: Date;
+  parkType: ParkType;
+  photoCount: number;
+  size: number; // Photos, edit originals and thumbnails
+}
+
+export interface StorageUsageReport {
+  scannedAt: Date;
+  photoSize: number;
+  thumbnailSize: number;
+  cacheSize: number;
+  totalSize: number;
+  visits: VisitStorageUsage[]; // Largest first
+  orphans: StoredPhotoFile[];
+  orphanSize: number;
+}
+
+export interface OrphanCleanupResult {
+  deleted: number;
+  freedSize: number;
+  // Orphans kept because they became referenced or are too recent
+  skipped: number;
+}
+
+class PhotoStorageService {
+  private static instance: PhotoStorageService;
+
+  private constructor() {}
+
+  static getInstance(): PhotoStorageService {
+    if (!PhotoStorageService.instance) {
+      PhotoStorageService.instance = new PhotoStorageService();
+    }
+    return PhotoStorageService.instance;
+  }
+
+  /**
+   * Measure every stored photo file and find the unreferenced ones
+   */
+  async scan(): Promise<StorageUsageReport> {
+    const [files, visits, actions, cacheSize] = await Promise.all([
+      this.listFiles(),
+      storage.getAll<Visit>(STORAGE_KEYS.VISITS),
+      storage.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS),
+      photoService.getCacheSize(),
+    ]);
+
+    const sizes = new Map(files.map(file => [file.uri, file.size]));
+    const referenced = this.collectReferencedUris(actions);
+
+    // Per visit, counting a file shared by several photos once
+    const visitFiles = new Map<string, Set<string>>();
+    const visitPhotoCounts = new Map<string, number>();
+    for (const action of actions) {
+      const uris = visitFiles.get(action.visitId) || new Set<string>();
+      for (const photo of action.photos || []) {
+        photoService.getFileUris(photo).forEach(uri => uris.add(uri));
+      }
+      visitFiles.set(action.visitId, uris);
+      visitPhotoCounts.set(action.visitId, (visitPhotoCounts.get(action.visitId) || 0) + (action.photos?.length || 0));
+    }
+
+    const visitUsage: VisitStorageUsage[] = visits
+      .map(visit => ({
+        visitId: visit.id,
+        date: new Date(visit.date),
+        parkType: visit.parkType,
+        photoCount: visitPhotoCounts.get(visit.id) || 0,
+        size: Array.from(visitFiles.get(visit.id) || []).reduce((sum, uri) => sum + (sizes.get(uri) || 0), 0),
+      }))
+      .filter(usage => usage.size > 0)
+      .sort((a, b) => b.size - a.size);
+
+    const orphans = files.filter(file => !referenced.has(file.uri));
+    const photoSize = this.sumSize(files.filter(file => file.kind === 'photo'));
+    const thumbnailSize = this.sumSize(files.filter(file => file.kind === 'thumbnail'));
+
+    return {
+      scannedAt: new Date(),
+      photoSize,
+      thumbnailSize,
+      cacheSize,
+      totalSize: photoSize + thumbnailSize + cacheSize,
+      visits: visitUsage,
+      orphans,
+      orphanSize: this.sumSize(orphans),
+    };
+  }
+
+  /**
+   * Delete unreferenced files. References are read again right before
+   * deleting, so a file saved since the scan is never removed.
+   */
+  async deleteOrphans(candidates?: StoredPhotoFile[]): Promise<OrphanCleanupResult> {
+    const files = candidates || (await this.scan()).orphans;
+    const actions = await storage.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS);
+    const referenced = this.collectReferencedUris(actions);
+    const cutoff = Date.now() - ORPHAN_GRACE_PERIOD_MS;
+
+    const result: OrphanCleanupResult = { deleted: 0, freedSize: 0, skipped: 0 };
+    for (const file of files) {
+      const isRecent = !file.modifiedAt || file.modifiedAt.getTime() > cutoff;
+      if (referenced.has(file.uri) || isRecent || !this.isManagedFile(file.uri)) {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        await FileSystem.deleteAsync(file.uri, { idempotent: true });
+        result.deleted++;
+        result.freedSize += file.size;
+      } catch (error) {
+        console.error('Failed to delete orphaned photo file:', error);
+        result.skipped++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete files a photo just stopped using (e.g. a merged duplicate),
+   * unless another photo still refers to them
+   */
+  async deleteDetachedFiles(uris: string[]): Promise<number> {
+    const actions = await storage.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS);
+    const referenced = this.collectReferencedUris(actions);
+
+    let deleted = 0;
+    for (const uri of new Set(uris)) {
+      if (referenced.has(uri) || !this.isManagedFile(uri)) continue;
+      try {
+        await FileSystem.deleteAsync(uri, { idempotent: true });
+        deleted++;
+      } catch (error) {
+        console.error('Failed to delete detached photo file:', error);
+      }
+    }
+    return deleted;
+  }
+
+  // Total size of stored photo files and the cache, for a quick summary
+  async getTotalSize(): Promise<number> {
+    const [files, cacheSize] = await Promise.all([this.listFiles(), photoService.getCacheSize()]);
+    return this.sumSize(files) + cacheSize;
+  }
+
+  formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  }
+
+  private async listFiles(): Promise<StoredPhotoFile[]> {
+    const [photos, thumbnails] = await Promise.all([
+      this.listDirectory(PHOTO_DIR, 'photo'),
+      this.listDirectory(THUMBNAIL_DIR, 'thumbnail'),
+    ]);
+    return [...photos, ...thumbnails];
+  }
+
+  private async listDirectory(dir: string, kind: StoredPhotoFile['kind']): Promise<StoredPhotoFile[]> {
+    const dirUri = `${FileSystem.documentDirectory}${dir}`;
+
+    let names: string[];
+    try {
+      const info = await FileSystem.getInfoAsync(dirUri);
+      if (!info.exists) return [];
+      names = await FileSystem.readDirectoryAsync(dirUri);
+    } catch (error) {
+      console.error(`Failed to list ${dir}:`, error);
+      return [];
+    }
+
+    const files: StoredPhotoFile[] = [];
+    for (const name of names) {
+      const uri = `${dirUri}${name}`;
+      try {
+        const info = await FileSystem.getInfoAsync(uri);
+        if (!info.exists || info.isDirectory) continue;
+        files.push({
+          uri,
+          kind,
+          size: info.size || 0,
+          modifiedAt: info.modificationTime ? new Date(info.modificationTime * 1000) : undefined,
+        });
+      } catch (error) {
+        // Removed while listing
+      }
+    }
+    return files;
+  }
+
+  // Current file, unedited original, every edit step and the thumbnail
+  private collectReferencedUris(actions: TimelineAction[]): Set<string> {
+    const referenced = new Set<string>();
+    for (const action of actions) {
+      for (const photo of action.photos || []) {
+        photoService.getFileUris(photo).forEach(uri => referenced.add(uri));
+      }
+    }
+    return referenced;
+  }
+
+  private isManagedFile(uri: string): boolean {
+    return [PHOTO_DIR, THUMBNAIL_DIR].some(dir => uri.startsWith(`${FileSystem.documentDirectory}${dir}`));
+  }
+
+  private sumSize(files: StoredPhotoFile[]): number {
+    return files.reduce((sum, file) => sum + file.size, 0);
+  }
+}
+
+export const photoStorageService = PhotoStorageService.getInstance();
@@ -1,6 +1,22 @@
 /**
  * AsyncStorage wrapper with type safety and error handling
  * Supports future Rails backend sync
+ *
+ * Collections are stored one record per key with an id index:
+ *   <collection>:index        -> JSON array of ids
+ *   <collection>:record:<id>  -> JSON record
+ * Data written by older versions as a single JSON array under <collection>
+ * is migrated to this layout the first time the collection is accessed.
+ *
+ * Loaded collections are kept in memory together with lazily built secondary
+ * indexes (see findByIndex / findInDateRange); writes go through the cache.
+ *
+ * Writes to a collection run one at a time so concurrent creates and deletes
+ * cannot lose each other's index entries.
+ *
+ * Changes spanning several collections go through transaction(): they are
+ * staged in memory and committed with a single multiSet. The previous values
+ * are journaled first so a failed or interrupted commit can be rolled back.
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -15,6 +31,24 @@ export const STORAGE_KEYS = {
   MIGRATIONS: '@tdr_days:migrations',
 } as const;
 
+// Keys stored as a single JSON value rather than as a record collection
+const BLOB_KEYS: string[] = [STORAGE_KEYS.MIGRATIONS];
+
+// Undo journal of the transaction being committed (kept outside STORAGE_KEYS)
+const JOURNAL_KEY = '@tdr_days:journal';
+
+interface TransactionJournal {
+  createdAt: string;
+  // Value of every key the commit touches before it started (null = absent)
+  previous: Array<[string, string | null]>;
+}
+
+interface StagedCollection {
+  cleared: boolean;
+  upserts: Map<string, BaseModel>;
+  deletes: Set<string>;
+}
+
 // Error types
 export class StorageError extends Error {
   constructor(message: string, public code: string, public originalError?: Error) {
@@ -23,9 +57,139 @@ export class StorageError extends Error {
   }
 }
 
+// Changes staged by storage.transaction(); nothing is written until it commits.
+// Reads see the staged changes on top of the stored data.
+export class StorageTransaction {
+  private staged = new Map<string, StagedCollection>();
+
+  constructor(private service: StorageService) {}
+
+  async get<T extends BaseModel>(key: string, id: string): Promise<T | null> {
+    const staged = this.staged.get(key);
+    if (staged?.upserts.has(id)) return { ...staged.upserts.get(id)! } as T;
+    if (staged && (staged.cleared || staged.deletes.has(id))) return null;
+    return this.service.get<T>(key, id);
+  }
+
+  async getAll<T extends BaseModel>(key: string): Promise<T[]> {
+    const staged = this.staged.get(key);
+    if (!staged) return this.service.getAll<T>(key);
+
+    const stored = staged.cleared ? [] : await this.service.getAll<T>(key);
+    const storedIds = new Set(stored.map(item => item.id));
+    const items = stored
+      .filter(item => !staged.deletes.has(item.id))
+      .map(item => (staged.upserts.get(item.id) as T) || item);
+    staged.upserts.forEach((item, id) => {
+      if (!storedIds.has(id)) items.push(item as T);
+    });
+    return items.map(item => ({ ...item }));
+  }
+
+  async find<T extends BaseModel>(key: string, predicate: (item: T) => boolean): Promise<T[]> {
+    return (await this.getAll<T>(key)).filter(predicate);
+  }
+
+  create<T extends BaseModel>(key: string, item: Omit<T, 'id' | 'createdAt' | 'updatedAt'>): T {
+    const now = new Date();
+    const newItem = {
+      ...item,
+      id: this.service.generateId(),
+      createdAt: now,
+      updatedAt: now,
+    } as T;
+
+    this.getStaged(key).upserts.set(newItem.id, newItem);
+    return { ...newItem };
+  }
+
+  async update<T extends BaseModel>(
+    key: string,
+    id: string,
+    updates: Partial<Omit<T, 'id' | 'createdAt'>>
+  ): Promise<T | null> {
+    const current = await this.get<T>(key, id);
+    if (!current) return null;
+
+    const updatedItem = {
+      ...current,
+      ...updates,
+      updatedAt: new Date(),
+    } as T;
+
+    this.getStaged(key).upserts.set(id, updatedItem);
+    return { ...updatedItem };
+  }
+
+  // Stage a fully-formed item as-is, keeping its id and timestamps (used by data import and sync)
+  put<T extends BaseModel>(key: string, item: T): T {
+    const staged = this.getStaged(key);
+    staged.deletes.delete(item.id);
+    staged.upserts.set(item.id, { ...item });
+    return { ...item };
+  }
+
+  async updateMany<T extends BaseModel>(
+    key: string,
+    updates: Array<{ id: string; data: Partial<Omit<T, 'id' | 'createdAt'>> }>
+  ): Promise<T[]> {
+    const updatedItems: T[] = [];
+    for (const { id, data } of updates) {
+      const updatedItem = await this.update<T>(key, id, data);
+      if (updatedItem) updatedItems.push(updatedItem);
+    }
+    return updatedItems;
+  }
+
+  async delete(key: string, id: string): Promise<boolean> {
+    if (!(await this.get(key, id))) return false;
+
+    const staged = this.getStaged(key);
+    staged.upserts.delete(id);
+    staged.deletes.add(id);
+    return true;
+  }
+
+  async deleteMany(key: string, ids: string[]): Promise<number> {
+    let deletedCount = 0;
+    for (const id of ids) {
+      if (await this.delete(key, id)) deletedCount++;
+    }
+    return deletedCount;
+  }
+
+  clear(key: string): void {
+    this.staged.set(key, { cleared: true, upserts: new Map(), deletes: new Set() });
+  }
+
+  // Read by StorageService when committing
+  getChanges(): Map<string, StagedCollection> {
+    return this.staged;
+  }
+
+  private getStaged(key: string): StagedCollection {
+    if (!this.staged.has(key)) {
+      this.staged.set(key, { cleared: false, upserts: new Map(), deletes: new Set() });
+    }
+    return this.staged.get(key)!;
+  }
+}
+
 // Storage service class
 export class StorageService {
   private static instance: StorageService;
+  // Collections whose legacy array layout has been checked/migrated
+  private layoutReady = new Map<string, Promise<void>>();
+  // Deserialized collections by id, in index order
+  private cache = new Map<string, Map<string, BaseModel>>();
+  // collection -> field -> value -> ids
+  private fieldIndexes = new Map<string, Map<string, Map<string, string[]>>>();
+  // collection -> date field -> ids sorted by time
+  private dateIndexes = new Map<string, Map<string, Array<{ time: number; id: string }>>>();
+  // Bumped on every write so a load that raced a write is not cached
+  private cacheVersions = new Map<string, number>();
+  // Last queued write per collection (see serializeWrites)
+  private writeQueues = new Map<string, Promise<void>>();
 
   private constructor() {}
 
@@ -39,8 +203,17 @@ export class StorageService {
   // Generic CRUD operations
   async get<T extends BaseModel>(key: string, id: string): Promise<T | null> {
     try {
-      const data = await this.getAll<T>(key);
-      return data.find(item => item.id === id) || null;
+      const cached = this.cache.get(key);
+      if (cached) {
+        const item = cached.get(id);
+        return item ? ({ ...item } as T) : null;
+      }
+
+      await this.ensureRecordLayout(key);
+      const jsonData = await AsyncStorage.getItem(this.recordKey(key, id));
+      if (!jsonData) return null;
+
+      return this.deserializeDates<T>([JSON.parse(jsonData)])[0];
     } catch (error) {
       throw new StorageError(
         `Failed to get item with id: ${id}`,
@@ -52,12 +225,9 @@ export class StorageService {
 
   async getAll<T extends BaseModel>(key: string): Promise<T[]> {
     try {
-      const jsonData = await AsyncStorage.getItem(key);
-      if (!jsonData) return [];
-      
-      const data = JSON.parse(jsonData);
-      // Convert date strings back to Date objects
-      return this.deserializeDates(data);
+      const collection = await this.loadCollection(key);
+      // Shallow copies so callers cannot mutate cached records
+      return Array.from(collection.values()).map(item => ({ ...item }) as T);
     } catch (error) {
       throw new StorageError(
         'Failed to get all items',
@@ -71,27 +241,28 @@ export class StorageService {
     key: string,
     item: Omit<T, 'id' | 'createdAt' | 'updatedAt'>
   ): Promise<T> {
-    try {
-      const now = new Date();
-      const newItem = {
-        ...item,
-        id: this.generateId(),
-        createdAt: now,
-        updatedAt: now,
-      } as T;
+    return this.serializeWrites([key], async () => {
+      try {
+        const now = new Date();
+        const newItem = {
+          ...item,
+          id: this.generateId(),
+          createdAt: now,
+          updatedAt: now,
+        } as T;
 
-      const data = await this.getAll<T>(key);
-      data.push(newItem);
-      await this.saveAll(key, data);
+        const ids = await this.getIndex(key);
+        await this.writeRecords(key, [newItem], [...ids, newItem.id]);
 
-      return newItem;
-    } catch (error) {
-      throw new StorageError(
-        'Failed to create item',
-        'CREATE_ERROR',
-        error as Error
-      );
-    }
+        return newItem;
+      } catch (error) {
+        throw new StorageError(
+          'Failed to create item',
+          'CREATE_ERROR',
+          error as Error
+        );
+      }
+    });
   }
 
   async update<T extends BaseModel>(
@@ -99,47 +270,46 @@ export class StorageService {
     id: string,
     updates: Partial<Omit<T, 'id' | 'createdAt'>>
   ): Promise<T | null> {
-    try {
-      const data = await this.getAll<T>(key);
-      const index = data.findIndex(item => item.id === id);
-      
-      if (index === -1) return null;
+    return this.serializeWrites([key], async () => {
+      try {
+        const current = await this.get<T>(key, id);
+        if (!current) return null;
 
-      const updatedItem = {
-        ...data[index],
-        ...updates,
-        updatedAt: new Date(),
-      } as T;
+        const updatedItem = {
+          ...current,
+          ...updates,
+          updatedAt: new Date(),
+        } as T;
 
-      data[index] = updatedItem;
-      await this.saveAll(key, data);
+        await this.writeRecords(key, [updatedItem]);
 
-      return updatedItem;
-    } catch (error) {
-      throw new StorageError(
-        `Failed to update item with id: ${id}`,
-        'UPDATE_ERROR',
-        error as Error
-      );
-    }
+        return updatedItem;
+      } catch (error) {
+        throw new StorageError(
+          `Failed to update item with id: ${id}`,
+          'UPDATE_ERROR',
+          error as Error
+        );
+      }
+    });
   }
 
   async delete<T extends BaseModel>(key: string, id: string): Promise<boolean> {
-    try {
-      const data = await this.getAll<T>(key);
-      const filteredData = data.filter(item => item.id !== id);
-      
-      if (data.length === filteredData.length) return false;
+    return this.serializeWrites([key], async () => {
+      try {
+        const ids = await this.getIndex(key);
+        if (!ids.includes(id)) return false;
 
-      await this.saveAll(key, filteredData);
-      return true;
-    } catch (error) {
-      throw new StorageError(
-        `Failed to delete item with id: ${id}`,
-        'DELETE_ERROR',
-        error as Error
-      );
-    }
+        await this.removeRecords(key, [id], ids.filter(existingId => existingId !== id));
+        return true;
+      } catch (error) {
+        throw new StorageError(
+          `Failed to delete item with id: ${id}`,
+          'DELETE_ERROR',
+          error as Error
+        );
+      }
+    });
   }
 
   // Batch operations
@@ -147,76 +317,116 @@ export class StorageService {
     key: string,
     items: Array<Omit<T, 'id' | 'createdAt' | 'updatedAt'>>
   ): Promise<T[]> {
-    try {
-      const now = new Date();
-      const newItems = items.map(item => ({
-        ...item,
-        id: this.generateId(),
-        createdAt: now,
-        updatedAt: now,
-      })) as T[];
+    return this.serializeWrites([key], async () => {
+      try {
+        const now = new Date();
+        const newItems = items.map(item => ({
+          ...item,
+          id: this.generateId(),
+          createdAt: now,
+          updatedAt: now,
+        })) as T[];
 
-      const data = await this.getAll<T>(key);
-      data.push(...newItems);
-      await this.saveAll(key, data);
+        const ids = await this.getIndex(key);
+        await this.writeRecords(key, newItems, [...ids, ...newItems.map(item => item.id)]);
 
-      return newItems;
-    } catch (error) {
-      throw new StorageError(
-        'Failed to create multiple items',
-        'CREATE_MANY_ERROR',
-        error as Error
-      );
-    }
+        return newItems;
+      } catch (error) {
+        throw new StorageError(
+          'Failed to create multiple items',
+          'CREATE_MANY_ERROR',
+          error as Error
+        );
+      }
+    });
+  }
+
+  // Insert fully-formed items keeping their ids and timestamps (used by data import)
+  async importMany<T extends BaseModel>(key: string, items: T[]): Promise<T[]> {
+    return this.serializeWrites([key], async () => {
+      try {
+        const ids = await this.getIndex(key);
+        const existingIds = new Set(ids);
+        const duplicate = items.find(item => existingIds.has(item.id));
+        if (duplicate) {
+          throw new Error(`Item with id ${duplicate.id} already exists`);
+        }
+
+        await this.writeRecords(key, items, [...ids, ...items.map(item => item.id)]);
+
+        return items;
+      } catch (error) {
+        throw new StorageError(
+          'Failed to import items',
+          'IMPORT_MANY_ERROR',
+          error as Error
+        );
+      }
+    });
   }
 
   async updateMany<T extends BaseModel>(
     key: string,
     updates: Array<{ id: string; data: Partial<Omit<T, 'id' | 'createdAt'>> }>
   ): Promise<T[]> {
-    try {
-      const data = await this.getAll<T>(key);
-      const updatedItems: T[] = [];
-      const now = new Date();
-
-      updates.forEach(({ id, data: updateData }) => {
-        const index = data.findIndex(item => item.id === id);
-        if (index !== -1) {
-          data[index] = {
-            ...data[index],
-            ...updateData,
-            updatedAt: now,
-          } as T;
-          updatedItems.push(data[index]);
-        }
-      });
+    return this.serializeWrites([key], async () => {
+      try {
+        await this.ensureRecordLayout(key);
+        const entries = await AsyncStorage.multiGet(updates.map(({ id }) => this.recordKey(key, id)));
+        const currentItems = this.deserializeDates<T>(
+          entries
+            .map(([, value]) => value)
+            .filter((value): value is string => !!value)
+            .map(value => JSON.parse(value))
+        );
+        const itemsById = new Map(currentItems.map(item => [item.id, item]));
+        const updatedItems: T[] = [];
+        const now = new Date();
 
-      await this.saveAll(key, data);
-      return updatedItems;
-    } catch (error) {
-      throw new StorageError(
-        'Failed to update multiple items',
-        'UPDATE_MANY_ERROR',
-        error as Error
-      );
-    }
+        updates.forEach(({ id, data: updateData }) => {
+          const current = itemsById.get(id);
+          if (current) {
+            const updatedItem = {
+              ...current,
+              ...updateData,
+              updatedAt: now,
+            } as T;
+            itemsById.set(id, updatedItem);
+            updatedItems.push(updatedItem);
+          }
+        });
+
+        // Write each record once even if it was updated several times
+        await this.writeRecords(key, Array.from(new Set(updatedItems.map(item => itemsById.get(item.id)!))));
+        return updatedItems;
+      } catch (error) {
+        throw new StorageError(
+          'Failed to update multiple items',
+          'UPDATE_MANY_ERROR',
+          error as Error
+        );
+      }
+    });
   }
 
   async deleteMany<T extends BaseModel>(key: string, ids: string[]): Promise<number> {
-    try {
-      const data = await this.getAll<T>(key);
-      const originalLength = data.length;
-      const filteredData = data.filter(item => !ids.includes(item.id));
-      
-      await this.saveAll(key, filteredData);
-      return originalLength - filteredData.length;
-    } catch (error) {
-      throw new StorageError(
-        'Failed to delete multiple items',
-        'DELETE_MANY_ERROR',
-        error as Error
-      );
-    }
+    return this.serializeWrites([key], async () => {
+      try {
+        const currentIds = await this.getIndex(key);
+        const idsToDelete = new Set(ids);
+        const remainingIds = currentIds.filter(id => !idsToDelete.has(id));
+        const deletedIds = currentIds.filter(id => idsToDelete.has(id));
+
+        await this.removeRecords(key, deletedIds, remainingIds);
+        return deletedIds.length;
+      } catch (error) {
+        throw new StorageError(
+          'Failed to delete multiple items',
+          'DELETE_MANY_ERROR',
+          error as Error
+        );
+      }
+    });
   }
 
   // Query operations
@@ -252,32 +462,145 @@ export class StorageService {
     }
   }
 
-  // Clear operations
-  async clear(key: string): Promise<void> {
+  // Indexed queries (served from the in-memory cache)
+  // Records whose field equals value; array fields match any element
+  async findByIndex<T extends BaseModel>(key: string, field: string, value: string): Promise<T[]> {
     try {
-      await AsyncStorage.removeItem(key);
+      const collection = await this.loadCollection(key);
+      const ids = this.getFieldIndex(key, field, collection).get(value) || [];
+      return ids.map(id => ({ ...collection.get(id)! }) as T);
     } catch (error) {
       throw new StorageError(
-        `Failed to clear storage for key: ${key}`,
-        'CLEAR_ERROR',
+        `Failed to find items by ${field}`,
+        'FIND_BY_INDEX_ERROR',
         error as Error
       );
     }
   }
 
-  async clearAll(): Promise<void> {
+  // Records whose date field is within [startDate, endDate], oldest first
+  async findInDateRange<T extends BaseModel>(
+    key: string,
+    field: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<T[]> {
     try {
-      const keys = Object.values(STORAGE_KEYS);
-      await AsyncStorage.multiRemove(keys);
+      const collection = await this.loadCollection(key);
+      const sorted = this.getDateIndex(key, field, collection);
+      const start = startDate.getTime();
+      const end = endDate.getTime();
+
+      // Binary search for the first entry >= start
+      let low = 0;
+      let high = sorted.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (sorted[mid].time < start) low = mid + 1;
+        else high = mid;
+      }
+
+      const results: T[] = [];
+      for (let i = low; i < sorted.length && sorted[i].time <= end; i++) {
+        results.push({ ...collection.get(sorted[i].id)! } as T);
+      }
+      return results;
     } catch (error) {
       throw new StorageError(
-        'Failed to clear all storage',
-        'CLEAR_ALL_ERROR',
+        `Failed to find items by ${field} range`,
+        'FIND_IN_RANGE_ERROR',
         error as Error
       );
     }
   }
 
+  // Transactions
+  /**
+   * Run work against a StorageTransaction and commit everything it staged
+   * in one write. If work throws, nothing is written; if the commit fails,
+   * all touched keys are restored to their previous values.
+   *
+   * Writes to the collections wait until the transaction has committed, so
+   * nothing written between work's reads and the commit is overwritten.
+   * work must therefore write through tx only: a plain storage write or a
+   * nested transaction awaited inside it would never start.
+   */
+  async transaction<R>(work: (tx: StorageTransaction) => Promise<R>): Promise<R> {
+    const lockedKeys: string[] = Object.values(STORAGE_KEYS);
+
+    return this.serializeWrites(lockedKeys, async () => {
+      const tx = new StorageTransaction(this);
+      const result = await work(tx);
+      const changes = tx.getChanges();
+      const otherKeys = Array.from(changes.keys()).filter(key => !lockedKeys.includes(key));
+
+      try {
+        await this.serializeWrites(otherKeys, () => this.commitTransaction(changes));
+      } catch (error) {
+        if (error instanceof StorageError) throw error;
+        throw new StorageError(
+          'Failed to commit transaction',
+          'TRANSACTION_ERROR',
+          error as Error
+        );
+      }
+      return result;
+    });
+  }
+
+  // Roll back a transaction interrupted by a crash; call once at launch
+  async recoverTransaction(): Promise<boolean> {
+    try {
+      const jsonData = await AsyncStorage.getItem(JOURNAL_KEY);
+      if (!jsonData) return false;
+
+      await this.rollbackJournal(JSON.parse(jsonData));
+      Object.values(STORAGE_KEYS).forEach(key => this.invalidateCache(key));
+      return true;
+    } catch (error) {
+      throw new StorageError(
+        'Failed to recover interrupted transaction',
+        'RECOVER_ERROR',
+        error as Error
+      );
+    }
+  }
+
+  // Clear operations
+  async clear(key: string): Promise<void> {
+    return this.serializeWrites([key], async () => {
+      try {
+        await AsyncStorage.multiRemove(await this.getCollectionKeys(key));
+        this.invalidateCache(key);
+      } catch (error) {
+        throw new StorageError(
+          `Failed to clear storage for key: ${key}`,
+          'CLEAR_ERROR',
+          error as Error
+        );
+      }
+    });
+  }
+
+  async clearAll(): Promise<void> {
+    return this.serializeWrites(Object.values(STORAGE_KEYS), async () => {
+      try {
+        const keys: string[] = [];
+        for (const key of Object.values(STORAGE_KEYS)) {
+          keys.push(...await this.getCollectionKeys(key));
+        }
+        await AsyncStorage.multiRemove(keys);
+        Object.values(STORAGE_KEYS).forEach(key => this.invalidateCache(key));
+      } catch (error) {
+        throw new StorageError(
+          'Failed to clear all storage',
+          'CLEAR_ALL_ERROR',
+          error as Error
+        );
+      }
+    });
+  }
+
   // Migration support
   async getDataVersion(): Promise<number> {
     try {
@@ -308,6 +631,36 @@ export class StorageService {
     }
   }
 
+  async getLastSyncDate(): Promise<Date | null> {
+    try {
+      const metadata = await this.getMetadata();
+      return metadata?.lastSyncDate ? new Date(metadata.lastSyncDate) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async setLastSyncDate(date: Date): Promise<void> {
+    try {
+      const metadata = await this.getMetadata();
+      if (metadata) {
+        await this.update(STORAGE_KEYS.METADATA, metadata.id, { lastSyncDate: date });
+      } else {
+        await this.create(STORAGE_KEYS.METADATA, {
+          dataVersion: 1,
+          lastSyncDate: date,
+          settings: {},
+        } as Omit<AppMetadata, 'id' | 'createdAt' | 'updatedAt'>);
+      }
+    } catch (error) {
+      throw new StorageError(
+        'Failed to set last sync date',
+        'SET_SYNC_DATE_ERROR',
+        error as Error
+      );
+    }
+  }
+
   async getMigrations(): Promise<DataMigration[]> {
     try {
       const jsonData = await AsyncStorage.getItem(STORAGE_KEYS.MIGRATIONS);
@@ -337,15 +690,23 @@ export class StorageService {
   }
 
   // Export/Import support for future sync
+  // Collections are exchanged as arrays regardless of the on-device layout
   async exportData(): Promise<Record<string, any>> {
     try {
       const keys = Object.values(STORAGE_KEYS);
       const data: Record<string, any> = {};
 
       for (const key of keys) {
-        const value = await AsyncStorage.getItem(key);
-        if (value) {
-          data[key] = JSON.parse(value);
+        if (BLOB_KEYS.includes(key)) {
+          const value = await AsyncStorage.getItem(key);
+          if (value) {
+            data[key] = JSON.parse(value);
+          }
+        } else {
+          const items = await this.getAll(key);
+          if (items.length > 0) {
+            data[key] = items;
+          }
         }
       }
 
@@ -359,38 +720,322 @@ export class StorageService {
     }
   }
 
+  // Replaces each given collection with the given array in a single write
   async importData(data: Record<string, any>): Promise<void> {
+    return this.serializeWrites(Object.keys(data), async () => {
+      try {
+        const entries: Array<[string, string]> = [];
+        const staleKeys: string[] = [];
+
+        for (const [key, value] of Object.entries(data)) {
+          if (BLOB_KEYS.includes(key)) {
+            entries.push([key, JSON.stringify(value)]);
+            continue;
+          }
+
+          const items = value as BaseModel[];
+          const newIds = new Set(items.map(item => item.id));
+          const oldIds = await this.getIndex(key);
+          staleKeys.push(...oldIds.filter(id => !newIds.has(id)).map(id => this.recordKey(key, id)));
+
+          entries.push(
+            ...items.map(item => [this.recordKey(key, item.id), JSON.stringify(item)] as [string, string]),
+            [this.indexKey(key), JSON.stringify(items.map(item => item.id))]
+          );
+        }
+
+        await AsyncStorage.multiSet(entries);
+        if (staleKeys.length > 0) {
+          await AsyncStorage.multiRemove(staleKeys);
+        }
+        Object.keys(data).forEach(key => this.invalidateCache(key));
+      } catch (error) {
+        throw new StorageError(
+          'Failed to import data',
+          'IMPORT_ERROR',
+          error as Error
+        );
+      }
+    });
+  }
+
+  // Id generation (exposed so imports can remap colliding ids)
+  generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // Private helper methods
+
+  // Run work after every earlier write to the same collections has finished.
+  // Index updates read, modify and write <collection>:index, so two writes
+  // running side by side would drop each other's ids.
+  private serializeWrites<R>(keys: string[], work: () => Promise<R>): Promise<R> {
+    const previous = Promise.all(keys.map(key => this.writeQueues.get(key)));
+    const result = previous.then(() => work());
+    const done = result.then(() => undefined, () => undefined);
+
+    keys.forEach(key => this.writeQueues.set(key, done));
+    done.then(() => keys.forEach(key => {
+      if (this.writeQueues.get(key) === done) this.writeQueues.delete(key);
+    }));
+    return result;
+  }
+
+  private indexKey(key: string): string {
+    return `${key}:index`;
+  }
+
+  private recordKey(key: string, id: string): string {
+    return `${key}:record:${id}`;
+  }
+
+  private async getIndex(key: string): Promise<string[]> {
+    await this.ensureRecordLayout(key);
+    const jsonData = await AsyncStorage.getItem(this.indexKey(key));
+    return jsonData ? JSON.parse(jsonData) : [];
+  }
+
+  // Records and the index are written in one multiSet so they stay in step
+  private async writeRecords<T extends BaseModel>(key: string, items: T[], ids?: string[]): Promise<void> {
     try {
-      const entries = Object.entries(data).map(([key, value]) => [
-        key,
-        JSON.stringify(value),
+      const entries: Array<[string, string]> = items.map(item => [
+        this.recordKey(key, item.id),
+        JSON.stringify(item),
       ]);
-      await AsyncStorage.multiSet(entries);
+      if (ids) {
+        entries.push([this.indexKey(key), JSON.stringify(ids)]);
+      }
+      if (entries.length > 0) {
+        await AsyncStorage.multiSet(entries);
+      }
+
+      const cached = this.cache.get(key);
+      if (cached) {
+        this.deserializeDates(items).forEach(item => cached.set(item.id, item));
+      }
+      this.markWritten(key);
     } catch (error) {
       throw new StorageError(
-        'Failed to import data',
-        'IMPORT_ERROR',
+        'Failed to save data',
+        'SAVE_ERROR',
         error as Error
       );
     }
   }
 
-  // Private helper methods
-  private async saveAll<T>(key: string, data: T[]): Promise<void> {
+  // The index is updated first so a failed removal only leaves unreachable records
+  private async removeRecords(key: string, ids: string[], remainingIds: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await AsyncStorage.setItem(this.indexKey(key), JSON.stringify(remainingIds));
+    const cached = this.cache.get(key);
+    if (cached) {
+      ids.forEach(id => cached.delete(id));
+    }
+    this.markWritten(key);
+
+    await AsyncStorage.multiRemove(ids.map(id => this.recordKey(key, id)));
+  }
+
+  private async commitTransaction(changes: Map<string, StagedCollection>): Promise<void> {
+    if (changes.size === 0) return;
+
+    const entries: Array<[string, string]> = [];
+    const staleKeys: string[] = [];
+
+    for (const [key, staged] of changes) {
+      const currentIds = await this.getIndex(key);
+      const keptIds = staged.cleared ? [] : currentIds.filter(id => !staged.deletes.has(id));
+      const kept = new Set(keptIds);
+      const ids = [...keptIds, ...Array.from(staged.upserts.keys()).filter(id => !kept.has(id))];
+      const newIds = new Set(ids);
+
+      staleKeys.push(...currentIds.filter(id => !newIds.has(id)).map(id => this.recordKey(key, id)));
+      staged.upserts.forEach(item => entries.push([this.recordKey(key, item.id), JSON.stringify(item)]));
+      entries.push([this.indexKey(key), JSON.stringify(ids)]);
+    }
+
+    // Journal the previous values before touching any data
+    const previous = await AsyncStorage.multiGet([...entries.map(([entryKey]) => entryKey), ...staleKeys]);
+    const journal: TransactionJournal = {
+      createdAt: new Date().toISOString(),
+      previous: previous.map(([entryKey, value]) => [entryKey, value]),
+    };
+    await AsyncStorage.setItem(JOURNAL_KEY, JSON.stringify(journal));
+
     try {
-      const jsonData = JSON.stringify(data);
-      await AsyncStorage.setItem(key, jsonData);
+      await AsyncStorage.multiSet(entries);
+      if (staleKeys.length > 0) {
+        await AsyncStorage.multiRemove(staleKeys);
+      }
     } catch (error) {
+      changes.forEach((_, key) => this.invalidateCache(key));
+      // If the rollback fails too, the journal stays for recoverTransaction
+      await this.rollbackJournal(journal);
       throw new StorageError(
-        'Failed to save data',
-        'SAVE_ERROR',
+        'Failed to commit transaction; changes were rolled back',
+        'TRANSACTION_ERROR',
         error as Error
       );
     }
+    await AsyncStorage.removeItem(JOURNAL_KEY);
+
+    changes.forEach((staged, key) => {
+      const cached = this.cache.get(key);
+      if (!cached || staged.cleared) {
+        this.invalidateCache(key);
+        return;
+      }
+      staged.deletes.forEach(id => cached.delete(id));
+      this.deserializeDates(Array.from(staged.upserts.values())).forEach(item => cached.set(item.id, item));
+      this.markWritten(key);
+    });
   }
 
-  private generateId(): string {
-    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  private async rollbackJournal(journal: TransactionJournal): Promise<void> {
+    const restore = journal.previous.filter(
+      (entry): entry is [string, string] => entry[1] !== null
+    );
+    const absent = journal.previous.filter(([, value]) => value === null).map(([entryKey]) => entryKey);
+
+    if (restore.length > 0) {
+      await AsyncStorage.multiSet(restore);
+    }
+    if (absent.length > 0) {
+      await AsyncStorage.multiRemove(absent);
+    }
+    await AsyncStorage.removeItem(JOURNAL_KEY);
+  }
+
+  // Cache helpers
+  private async loadCollection(key: string): Promise<Map<string, BaseModel>> {
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const version = this.cacheVersions.get(key) || 0;
+    const ids = await this.getIndex(key);
+    const entries = ids.length > 0
+      ? await AsyncStorage.multiGet(ids.map(id => this.recordKey(key, id)))
+      : [];
+    const data = entries
+      .map(([, value]) => value)
+      .filter((value): value is string => !!value)
+      .map(value => JSON.parse(value));
+
+    // Convert date strings back to Date objects
+    const collection = new Map(this.deserializeDates<BaseModel>(data).map(item => [item.id, item]));
+
+    // Only cache if no write happened while loading
+    if ((this.cacheVersions.get(key) || 0) === version) {
+      this.cache.set(key, collection);
+    }
+    return collection;
+  }
+
+  private getFieldIndex(
+    key: string,
+    field: string,
+    collection: Map<string, BaseModel>
+  ): Map<string, string[]> {
+    if (!this.fieldIndexes.has(key)) {
+      this.fieldIndexes.set(key, new Map());
+    }
+    const indexes = this.fieldIndexes.get(key)!;
+
+    if (!indexes.has(field)) {
+      const index = new Map<string, string[]>();
+      collection.forEach(item => {
+        const value = (item as any)[field];
+        const values = Array.isArray(value) ? value : [value];
+        values
+          .filter(v => v !== undefined && v !== null)
+          .forEach(v => {
+            const indexKey = String(v);
+            if (!index.has(indexKey)) index.set(indexKey, []);
+            index.get(indexKey)!.push(item.id);
+          });
+      });
+      indexes.set(field, index);
+    }
+    return indexes.get(field)!;
+  }
+
+  private getDateIndex(
+    key: string,
+    field: string,
+    collection: Map<string, BaseModel>
+  ): Array<{ time: number; id: string }> {
+    if (!this.dateIndexes.has(key)) {
+      this.dateIndexes.set(key, new Map());
+    }
+    const indexes = this.dateIndexes.get(key)!;
+
+    if (!indexes.has(field)) {
+      const sorted: Array<{ time: number; id: string }> = [];
+      collection.forEach(item => {
+        const value = (item as any)[field];
+        const time = value ? new Date(value).getTime() : NaN;
+        if (!isNaN(time)) sorted.push({ time, id: item.id });
+      });
+      sorted.sort((a, b) => a.time - b.time);
+      indexes.set(field, sorted);
+    }
+    return indexes.get(field)!;
+  }
+
+  // Secondary indexes are rebuilt lazily after any write
+  private markWritten(key: string) {
+    this.cacheVersions.set(key, (this.cacheVersions.get(key) || 0) + 1);
+    this.fieldIndexes.delete(key);
+    this.dateIndexes.delete(key);
+  }
+
+  private invalidateCache(key: string) {
+    this.cache.delete(key);
+    this.markWritten(key);
+  }
+
+  // Every storage key belonging to a collection, including unindexed leftovers
+  private async getCollectionKeys(key: string): Promise<string[]> {
+    if (BLOB_KEYS.includes(key)) return [key];
+
+    const recordPrefix = this.recordKey(key, '');
+    const allKeys = await AsyncStorage.getAllKeys();
+    return [
+      key,
+      this.indexKey(key),
+      ...allKeys.filter(storedKey => storedKey.startsWith(recordPrefix)),
+    ];
+  }
+
+  // Move a legacy whole-array value into per-record keys (once per collection)
+  private ensureRecordLayout(key: string): Promise<void> {
+    if (!this.layoutReady.has(key)) {
+      const ready = this.migrateLegacyLayout(key).catch(error => {
+        this.layoutReady.delete(key);
+        throw error;
+      });
+      this.layoutReady.set(key, ready);
+    }
+    return this.layoutReady.get(key)!;
+  }
+
+  private async migrateLegacyLayout(key: string): Promise<void> {
+    const [[, index], [, legacy]] = await AsyncStorage.multiGet([this.indexKey(key), key]);
+    if (!legacy) return;
+
+    // An index already exists, so the legacy value is a leftover from an interrupted migration
+    if (index !== null) {
+      await AsyncStorage.removeItem(key);
+      return;
+    }
+
+    const items: BaseModel[] = JSON.parse(legacy);
+    await AsyncStorage.multiSet([
+      ...items.map(item => [this.recordKey(key, item.id), JSON.stringify(item)] as [string, string]),
+      [this.indexKey(key), JSON.stringify(items.map(item => item.id))],
+    ]);
+    await AsyncStorage.removeItem(key);
   }
 
   private async getMetadata(): Promise<AppMetadata | null> {
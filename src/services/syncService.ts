@@ -0,0 +1,561 @@
+/**
+ * Sync Service
+ * Two-way sync of visits, companions, actions and photos with the Rails backend
+ *
+ * REST contract (all paths under <baseUrl>/api/v1, JSON with snake_case keys,
+ * `Authorization: Bearer <token>` when a token is configured):
+ *
+ *   GET    /<resource>?updated_since=<ISO8601>
+ *          -> { records: RemoteRecord[], server_time: ISO8601 }
+ *          Deleted records are returned with `deleted_at` set.
+ *   POST   /<resource>          { <singular>: RemoteRecord } -> RemoteRecord
+ *   PATCH  /<resource>/:id      { <singular>: RemoteRecord } -> RemoteRecord
+ *          409 { record: RemoteRecord } when the server copy has a newer
+ *          updated_at; the server copy wins.
+ *   DELETE /<resource>/:id      -> 204 (404 is treated as already deleted)
+ *   POST   /photos              multipart: file, client_id, action_client_id
+ *          -> { id, url }
+ *   DELETE /photos/:id          -> 204
+ *
+ *   <resource> is one of companions, visits, actions. RemoteRecord is the
+ *   local model with `id` = server id and `client_id` = local id. References
+ *   (visit_id, companion_ids, visit_ids) always use client ids, so records
+ *   keep the same id on every device. Action photos carry the uploaded `url`
+ *   as `uri` and the photo's server id as `remote_id`.
+ *
+ * A record is dirty when it was never synced or was updated after `syncedAt`.
+ * Local deletions are detected by comparing against the ids synced last time,
+ * and are pushed before pulling: until then the pull cannot tell a record
+ * deleted here from one created elsewhere, and would restore it.
+ * Conflicts are resolved by `updatedAt`: the newer copy wins.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { storage, STORAGE_KEYS, StorageTransaction } from './storage';
+import { Companion, Photo, TimelineAction, Visit } from '../types/models';
+
+const SYNC_CONFIG_KEY = '@tdr_days:sync_config';
+const SYNC_STATE_KEY = '@tdr_days:sync_state';
+const PHOTO_DIR = 'photos/';
+
+export interface SyncConfig {
+  baseUrl: string; // e.g. https://api.example.com
+  authToken?: string;
+}
+
+export interface SyncCounts {
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+export interface SyncResult {
+  success: boolean;
+  pushed: SyncCounts;
+  pulled: SyncCounts;
+  photosUploaded: number;
+  // Records changed on both sides; resolved by updatedAt
+  conflicts: number;
+  errors: string[];
+  syncedAt?: Date;
+}
+
+export interface SyncResponse<T = any> {
+  status: number;
+  data: T;
+}
+
+// HTTP layer, replaceable for tests or a local mock server
+export interface SyncTransport {
+  request<T = any>(method: string, path: string, body?: any): Promise<SyncResponse<T>>;
+  upload<T = any>(path: string, fileUri: string, fields: Record<string, string>): Promise<SyncResponse<T>>;
+}
+
+export class SyncError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+type SyncModel = Visit | Companion | TimelineAction;
+
+interface SyncResource {
+  key: string;
+  path: string;
+  param: string; // Rails strong params root
+}
+
+// Push order: referenced records first
+const SYNC_RESOURCES: SyncResource[] = [
+  { key: STORAGE_KEYS.COMPANIONS, path: 'companions', param: 'companion' },
+  { key: STORAGE_KEYS.VISITS, path: 'visits', param: 'visit' },
+  { key: STORAGE_KEYS.ACTIONS, path: 'actions', param: 'action' },
+];
+
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'date', 'time', 'startTime', 'endTime'];
+
+interface SyncState {
+  // collection key -> local id -> remote id, as of the last sync
+  records: Record<string, Record<string, string>>;
+  // photo id -> uploaded photo
+  photos: Record<string, { remoteId: string; url: string }>;
+}
+
+class FetchTransport implements SyncTransport {
+  constructor(private config: SyncConfig) {}
+
+  async request<T = any>(method: string, path: string, body?: any): Promise<SyncResponse<T>> {
+    const response = await fetch(this.url(path), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...this.authHeaders(),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const text = await response.text();
+    return { status: response.status, data: text ? JSON.parse(text) : null };
+  }
+
+  async upload<T = any>(path: string, fileUri: string, fields: Record<string, string>): Promise<SyncResponse<T>> {
+    const result = await FileSystem.uploadAsync(this.url(path), fileUri, {
+      httpMethod: 'POST',
+      uploadType: FileSystem.FileSystemUploadType.MULTIPART,
+      fieldName: 'file',
+      parameters: fields,
+      headers: { Accept: 'application/json', ...this.authHeaders() },
+    });
+    return { status: result.status, data: result.body ? JSON.parse(result.body) : null };
+  }
+
+  private url(path: string): string {
+    return `${this.config.baseUrl.replace(/\/+$/, '')}/api/v1${path}`;
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.config.authToken ? { Authorization: `Bearer ${this.config.authToken}` } : {};
+  }
+}
+
+class SyncService {
+  private static instance: SyncService;
+  private transport: SyncTransport | null = null;
+  private runningSync: Promise<SyncResult> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): SyncService {
+    if (!SyncService.instance) {
+      SyncService.instance = new SyncService();
+    }
+    return SyncService.instance;
+  }
+
+  // Configuration
+  async getConfig(): Promise<SyncConfig | null> {
+    const jsonData = await AsyncStorage.getItem(SYNC_CONFIG_KEY);
+    return jsonData ? JSON.parse(jsonData) : null;
+  }
+
+  async saveConfig(config: SyncConfig): Promise<void> {
+    await AsyncStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(config));
+    this.transport = null;
+  }
+
+  // Stop syncing; local data and the sync state are kept
+  async clearConfig(): Promise<void> {
+    await AsyncStorage.removeItem(SYNC_CONFIG_KEY);
+    this.transport = null;
+  }
+
+  // Use a custom transport instead of fetch (tests, mock server)
+  setTransport(transport: SyncTransport | null) {
+    this.transport = transport;
+  }
+
+  /**
+   * Count local changes waiting to be pushed
+   */
+  async getPendingChanges(): Promise<{ dirty: number; deleted: number }> {
+    const state = await this.loadState();
+    let dirty = 0;
+    let deleted = 0;
+
+    for (const resource of SYNC_RESOURCES) {
+      const items = await storage.getAll<SyncModel>(resource.key);
+      const localIds = new Set(items.map(item => item.id));
+      dirty += items.filter(item => this.isDirty(item)).length;
+      deleted += Object.keys(state.records[resource.key] || {}).filter(id => !localIds.has(id)).length;
+    }
+
+    return { dirty, deleted };
+  }
+
+  /**
+   * Push local deletions, pull remote changes, then push local ones
+   */
+  async sync(): Promise<SyncResult> {
+    // Never run two syncs at once
+    if (!this.runningSync) {
+      this.runningSync = this.runSync().finally(() => {
+        this.runningSync = null;
+      });
+    }
+    return this.runningSync;
+  }
+
+  private async runSync(): Promise<SyncResult> {
+    const result: SyncResult = {
+      success: false,
+      pushed: { created: 0, updated: 0, deleted: 0 },
+      pulled: { created: 0, updated: 0, deleted: 0 },
+      photosUploaded: 0,
+      conflicts: 0,
+      errors: [],
+    };
+
+    try {
+      const transport = await this.getTransport();
+      const state = await this.loadState();
+      const lastSyncDate = await storage.getLastSyncDate();
+
+      await this.pushDeletions(transport, state, result);
+      const serverTime = await this.pull(transport, state, lastSyncDate, result);
+      await this.pushPhotos(transport, state, result);
+      await this.pushChanges(transport, state, result);
+
+      await this.saveState(state);
+      result.syncedAt = serverTime;
+      await storage.setLastSyncDate(serverTime);
+      result.success = result.errors.length === 0;
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : 'Unknown sync error');
+    }
+
+    return result;
+  }
+
+  // Pull
+  private async pull(
+    transport: SyncTransport,
+    state: SyncState,
+    since: Date | null,
+    result: SyncResult
+  ): Promise<Date> {
+    const query = since ? `?updated_since=${encodeURIComponent(since.toISOString())}` : '';
+    const pulled: Array<{ resource: SyncResource; records: any[] }> = [];
+    let serverTime = new Date();
+
+    for (const resource of SYNC_RESOURCES) {
+      const response = await transport.request('GET', `/${resource.path}${query}`);
+      this.assertOk(response, `GET /${resource.path}`);
+      pulled.push({ resource, records: response.data?.records || [] });
+      if (response.data?.server_time) {
+        serverTime = new Date(response.data.server_time);
+      }
+    }
+
+    // Download photos before staging so a failed download keeps the remote uri
+    for (const { resource, records } of pulled) {
+      if (resource.key !== STORAGE_KEYS.ACTIONS) continue;
+      for (const record of records) {
+        if (Array.isArray(record.photos)) {
+          record.photos = await Promise.all(
+            record.photos.map((photo: any) => this.downloadPhoto(photo, state))
+          );
+        }
+      }
+    }
+
+    await storage.transaction(async tx => {
+      for (const { resource, records } of pulled) {
+        for (const record of records) {
+          await this.applyRemoteRecord(tx, resource, record, state, result);
+        }
+      }
+    });
+
+    return serverTime;
+  }
+
+  private async applyRemoteRecord(
+    tx: StorageTransaction,
+    resource: SyncResource,
+    record: any,
+    state: SyncState,
+    result: SyncResult
+  ) {
+    const { item, deletedAt } = this.fromRemote(record);
+    const local = await tx.get<SyncModel>(resource.key, item.id);
+
+    // Our own push coming back, or a copy we already have
+    if (local && !deletedAt && !this.isDirty(local) &&
+        new Date(local.updatedAt).getTime() >= new Date(item.updatedAt).getTime()) {
+      return;
+    }
+    const localIsNewer = !!local && this.isDirty(local) &&
+      new Date(local.updatedAt).getTime() >= new Date(deletedAt || item.updatedAt).getTime();
+
+    if (local && this.isDirty(local)) {
+      result.conflicts++;
+    }
+    if (localIsNewer) {
+      // Local copy wins and is pushed afterwards
+      return;
+    }
+
+    const records = this.getStateRecords(state, resource.key);
+    if (deletedAt) {
+      if (local) {
+        await tx.delete(resource.key, item.id);
+        result.pulled.deleted++;
+      }
+      delete records[item.id];
+      return;
+    }
+
+    tx.put<SyncModel>(resource.key, {
+      ...item,
+      syncedAt: this.syncedAtFor(item),
+    });
+    records[item.id] = item.remoteId!;
+    if (local) {
+      result.pulled.updated++;
+    } else {
+      result.pulled.created++;
+    }
+  }
+
+  // Push
+  private async pushDeletions(transport: SyncTransport, state: SyncState, result: SyncResult) {
+    // Children first so the server never sees dangling references
+    for (const resource of [...SYNC_RESOURCES].reverse()) {
+      const records = this.getStateRecords(state, resource.key);
+      const items = await storage.getAll<SyncModel>(resource.key);
+      const localIds = new Set(items.map(item => item.id));
+
+      for (const [localId, remoteId] of Object.entries(records)) {
+        if (localIds.has(localId)) continue;
+
+        const response = await transport.request('DELETE', `/${resource.path}/${remoteId}`);
+        if (response.status !== 404) {
+          this.assertOk(response, `DELETE /${resource.path}/${remoteId}`);
+        }
+        delete records[localId];
+        result.pushed.deleted++;
+      }
+    }
+
+    // Photos no longer attached to any action
+    const actions = await storage.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS);
+    const photoIds = new Set(actions.flatMap(action => (action.photos || []).map(photo => photo.id)));
+    for (const [photoId, photo] of Object.entries(state.photos)) {
+      if (photoIds.has(photoId)) continue;
+
+      const response = await transport.request('DELETE', `/photos/${photo.remoteId}`);
+      if (response.status !== 404) {
+        this.assertOk(response, `DELETE /photos/${photo.remoteId}`);
+      }
+      delete state.photos[photoId];
+    }
+  }
+
+  private async pushPhotos(transport: SyncTransport, state: SyncState, result: SyncResult) {
+    const actions = await storage.getAll<TimelineAction>(STORAGE_KEYS.ACTIONS);
+
+    for (const action of actions) {
+      for (const photo of action.photos || []) {
+        if (state.photos[photo.id] || !photo.uri.startsWith('file://')) continue;
+
+        try {
+          const response = await transport.upload('/photos', photo.uri, {
+            client_id: photo.id,
+            action_client_id: action.id,
+          });
+          this.assertOk(response, 'POST /photos');
+          state.photos[photo.id] = { remoteId: String(response.data.id), url: response.data.url };
+          result.photosUploaded++;
+        } catch (error) {
+          // The action is still pushed; the photo is retried next sync
+          result.errors.push(`Photo ${photo.id}: ${error instanceof Error ? error.message : 'upload failed'}`);
+        }
+      }
+    }
+  }
+
+  private async pushChanges(transport: SyncTransport, state: SyncState, result: SyncResult) {
+    const synced: Array<{ key: string; item: SyncModel }> = [];
+
+    for (const resource of SYNC_RESOURCES) {
+      const records = this.getStateRecords(state, resource.key);
+      const dirtyItems = (await storage.getAll<SyncModel>(resource.key)).filter(item => this.isDirty(item));
+
+      for (const item of dirtyItems) {
+        try {
+          const body = { [resource.param]: this.toRemote(item, state) };
+          let response = item.remoteId
+            ? await transport.request('PATCH', `/${resource.path}/${item.remoteId}`, body)
+            : await transport.request('POST', `/${resource.path}`, body);
+
+          // Deleted on the server since the last sync: create it again
+          if (item.remoteId && response.status === 404) {
+            response = await transport.request('POST', `/${resource.path}`, body);
+          }
+
+          if (response.status === 409) {
+            // Server copy is newer
+            const { item: remoteItem } = this.fromRemote(response.data.record);
+            synced.push({ key: resource.key, item: { ...remoteItem, syncedAt: this.syncedAtFor(remoteItem) } });
+            records[item.id] = remoteItem.remoteId!;
+            result.conflicts++;
+            continue;
+          }
+
+          this.assertOk(response, `${item.remoteId ? 'PATCH' : 'POST'} /${resource.path}`);
+          const remoteId = String(response.data.id);
+          synced.push({ key: resource.key, item: { ...item, remoteId, syncedAt: this.syncedAtFor(item) } });
+          records[item.id] = remoteId;
+          if (item.remoteId) {
+            result.pushed.updated++;
+          } else {
+            result.pushed.created++;
+          }
+        } catch (error) {
+          result.errors.push(`${resource.param} ${item.id}: ${error instanceof Error ? error.message : 'push failed'}`);
+        }
+      }
+    }
+
+    if (synced.length === 0) return;
+
+    // Mark pushed records as synced without touching updatedAt
+    await storage.transaction(async tx => {
+      for (const { key, item } of synced) {
+        const current = await tx.get<SyncModel>(key, item.id);
+        // Skip records edited locally while the request was in flight
+        if (current && new Date(current.updatedAt).getTime() > new Date(item.updatedAt).getTime()) continue;
+        tx.put<SyncModel>(key, item);
+      }
+    });
+  }
+
+  // Serialization
+  private toRemote(item: SyncModel, state: SyncState): Record<string, any> {
+    const { id, remoteId, syncedAt, ...fields } = item as SyncModel & Record<string, any>;
+    const data: Record<string, any> = { ...fields, clientId: id };
+
+    if (Array.isArray(data.photos)) {
+      data.photos = (data.photos as Photo[]).map(photo => ({
+        ...photo,
+        uri: state.photos[photo.id]?.url || photo.uri,
+        remoteId: state.photos[photo.id]?.remoteId,
+        thumbnailUri: undefined,
+      }));
+    }
+
+    return this.convertKeys(JSON.parse(JSON.stringify(data)), this.toSnakeCase);
+  }
+
+  private fromRemote(record: any): { item: SyncModel; deletedAt: Date | null } {
+    const { id, clientId, deletedAt, ...fields } = this.convertKeys(record, this.toCamelCase);
+    const item: Record<string, any> = { ...fields, id: clientId, remoteId: String(id) };
+
+    DATE_FIELDS.forEach(field => {
+      if (item[field]) item[field] = new Date(item[field]);
+    });
+
+    return { item: item as SyncModel, deletedAt: deletedAt ? new Date(deletedAt) : null };
+  }
+
+  // Takes a raw (snake_case) photo from a pulled action
+  private async downloadPhoto(photo: any, state: SyncState): Promise<any> {
+    const { remote_id: remoteId, ...localPhoto } = photo;
+    const url: string = photo.uri;
+    if (!url || !/^https?:\/\//.test(url)) return localPhoto;
+
+    const photoDir = `${FileSystem.documentDirectory}${PHOTO_DIR}`;
+    const localUri = `${photoDir}${photo.id}.jpg`;
+
+    try {
+      const info = await FileSystem.getInfoAsync(localUri);
+      if (!info.exists) {
+        await FileSystem.makeDirectoryAsync(photoDir, { intermediates: true });
+        await FileSystem.downloadAsync(url, localUri);
+      }
+      if (remoteId) {
+        state.photos[photo.id] = { remoteId: String(remoteId), url };
+      }
+      return { ...localPhoto, uri: localUri };
+    } catch (error) {
+      console.error('Photo download failed:', error);
+      return localPhoto;
+    }
+  }
+
+  private convertKeys(value: any, convert: (key: string) => string): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.convertKeys(item, convert));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [convert(key), this.convertKeys(item, convert)])
+      );
+    }
+    return value;
+  }
+
+  private toSnakeCase(key: string): string {
+    return key.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+  }
+
+  private toCamelCase(key: string): string {
+    return key.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+  }
+
+  // Helpers
+  private isDirty(item: SyncModel): boolean {
+    return !item.syncedAt || new Date(item.updatedAt).getTime() > new Date(item.syncedAt).getTime();
+  }
+
+  // Never earlier than updatedAt, so a skewed server clock cannot leave a record dirty
+  private syncedAtFor(item: SyncModel): Date {
+    return new Date(Math.max(Date.now(), new Date(item.updatedAt).getTime()));
+  }
+
+  private assertOk(response: SyncResponse, request: string) {
+    if (response.status < 200 || response.status >= 300) {
+      throw new SyncError(`${request} failed with status ${response.status}`, response.status);
+    }
+  }
+
+  private async getTransport(): Promise<SyncTransport> {
+    if (this.transport) return this.transport;
+
+    const config = await this.getConfig();
+    if (!config?.baseUrl) {
+      throw new SyncError('Sync server is not configured');
+    }
+    this.transport = new FetchTransport(config);
+    return this.transport;
+  }
+
+  private getStateRecords(state: SyncState, key: string): Record<string, string> {
+    if (!state.records[key]) state.records[key] = {};
+    return state.records[key];
+  }
+
+  private async loadState(): Promise<SyncState> {
+    const jsonData = await AsyncStorage.getItem(SYNC_STATE_KEY);
+    return jsonData ? JSON.parse(jsonData) : { records: {}, photos: {} };
+  }
+
+  private async saveState(state: SyncState): Promise<void> {
+    await AsyncStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+  }
+}
+
+export const syncService = SyncService.getInstance();
@@ -79,6 +79,7 @@ export interface Visit extends BaseModel {
   weather?: 'SUNNY' | 'CLOUDY' | 'RAINY' | 'SNOWY';
   startTime?: Date;
   endTime?: Date;
+  ticketPrice?: number; // Price paid for the pass, in yen
   // Cached values for performance
   actionCount?: number;
   totalPhotoCount?: number;
@@ -91,8 +92,31 @@ export interface Photo {
   thumbnailUri?: string;
   width?: number;
   height?: number;
-  takenAt?: Date;
+  takenAt?: Date; // From EXIF DateTimeOriginal
+  location?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+  };
   caption?: string;
+  isFavorite?: boolean;
+  // 64-bit difference hash of the current file, for finding duplicates
+  perceptualHash?: string;
+  // Set once the photo is edited; the unedited file is kept for undo
+  originalUri?: string;
+  editHistory?: PhotoEdit[];
+}
+
+// One edit applied to a photo
+export interface PhotoEdit {
+  id: string;
+  type: 'crop' | 'filter' | 'brightness' | 'contrast' | 'saturation' | 'rotation' | 'compress';
+  params: any;
+  timestamp: Date;
+  uri?: string; // File produced by this edit
+  // Photo size before this edit, restored when it is undone
+  previousWidth?: number;
+  previousHeight?: number;
 }
 
 // Timeline action model
@@ -107,9 +131,9 @@ export interface TimelineAction extends BaseModel {
   waitTime?: number; // Wait time in minutes (for attractions)
   notes?: string;
   photos: Photo[];
-  // For shopping actions
+  // For shopping and restaurant actions (yen)
   purchaseAmount?: number;
-  purchasedItems?: string[];
+  purchasedItems?: PurchasedItem[];
   // For restaurant actions
   mealType?: 'BREAKFAST' | 'LUNCH' | 'DINNER' | 'SNACK';
   // For show/greeting actions
@@ -121,12 +145,22 @@ export interface TimelineAction extends BaseModel {
   sortOrder?: number;
 }
 
+// One line of a shopping or restaurant receipt
+export interface PurchasedItem {
+  name: string;
+  price?: number; // In yen
+}
+
 // Analytics data types
 export interface VisitStats {
   totalVisits: number;
   landVisits: number;
   seaVisits: number;
-  averageVisitDuration?: number;
+  averageVisitDuration?: number; // in minutes
+  measuredVisitCount?: number; // Visits with a known entry and exit
+  averageEntryTime?: number; // Minutes after midnight
+  averageExitTime?: number; // Minutes after midnight
+  averageIdleTime?: number; // in minutes, per measured visit
   favoriteCompanions: Array<{
     companion: Companion;
     visitCount: number;
@@ -162,15 +196,87 @@ export interface ActionStats {
   photoCount: number;
 }
 
+export interface SpendingStats {
+  totalSpend: number; // In yen, tickets included
+  ticketSpend: number;
+  averagePerVisit: number;
+  spendByCategory: Array<{
+    category: ActionCategory;
+    amount: number;
+  }>;
+  spendByArea: Array<{
+    area: ParkArea;
+    amount: number;
+  }>;
+  spendByCompanion: Array<{
+    companion: Companion;
+    amount: number; // Total of the visits shared with this companion
+  }>;
+  spendByMonth: Array<{
+    month: string; // YYYY-MM format
+    amount: number;
+  }>;
+}
+
+// Average wait in minutes over a group of recorded waits
+export interface WaitTimeAverage {
+  average: number;
+  count: number;
+}
+
+// One recorded wait, for personal bests and worsts
+export interface WaitTimeRecord {
+  waitTime: number;
+  date: Date; // Visit date
+  actionId: string;
+}
+
+export interface WaitTimeStats {
+  totalRecords: number;
+  averageWaitTime: number;
+  byAttraction: Array<WaitTimeAverage & {
+    locationName: string;
+    median: number;
+    shortest: WaitTimeRecord; // Personal best
+    longest: WaitTimeRecord; // Personal worst
+  }>;
+  byHour: Array<WaitTimeAverage & {
+    hour: number; // 0-23, time the action was recorded
+  }>;
+  byDayType: Array<WaitTimeAverage & {
+    dayType: 'WEEKDAY' | 'WEEKEND';
+  }>;
+  byMonth: Array<WaitTimeAverage & {
+    month: number; // 1-12, across all years
+  }>;
+  byWeather: Array<WaitTimeAverage & {
+    weather: NonNullable<Visit['weather']>;
+  }>;
+  trend: Array<WaitTimeAverage & {
+    month: string; // YYYY-MM format
+  }>;
+}
+
 export interface CompanionStats {
   companion: Companion;
   visitCount: number;
+  firstVisitDate: Date;
   lastVisitDate: Date;
+  landVisits: number;
+  seaVisits: number;
   favoriteAreas: ParkArea[];
   commonActivities: Array<{
     category: ActionCategory;
     count: number;
   }>;
+  favoriteAttractions: Array<{
+    locationName: string;
+    count: number;
+  }>;
+  visitsByYear: Array<{
+    year: number;
+    count: number;
+  }>;
 }
 
 // Date range for analytics queries
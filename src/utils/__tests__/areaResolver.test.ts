@@ -0,0 +1,55 @@
+import { getParkTypeForArea, isPointInPolygon, resolveParkArea } from '../areaResolver';
+import { GeofencePoint } from '../../constants/parkGeofences';
+import { LandArea, ParkType, SeaArea } from '../../types/models';
+
+describe('isPointInPolygon', () => {
+  const square: GeofencePoint[] = [[1, 0], [1, 1], [0, 1], [0, 0]];
+
+  it('tells points inside from points outside', () => {
+    expect(isPointInPolygon({ latitude: 0.5, longitude: 0.5 }, square)).toBe(true);
+    expect(isPointInPolygon({ latitude: 1.5, longitude: 0.5 }, square)).toBe(false);
+  });
+});
+
+describe('resolveParkArea', () => {
+  it('resolves points well inside an area exactly', () => {
+    expect(resolveParkArea({ latitude: 35.63475, longitude: 139.8815 })).toEqual({
+      parkType: ParkType.LAND,
+      area: LandArea.WORLD_BAZAAR,
+      exact: true,
+    });
+    expect(resolveParkArea({ latitude: 35.6255, longitude: 139.8857 })).toEqual({
+      parkType: ParkType.SEA,
+      area: SeaArea.MYSTERIOUS_ISLAND,
+      exact: true,
+    });
+  });
+
+  it('marks points near the edge between two areas as a guess', () => {
+    // 10 m inside World Bazaar from its border with Fantasyland
+    expect(resolveParkArea({ latitude: 35.6336, longitude: 139.8815 })).toEqual({
+      parkType: ParkType.LAND,
+      area: LandArea.WORLD_BAZAAR,
+      exact: false,
+    });
+  });
+
+  it('snaps points just outside the parks to the closest area', () => {
+    expect(resolveParkArea({ latitude: 35.6365, longitude: 139.8815 })).toEqual({
+      parkType: ParkType.LAND,
+      area: LandArea.WORLD_BAZAAR,
+      exact: false,
+    });
+  });
+
+  it('returns null far from both parks', () => {
+    expect(resolveParkArea({ latitude: 35.6812, longitude: 139.7671 })).toBeNull();
+  });
+});
+
+describe('getParkTypeForArea', () => {
+  it('identifies the park from the area alone', () => {
+    expect(getParkTypeForArea(SeaArea.ARABIAN_COAST)).toBe(ParkType.SEA);
+    expect(getParkTypeForArea(LandArea.TOONTOWN)).toBe(ParkType.LAND);
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  applyColorMatrix,
+  brightnessMatrix,
+  buildColorMatrix,
+  contrastMatrix,
+  IDENTITY_MATRIX,
+  ColorMatrix,
+  RgbaImage,
+  saturationMatrix,
+} from '../colorMatrix';
+import { decodePng, encodePng } from '../png';
+import { PHOTO_FILTERS } from '../../services/photoService';
+
+// 2x2: red, green, half-transparent blue, and a mixed colour
+const PIXELS = [
+  255, 0, 0, 255,
+  0, 255, 0, 255,
+  0, 0, 255, 128,
+  100, 150, 200, 255,
+];
+
+const createImage = (): RgbaImage => ({
+  width: 2,
+  height: 2,
+  data: new Uint8ClampedArray(PIXELS),
+});
+
+const getFilterMatrix = (id: string): ColorMatrix =>
+  PHOTO_FILTERS.find(filter => filter.id === id)!.matrix;
+
+// Encode, decode, filter, then encode and decode the result like the photo service does
+const renderThroughPng = (matrix: ColorMatrix): number[] => {
+  const decoded = decodePng(encodePng(createImage()));
+  const filtered = applyColorMatrix(decoded, matrix);
+  const result = decodePng(encodePng(filtered));
+
+  expect(result.width).toBe(2);
+  expect(result.height).toBe(2);
+  return Array.from(result.data);
+};
+
+describe('PNG codec', () => {
+  it('round-trips RGBA pixels', () => {
+    const result = decodePng(encodePng(createImage()));
+
+    expect(result.width).toBe(2);
+    expect(result.height).toBe(2);
+    expect(Array.from(result.data)).toEqual(PIXELS);
+  });
+
+  it('round-trips a 4x4 image', () => {
+    const data = new Uint8ClampedArray(4 * 4 * 4).map((_, index) => (index * 37) % 256);
+    const result = decodePng(encodePng({ width: 4, height: 4, data }));
+
+    expect(Array.from(result.data)).toEqual(Array.from(data));
+  });
+});
+
+describe('colour matrices', () => {
+  it('leaves pixels unchanged with the identity matrix', () => {
+    expect(renderThroughPng(IDENTITY_MATRIX)).toEqual(PIXELS);
+    expect(renderThroughPng(buildColorMatrix({}))).toEqual(PIXELS);
+  });
+
+  it('applies the grayscale filter', () => {
+    expect(renderThroughPng(getFilterMatrix('grayscale'))).toEqual([
+      76, 76, 76, 255,
+      150, 150, 150, 255,
+      29, 29, 29, 128,
+      141, 141, 141, 255,
+    ]);
+  });
+
+  it('applies the sepia filter', () => {
+    expect(renderThroughPng(getFilterMatrix('sepia'))).toEqual([
+      100, 89, 69, 255,
+      196, 175, 136, 255,
+      48, 43, 33, 128,
+      192, 171, 134, 255,
+    ]);
+  });
+
+  it('shifts every channel by half the slider value for brightness', () => {
+    expect(renderThroughPng(brightnessMatrix(0.5))).toEqual([
+      255, 64, 64, 255,
+      64, 255, 64, 255,
+      64, 64, 255, 128,
+      164, 214, 255, 255,
+    ]);
+
+    // Full brightness adds 0.5; it does not turn the image white
+    expect(renderThroughPng(brightnessMatrix(1)).slice(12)).toEqual([228, 255, 255, 255]);
+    expect(renderThroughPng(brightnessMatrix(-1)).slice(12)).toEqual([0, 22, 72, 255]);
+  });
+
+  it('scales around mid-grey for contrast', () => {
+    expect(renderThroughPng(contrastMatrix(0.5))).toEqual([
+      255, 0, 0, 255,
+      0, 255, 0, 255,
+      0, 0, 255, 128,
+      86, 161, 236, 255,
+    ]);
+
+    // -1 flattens everything to mid-grey
+    expect(renderThroughPng(contrastMatrix(-1)).slice(12)).toEqual([128, 128, 128, 255]);
+  });
+
+  it('blends with luminance for saturation', () => {
+    // -1 is the same as the grayscale filter
+    expect(renderThroughPng(saturationMatrix(-1))).toEqual(renderThroughPng(getFilterMatrix('grayscale')));
+
+    expect(renderThroughPng(saturationMatrix(1)).slice(12)).toEqual([59, 159, 255, 255]);
+  });
+
+  it('combines a filter with the adjustments into one matrix', () => {
+    const combined = buildColorMatrix({ brightness: 0.5, contrast: 0.5 }, getFilterMatrix('grayscale'));
+    const stepByStep = [brightnessMatrix(0.5), contrastMatrix(0.5)].reduce(
+      (image, matrix) => applyColorMatrix(image, matrix),
+      applyColorMatrix(createImage(), getFilterMatrix('grayscale'))
+    );
+
+    Array.from(applyColorMatrix(createImage(), combined).data).forEach((value, index) => {
+      // The combined matrix skips the intermediate rounding
+      expect(Math.abs(value - stepByStep.data[index])).toBeLessThanOrEqual(1);
+    });
+  });
+});
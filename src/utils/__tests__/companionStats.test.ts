@@ -0,0 +1,78 @@
+import { calculateCompanionStats, getDaysSince, getSharedVisits } from '../companionStats';
+import {
+  ActionCategory,
+  Companion,
+  LandArea,
+  ParkArea,
+  ParkType,
+  SeaArea,
+  TimelineAction,
+  Visit,
+} from '../../types/models';
+
+const companion = { id: 'c1', name: 'Minnie', visitIds: [] } as unknown as Companion;
+
+const visit = (id: string, date: string, parkType: ParkType, companionIds: string[]) =>
+  ({ id, date: new Date(`${date}T00:00:00`), parkType, companionIds } as unknown as Visit);
+
+let nextId = 0;
+const action = (visitId: string, category: ActionCategory, area: ParkArea, locationName?: string) =>
+  ({ id: `a${++nextId}`, visitId, category, area, locationName, time: new Date(), photos: [] } as unknown as TimelineAction);
+
+describe('calculateCompanionStats', () => {
+  const visits = [
+    visit('v1', '2023-12-30', ParkType.LAND, ['c1']),
+    visit('v2', '2024-05-01', ParkType.SEA, ['c1', 'c2']),
+    visit('v3', '2024-06-01', ParkType.LAND, ['c2']),
+    visit('v4', '2024-08-10', ParkType.LAND, ['c1']),
+  ];
+  const actions = [
+    action('v1', ActionCategory.ATTRACTION, LandArea.TOMORROWLAND, 'Space Mountain'),
+    action('v4', ActionCategory.ATTRACTION, LandArea.TOMORROWLAND, 'Space Mountain'),
+    action('v4', ActionCategory.ATTRACTION, LandArea.FANTASYLAND, 'Pooh\'s Hunny Hunt'),
+    action('v4', ActionCategory.RESTAURANT, LandArea.WORLD_BAZAAR),
+    action('v2', ActionCategory.RESTAURANT, SeaArea.MEDITERRANEAN_HARBOR),
+    action('v1', ActionCategory.CUSTOM, LandArea.ADVENTURELAND),
+    action('v1', ActionCategory.CUSTOM, LandArea.ADVENTURELAND),
+    action('v3', ActionCategory.ATTRACTION, LandArea.TOMORROWLAND, 'Space Mountain'),
+  ];
+
+  it('returns null before the first shared visit', () => {
+    expect(calculateCompanionStats({ ...companion, id: 'c3' }, visits, actions)).toBeNull();
+  });
+
+  it('counts only visits listing the companion, newest first', () => {
+    const stats = calculateCompanionStats(companion, visits, actions)!;
+
+    expect(getSharedVisits(companion, visits).map(shared => shared.id)).toEqual(['v4', 'v2', 'v1']);
+    expect(stats).toMatchObject({ visitCount: 3, landVisits: 2, seaVisits: 1 });
+    expect(stats.firstVisitDate).toEqual(visits[0].date);
+    expect(stats.lastVisitDate).toEqual(visits[3].date);
+    expect(stats.visitsByYear).toEqual([{ year: 2023, count: 1 }, { year: 2024, count: 2 }]);
+  });
+
+  it('ranks areas, activities and attractions of shared visits without custom actions', () => {
+    const stats = calculateCompanionStats(companion, visits, actions)!;
+
+    // Ties keep the order the actions were recorded in
+    expect(stats.favoriteAreas).toEqual([LandArea.TOMORROWLAND, LandArea.FANTASYLAND, LandArea.WORLD_BAZAAR]);
+    expect(stats.commonActivities).toEqual([
+      { category: ActionCategory.ATTRACTION, count: 3 },
+      { category: ActionCategory.RESTAURANT, count: 2 },
+    ]);
+    expect(stats.favoriteAttractions).toEqual([
+      { locationName: 'Space Mountain', count: 2 },
+      { locationName: 'Pooh\'s Hunny Hunt', count: 1 },
+    ]);
+  });
+});
+
+describe('getDaysSince', () => {
+  it('counts calendar days regardless of the time of day', () => {
+    const now = new Date('2024-05-03T08:00:00');
+
+    expect(getDaysSince(new Date('2024-05-01T23:30:00'), now)).toBe(2);
+    expect(getDaysSince(new Date('2024-05-03T22:00:00'), now)).toBe(0);
+    expect(getDaysSince(new Date('2024-05-10T00:00:00'), now)).toBe(0);
+  });
+});
@@ -0,0 +1,167 @@
+import { readExif } from '../exif';
+
+// Minimal TIFF writer for the fixtures: IFD0 with pointers to the Exif and GPS IFDs
+interface Entry {
+  tag: number;
+  type: 1 | 2 | 3 | 4 | 5; // BYTE, ASCII, SHORT, LONG, RATIONAL (numerator/denominator pairs)
+  value: string | number[];
+}
+
+const VALUE_SIZES = { 1: 1, 3: 2, 4: 4, 5: 4 } as const;
+
+const encodeValue = (entry: Entry, little: boolean): Uint8Array => {
+  if (entry.type === 2) return Uint8Array.from(Buffer.from(`${entry.value}\0`, 'latin1'));
+
+  const values = entry.value as number[];
+  const size = VALUE_SIZES[entry.type];
+  const bytes = new Uint8Array(values.length * size);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, index) => {
+    if (size === 1) view.setUint8(index, value);
+    else if (size === 2) view.setUint16(index * 2, value, little);
+    else view.setUint32(index * 4, value, little);
+  });
+  return bytes;
+};
+
+const valueCount = (entry: Entry, encoded: Uint8Array): number =>
+  entry.type === 2 ? encoded.length : entry.type === 5 ? encoded.length / 8 : (entry.value as number[]).length;
+
+const ifdSize = (entries: Entry[]): number =>
+  2 + entries.length * 12 + 4 + entries.reduce((sum, entry) => {
+    const length = encodeValue(entry, false).length;
+    return sum + (length > 4 ? length : 0);
+  }, 0);
+
+const buildTiff = (ifd0: Entry[], exif: Entry[], gps: Entry[], little = false): Uint8Array => {
+  const pointer = (tag: number, offset: number): Entry => ({ tag, type: 4, value: [offset] });
+  const exifOffset = 8 + ifdSize([...ifd0, pointer(0x8769, 0), pointer(0x8825, 0)]);
+  const gpsOffset = exifOffset + ifdSize(exif);
+  const ifds = [[...ifd0, pointer(0x8769, exifOffset), pointer(0x8825, gpsOffset)], exif, gps];
+
+  const bytes = new Uint8Array(gpsOffset + ifdSize(gps));
+  const view = new DataView(bytes.buffer);
+  bytes.set(Buffer.from(little ? 'II' : 'MM', 'latin1'));
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+
+  let offset = 8;
+  for (const entries of ifds) {
+    view.setUint16(offset, entries.length, little);
+    let dataOffset = offset + 2 + entries.length * 12 + 4;
+    entries.forEach((entry, index) => {
+      const at = offset + 2 + index * 12;
+      const encoded = encodeValue(entry, little);
+      view.setUint16(at, entry.tag, little);
+      view.setUint16(at + 2, entry.type, little);
+      view.setUint32(at + 4, valueCount(entry, encoded), little);
+      if (encoded.length > 4) {
+        view.setUint32(at + 8, dataOffset, little);
+        bytes.set(encoded, dataOffset);
+        dataOffset += encoded.length;
+      } else {
+        bytes.set(encoded, at + 8);
+      }
+    });
+    offset = dataOffset;
+  }
+  return bytes;
+};
+
+const concat = (...parts: Array<Uint8Array | number[]>): Uint8Array =>
+  Uint8Array.from(parts.flatMap(part => Array.from(part)));
+
+const uint = (value: number, size: number): number[] =>
+  Array.from({ length: size }, (_, index) => (value >>> (8 * (size - 1 - index))) & 0xff);
+
+const text = (value: string): number[] => Array.from(Buffer.from(value, 'latin1'));
+
+const box = (type: string, ...payload: Array<Uint8Array | number[]>): Uint8Array => {
+  const body = concat(...payload);
+  return concat(uint(8 + body.length, 4), text(type), body);
+};
+
+const readerFor = (file: Uint8Array) => async (position: number, length: number) =>
+  file.subarray(position, position + length);
+
+// 35°37'57.6"N 139°52'48"E, 5 m below sea level, taken at 10:15 in Japan
+const IFD0: Entry[] = [
+  { tag: 0x010f, type: 2, value: 'Apple' },
+  { tag: 0x0110, type: 2, value: 'iPhone 15' },
+  { tag: 0x0112, type: 3, value: [6] },
+];
+const EXIF_IFD: Entry[] = [
+  { tag: 0x9003, type: 2, value: '2024:05:03 10:15:00' },
+  { tag: 0x9011, type: 2, value: '+09:00' },
+  { tag: 0x829d, type: 5, value: [18, 10] },
+  { tag: 0x8827, type: 3, value: [64] },
+  { tag: 0x9209, type: 3, value: [16] },
+];
+const GPS_IFD: Entry[] = [
+  { tag: 0x0001, type: 2, value: 'N' },
+  { tag: 0x0002, type: 5, value: [35, 1, 37, 1, 576, 10] },
+  { tag: 0x0003, type: 2, value: 'E' },
+  { tag: 0x0004, type: 5, value: [139, 1, 52, 1, 48, 1] },
+  { tag: 0x0005, type: 1, value: [1] },
+  { tag: 0x0006, type: 5, value: [5, 1] },
+];
+
+const jpegWith = (tiff: Uint8Array): Uint8Array => {
+  const app0 = concat([0xff, 0xe0], uint(16, 2), text('JFIF\0'), new Array(9).fill(0));
+  const app1 = concat([0xff, 0xe1], uint(2 + 6 + tiff.length, 2), text('Exif\0\0'), tiff);
+  return concat([0xff, 0xd8], app0, app1, [0xff, 0xda, 0, 2]);
+};
+
+const heicWith = (tiff: Uint8Array): Uint8Array => {
+  const ftyp = box('ftyp', text('heic'), uint(0, 4), text('mif1heic'));
+  const infe = (id: number, type: string) => box('infe', [2, 0, 0, 0], uint(id, 2), uint(0, 2), text(type), [0]);
+  const iinf = box('iinf', [0, 0, 0, 0], uint(2, 2), infe(1, 'hvc1'), infe(2, 'Exif'));
+  // Version 1, 4-byte offsets and lengths, no base offset or index
+  const iloc = (exifOffset: number, exifLength: number) => box(
+    'iloc', [1, 0, 0, 0], [0x44, 0x00], uint(2, 2),
+    uint(1, 2), uint(0, 2), uint(0, 2), uint(1, 2), uint(0, 4), uint(0, 4),
+    uint(2, 2), uint(0, 2), uint(0, 2), uint(1, 2), uint(exifOffset, 4), uint(exifLength, 4)
+  );
+  const item = concat(uint(6, 4), text('Exif\0\0'), tiff);
+
+  const metaFor = (exifOffset: number) => box('meta', [0, 0, 0, 0], iinf, iloc(exifOffset, item.length));
+  const exifOffset = ftyp.length + metaFor(0).length + 8;
+  return concat(ftyp, metaFor(exifOffset), box('mdat', item));
+};
+
+describe('readExif', () => {
+  it('reads camera, capture time with its offset, and GPS from a JPEG APP1 segment', async () => {
+    const exif = await readExif(readerFor(jpegWith(buildTiff(IFD0, EXIF_IFD, GPS_IFD))));
+
+    expect(exif).toMatchObject({ make: 'Apple', model: 'iPhone 15', orientation: 6, iso: 64, aperture: 1.8, flash: false });
+    expect(exif!.takenAt).toEqual(new Date('2024-05-03T01:15:00.000Z'));
+    expect(exif!.gps!.latitude).toBeCloseTo(35 + 37 / 60 + 57.6 / 3600, 6);
+    expect(exif!.gps!.longitude).toBeCloseTo(139 + 52 / 60 + 48 / 3600, 6);
+    expect(exif!.gps!.altitude).toBe(-5);
+  });
+
+  it('reads little-endian TIFF and treats a time without offset as local time', async () => {
+    const tiff = buildTiff(IFD0, [{ tag: 0x9003, type: 2, value: '2024:05:03 10:15:00' }], [], true);
+
+    const exif = await readExif(readerFor(jpegWith(tiff)));
+
+    expect(exif!.make).toBe('Apple');
+    expect(exif!.takenAt).toEqual(new Date(2024, 4, 3, 10, 15, 0));
+    expect(exif!.gps).toBeUndefined();
+  });
+
+  it('finds the Exif item of a HEIC file through iinf and iloc', async () => {
+    const exif = await readExif(readerFor(heicWith(buildTiff(IFD0, EXIF_IFD, GPS_IFD))));
+
+    expect(exif!.model).toBe('iPhone 15');
+    expect(exif!.takenAt).toEqual(new Date('2024-05-03T01:15:00.000Z'));
+    expect(exif!.gps!.latitude).toBeCloseTo(35.6327, 4);
+  });
+
+  it('returns undefined for files without EXIF', async () => {
+    const jpegWithoutExif = concat([0xff, 0xd8, 0xff, 0xda, 0, 2]);
+
+    expect(await readExif(readerFor(jpegWithoutExif))).toBeUndefined();
+    expect(await readExif(readerFor(Uint8Array.from(text('not an image'))))).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+import { validateExportData, formatRecordError } from '../importValidation';
+import validExport from './fixtures/valid-export.json';
+import malformedDates from './fixtures/malformed-dates.json';
+import unknownEnums from './fixtures/unknown-enums.json';
+import wrongParkArea from './fixtures/wrong-park-area.json';
+
+const paths = (result: ReturnType<typeof validateExportData>) => result.errors.map(error => error.path);
+
+describe('validateExportData', () => {
+  it('accepts a valid export as is', () => {
+    const result = validateExportData(validExport);
+
+    expect(result.isValid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.validData).toEqual(validExport);
+    expect(result.skipped).toEqual({ visits: 0, companions: 0, actions: 0 });
+  });
+
+  it('rejects files that are not exports', () => {
+    expect(validateExportData(null).isValid).toBe(false);
+    expect(validateExportData([]).isValid).toBe(false);
+
+    const result = validateExportData({ version: '1.0.0', visits: [] });
+    expect(result.isValid).toBe(false);
+    expect(paths(result)).toEqual(['companions', 'actions', 'metadata']);
+  });
+
+  it('reports malformed dates with the path of the record', () => {
+    const result = validateExportData(malformedDates);
+
+    expect(result.isValid).toBe(true);
+    expect(result.errors).toEqual([
+      { path: 'companions[0].createdAt', message: 'Invalid date: null' },
+      { path: 'visits[0].date', message: 'Invalid date: 2024-13-45' },
+      { path: 'actions[1].time', message: 'Invalid date: lunchtime' },
+    ]);
+    expect(formatRecordError(result.errors[1])).toBe('visits[0].date: Invalid date: 2024-13-45');
+  });
+
+  it('reports unknown ActionCategory, ParkType and PassType values', () => {
+    const result = validateExportData(unknownEnums);
+
+    expect(result.errors).toEqual([
+      { path: 'visits[0].parkType', message: 'Unknown value: STUDIOS' },
+      { path: 'visits[1].passType', message: 'Unknown value: ANNUAL' },
+      { path: 'actions[0].category', message: 'Unknown value: PARADE' },
+    ]);
+  });
+
+  it('rejects an area that belongs to the other park', () => {
+    const result = validateExportData(wrongParkArea);
+
+    expect(result.errors).toEqual([
+      { path: 'actions[1].area', message: 'Area ファンタジーランド is not in park SEA' },
+    ]);
+  });
+
+  it('keeps only the valid subset of records', () => {
+    const result = validateExportData(malformedDates);
+
+    expect(result.validData).toEqual({
+      ...malformedDates,
+      visits: [malformedDates.visits[1]],
+      companions: [],
+      actions: [malformedDates.actions[0]],
+    });
+    expect(result.skipped).toEqual({ visits: 1, companions: 1, actions: 1 });
+  });
+
+  it('does not check the area of actions whose visit was skipped', () => {
+    const result = validateExportData(unknownEnums);
+
+    expect(result.validData.visits).toEqual([]);
+    expect(result.validData.actions.map(action => action.id)).toEqual(['a2']);
+    expect(result.skipped).toEqual({ visits: 2, companions: 0, actions: 1 });
+  });
+});
@@ -0,0 +1,62 @@
+import { assignPhotosToActions, groupAssignmentsByAction } from '../photoAssignment';
+import { Photo, TimelineAction } from '../../types/models';
+
+const at = (time: string) => new Date(`2024-05-01T${time}:00`);
+
+const action = (id: string, time: string, duration?: number) =>
+  ({ id, time: at(time), duration, photos: [] } as unknown as TimelineAction);
+
+const photo = (id: string, time?: string): Photo => ({
+  id,
+  uri: `file:///photos/${id}.jpg`,
+  takenAt: time ? at(time) : undefined,
+});
+
+describe('assignPhotosToActions', () => {
+  const actions = [
+    action('coaster', '10:00', 30),
+    action('lunch', '12:00', 60),
+    action('parade', '12:30', 30), // Overlaps the end of lunch
+  ];
+
+  it('assigns photos taken during an action to it', () => {
+    const [assignment] = assignPhotosToActions([photo('p1', '10:20')], actions);
+
+    expect(assignment).toMatchObject({ actionId: 'coaster', match: 'window', distanceMinutes: 0 });
+  });
+
+  it('prefers the action that started most recently when windows overlap', () => {
+    const [assignment] = assignPhotosToActions([photo('p1', '12:45')], actions);
+
+    expect(assignment).toMatchObject({ actionId: 'parade', match: 'window' });
+  });
+
+  it('falls back to the nearest action window with its distance', () => {
+    const [before, between] = assignPhotosToActions([photo('p1', '09:40'), photo('p2', '11:50')], actions);
+
+    expect(before).toMatchObject({ actionId: 'coaster', match: 'nearest', distanceMinutes: 20 });
+    expect(between).toMatchObject({ actionId: 'lunch', match: 'nearest', distanceMinutes: 10 });
+  });
+
+  it('leaves photos without a capture time or actions unassigned', () => {
+    const [withoutTime] = assignPhotosToActions([photo('p1')], actions);
+    const [withoutActions] = assignPhotosToActions([photo('p2', '10:00')], []);
+
+    expect(withoutTime.match).toBe('none');
+    expect(withoutTime.actionId).toBeUndefined();
+    expect(withoutActions.match).toBe('none');
+  });
+});
+
+describe('groupAssignmentsByAction', () => {
+  it('groups photos by action, oldest first, and skips unassigned ones', () => {
+    const groups = groupAssignmentsByAction([
+      { photo: photo('late', '10:25'), actionId: 'coaster', match: 'window' },
+      { photo: photo('early', '10:05'), actionId: 'coaster', match: 'manual' },
+      { photo: photo('none'), match: 'none' },
+    ]);
+
+    expect(Object.keys(groups)).toEqual(['coaster']);
+    expect(groups.coaster.map(p => p.id)).toEqual(['early', 'late']);
+  });
+});
@@ -0,0 +1,83 @@
+import { calculateSpendingStats, getActionSpend, getVisitSpend, getYearSpend, parseYen } from '../spending';
+import { ActionCategory, Companion, LandArea, ParkType, TimelineAction, Visit } from '../../types/models';
+
+const visit = (id: string, date: string, ticketPrice?: number, companionIds: string[] = []) =>
+  ({ id, date: new Date(date), parkType: ParkType.LAND, companionIds, ticketPrice } as unknown as Visit);
+
+const action = (visitId: string, category: ActionCategory, fields: Partial<TimelineAction> = {}) =>
+  ({ id: `${visitId}-${category}`, visitId, category, area: LandArea.WORLD_BAZAAR, time: new Date(), photos: [], ...fields } as TimelineAction);
+
+describe('parseYen', () => {
+  it('accepts separators, yen signs and suffixes', () => {
+    expect(parseYen('1,200')).toBe(1200);
+    expect(parseYen('¥1200')).toBe(1200);
+    expect(parseYen('1200円')).toBe(1200);
+    expect(parseYen('free')).toBeUndefined();
+  });
+});
+
+describe('getActionSpend', () => {
+  it('uses the entered total over the item breakdown', () => {
+    expect(getActionSpend(action('v1', ActionCategory.SHOPPING, {
+      purchaseAmount: 3000,
+      purchasedItems: [{ name: 'Ears', price: 1800 }],
+    }))).toBe(3000);
+  });
+
+  it('falls back to the item total when no amount was entered', () => {
+    expect(getActionSpend(action('v1', ActionCategory.SHOPPING, {
+      purchasedItems: [{ name: 'Ears', price: 1800 }, { name: 'Pin' }, { name: 'Popcorn', price: 400 }],
+    }))).toBe(2200);
+    expect(getActionSpend(action('v1', ActionCategory.ATTRACTION))).toBe(0);
+  });
+
+  it('keeps an entered total of zero', () => {
+    expect(getActionSpend(action('v1', ActionCategory.RESTAURANT, {
+      purchaseAmount: 0,
+      purchasedItems: [{ name: 'Set', price: 1500 }],
+    }))).toBe(0);
+  });
+});
+
+describe('calculateSpendingStats', () => {
+  const companions = [{ id: 'c1', name: 'Minnie' } as Companion];
+  const visits = [
+    visit('v1', '2024-05-01T10:00:00', 9400, ['c1']),
+    visit('v2', '2024-06-01T10:00:00', 8900),
+  ];
+  const actions = [
+    action('v1', ActionCategory.SHOPPING, { purchasedItems: [{ name: 'Ears', price: 1800 }] }),
+    action('v1', ActionCategory.RESTAURANT, { purchaseAmount: 1500, area: LandArea.TOMORROWLAND }),
+    action('v2', ActionCategory.SHOPPING, { purchaseAmount: 600 }),
+    action('other', ActionCategory.SHOPPING, { purchaseAmount: 99999 }),
+  ];
+
+  it('totals tickets and purchases of the given visits only', () => {
+    const stats = calculateSpendingStats(visits, actions, companions);
+
+    expect(stats.ticketSpend).toBe(18300);
+    expect(stats.totalSpend).toBe(18300 + 1800 + 1500 + 600);
+    expect(stats.averagePerVisit).toBe(stats.totalSpend / 2);
+    expect(stats.spendByCategory).toEqual([
+      { category: ActionCategory.SHOPPING, amount: 2400 },
+      { category: ActionCategory.RESTAURANT, amount: 1500 },
+    ]);
+    expect(stats.spendByArea[0]).toEqual({ area: LandArea.WORLD_BAZAAR, amount: 2400 });
+  });
+
+  it('attributes whole visit totals to companions and months', () => {
+    const stats = calculateSpendingStats(visits, actions, companions);
+
+    expect(stats.spendByCompanion).toEqual([{ companion: companions[0], amount: 9400 + 1800 + 1500 }]);
+    expect(stats.spendByMonth).toEqual([
+      { month: '2024-05', amount: 12700 },
+      { month: '2024-06', amount: 9500 },
+    ]);
+  });
+
+  it('sums a single visit and a calendar year', () => {
+    expect(getVisitSpend(visits[0], actions)).toEqual({ ticket: 9400, purchases: 3300, total: 12700 });
+    expect(getYearSpend(visits, actions, 2024)).toBe(22200);
+    expect(getYearSpend(visits, actions, 2023)).toBe(0);
+  });
+});
@@ -0,0 +1,99 @@
+import { formatDuration, getVisitDuration, getVisitTimeRange } from '../visitDuration';
+import { ActionCategory, LandArea, ParkType, TimelineAction, Visit } from '../../types/models';
+
+const at = (time: string) => new Date(`2024-05-01T${time}:00`);
+
+const visit = (startTime?: string, endTime?: string) =>
+  ({
+    id: 'v1',
+    date: at('00:00'),
+    parkType: ParkType.LAND,
+    companionIds: [],
+    startTime: startTime ? at(startTime) : undefined,
+    endTime: endTime ? at(endTime) : undefined,
+  } as unknown as Visit);
+
+let nextId = 0;
+const action = (time: string, area: LandArea, waitTime?: number, duration?: number, visitId = 'v1') =>
+  ({
+    id: `a${++nextId}`,
+    visitId,
+    category: ActionCategory.ATTRACTION,
+    area,
+    time: at(time),
+    waitTime,
+    duration,
+    photos: [],
+  } as unknown as TimelineAction);
+
+describe('getVisitDuration', () => {
+  const actions = [
+    action('09:30', LandArea.TOMORROWLAND, 20, 10), // 09:10-09:40
+    action('09:50', LandArea.WORLD_BAZAAR, 0, 5), // 09:50-09:55, a 10 minute walk before it
+    action('10:30', LandArea.TOMORROWLAND, 30, 10), // 10:00-10:40
+    action('10:10', LandArea.WORLD_BAZAAR, undefined, 15), // Snack in the queue above
+    action('10:35', LandArea.WORLD_BAZAAR, undefined, 15), // 10:35-10:50, overlaps its end
+    action('11:30', LandArea.ADVENTURELAND, undefined, 10), // 11:30-11:40
+    action('10:00', LandArea.ADVENTURELAND, undefined, 600, 'other'),
+  ];
+
+  it('counts overlapping actions once and only long gaps as idle', () => {
+    const duration = getVisitDuration(visit('09:00', '12:00'), actions);
+
+    expect(duration.range!.source).toBe('explicit');
+    expect(duration.totalMinutes).toBe(180);
+    expect(duration.activeMinutes).toBe(30 + 5 + 40 + 10 + 10);
+    expect(duration.idleGaps).toEqual([
+      { start: at('10:50'), end: at('11:30'), minutes: 40 },
+      { start: at('11:40'), end: at('12:00'), minutes: 20 },
+    ]);
+    expect(duration.idleMinutes).toBe(60);
+  });
+
+  it('totals the time of each area, queues included', () => {
+    expect(getVisitDuration(visit('09:00', '12:00'), actions).areaMinutes).toEqual([
+      { area: LandArea.TOMORROWLAND, minutes: 70 },
+      { area: LandArea.WORLD_BAZAAR, minutes: 35 },
+      { area: LandArea.ADVENTURELAND, minutes: 10 },
+    ]);
+  });
+
+  it('clips actions to the entered entry and exit', () => {
+    const duration = getVisitDuration(visit('10:20', '10:45'), actions);
+
+    expect(duration.totalMinutes).toBe(25);
+    expect(duration.activeMinutes).toBe(25);
+    expect(duration.idleGaps).toEqual([]);
+  });
+
+  it('has no totals when the visit has neither times nor actions', () => {
+    const duration = getVisitDuration(visit(), []);
+
+    expect(duration.range).toBeUndefined();
+    expect(duration.totalMinutes).toBe(0);
+    expect(duration.idleGaps).toEqual([]);
+  });
+});
+
+describe('getVisitTimeRange', () => {
+  const actions = [action('10:00', LandArea.TOMORROWLAND, 30, 10), action('14:00', LandArea.ADVENTURELAND, 0, 20)];
+
+  it('takes the first queue and the last action end from the timeline', () => {
+    expect(getVisitTimeRange(visit(), actions)).toEqual({ start: at('09:30'), end: at('14:20'), source: 'timeline' });
+  });
+
+  it('prefers entered times and marks a partly entered range as mixed', () => {
+    expect(getVisitTimeRange(visit('08:45'), actions)).toEqual({ start: at('08:45'), end: at('14:20'), source: 'mixed' });
+  });
+
+  it('rejects an exit before the entry', () => {
+    expect(getVisitTimeRange(visit('15:00'), actions)).toBeUndefined();
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats hours and minutes', () => {
+    expect(formatDuration(125.4, 'en')).toBe('2h 5m');
+    expect(formatDuration(125.4, 'ja')).toBe('2時間5分');
+  });
+});
@@ -0,0 +1,102 @@
+import { calculateWaitTimeStats } from '../waitTimes';
+import { ActionCategory, LandArea, ParkType, TimelineAction, Visit } from '../../types/models';
+
+// 2024-05-04 is a Saturday, 2024-05-07 a Tuesday
+const visit = (id: string, date: string, weather?: Visit['weather']) =>
+  ({ id, date: new Date(`${date}T00:00:00`), parkType: ParkType.LAND, companionIds: [], weather } as unknown as Visit);
+
+let nextId = 0;
+const ride = (visitId: string, date: string, hour: number, locationName: string, waitTime?: number) =>
+  ({
+    id: `a${++nextId}`,
+    visitId,
+    category: ActionCategory.ATTRACTION,
+    area: LandArea.TOMORROWLAND,
+    locationName,
+    time: new Date(`${date}T${String(hour).padStart(2, '0')}:00:00`),
+    waitTime,
+    photos: [],
+  } as unknown as TimelineAction);
+
+describe('calculateWaitTimeStats', () => {
+  const visits = [visit('sat', '2024-05-04', 'SUNNY'), visit('tue', '2024-05-07'), visit('jun', '2024-06-11', 'RAINY')];
+
+  it('takes the middle value, or the mean of the middle two, as the median', () => {
+    const odd = calculateWaitTimeStats(visits, [
+      ride('sat', '2024-05-04', 10, 'Space Mountain', 90),
+      ride('sat', '2024-05-04', 14, 'Space Mountain', 10),
+      ride('tue', '2024-05-07', 10, 'Space Mountain', 30),
+    ]);
+    const even = calculateWaitTimeStats(visits, [
+      ride('sat', '2024-05-04', 10, 'Space Mountain', 90),
+      ride('sat', '2024-05-04', 14, 'Space Mountain', 10),
+      ride('tue', '2024-05-07', 10, 'Space Mountain', 30),
+      ride('jun', '2024-06-11', 10, 'Space Mountain', 40),
+    ]);
+
+    expect(odd.byAttraction[0]).toMatchObject({ median: 30, average: 130 / 3, count: 3 });
+    expect(even.byAttraction[0]).toMatchObject({ median: 35, average: 42.5, count: 4 });
+  });
+
+  it('keeps the earliest visit when shortest or longest waits tie', () => {
+    const actions = [
+      ride('jun', '2024-06-11', 10, 'Splash Mountain', 20),
+      ride('tue', '2024-05-07', 10, 'Splash Mountain', 60),
+      ride('sat', '2024-05-04', 10, 'Splash Mountain', 20),
+      ride('jun', '2024-06-11', 15, 'Splash Mountain', 60),
+    ];
+
+    const [splash] = calculateWaitTimeStats(visits, actions).byAttraction;
+
+    expect(splash.shortest).toEqual({ waitTime: 20, date: visits[0].date, actionId: actions[2].id });
+    expect(splash.longest).toEqual({ waitTime: 60, date: visits[1].date, actionId: actions[1].id });
+  });
+
+  it('orders attractions by record count, then by average wait', () => {
+    const stats = calculateWaitTimeStats(visits, [
+      ride('sat', '2024-05-04', 10, 'Haunted Mansion', 15),
+      ride('sat', '2024-05-04', 11, 'Pirates', 5),
+      ride('tue', '2024-05-07', 11, 'Pirates', 5),
+      ride('sat', '2024-05-04', 12, 'Big Thunder', 45),
+    ]);
+
+    expect(stats.byAttraction.map(attraction => attraction.locationName))
+      .toEqual(['Pirates', 'Big Thunder', 'Haunted Mansion']);
+  });
+
+  it('skips actions of other visits and without a valid wait', () => {
+    const stats = calculateWaitTimeStats(visits, [
+      ride('sat', '2024-05-04', 10, 'Pirates', 20),
+      ride('sat', '2024-05-04', 11, 'Pirates'),
+      ride('sat', '2024-05-04', 12, 'Pirates', -5),
+      ride('sat', '2024-05-04', 13, 'Pirates', NaN),
+      ride('elsewhere', '2024-05-04', 14, 'Pirates', 120),
+    ]);
+
+    expect(stats.totalRecords).toBe(1);
+    expect(stats.averageWaitTime).toBe(20);
+  });
+
+  it('groups waits by hour, day type, month, weather and month trend', () => {
+    const stats = calculateWaitTimeStats(visits, [
+      ride('sat', '2024-05-04', 10, 'Pirates', 40),
+      ride('tue', '2024-05-07', 10, 'Pirates', 20),
+      ride('jun', '2024-06-11', 18, 'Pirates', 10),
+    ]);
+
+    expect(stats.byHour).toEqual([{ hour: 10, average: 30, count: 2 }, { hour: 18, average: 10, count: 1 }]);
+    expect(stats.byDayType).toEqual([
+      { dayType: 'WEEKDAY', average: 15, count: 2 },
+      { dayType: 'WEEKEND', average: 40, count: 1 },
+    ]);
+    expect(stats.byMonth.map(month => month.month)).toEqual([5, 6]);
+    expect(stats.byWeather).toEqual([
+      { weather: 'SUNNY', average: 40, count: 1 },
+      { weather: 'RAINY', average: 10, count: 1 },
+    ]);
+    expect(stats.trend).toEqual([
+      { month: '2024-05', average: 30, count: 2 },
+      { month: '2024-06', average: 10, count: 1 },
+    ]);
+  });
+});
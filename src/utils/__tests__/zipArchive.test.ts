@@ -0,0 +1,91 @@
+import { ByteHandle, decodeUtf8, encodeUtf8, isZipArchive, ZipReader, ZipWriter } from '../zipArchive';
+
+// Growable in-memory stand-in for an expo-file-system FileHandle
+class MemoryHandle implements ByteHandle {
+  offset: number | null = 0;
+  private bytes: Uint8Array;
+  private length: number;
+
+  constructor(initial: Uint8Array = new Uint8Array(0)) {
+    this.bytes = initial.slice();
+    this.length = initial.length;
+  }
+
+  get size(): number {
+    return this.length;
+  }
+
+  readBytes(length: number): Uint8Array {
+    const start = this.offset || 0;
+    const chunk = this.bytes.slice(start, Math.min(start + length, this.length));
+    this.offset = start + chunk.length;
+    return chunk;
+  }
+
+  writeBytes(chunk: Uint8Array): void {
+    const start = this.offset || 0;
+    const end = start + chunk.length;
+    if (end > this.bytes.length) {
+      const grown = new Uint8Array(Math.max(end, this.bytes.length * 2));
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes.set(chunk, start);
+    this.length = Math.max(this.length, end);
+    this.offset = end;
+  }
+
+  contents(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+// Larger than one copy chunk so entries are streamed in several pieces
+const largeFile = Uint8Array.from({ length: 1200 * 1024 }, (_, index) => (index * 31) % 251);
+const manifest = JSON.stringify({ note: 'ファンタジーランド 🏰', count: 2 });
+
+const writeArchive = async (): Promise<Uint8Array> => {
+  const archive = new MemoryHandle();
+  const writer = new ZipWriter(archive);
+  await writer.addEntry('photos/p1.jpg', new MemoryHandle(largeFile));
+  await writer.addEntry('thumbnails/p1.jpg', new MemoryHandle(Uint8Array.from([1, 2, 3])));
+  writer.addBytes('backup.json', encodeUtf8(manifest));
+  writer.finish();
+  return archive.contents();
+};
+
+describe('zipArchive', () => {
+  it('round-trips streamed and in-memory entries', async () => {
+    const bytes = await writeArchive();
+    expect(isZipArchive(bytes)).toBe(true);
+
+    const reader = new ZipReader(new MemoryHandle(bytes));
+    expect(reader.getEntries().map(entry => entry.name)).toEqual(['photos/p1.jpg', 'thumbnails/p1.jpg', 'backup.json']);
+    expect(decodeUtf8(reader.readEntry('backup.json'))).toBe(manifest);
+
+    const target = new MemoryHandle();
+    reader.copyEntry('photos/p1.jpg', target);
+    expect(Buffer.from(target.contents()).equals(Buffer.from(largeFile))).toBe(true);
+  });
+
+  it('rejects entries whose data no longer matches the checksum', async () => {
+    const bytes = await writeArchive();
+    bytes[100] ^= 0xff; // Inside the first entry's data
+
+    const reader = new ZipReader(new MemoryHandle(bytes));
+    expect(() => reader.copyEntry('photos/p1.jpg', new MemoryHandle())).toThrow('corrupt');
+    expect(() => reader.readEntry('missing.json')).toThrow('not found');
+  });
+
+  it('does not mistake other files for archives', () => {
+    const json = encodeUtf8('{"version":"5.0.0"}');
+    expect(isZipArchive(json)).toBe(false);
+    expect(() => new ZipReader(new MemoryHandle(json))).toThrow('Not a ZIP archive');
+  });
+
+  it('encodes UTF-8 the same way as Node', () => {
+    const text = 'Tokyo Disney Sea ディズニーシー 🐭';
+    expect(Buffer.from(encodeUtf8(text)).equals(Buffer.from(text, 'utf8'))).toBe(true);
+    expect(decodeUtf8(Uint8Array.from(Buffer.from(text, 'utf8')))).toBe(text);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Resolve GPS coordinates to a park area using the bundled geofences
+ * Works offline; used to pre-fill actions and group photos by area
+ */
+
+import { ParkType, ParkArea, SeaArea } from '../types/models';
+import {
+  PARK_AREA_GEOFENCES,
+  GEOFENCE_SNAP_DISTANCE,
+  GEOFENCE_BOUNDARY_MARGIN,
+  AreaGeofence,
+  GeofencePoint,
+} from '../constants/parkGeofences';
+
+export interface GeoCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ResolvedArea {
+  parkType: ParkType;
+  area: ParkArea;
+  // false when the point is near an area's edge, or fell just outside the
+  // outlines and was snapped: the area is a guess for the user to confirm
+  exact: boolean;
+}
+
+// Ray casting; longitude is x and latitude is y
+export function isPointInPolygon(point: GeoCoordinates, polygon: GeofencePoint[]): boolean {
+  const { latitude: y, longitude: x } = point;
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [yi, xi] = polygon[i];
+    const [yj, xj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+// Distance from a point to a polygon's outline, in degrees
+function distanceToPolygon(point: GeoCoordinates, polygon: GeofencePoint[]): number {
+  const { latitude: py, longitude: px } = point;
+  let min = Infinity;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [ay, ax] = polygon[j];
+    const [by, bx] = polygon[i];
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+    min = Math.min(min, Math.hypot(px - (ax + t * dx), py - (ay + t * dy)));
+  }
+
+  return min;
+}
+
+/**
+ * Area containing the coordinates, or the closest one within the snap
+ * distance; null outside both parks. Only points well inside an area are exact.
+ */
+export function resolveParkArea(
+  coordinates: GeoCoordinates,
+  geofences: AreaGeofence[] = PARK_AREA_GEOFENCES
+): ResolvedArea | null {
+  const containing = geofences.find(geofence => isPointInPolygon(coordinates, geofence.polygon));
+  if (containing) {
+    const exact = distanceToPolygon(coordinates, containing.polygon) > GEOFENCE_BOUNDARY_MARGIN;
+    return { parkType: containing.parkType, area: containing.area, exact };
+  }
+
+  let nearest: AreaGeofence | null = null;
+  let nearestDistance = GEOFENCE_SNAP_DISTANCE;
+  for (const geofence of geofences) {
+    const distance = distanceToPolygon(coordinates, geofence.polygon);
+    if (distance <= nearestDistance) {
+      nearest = geofence;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest ? { parkType: nearest.parkType, area: nearest.area, exact: false } : null;
+}
+
+// Area enums are disjoint, so an area alone identifies its park
+export function getParkTypeForArea(area: ParkArea): ParkType {
+  return (Object.values(SeaArea) as string[]).includes(area) ? ParkType.SEA : ParkType.LAND;
+}
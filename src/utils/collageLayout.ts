@@ -0,0 +1,125 @@
+/**
+ * Layouts for the shareable visit summary image
+ * Pure geometry in output pixels; VisitCollage draws into these rectangles
+ */
+
+export type CollageTemplateId = 'grid' | 'hero' | 'story';
+
+export interface CollageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CollageTemplate {
+  id: CollageTemplateId;
+  width: number;
+  height: number;
+  maxPhotos: number;
+  maxActions: number; // Timeline highlights listed under the photos
+}
+
+export interface CollageLayout {
+  template: CollageTemplate;
+  header: CollageRect; // Park name, date and weather
+  photos: CollageRect[];
+  summary: CollageRect; // Top actions
+}
+
+export const COLLAGE_TEMPLATES: Record<CollageTemplateId, CollageTemplate> = {
+  // Instagram portrait: even grid of up to 9 photos
+  grid: { id: 'grid', width: 1080, height: 1350, maxPhotos: 9, maxActions: 4 },
+  // One large photo above a strip of three
+  hero: { id: 'hero', width: 1080, height: 1350, maxPhotos: 4, maxActions: 3 },
+  // Full-screen story: two columns, longer highlight list
+  story: { id: 'story', width: 1080, height: 1920, maxPhotos: 6, maxActions: 6 },
+};
+
+export const COLLAGE_PADDING = 48;
+export const COLLAGE_GAP = 12;
+
+const HEADER_HEIGHT: Record<CollageTemplateId, number> = {
+  grid: 220,
+  hero: 220,
+  story: 320,
+};
+
+// Rows of at most `columns` cells; a short last row is stretched to the full width
+function gridCells(area: CollageRect, count: number, columns: number): CollageRect[] {
+  if (count === 0) return [];
+
+  const rows = Math.ceil(count / columns);
+  const cellHeight = (area.height - COLLAGE_GAP * (rows - 1)) / rows;
+  const cells: CollageRect[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    const inRow = Math.min(columns, count - row * columns);
+    const cellWidth = (area.width - COLLAGE_GAP * (inRow - 1)) / inRow;
+    for (let column = 0; column < inRow; column++) {
+      cells.push({
+        x: area.x + column * (cellWidth + COLLAGE_GAP),
+        y: area.y + row * (cellHeight + COLLAGE_GAP),
+        width: cellWidth,
+        height: cellHeight,
+      });
+    }
+  }
+
+  return cells;
+}
+
+function getPhotoCells(templateId: CollageTemplateId, area: CollageRect, count: number): CollageRect[] {
+  switch (templateId) {
+    case 'hero': {
+      if (count <= 1) return gridCells(area, count, 1);
+      const heroHeight = Math.round(area.height * 0.68);
+      return [
+        { x: area.x, y: area.y, width: area.width, height: heroHeight },
+        ...gridCells(
+          { x: area.x, y: area.y + heroHeight + COLLAGE_GAP, width: area.width, height: area.height - heroHeight - COLLAGE_GAP },
+          count - 1,
+          3
+        ),
+      ];
+    }
+    case 'story':
+      return gridCells(area, count, count <= 2 ? 1 : 2);
+    case 'grid':
+    default:
+      return gridCells(area, count, count <= 1 ? 1 : count <= 4 ? 2 : 3);
+  }
+}
+
+/**
+ * Rectangles for a template holding `photoCount` photos (clamped to the
+ * template's maximum)
+ */
+export function getCollageLayout(templateId: CollageTemplateId, photoCount: number): CollageLayout {
+  const template = COLLAGE_TEMPLATES[templateId];
+  const count = Math.max(0, Math.min(photoCount, template.maxPhotos));
+  const contentWidth = template.width - COLLAGE_PADDING * 2;
+
+  // Each highlight line is 56px, plus a title line
+  const summaryHeight = 72 + template.maxActions * 56;
+  const header: CollageRect = { x: COLLAGE_PADDING, y: 0, width: contentWidth, height: HEADER_HEIGHT[templateId] };
+  const summary: CollageRect = {
+    x: COLLAGE_PADDING,
+    y: template.height - COLLAGE_PADDING - summaryHeight,
+    width: contentWidth,
+    height: summaryHeight,
+  };
+  const photoArea: CollageRect = {
+    x: COLLAGE_PADDING,
+    y: header.height,
+    width: contentWidth,
+    height: summary.y - COLLAGE_PADDING / 2 - header.height,
+  };
+
+  return {
+    template,
+    header,
+    photos: getPhotoCells(templateId, photoArea, count),
+    summary,
+  };
+}
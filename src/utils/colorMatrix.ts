@@ -0,0 +1,140 @@
+/**
+ * Colour matrix utilities for photo filters
+ * Pure pixel processing on decoded RGBA data, independent of any native module
+ */
+
+// 4x5 row-major matrix (like Android's ColorMatrix). Columns are R, G, B, A and
+// a constant offset; offsets are in 0-1 units, not 0-255.
+export type ColorMatrix = number[];
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, 4 bytes per pixel
+}
+
+// Slider values from the photo editor, each between -1 and 1 (0 = unchanged)
+export interface ColorAdjustments {
+  brightness?: number;
+  contrast?: number;
+  saturation?: number;
+}
+
+// Luminance weights, matching the grayscale filter
+const LUMA_R = 0.299;
+const LUMA_G = 0.587;
+const LUMA_B = 0.114;
+
+export const IDENTITY_MATRIX: ColorMatrix = [
+  1, 0, 0, 0, 0,
+  0, 1, 0, 0, 0,
+  0, 0, 1, 0, 0,
+  0, 0, 0, 1, 0,
+];
+
+const clampAdjustment = (value: number | undefined): number =>
+  Math.max(-1, Math.min(1, value || 0));
+
+/**
+ * Combine two matrices into one that applies `first`, then `second`
+ */
+export function multiplyColorMatrices(second: ColorMatrix, first: ColorMatrix): ColorMatrix {
+  const result: ColorMatrix = new Array(20).fill(0);
+
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 5; col++) {
+      let value = 0;
+      for (let k = 0; k < 4; k++) {
+        value += second[row * 5 + k] * first[k * 5 + col];
+      }
+      // The offset column also carries the second matrix's own offset
+      result[row * 5 + col] = col === 4 ? value + second[row * 5 + 4] : value;
+    }
+  }
+
+  return result;
+}
+
+export function isIdentityMatrix(matrix: ColorMatrix): boolean {
+  return matrix.every((value, index) => Math.abs(value - IDENTITY_MATRIX[index]) < 1e-6);
+}
+
+// Shift every channel by up to half the range; 1 adds 0.5 (about 128), -1 subtracts it
+export function brightnessMatrix(value: number): ColorMatrix {
+  const offset = clampAdjustment(value) * 0.5;
+  return [
+    1, 0, 0, 0, offset,
+    0, 1, 0, 0, offset,
+    0, 0, 1, 0, offset,
+    0, 0, 0, 1, 0,
+  ];
+}
+
+// Scale around mid-grey; -1 flattens to grey, 1 doubles the contrast
+export function contrastMatrix(value: number): ColorMatrix {
+  const scale = 1 + clampAdjustment(value);
+  const offset = 0.5 * (1 - scale);
+  return [
+    scale, 0, 0, 0, offset,
+    0, scale, 0, 0, offset,
+    0, 0, scale, 0, offset,
+    0, 0, 0, 1, 0,
+  ];
+}
+
+// Blend with luminance; -1 is grayscale, 1 doubles the saturation
+export function saturationMatrix(value: number): ColorMatrix {
+  const s = 1 + clampAdjustment(value);
+  const r = LUMA_R * (1 - s);
+  const g = LUMA_G * (1 - s);
+  const b = LUMA_B * (1 - s);
+  return [
+    r + s, g, b, 0, 0,
+    r, g + s, b, 0, 0,
+    r, g, b + s, 0, 0,
+    0, 0, 0, 1, 0,
+  ];
+}
+
+/**
+ * Single matrix for a filter followed by the editor's adjustments
+ */
+export function buildColorMatrix(
+  adjustments: ColorAdjustments,
+  filterMatrix: ColorMatrix = IDENTITY_MATRIX
+): ColorMatrix {
+  return [
+    brightnessMatrix(adjustments.brightness || 0),
+    contrastMatrix(adjustments.contrast || 0),
+    saturationMatrix(adjustments.saturation || 0),
+  ].reduce((combined, matrix) => multiplyColorMatrices(matrix, combined), filterMatrix);
+}
+
+/**
+ * Apply a colour matrix to every pixel, returning a new image
+ */
+export function applyColorMatrix(image: RgbaImage, matrix: ColorMatrix): RgbaImage {
+  const { data } = image;
+  const output = new Uint8ClampedArray(data.length);
+  const m = matrix;
+  // Offsets scaled to 0-255 once instead of per pixel
+  const o0 = m[4] * 255;
+  const o1 = m[9] * 255;
+  const o2 = m[14] * 255;
+  const o3 = m[19] * 255;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const a = data[i + 3];
+
+    // Uint8ClampedArray rounds and clamps to 0-255
+    output[i] = m[0] * r + m[1] * g + m[2] * b + m[3] * a + o0;
+    output[i + 1] = m[5] * r + m[6] * g + m[7] * b + m[8] * a + o1;
+    output[i + 2] = m[10] * r + m[11] * g + m[12] * b + m[13] * a + o2;
+    output[i + 3] = m[15] * r + m[16] * g + m[17] * b + m[18] * a + o3;
+  }
+
+  return { width: image.width, height: image.height, data: output };
+}
@@ -0,0 +1,77 @@
+/**
+ * Statistics of the visits shared with one companion
+ */
+
+import {
+  ActionCategory,
+  Companion,
+  CompanionStats,
+  ParkArea,
+  ParkType,
+  TimelineAction,
+  Visit,
+} from '../types/models';
+
+const DAY = 24 * 60 * 60 * 1000;
+const FAVORITE_AREA_COUNT = 3;
+
+const countBy = <K>(items: K[]): Array<[K, number]> => {
+  const counts = new Map<K, number>();
+  items.forEach(item => counts.set(item, (counts.get(item) || 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+};
+
+// Visit.companionIds is the source of truth; Companion.visitIds can lag behind
+export const getSharedVisits = (companion: Companion, visits: Visit[]): Visit[] =>
+  visits
+    .filter(visit => visit.companionIds.includes(companion.id))
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+/**
+ * Stats of the visits with a companion; null when they have not been
+ * to the park together yet
+ */
+export const calculateCompanionStats = (
+  companion: Companion,
+  visits: Visit[],
+  actions: TimelineAction[]
+): CompanionStats | null => {
+  const sharedVisits = getSharedVisits(companion, visits);
+  if (sharedVisits.length === 0) return null;
+
+  const visitIds = new Set(sharedVisits.map(visit => visit.id));
+  const sharedActions = actions.filter(
+    action => visitIds.has(action.visitId) && action.category !== ActionCategory.CUSTOM
+  );
+
+  return {
+    companion,
+    visitCount: sharedVisits.length,
+    firstVisitDate: new Date(sharedVisits[sharedVisits.length - 1].date),
+    lastVisitDate: new Date(sharedVisits[0].date),
+    landVisits: sharedVisits.filter(visit => visit.parkType === ParkType.LAND).length,
+    seaVisits: sharedVisits.filter(visit => visit.parkType === ParkType.SEA).length,
+    favoriteAreas: countBy<ParkArea>(sharedActions.map(action => action.area))
+      .slice(0, FAVORITE_AREA_COUNT)
+      .map(([area]) => area),
+    commonActivities: countBy(sharedActions.map(action => action.category))
+      .map(([category, count]) => ({ category, count })),
+    favoriteAttractions: countBy(
+      sharedActions
+        .filter(action => action.category === ActionCategory.ATTRACTION && action.locationName)
+        .map(action => action.locationName!)
+    ).map(([locationName, count]) => ({ locationName, count })),
+    visitsByYear: countBy(sharedVisits.map(visit => new Date(visit.date).getFullYear()))
+      .map(([year, count]) => ({ year, count }))
+      .sort((a, b) => a.year - b.year),
+  };
+};
+
+// Whole days between the date and today, ignoring the time of day
+export const getDaysSince = (date: Date, now: Date = new Date()): number => {
+  const from = new Date(date);
+  from.setHours(0, 0, 0, 0);
+  const to = new Date(now);
+  to.setHours(0, 0, 0, 0);
+  return Math.max(0, Math.round((to.getTime() - from.getTime()) / DAY));
+};
@@ -0,0 +1,367 @@
+/**
+ * EXIF reader for JPEG and HEIC photos
+ * Reads only the tags the app uses (capture time, camera, orientation, GPS).
+ * Bytes are pulled through a reader callback so large files are never
+ * loaded whole.
+ */
+
+export interface ExifData {
+  takenAt?: Date; // DateTimeOriginal
+  make?: string;
+  model?: string;
+  orientation?: number;
+  iso?: number;
+  aperture?: number;
+  exposureTime?: number;
+  focalLength?: number;
+  flash?: boolean;
+  gps?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+  };
+}
+
+// Returns up to `length` bytes starting at `position`
+export type ByteReader = (position: number, length: number) => Promise<Uint8Array>;
+
+// JPEG APP1 segments are at most 64KB and come right after SOI
+const JPEG_HEADER_BYTES = 128 * 1024;
+// HEIC `meta` boxes are small and sit at the start of the file
+const HEIC_HEADER_BYTES = 256 * 1024;
+
+const TAGS = {
+  MAKE: 0x010f,
+  MODEL: 0x0110,
+  ORIENTATION: 0x0112,
+  DATE_TIME: 0x0132,
+  EXIF_IFD: 0x8769,
+  GPS_IFD: 0x8825,
+  EXPOSURE_TIME: 0x829a,
+  F_NUMBER: 0x829d,
+  ISO: 0x8827,
+  DATE_TIME_ORIGINAL: 0x9003,
+  OFFSET_TIME_ORIGINAL: 0x9011,
+  FLASH: 0x9209,
+  FOCAL_LENGTH: 0x920a,
+  GPS_LATITUDE_REF: 0x0001,
+  GPS_LATITUDE: 0x0002,
+  GPS_LONGITUDE_REF: 0x0003,
+  GPS_LONGITUDE: 0x0004,
+  GPS_ALTITUDE_REF: 0x0005,
+  GPS_ALTITUDE: 0x0006,
+};
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TagValue = string | number | number[];
+
+/**
+ * Read EXIF from a JPEG or HEIC file. Returns undefined when the file has none.
+ */
+export async function readExif(read: ByteReader): Promise<ExifData | undefined> {
+  const header = await read(0, JPEG_HEADER_BYTES);
+
+  if (header[0] === 0xff && header[1] === 0xd8) {
+    const tiff = findJpegExif(header);
+    return tiff ? parseTiff(tiff) : undefined;
+  }
+
+  if (ascii(header, 4, 4) === 'ftyp') {
+    const meta = header.length >= HEIC_HEADER_BYTES ? header : await read(0, HEIC_HEADER_BYTES);
+    const range = findHeicExif(meta);
+    if (!range) return undefined;
+
+    const item = await read(range.offset, range.length);
+    // The item starts with the offset of the TIFF header within it
+    const tiffStart = 4 + readUint(item, 0, 4, false);
+    return parseTiff(item.subarray(tiffStart));
+  }
+
+  return undefined;
+}
+
+// JPEG: walk the marker segments until the APP1 "Exif" segment
+function findJpegExif(bytes: Uint8Array): Uint8Array | undefined {
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined;
+    const marker = bytes[offset + 1];
+    // Start of scan: image data follows, no more metadata
+    if (marker === 0xda) return undefined;
+
+    const length = readUint(bytes, offset + 2, 2, false);
+    if (marker === 0xe1 && ascii(bytes, offset + 4, 4) === 'Exif') {
+      return bytes.subarray(offset + 10, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+
+  return undefined;
+}
+
+interface Box {
+  type: string;
+  start: number; // Payload start
+  end: number;
+}
+
+function readBoxes(bytes: Uint8Array, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = readUint(bytes, offset, 4, false);
+    const type = ascii(bytes, offset + 4, 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      size = readUint(bytes, offset + 8, 8, false);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) break;
+
+    boxes.push({ type, start: offset + headerSize, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+// HEIC: meta -> iinf gives the Exif item id, iloc gives its file position
+function findHeicExif(bytes: Uint8Array): { offset: number; length: number } | undefined {
+  const meta = readBoxes(bytes, 0, bytes.length).find(box => box.type === 'meta');
+  if (!meta) return undefined;
+
+  // meta is a full box: skip version and flags
+  const children = readBoxes(bytes, meta.start + 4, meta.end);
+  const iinf = children.find(box => box.type === 'iinf');
+  const iloc = children.find(box => box.type === 'iloc');
+  if (!iinf || !iloc) return undefined;
+
+  const exifItemId = findExifItemId(bytes, iinf);
+  if (exifItemId === undefined) return undefined;
+
+  return findItemLocation(bytes, iloc, exifItemId);
+}
+
+function findExifItemId(bytes: Uint8Array, iinf: Box): number | undefined {
+  const version = bytes[iinf.start];
+  const entriesStart = iinf.start + 4 + (version === 0 ? 2 : 4);
+
+  for (const infe of readBoxes(bytes, entriesStart, iinf.end)) {
+    if (infe.type !== 'infe') continue;
+
+    const infeVersion = bytes[infe.start];
+    if (infeVersion < 2) continue;
+
+    const idSize = infeVersion === 2 ? 2 : 4;
+    const itemId = readUint(bytes, infe.start + 4, idSize, false);
+    // Item id, protection index (2 bytes), then the item type
+    const itemType = ascii(bytes, infe.start + 4 + idSize + 2, 4);
+    if (itemType === 'Exif') return itemId;
+  }
+
+  return undefined;
+}
+
+function findItemLocation(bytes: Uint8Array, iloc: Box, itemId: number): { offset: number; length: number } | undefined {
+  const version = bytes[iloc.start];
+  const offsetSize = bytes[iloc.start + 4] >> 4;
+  const lengthSize = bytes[iloc.start + 4] & 15;
+  const baseOffsetSize = bytes[iloc.start + 5] >> 4;
+  const indexSize = version === 1 || version === 2 ? bytes[iloc.start + 5] & 15 : 0;
+
+  let offset = iloc.start + 6;
+  const itemCount = readUint(bytes, offset, version < 2 ? 2 : 4, false);
+  offset += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount && offset < iloc.end; i++) {
+    const id = readUint(bytes, offset, version < 2 ? 2 : 4, false);
+    offset += version < 2 ? 2 : 4;
+    if (version === 1 || version === 2) offset += 2; // Construction method
+    offset += 2; // Data reference index
+
+    const baseOffset = readUint(bytes, offset, baseOffsetSize, false);
+    offset += baseOffsetSize;
+    const extentCount = readUint(bytes, offset, 2, false);
+    offset += 2;
+
+    for (let e = 0; e < extentCount; e++) {
+      offset += indexSize;
+      const extentOffset = readUint(bytes, offset, offsetSize, false);
+      offset += offsetSize;
+      const extentLength = readUint(bytes, offset, lengthSize, false);
+      offset += lengthSize;
+
+      // Exif items are stored in a single extent
+      if (id === itemId && e === 0) {
+        return { offset: baseOffset + extentOffset, length: extentLength };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+// TIFF structure inside the EXIF block
+
+function parseTiff(tiff: Uint8Array): ExifData | undefined {
+  if (tiff.length < 8) return undefined;
+
+  const byteOrder = ascii(tiff, 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return undefined;
+  const little = byteOrder === 'II';
+
+  const ifd0 = readIfd(tiff, readUint(tiff, 4, 4, little), little);
+  const exifIfd = typeof ifd0.get(TAGS.EXIF_IFD) === 'number'
+    ? readIfd(tiff, ifd0.get(TAGS.EXIF_IFD) as number, little)
+    : new Map<number, TagValue>();
+  const gpsIfd = typeof ifd0.get(TAGS.GPS_IFD) === 'number'
+    ? readIfd(tiff, ifd0.get(TAGS.GPS_IFD) as number, little)
+    : new Map<number, TagValue>();
+
+  const data: ExifData = {};
+
+  const make = ifd0.get(TAGS.MAKE);
+  const model = ifd0.get(TAGS.MODEL);
+  if (typeof make === 'string' && make) data.make = make;
+  if (typeof model === 'string' && model) data.model = model;
+  if (typeof ifd0.get(TAGS.ORIENTATION) === 'number') data.orientation = ifd0.get(TAGS.ORIENTATION) as number;
+
+  const dateTime = exifIfd.get(TAGS.DATE_TIME_ORIGINAL) || ifd0.get(TAGS.DATE_TIME);
+  const offsetTime = exifIfd.get(TAGS.OFFSET_TIME_ORIGINAL);
+  if (typeof dateTime === 'string') {
+    data.takenAt = parseExifDate(dateTime, typeof offsetTime === 'string' ? offsetTime : undefined);
+  }
+
+  const iso = exifIfd.get(TAGS.ISO);
+  if (iso !== undefined) data.iso = Array.isArray(iso) ? iso[0] : Number(iso);
+  if (typeof exifIfd.get(TAGS.F_NUMBER) === 'number') data.aperture = exifIfd.get(TAGS.F_NUMBER) as number;
+  if (typeof exifIfd.get(TAGS.EXPOSURE_TIME) === 'number') data.exposureTime = exifIfd.get(TAGS.EXPOSURE_TIME) as number;
+  if (typeof exifIfd.get(TAGS.FOCAL_LENGTH) === 'number') data.focalLength = exifIfd.get(TAGS.FOCAL_LENGTH) as number;
+  if (typeof exifIfd.get(TAGS.FLASH) === 'number') data.flash = ((exifIfd.get(TAGS.FLASH) as number) & 1) === 1;
+
+  const latitude = toDegrees(gpsIfd.get(TAGS.GPS_LATITUDE), gpsIfd.get(TAGS.GPS_LATITUDE_REF));
+  const longitude = toDegrees(gpsIfd.get(TAGS.GPS_LONGITUDE), gpsIfd.get(TAGS.GPS_LONGITUDE_REF));
+  if (latitude !== undefined && longitude !== undefined) {
+    data.gps = { latitude, longitude };
+    const altitude = gpsIfd.get(TAGS.GPS_ALTITUDE);
+    if (typeof altitude === 'number') {
+      // Reference 1 means below sea level
+      data.gps.altitude = gpsIfd.get(TAGS.GPS_ALTITUDE_REF) === 1 ? -altitude : altitude;
+    }
+  }
+
+  return data;
+}
+
+function readIfd(tiff: Uint8Array, offset: number, little: boolean): Map<number, TagValue> {
+  const tags = new Map<number, TagValue>();
+  if (offset <= 0 || offset + 2 > tiff.length) return tags;
+
+  const count = readUint(tiff, offset, 2, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+
+    const tag = readUint(tiff, entry, 2, little);
+    const type = readUint(tiff, entry + 2, 2, little);
+    const valueCount = readUint(tiff, entry + 4, 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    // Values over 4 bytes are stored elsewhere, pointed to by the entry
+    const valueOffset = size * valueCount > 4 ? readUint(tiff, entry + 8, 4, little) : entry + 8;
+    if (valueOffset + size * valueCount > tiff.length) continue;
+
+    const value = readTagValue(tiff, type, valueOffset, valueCount, little);
+    if (value !== undefined) tags.set(tag, value);
+  }
+
+  return tags;
+}
+
+function readTagValue(tiff: Uint8Array, type: number, offset: number, count: number, little: boolean): TagValue | undefined {
+  if (type === 2) {
+    return ascii(tiff, offset, count).replace(/\0+$/, '').trim();
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    switch (type) {
+      case 1:
+      case 7:
+        values.push(tiff[offset + i]);
+        break;
+      case 3:
+        values.push(readUint(tiff, offset + i * 2, 2, little));
+        break;
+      case 4:
+        values.push(readUint(tiff, offset + i * 4, 4, little));
+        break;
+      case 9:
+        values.push(readUint(tiff, offset + i * 4, 4, little) | 0);
+        break;
+      case 5:
+      case 10: {
+        const signed = type === 10;
+        const numerator = readUint(tiff, offset + i * 8, 4, little);
+        const denominator = readUint(tiff, offset + i * 8 + 4, 4, little);
+        const n = signed ? numerator | 0 : numerator;
+        const d = signed ? denominator | 0 : denominator;
+        values.push(d === 0 ? 0 : n / d);
+        break;
+      }
+    }
+  }
+
+  return values.length === 1 ? values[0] : values;
+}
+
+// "2024:05:03 10:15:00" is camera local time; with an offset it is exact
+function parseExifDate(value: string, offset?: string): Date | undefined {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  if (year === 0) return undefined; // "0000:00:00 00:00:00" means unknown
+
+  if (offset && /^[+-]\d{2}:\d{2}$/.test(offset)) {
+    const iso = `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${offset}`;
+    const date = new Date(iso);
+    if (!isNaN(date.getTime())) return date;
+  }
+
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Degrees/minutes/seconds plus N/S/E/W reference -> signed decimal degrees
+function toDegrees(value: TagValue | undefined, ref: TagValue | undefined): number | undefined {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+function readUint(bytes: Uint8Array, offset: number, size: number, little: boolean): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    const byte = bytes[little ? offset + size - 1 - i : offset + i] || 0;
+    value = value * 256 + byte;
+  }
+  return value;
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length && offset + i < bytes.length; i++) {
+    text += String.fromCharCode(bytes[offset + i]);
+  }
+  return text;
+}
@@ -0,0 +1,299 @@
+/**
+ * Schema validation for imported data files
+ * Checks every record of an ExportData file and keeps the valid subset
+ */
+
+import {
+  ActionCategory,
+  LandArea,
+  ParkType,
+  PassType,
+  SeaArea,
+} from '../types/models';
+import type { ExportData } from '../services/dataMigrationService';
+
+export interface RecordError {
+  path: string; // e.g. visits[3].date
+  message: string;
+}
+
+export interface ImportValidationResult {
+  // False when the file itself is unusable (not an export, missing arrays)
+  isValid: boolean;
+  // File-level and record-level errors
+  errors: RecordError[];
+  // Only records that passed validation
+  validData: ExportData;
+  skipped: {
+    visits: number;
+    companions: number;
+    actions: number;
+  };
+}
+
+const WEATHER_TYPES = ['SUNNY', 'CLOUDY', 'RAINY', 'SNOWY'];
+const MEAL_TYPES = ['BREAKFAST', 'LUNCH', 'DINNER', 'SNACK'];
+
+const PARK_AREAS: Record<ParkType, string[]> = {
+  [ParkType.LAND]: Object.values(LandArea),
+  [ParkType.SEA]: Object.values(SeaArea),
+};
+
+export class ExportDataValidator {
+  private errors: RecordError[] = [];
+
+  /**
+   * Validate an export file and collect the records that can be imported
+   */
+  validate(data: any): ImportValidationResult {
+    this.errors = [];
+
+    const emptyResult = (): ImportValidationResult => ({
+      isValid: false,
+      errors: this.errors,
+      validData: data,
+      skipped: { visits: 0, companions: 0, actions: 0 },
+    });
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      this.addError('', 'Invalid JSON structure');
+      return emptyResult();
+    }
+
+    if (typeof data.version !== 'string' || !data.version) {
+      this.addError('version', 'Missing version information');
+    }
+    if (!Array.isArray(data.visits)) {
+      this.addError('visits', 'Invalid visits data');
+    }
+    if (!Array.isArray(data.companions)) {
+      this.addError('companions', 'Invalid companions data');
+    }
+    if (!Array.isArray(data.actions)) {
+      this.addError('actions', 'Invalid actions data');
+    }
+    if (!data.metadata || typeof data.metadata !== 'object') {
+      this.addError('metadata', 'Missing metadata');
+    }
+
+    if (this.errors.length > 0) {
+      return emptyResult();
+    }
+
+    const companions = data.companions.filter((companion: any, index: number) =>
+      this.validateCompanion(companion, `companions[${index}]`)
+    );
+    const visits = data.visits.filter((visit: any, index: number) =>
+      this.validateVisit(visit, `visits[${index}]`)
+    );
+
+    // Actions are checked against the park of their visit
+    const parkByVisitId = new Map<string, ParkType>(visits.map((visit: any) => [visit.id, visit.parkType]));
+    const actions = data.actions.filter((action: any, index: number) =>
+      this.validateAction(action, `actions[${index}]`, parkByVisitId)
+    );
+
+    return {
+      isValid: true,
+      errors: this.errors,
+      validData: { ...data, visits, companions, actions },
+      skipped: {
+        visits: data.visits.length - visits.length,
+        companions: data.companions.length - companions.length,
+        actions: data.actions.length - actions.length,
+      },
+    };
+  }
+
+  private validateCompanion(companion: any, path: string): boolean {
+    const errorCount = this.errors.length;
+
+    if (!this.isObject(companion, path)) return false;
+
+    this.validateBaseFields(companion, path);
+    this.requireString(companion.name, `${path}.name`);
+    this.requireStringArray(companion.visitIds, `${path}.visitIds`);
+    this.optionalString(companion.avatar, `${path}.avatar`);
+    this.optionalString(companion.notes, `${path}.notes`);
+
+    return this.errors.length === errorCount;
+  }
+
+  private validateVisit(visit: any, path: string): boolean {
+    const errorCount = this.errors.length;
+
+    if (!this.isObject(visit, path)) return false;
+
+    this.validateBaseFields(visit, path);
+    this.requireDate(visit.date, `${path}.date`);
+    this.requireEnum(visit.parkType, Object.values(ParkType), `${path}.parkType`);
+    this.optionalEnum(visit.passType, Object.values(PassType), `${path}.passType`);
+    this.requireStringArray(visit.companionIds, `${path}.companionIds`);
+    this.optionalEnum(visit.weather, WEATHER_TYPES, `${path}.weather`);
+    this.optionalDate(visit.startTime, `${path}.startTime`);
+    this.optionalDate(visit.endTime, `${path}.endTime`);
+    this.optionalNumber(visit.ticketPrice, `${path}.ticketPrice`, 0, 1000000);
+    this.optionalString(visit.notes, `${path}.notes`);
+
+    if (visit.numberOfPeople !== undefined && visit.numberOfPeople !== null &&
+        (!Number.isInteger(visit.numberOfPeople) || visit.numberOfPeople < 1)) {
+      this.addError(`${path}.numberOfPeople`, 'Must be a positive integer');
+    }
+
+    return this.errors.length === errorCount;
+  }
+
+  private validateAction(action: any, path: string, parkByVisitId: Map<string, ParkType>): boolean {
+    const errorCount = this.errors.length;
+
+    if (!this.isObject(action, path)) return false;
+
+    this.validateBaseFields(action, path);
+    this.requireString(action.visitId, `${path}.visitId`);
+    this.requireEnum(action.category, Object.values(ActionCategory), `${path}.category`);
+    this.requireDate(action.time, `${path}.time`);
+    this.optionalNumber(action.duration, `${path}.duration`, 0, 24 * 60);
+    this.optionalNumber(action.waitTime, `${path}.waitTime`, 0, 24 * 60);
+    this.optionalNumber(action.purchaseAmount, `${path}.purchaseAmount`, 0, 1000000);
+    this.optionalEnum(action.mealType, MEAL_TYPES, `${path}.mealType`);
+    this.optionalStringArray(action.performerNames, `${path}.performerNames`);
+    this.optionalString(action.locationName, `${path}.locationName`);
+    this.optionalString(action.customTitle, `${path}.customTitle`);
+    this.optionalString(action.showTime, `${path}.showTime`);
+    this.optionalString(action.notes, `${path}.notes`);
+
+    // Area must exist and belong to the park of the action's visit
+    const allAreas = [...PARK_AREAS[ParkType.LAND], ...PARK_AREAS[ParkType.SEA]];
+    if (!allAreas.includes(action.area)) {
+      this.addError(`${path}.area`, `Unknown area: ${String(action.area)}`);
+    } else {
+      const parkType = parkByVisitId.get(action.visitId);
+      if (parkType && !PARK_AREAS[parkType].includes(action.area)) {
+        this.addError(`${path}.area`, `Area ${action.area} is not in park ${parkType}`);
+      }
+    }
+
+    if (action.purchasedItems !== undefined && action.purchasedItems !== null) {
+      if (!Array.isArray(action.purchasedItems)) {
+        this.addError(`${path}.purchasedItems`, 'Must be an array');
+      } else {
+        action.purchasedItems.forEach((item: any, index: number) => {
+          const itemPath = `${path}.purchasedItems[${index}]`;
+          if (!this.isObject(item, itemPath)) return;
+          this.requireString(item.name, `${itemPath}.name`);
+          this.optionalNumber(item.price, `${itemPath}.price`, 0, 1000000);
+        });
+      }
+    }
+
+    if (action.photos !== undefined) {
+      if (!Array.isArray(action.photos)) {
+        this.addError(`${path}.photos`, 'Must be an array');
+      } else {
+        action.photos.forEach((photo: any, index: number) => {
+          const photoPath = `${path}.photos[${index}]`;
+          if (!this.isObject(photo, photoPath)) return;
+          this.requireString(photo.id, `${photoPath}.id`);
+          this.requireString(photo.uri, `${photoPath}.uri`);
+          this.optionalDate(photo.takenAt, `${photoPath}.takenAt`);
+        });
+      }
+    }
+
+    return this.errors.length === errorCount;
+  }
+
+  private validateBaseFields(record: any, path: string) {
+    this.requireString(record.id, `${path}.id`);
+    this.requireDate(record.createdAt, `${path}.createdAt`);
+    this.requireDate(record.updatedAt, `${path}.updatedAt`);
+  }
+
+  // Field helpers
+  private isObject(value: any, path: string): boolean {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      this.addError(path, 'Must be an object');
+      return false;
+    }
+    return true;
+  }
+
+  private requireString(value: any, path: string) {
+    if (typeof value !== 'string' || !value.trim()) {
+      this.addError(path, 'Required string is missing');
+    }
+  }
+
+  private optionalString(value: any, path: string) {
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      this.addError(path, 'Must be a string');
+    }
+  }
+
+  private requireStringArray(value: any, path: string) {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      this.addError(path, 'Must be an array of strings');
+    }
+  }
+
+  private optionalStringArray(value: any, path: string) {
+    if (value !== undefined && value !== null) {
+      this.requireStringArray(value, path);
+    }
+  }
+
+  private requireDate(value: any, path: string) {
+    if (!isValidDateValue(value)) {
+      this.addError(path, `Invalid date: ${String(value)}`);
+    }
+  }
+
+  private optionalDate(value: any, path: string) {
+    if (value !== undefined && value !== null) {
+      this.requireDate(value, path);
+    }
+  }
+
+  private requireEnum(value: any, allowed: string[], path: string) {
+    if (!allowed.includes(value)) {
+      this.addError(path, `Unknown value: ${String(value)}`);
+    }
+  }
+
+  private optionalEnum(value: any, allowed: string[], path: string) {
+    if (value !== undefined && value !== null) {
+      this.requireEnum(value, allowed, path);
+    }
+  }
+
+  private optionalNumber(value: any, path: string, min: number, max: number) {
+    if (value === undefined || value === null) return;
+
+    if (typeof value !== 'number' || isNaN(value)) {
+      this.addError(path, 'Must be a number');
+    } else if (value < min || value > max) {
+      this.addError(path, `Must be between ${min} and ${max}`);
+    }
+  }
+
+  private addError(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+}
+
+// Helper functions
+export const validateExportData = (data: any): ImportValidationResult => {
+  const validator = new ExportDataValidator();
+  return validator.validate(data);
+};
+
+export const formatRecordError = (error: RecordError): string => {
+  return error.path ? `${error.path}: ${error.message}` : error.message;
+};
+
+const isValidDateValue = (value: any): boolean => {
+  if (!(typeof value === 'string' || typeof value === 'number' || value instanceof Date)) {
+    return false;
+  }
+  return !isNaN(new Date(value).getTime());
+};
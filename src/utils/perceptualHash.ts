@@ -0,0 +1,118 @@
+/**
+ * Perceptual hashing for finding the same picture attached more than once
+ * Difference hash (dHash): robust to re-compression and resizing, not to crops
+ */
+
+import type { RgbaImage } from './colorMatrix';
+
+// One extra column so each of the 8x8 cells has a right-hand neighbour
+export const HASH_WIDTH = 9;
+export const HASH_HEIGHT = 8;
+
+// Hashes this many bits apart or fewer are treated as the same picture
+export const DUPLICATE_HASH_DISTANCE = 4;
+
+// Bits set in each hex digit
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+// Average luminance of each cell of a HASH_WIDTH x HASH_HEIGHT grid
+function toGrayscaleGrid(image: RgbaImage): number[] {
+  const grid: number[] = [];
+
+  for (let gy = 0; gy < HASH_HEIGHT; gy++) {
+    const y0 = Math.floor((gy * image.height) / HASH_HEIGHT);
+    const y1 = Math.max(y0 + 1, Math.floor(((gy + 1) * image.height) / HASH_HEIGHT));
+
+    for (let gx = 0; gx < HASH_WIDTH; gx++) {
+      const x0 = Math.floor((gx * image.width) / HASH_WIDTH);
+      const x1 = Math.max(x0 + 1, Math.floor(((gx + 1) * image.width) / HASH_WIDTH));
+
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * image.width + x) * 4;
+          sum += 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2];
+        }
+      }
+      grid.push(sum / ((y1 - y0) * (x1 - x0)));
+    }
+  }
+
+  return grid;
+}
+
+/**
+ * 64-bit difference hash as 16 hex digits. Pass an image already scaled to
+ * HASH_WIDTH x HASH_HEIGHT; larger images are averaged down first.
+ */
+export function computeDifferenceHash(image: RgbaImage): string {
+  const grid = toGrayscaleGrid(image);
+  let hash = '';
+
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    // Two nibbles per row: bit set where a cell is brighter than the next
+    for (let half = 0; half < 2; half++) {
+      let nibble = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const x = half * 4 + bit;
+        const left = grid[y * HASH_WIDTH + x];
+        const right = grid[y * HASH_WIDTH + x + 1];
+        nibble = (nibble << 1) | (left > right ? 1 : 0);
+      }
+      hash += nibble.toString(16);
+    }
+  }
+
+  return hash;
+}
+
+// Number of differing bits; hashes of different lengths never match
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+}
+
+/**
+ * Group items whose hashes are within maxDistance of each other, directly
+ * or through another item. Items without a hash and singletons are left out.
+ */
+export function groupBySimilarHash<T>(
+  items: T[],
+  getHash: (item: T) => string | undefined,
+  maxDistance: number = DUPLICATE_HASH_DISTANCE
+): T[][] {
+  const hashed = items
+    .map(item => ({ item, hash: getHash(item) }))
+    .filter((entry): entry is { item: T; hash: string } => !!entry.hash);
+
+  // Union-find over the hashed items
+  const parent = hashed.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (hammingDistance(hashed[i].hash, hashed[j].hash) <= maxDistance) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  hashed.forEach((entry, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), entry.item]);
+  });
+
+  return Array.from(groups.values()).filter(group => group.length > 1);
+}
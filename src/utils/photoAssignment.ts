@@ -0,0 +1,99 @@
+/**
+ * Match photos to timeline actions by capture time
+ * Used by the "import day photos" flow to propose where each photo belongs
+ */
+
+import { Photo, TimelineAction } from '../types/models';
+
+// How a photo was matched:
+// 'window'  - taken during the action (time ... time + duration)
+// 'nearest' - taken outside every window; closest action chosen
+// 'manual'  - chosen by the user while reviewing
+// 'none'    - no capture time, or no actions to assign to
+export type AssignmentMatch = 'window' | 'nearest' | 'manual' | 'none';
+
+export interface PhotoAssignment {
+  photo: Photo;
+  actionId?: string;
+  match: AssignmentMatch;
+  // Minutes between the capture time and the assigned action's window
+  distanceMinutes?: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+interface ActionWindow {
+  actionId: string;
+  start: number;
+  end: number;
+}
+
+function getActionWindows(actions: TimelineAction[]): ActionWindow[] {
+  return actions
+    .map(action => {
+      const start = new Date(action.time).getTime();
+      return {
+        actionId: action.id,
+        start,
+        end: start + (action.duration || 0) * MINUTE_MS,
+      };
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Propose an action for every photo.
+ * When windows overlap, the action that started most recently wins.
+ */
+export function assignPhotosToActions(photos: Photo[], actions: TimelineAction[]): PhotoAssignment[] {
+  const windows = getActionWindows(actions);
+
+  return photos.map(photo => {
+    if (!photo.takenAt || windows.length === 0) {
+      return { photo, match: 'none' };
+    }
+
+    const takenAt = new Date(photo.takenAt).getTime();
+
+    const containing = windows.filter(window => takenAt >= window.start && takenAt <= window.end);
+    if (containing.length > 0) {
+      return { photo, actionId: containing[containing.length - 1].actionId, match: 'window', distanceMinutes: 0 };
+    }
+
+    let nearest = windows[0];
+    let nearestDistance = Infinity;
+    for (const window of windows) {
+      const distance = takenAt < window.start ? window.start - takenAt : takenAt - window.end;
+      if (distance < nearestDistance) {
+        nearest = window;
+        nearestDistance = distance;
+      }
+    }
+
+    return {
+      photo,
+      actionId: nearest.actionId,
+      match: 'nearest',
+      distanceMinutes: Math.round(nearestDistance / MINUTE_MS),
+    };
+  });
+}
+
+/**
+ * Group confirmed assignments by action, oldest photo first.
+ * Assignments without an action are left out.
+ */
+export function groupAssignmentsByAction(assignments: PhotoAssignment[]): Record<string, Photo[]> {
+  const groups: Record<string, Photo[]> = {};
+
+  for (const assignment of assignments) {
+    if (!assignment.actionId) continue;
+    (groups[assignment.actionId] = groups[assignment.actionId] || []).push(assignment.photo);
+  }
+
+  for (const photos of Object.values(groups)) {
+    photos.sort((a, b) => new Date(a.takenAt || 0).getTime() - new Date(b.takenAt || 0).getTime());
+  }
+
+  return groups;
+}
@@ -0,0 +1,457 @@
+/**
+ * Minimal PNG codec in pure TypeScript
+ * Decodes the 8-bit, non-interlaced PNGs produced by expo-image-manipulator
+ * into RGBA pixels, and encodes RGBA pixels back into an (uncompressed) PNG.
+ */
+
+import type { RgbaImage } from './colorMatrix';
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Samples per pixel by PNG colour type
+const CHANNELS: Record<number, number> = {
+  0: 1, // Grayscale
+  2: 3, // RGB
+  4: 2, // Grayscale + alpha
+  6: 4, // RGBA
+};
+
+// Base64
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Uint8Array(128);
+for (let i = 0; i < BASE64_CHARS.length; i++) {
+  BASE64_LOOKUP[BASE64_CHARS.charCodeAt(i)] = i;
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = BASE64_LOOKUP[clean.charCodeAt(i)];
+    const b = BASE64_LOOKUP[clean.charCodeAt(i + 1)];
+    const c = BASE64_LOOKUP[clean.charCodeAt(i + 2)];
+    const d = BASE64_LOOKUP[clean.charCodeAt(i + 3)];
+
+    bytes[byteIndex++] = (a << 2) | (b >> 4);
+    if (i + 2 < clean.length) bytes[byteIndex++] = ((b & 15) << 4) | (c >> 2);
+    if (i + 3 < clean.length) bytes[byteIndex++] = ((c & 3) << 6) | d;
+  }
+
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  const codes = new Uint8Array(Math.ceil(bytes.length / 3) * 4);
+  const alphabet = BASE64_CHARS;
+  let o = 0;
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+
+    codes[o++] = alphabet.charCodeAt(a >> 2);
+    codes[o++] = alphabet.charCodeAt(((a & 3) << 4) | (b >> 4));
+    codes[o++] = i + 1 < bytes.length ? alphabet.charCodeAt(((b & 15) << 2) | (c >> 6)) : 61; // '='
+    codes[o++] = i + 2 < bytes.length ? alphabet.charCodeAt(c & 63) : 61;
+  }
+
+  // fromCharCode in chunks to stay under the engine's argument limit
+  const parts: string[] = [];
+  for (let i = 0; i < codes.length; i += 8192) {
+    parts.push(String.fromCharCode.apply(null, Array.from(codes.subarray(i, i + 8192))));
+  }
+  return parts.join('');
+}
+
+// Checksums
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Pass the previous result as crc to continue a checksum across chunks
+export function crc32(bytes: Uint8Array, start = 0, end = bytes.length, crc = 0): number {
+  crc = (crc ^ 0xffffffff) >>> 0;
+  for (let i = start; i < end; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+// Inflate (RFC 1950/1951)
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+interface Huffman {
+  counts: Uint16Array; // Number of codes per length
+  symbols: Uint16Array; // Symbols ordered by code
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+  }
+
+  return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8))
+);
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+class Inflater {
+  private pos = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+  private output: Uint8Array;
+  private outLength = 0;
+
+  constructor(private input: Uint8Array, sizeHint: number) {
+    this.output = new Uint8Array(Math.max(sizeHint, 1024));
+  }
+
+  inflate(): Uint8Array {
+    let isFinal = 0;
+    while (!isFinal) {
+      isFinal = this.bits(1);
+      const type = this.bits(2);
+
+      if (type === 0) this.storedBlock();
+      else if (type === 1) this.huffmanBlock(FIXED_LITERALS, FIXED_DISTANCES);
+      else if (type === 2) this.dynamicBlock();
+      else throw new Error('Invalid deflate block type');
+    }
+    return this.output.subarray(0, this.outLength);
+  }
+
+  private bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.pos >= this.input.length) throw new Error('Unexpected end of deflate data');
+      this.bitBuffer |= this.input[this.pos++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  private decode(huffman: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+
+    for (let len = 1; len < 16; len++) {
+      code |= this.bits(1);
+      const count = huffman.counts[len];
+      if (code - first < count) return huffman.symbols[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code');
+  }
+
+  private ensureCapacity(extra: number) {
+    if (this.outLength + extra <= this.output.length) return;
+    const grown = new Uint8Array(Math.max(this.output.length * 2, this.outLength + extra));
+    grown.set(this.output.subarray(0, this.outLength));
+    this.output = grown;
+  }
+
+  private storedBlock() {
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+
+    const length = this.input[this.pos] | (this.input[this.pos + 1] << 8);
+    this.pos += 4; // LEN and NLEN
+    if (this.pos + length > this.input.length) throw new Error('Unexpected end of deflate data');
+
+    this.ensureCapacity(length);
+    this.output.set(this.input.subarray(this.pos, this.pos + length), this.outLength);
+    this.outLength += length;
+    this.pos += length;
+  }
+
+  private dynamicBlock() {
+    const literalCount = this.bits(5) + 257;
+    const distanceCount = this.bits(5) + 1;
+    const codeLengthCount = this.bits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengths[CODE_LENGTH_ORDER[i]] = this.bits(3);
+    }
+    const codeLengthHuffman = buildHuffman(codeLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    for (let i = 0; i < lengths.length;) {
+      const symbol = this.decode(codeLengthHuffman);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) throw new Error('Invalid code length repeat');
+        value = lengths[i - 1];
+        repeat = 3 + this.bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.bits(3);
+      } else {
+        repeat = 11 + this.bits(7);
+      }
+      if (i + repeat > lengths.length) throw new Error('Invalid code lengths');
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+
+    this.huffmanBlock(
+      buildHuffman(lengths.subarray(0, literalCount)),
+      buildHuffman(lengths.subarray(literalCount))
+    );
+  }
+
+  private huffmanBlock(literals: Huffman, distances: Huffman) {
+    for (;;) {
+      const symbol = this.decode(literals);
+
+      if (symbol < 256) {
+        this.ensureCapacity(1);
+        this.output[this.outLength++] = symbol;
+        continue;
+      }
+      if (symbol === 256) return;
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) throw new Error('Invalid length symbol');
+      const length = LENGTH_BASE[lengthIndex] + this.bits(LENGTH_EXTRA[lengthIndex]);
+
+      const distanceIndex = this.decode(distances);
+      if (distanceIndex >= DIST_BASE.length) throw new Error('Invalid distance symbol');
+      const distance = DIST_BASE[distanceIndex] + this.bits(DIST_EXTRA[distanceIndex]);
+      if (distance > this.outLength) throw new Error('Invalid distance');
+
+      // Byte by byte: the copy may overlap its own output
+      this.ensureCapacity(length);
+      const out = this.output;
+      for (let i = 0; i < length; i++, this.outLength++) {
+        out[this.outLength] = out[this.outLength - distance];
+      }
+    }
+  }
+}
+
+// PNG
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number) {
+  bytes[offset] = value >>> 24;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/**
+ * Decode an 8-bit, non-interlaced grayscale/RGB(A) PNG into RGBA pixels
+ */
+export function decodePng(bytes: Uint8Array): RgbaImage {
+  if (!PNG_SIGNATURE.every((value, index) => bytes[index] === value)) {
+    throw new Error('Not a PNG file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  const dataChunks: Uint8Array[] = [];
+  let dataLength = 0;
+
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = readUint32(data, 0);
+      height = readUint32(data, 4);
+      const bitDepth = data[8];
+      colorType = data[9];
+      const interlace = data[12];
+      if (bitDepth !== 8 || !(colorType in CHANNELS) || interlace !== 0) {
+        throw new Error(`Unsupported PNG (bit depth ${bitDepth}, colour type ${colorType}, interlace ${interlace})`);
+      }
+    } else if (type === 'IDAT') {
+      dataChunks.push(data);
+      dataLength += data.length;
+    } else if (type === 'IEND') {
+      break;
+    }
+
+    offset += 12 + length; // Length, type, data, CRC
+  }
+
+  if (!width || !height || dataChunks.length === 0) {
+    throw new Error('PNG is missing image data');
+  }
+
+  const compressed = new Uint8Array(dataLength);
+  let position = 0;
+  for (const chunk of dataChunks) {
+    compressed.set(chunk, position);
+    position += chunk.length;
+  }
+
+  const channels = CHANNELS[colorType];
+  const stride = width * channels;
+  // Skip the 2-byte zlib header
+  const raw = new Inflater(compressed.subarray(2), height * (stride + 1)).inflate();
+  if (raw.length < height * (stride + 1)) throw new Error('PNG image data is truncated');
+
+  // Undo the per-row filters in place
+  const pixels = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const rowIn = y * (stride + 1) + 1;
+    const row = y * stride;
+    const previous = row - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const value = raw[rowIn + x];
+      const left = x >= channels ? pixels[row + x - channels] : 0;
+      const up = y > 0 ? pixels[previous + x] : 0;
+      const upLeft = y > 0 && x >= channels ? pixels[previous + x - channels] : 0;
+
+      switch (filter) {
+        case 0: pixels[row + x] = value; break;
+        case 1: pixels[row + x] = value + left; break;
+        case 2: pixels[row + x] = value + up; break;
+        case 3: pixels[row + x] = value + ((left + up) >> 1); break;
+        case 4: pixels[row + x] = value + paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter ${filter}`);
+      }
+    }
+  }
+
+  // Expand to RGBA
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0, p = 0; i < data.length; i += 4, p += channels) {
+    if (channels >= 3) {
+      data[i] = pixels[p];
+      data[i + 1] = pixels[p + 1];
+      data[i + 2] = pixels[p + 2];
+      data[i + 3] = channels === 4 ? pixels[p + 3] : 255;
+    } else {
+      data[i] = data[i + 1] = data[i + 2] = pixels[p];
+      data[i + 3] = channels === 2 ? pixels[p + 1] : 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Encode RGBA pixels as a PNG using stored (uncompressed) deflate blocks.
+ * Larger than a compressed PNG, but it is only an intermediate file.
+ */
+export function encodePng(image: RgbaImage): Uint8Array {
+  const { width, height, data } = image;
+  const stride = width * 4;
+
+  // Filter type 0 (none) before each row
+  const raw = new Uint8Array(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const blockCount = Math.max(1, Math.ceil(raw.length / 65535));
+  const zlib = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+  zlib[0] = 0x78;
+  zlib[1] = 0x01;
+  let offset = 2;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * 65535;
+    const length = Math.min(65535, raw.length - start);
+    zlib[offset] = block === blockCount - 1 ? 1 : 0;
+    zlib[offset + 1] = length & 0xff;
+    zlib[offset + 2] = length >>> 8;
+    zlib[offset + 3] = ~length & 0xff;
+    zlib[offset + 4] = (~length >>> 8) & 0xff;
+    zlib.set(raw.subarray(start, start + length), offset + 5);
+    offset += 5 + length;
+  }
+  writeUint32(zlib, offset, adler32(raw));
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // RGBA
+
+  const chunks: Array<[string, Uint8Array]> = [
+    ['IHDR', header],
+    ['IDAT', zlib],
+    ['IEND', new Uint8Array(0)],
+  ];
+  const total = 8 + chunks.reduce((sum, [, chunk]) => sum + 12 + chunk.length, 0);
+  const png = new Uint8Array(total);
+  png.set(PNG_SIGNATURE, 0);
+
+  let position = 8;
+  for (const [type, chunk] of chunks) {
+    writeUint32(png, position, chunk.length);
+    for (let i = 0; i < 4; i++) png[position + 4 + i] = type.charCodeAt(i);
+    png.set(chunk, position + 8);
+    writeUint32(png, position + 8 + chunk.length, crc32(png, position + 4, position + 8 + chunk.length));
+    position += 12 + chunk.length;
+  }
+
+  return png;
+}
@@ -0,0 +1,118 @@
+/**
+ * Spending calculations for visits and actions
+ * All amounts are in yen
+ */
+
+import {
+  ActionCategory,
+  Companion,
+  ParkArea,
+  PurchasedItem,
+  SpendingStats,
+  TimelineAction,
+  Visit,
+} from '../types/models';
+
+export interface VisitSpend {
+  ticket: number;
+  purchases: number; // Shopping, food and anything else recorded on actions
+  total: number;
+}
+
+export const formatYen = (amount: number): string => `¥${Math.round(amount).toLocaleString()}`;
+
+// Amount typed by the user ("1,200", "¥1200", "1200円"); undefined when not a number
+export const parseYen = (text: string): number | undefined => {
+  const value = parseFloat(text.replace(/[,¥￥円\s]/g, ''));
+  return isNaN(value) ? undefined : value;
+};
+
+export const getItemsTotal = (items?: PurchasedItem[]): number =>
+  (items || []).reduce((sum, item) => sum + (item.price || 0), 0);
+
+/**
+ * Amount spent on an action: the entered total, or the sum of the item
+ * prices when only the breakdown was recorded
+ */
+export const getActionSpend = (action: TimelineAction): number =>
+  action.purchaseAmount !== undefined ? action.purchaseAmount : getItemsTotal(action.purchasedItems);
+
+export const getVisitSpend = (visit: Visit, actions: TimelineAction[]): VisitSpend => {
+  const ticket = visit.ticketPrice || 0;
+  const purchases = actions
+    .filter(action => action.visitId === visit.id)
+    .reduce((sum, action) => sum + getActionSpend(action), 0);
+
+  return { ticket, purchases, total: ticket + purchases };
+};
+
+/**
+ * Spending of the given visits; actions of other visits are ignored
+ */
+export const calculateSpendingStats = (
+  visits: Visit[],
+  actions: TimelineAction[],
+  companions: Companion[]
+): SpendingStats => {
+  const visitIds = new Set(visits.map(visit => visit.id));
+  const visitActions = actions.filter(action => visitIds.has(action.visitId));
+
+  const categoryTotals = new Map<ActionCategory, number>();
+  const areaTotals = new Map<ParkArea, number>();
+  const visitTotals = new Map<string, number>(visits.map(visit => [visit.id, visit.ticketPrice || 0]));
+
+  visitActions.forEach(action => {
+    const amount = getActionSpend(action);
+    if (amount <= 0) return;
+
+    categoryTotals.set(action.category, (categoryTotals.get(action.category) || 0) + amount);
+    areaTotals.set(action.area, (areaTotals.get(action.area) || 0) + amount);
+    visitTotals.set(action.visitId, (visitTotals.get(action.visitId) || 0) + amount);
+  });
+
+  const companionTotals = new Map<string, number>();
+  const monthTotals = new Map<string, number>();
+  visits.forEach(visit => {
+    const amount = visitTotals.get(visit.id) || 0;
+    if (amount <= 0) return;
+
+    visit.companionIds.forEach(companionId => {
+      companionTotals.set(companionId, (companionTotals.get(companionId) || 0) + amount);
+    });
+
+    const date = new Date(visit.date);
+    const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    monthTotals.set(monthKey, (monthTotals.get(monthKey) || 0) + amount);
+  });
+
+  const totalSpend = Array.from(visitTotals.values()).reduce((sum, amount) => sum + amount, 0);
+  const ticketSpend = visits.reduce((sum, visit) => sum + (visit.ticketPrice || 0), 0);
+  const companionById = new Map(companions.map(companion => [companion.id, companion]));
+
+  return {
+    totalSpend,
+    ticketSpend,
+    averagePerVisit: visits.length > 0 ? totalSpend / visits.length : 0,
+    spendByCategory: Array.from(categoryTotals.entries())
+      .map(([category, amount]) => ({ category, amount }))
+      .sort((a, b) => b.amount - a.amount),
+    spendByArea: Array.from(areaTotals.entries())
+      .map(([area, amount]) => ({ area, amount }))
+      .sort((a, b) => b.amount - a.amount),
+    spendByCompanion: Array.from(companionTotals.entries())
+      .map(([companionId, amount]) => ({ companion: companionById.get(companionId), amount }))
+      .filter((entry): entry is { companion: Companion; amount: number } => !!entry.companion)
+      .sort((a, b) => b.amount - a.amount),
+    spendByMonth: Array.from(monthTotals.entries())
+      .map(([month, amount]) => ({ month, amount }))
+      .sort((a, b) => a.month.localeCompare(b.month)),
+  };
+};
+
+/**
+ * Total spent on visits in a calendar year
+ */
+export const getYearSpend = (visits: Visit[], actions: TimelineAction[], year: number): number => {
+  const yearVisits = visits.filter(visit => new Date(visit.date).getFullYear() === year);
+  return calculateSpendingStats(yearVisits, actions, []).totalSpend;
+};
@@ -114,8 +114,12 @@ export class ActionValidator {
       this.errors.push('Area is required');
     }
 
+    // Greetings and custom actions may be recorded without a location
+    const requiresLocation = data.category !== ActionCategory.GREETING && data.category !== ActionCategory.CUSTOM;
     if (!data.locationName?.trim()) {
-      this.errors.push('Location name is required');
+      if (requiresLocation) {
+        this.errors.push('Location name is required');
+      }
     } else if (data.locationName.trim().length < 2) {
       this.errors.push('Location name must be at least 2 characters');
     } else if (data.locationName.trim().length > 100) {
@@ -245,6 +249,7 @@ export class ActionValidator {
         break;
       case ActionCategory.RESTAURANT:
         this.validateRestaurantFields(data);
+        this.validatePurchaseAmount(data);
         break;
       case ActionCategory.SHOPPING:
         this.validateShoppingFields(data);
@@ -291,7 +296,15 @@ export class ActionValidator {
   }
 
   private validateShoppingFields(data: Partial<ActionFormData>) {
-    // Purchase amount validation
+    this.validatePurchaseAmount(data);
+
+    // Items validation
+    if (data.purchasedItems && data.purchasedItems.length > 500) {
+      this.errors.push('Purchased items description is too long');
+    }
+  }
+
+  private validatePurchaseAmount(data: Partial<ActionFormData>) {
     if (data.purchaseAmount?.trim()) {
       const amountNum = parseFloat(data.purchaseAmount);
       if (isNaN(amountNum)) {
@@ -302,11 +315,6 @@ export class ActionValidator {
         this.warnings.push('Very large purchase amount');
       }
     }
-
-    // Items validation
-    if (data.purchasedItems && data.purchasedItems.length > 500) {
-      this.errors.push('Purchased items description is too long');
-    }
   }
 
   private validateShowGreetingFields(data: Partial<ActionFormData>) {
@@ -0,0 +1,150 @@
+/**
+ * Time in park derived from a visit's entry/exit times and its timeline
+ *
+ * Each action occupies its area from the start of the queue (time minus
+ * waitTime) until it ends (time plus duration). Time not covered by any
+ * action between entry and exit counts as idle.
+ */
+
+import { ParkArea, TimelineAction, Visit } from '../types/models';
+
+const MINUTE = 60 * 1000;
+
+// Shorter gaps are walking between places rather than free time
+export const IDLE_GAP_MINUTES = 15;
+
+export interface VisitTimeRange {
+  start: Date;
+  end: Date;
+  // 'explicit' when both entry and exit were entered on the visit
+  source: 'explicit' | 'timeline' | 'mixed';
+}
+
+export interface IdleGap {
+  start: Date;
+  end: Date;
+  minutes: number;
+}
+
+export interface VisitDuration {
+  range?: VisitTimeRange;
+  totalMinutes: number; // 0 when entry or exit is unknown
+  activeMinutes: number; // Covered by actions
+  idleMinutes: number;
+  idleGaps: IdleGap[];
+  areaMinutes: Array<{ area: ParkArea; minutes: number }>;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+  area: ParkArea;
+}
+
+const getActionInterval = (action: TimelineAction): Interval => {
+  const time = new Date(action.time).getTime();
+  return {
+    start: time - (action.waitTime || 0) * MINUTE,
+    end: time + (action.duration || 0) * MINUTE,
+    area: action.area,
+  };
+};
+
+// Minutes an action keeps its area busy, queue included
+export const getActionMinutes = (action: TimelineAction): number =>
+  (action.waitTime || 0) + (action.duration || 0);
+
+const getSortedIntervals = (actions: TimelineAction[]): Interval[] =>
+  actions
+    .filter(action => !isNaN(new Date(action.time).getTime()))
+    .map(getActionInterval)
+    .sort((a, b) => a.start - b.start);
+
+// Range from the sorted intervals of the visit's own actions
+const getRange = (visit: Visit, intervals: Interval[]): VisitTimeRange | undefined => {
+  const start = visit.startTime
+    ? new Date(visit.startTime).getTime()
+    : intervals.length > 0 ? intervals[0].start : undefined;
+  const end = visit.endTime
+    ? new Date(visit.endTime).getTime()
+    : intervals.length > 0 ? Math.max(...intervals.map(interval => interval.end)) : undefined;
+
+  if (start === undefined || end === undefined || isNaN(start) || isNaN(end) || end <= start) {
+    return undefined;
+  }
+
+  const explicitCount = (visit.startTime ? 1 : 0) + (visit.endTime ? 1 : 0);
+  return {
+    start: new Date(start),
+    end: new Date(end),
+    source: explicitCount === 2 ? 'explicit' : explicitCount === 0 ? 'timeline' : 'mixed',
+  };
+};
+
+/**
+ * Entry and exit of a visit; explicit startTime/endTime win over the
+ * first queue and the last action end of the timeline
+ */
+export const getVisitTimeRange = (visit: Visit, actions: TimelineAction[]): VisitTimeRange | undefined =>
+  getRange(visit, getSortedIntervals(actions.filter(action => action.visitId === visit.id)));
+
+export const getVisitDuration = (visit: Visit, actions: TimelineAction[]): VisitDuration => {
+  const intervals = getSortedIntervals(actions.filter(action => action.visitId === visit.id));
+  const range = getRange(visit, intervals);
+
+  const areaTotals = new Map<ParkArea, number>();
+  intervals.forEach(interval => {
+    const minutes = (interval.end - interval.start) / MINUTE;
+    areaTotals.set(interval.area, (areaTotals.get(interval.area) || 0) + minutes);
+  });
+
+  const idleGaps: IdleGap[] = [];
+  let activeMinutes = 0;
+
+  if (range) {
+    const rangeStart = range.start.getTime();
+    const rangeEnd = range.end.getTime();
+    let cursor = rangeStart;
+
+    const addGap = (gapEnd: number) => {
+      const minutes = (gapEnd - cursor) / MINUTE;
+      if (minutes >= IDLE_GAP_MINUTES) {
+        idleGaps.push({ start: new Date(cursor), end: new Date(gapEnd), minutes });
+      }
+    };
+
+    // Overlapping actions (e.g. a snack while waiting) are only counted once
+    intervals.forEach(interval => {
+      const start = Math.max(interval.start, rangeStart);
+      const end = Math.min(interval.end, rangeEnd);
+      if (end < start || end < cursor) return;
+
+      if (start > cursor) {
+        addGap(start);
+        activeMinutes += (end - start) / MINUTE;
+      } else {
+        activeMinutes += (end - cursor) / MINUTE;
+      }
+      cursor = end;
+    });
+    addGap(rangeEnd);
+  }
+
+  return {
+    range,
+    totalMinutes: range ? (range.end.getTime() - range.start.getTime()) / MINUTE : 0,
+    activeMinutes,
+    idleMinutes: idleGaps.reduce((sum, gap) => sum + gap.minutes, 0),
+    idleGaps,
+    areaMinutes: Array.from(areaTotals.entries())
+      .map(([area, minutes]) => ({ area, minutes }))
+      .sort((a, b) => b.minutes - a.minutes),
+  };
+};
+
+export const formatDuration = (minutes: number, language: string): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return language === 'ja' ? `${hours}時間${rest}分` : `${hours}h ${rest}m`;
+};
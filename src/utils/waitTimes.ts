@@ -0,0 +1,114 @@
+/**
+ * Wait time analysis over the recorded waitTime of actions
+ * All times are in minutes
+ */
+
+import {
+  TimelineAction,
+  Visit,
+  WaitTimeAverage,
+  WaitTimeRecord,
+  WaitTimeStats,
+} from '../types/models';
+
+type Weather = NonNullable<Visit['weather']>;
+
+const average = (values: number[]): WaitTimeAverage => ({
+  average: values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0,
+  count: values.length,
+});
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const pushTo = <K>(groups: Map<K, number[]>, key: K, value: number) => {
+  const values = groups.get(key);
+  if (values) {
+    values.push(value);
+  } else {
+    groups.set(key, [value]);
+  }
+};
+
+export const formatWaitTime = (minutes: number, language: string): string =>
+  language === 'ja' ? `${Math.round(minutes)}分` : `${Math.round(minutes)} min`;
+
+/**
+ * Wait times of the given visits; actions of other visits and actions
+ * without a recorded wait are ignored
+ */
+export const calculateWaitTimeStats = (visits: Visit[], actions: TimelineAction[]): WaitTimeStats => {
+  const visitById = new Map(visits.map(visit => [visit.id, visit]));
+
+  const all: number[] = [];
+  const attractionRecords = new Map<string, WaitTimeRecord[]>();
+  const hourGroups = new Map<number, number[]>();
+  const dayTypeGroups = new Map<'WEEKDAY' | 'WEEKEND', number[]>();
+  const monthGroups = new Map<number, number[]>();
+  const weatherGroups = new Map<Weather, number[]>();
+  const trendGroups = new Map<string, number[]>();
+
+  actions.forEach(action => {
+    const visit = visitById.get(action.visitId);
+    if (!visit || typeof action.waitTime !== 'number' || isNaN(action.waitTime) || action.waitTime < 0) {
+      return;
+    }
+
+    const waitTime = action.waitTime;
+    const visitDate = new Date(visit.date);
+    const day = visitDate.getDay();
+
+    all.push(waitTime);
+
+    if (action.locationName) {
+      const records = attractionRecords.get(action.locationName) || [];
+      records.push({ waitTime, date: visitDate, actionId: action.id });
+      attractionRecords.set(action.locationName, records);
+    }
+
+    pushTo(hourGroups, new Date(action.time).getHours(), waitTime);
+    pushTo(dayTypeGroups, day === 0 || day === 6 ? 'WEEKEND' : 'WEEKDAY', waitTime);
+    pushTo(monthGroups, visitDate.getMonth() + 1, waitTime);
+    pushTo(trendGroups, `${visitDate.getFullYear()}-${String(visitDate.getMonth() + 1).padStart(2, '0')}`, waitTime);
+    if (visit.weather) {
+      pushTo(weatherGroups, visit.weather, waitTime);
+    }
+  });
+
+  return {
+    totalRecords: all.length,
+    averageWaitTime: average(all).average,
+    byAttraction: Array.from(attractionRecords.entries())
+      .map(([locationName, records]) => {
+        const waits = records.map(record => record.waitTime);
+        // Earliest visit wins a tie so the first time a record was set is kept
+        const byDate = [...records].sort((a, b) => a.date.getTime() - b.date.getTime());
+        return {
+          locationName,
+          ...average(waits),
+          median: median(waits),
+          shortest: byDate.reduce((best, record) => record.waitTime < best.waitTime ? record : best),
+          longest: byDate.reduce((worst, record) => record.waitTime > worst.waitTime ? record : worst),
+        };
+      })
+      .sort((a, b) => b.count - a.count || b.average - a.average),
+    byHour: Array.from(hourGroups.entries())
+      .map(([hour, waits]) => ({ hour, ...average(waits) }))
+      .sort((a, b) => a.hour - b.hour),
+    byDayType: (['WEEKDAY', 'WEEKEND'] as const)
+      .filter(dayType => dayTypeGroups.has(dayType))
+      .map(dayType => ({ dayType, ...average(dayTypeGroups.get(dayType)!) })),
+    byMonth: Array.from(monthGroups.entries())
+      .map(([month, waits]) => ({ month, ...average(waits) }))
+      .sort((a, b) => a.month - b.month),
+    byWeather: (['SUNNY', 'CLOUDY', 'RAINY', 'SNOWY'] as const)
+      .filter(weather => weatherGroups.has(weather))
+      .map(weather => ({ weather, ...average(weatherGroups.get(weather)!) })),
+    trend: Array.from(trendGroups.entries())
+      .map(([month, waits]) => ({ month, ...average(waits) }))
+      .sort((a, b) => a.month.localeCompare(b.month)),
+  };
+};
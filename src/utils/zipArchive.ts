@@ -0,0 +1,362 @@
+/**
+ * Streaming ZIP archives with stored (uncompressed) entries
+ * Entries are copied between file handles in fixed-size chunks, so an archive
+ * never has to fit in memory; only its directory and the current chunk do.
+ */
+
+import { crc32 } from './png';
+
+// Subset of expo-file-system's FileHandle the archive needs
+export interface ByteHandle {
+  readBytes(length: number): Uint8Array;
+  writeBytes(bytes: Uint8Array): void;
+  offset: number | null;
+  size: number | null;
+}
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  crc32: number;
+  headerOffset: number; // Offset of the entry's local file header
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const VERSION = 20; // 2.0
+const UTF8_NAMES_FLAG = 0x0800;
+const MAX_ZIP32_SIZE = 0xffffffff;
+
+const CHUNK_SIZE = 512 * 1024;
+
+// Lets the JS thread handle input and rendering between chunks of a large copy
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Writes entries one after another, then the central directory on finish()
+ */
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private position = 0;
+  private modified = toDosDateTime(new Date());
+
+  constructor(private handle: ByteHandle) {
+    this.handle.offset = 0;
+  }
+
+  // Copy an entry from a source handle, one chunk at a time
+  async addEntry(name: string, source: ByteHandle): Promise<ZipEntry> {
+    const size = source.size || 0;
+    const entry: ZipEntry = { name, size, crc32: 0, headerOffset: this.position };
+    const nameBytes = encodeUtf8(name);
+    this.checkSize(this.position + LOCAL_HEADER_SIZE + nameBytes.length + size);
+
+    // Size and checksum are filled in once the data has been copied
+    this.write(this.localHeader(entry, nameBytes));
+
+    source.offset = 0;
+    let remaining = size;
+    while (remaining > 0) {
+      const chunk = source.readBytes(Math.min(CHUNK_SIZE, remaining));
+      if (chunk.length === 0) {
+        throw new Error(`Unexpected end of file while archiving ${name}`);
+      }
+      entry.crc32 = crc32(chunk, 0, chunk.length, entry.crc32);
+      this.write(chunk);
+      remaining -= chunk.length;
+      await yieldToEventLoop();
+    }
+
+    this.handle.offset = entry.headerOffset;
+    this.handle.writeBytes(this.localHeader(entry, nameBytes));
+    this.handle.offset = this.position;
+
+    this.entries.push(entry);
+    return entry;
+  }
+
+  // Add a small in-memory entry (e.g. a JSON manifest)
+  addBytes(name: string, bytes: Uint8Array): ZipEntry {
+    const nameBytes = encodeUtf8(name);
+    this.checkSize(this.position + LOCAL_HEADER_SIZE + nameBytes.length + bytes.length);
+
+    const entry: ZipEntry = {
+      name,
+      size: bytes.length,
+      crc32: crc32(bytes),
+      headerOffset: this.position,
+    };
+    this.write(this.localHeader(entry, nameBytes));
+    this.write(bytes);
+
+    this.entries.push(entry);
+    return entry;
+  }
+
+  // Write the central directory; the archive is unreadable until this is called
+  finish(): void {
+    const directoryOffset = this.position;
+
+    for (const entry of this.entries) {
+      const nameBytes = encodeUtf8(entry.name);
+      const header = new Uint8Array(CENTRAL_HEADER_SIZE + nameBytes.length);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      view.setUint16(4, VERSION, true); // Made by
+      view.setUint16(6, VERSION, true); // Needed to extract
+      view.setUint16(8, UTF8_NAMES_FLAG, true);
+      view.setUint16(10, 0, true); // Stored
+      view.setUint16(12, this.modified.time, true);
+      view.setUint16(14, this.modified.date, true);
+      view.setUint32(16, entry.crc32, true);
+      view.setUint32(20, entry.size, true);
+      view.setUint32(24, entry.size, true);
+      view.setUint16(28, nameBytes.length, true);
+      // Extra field, comment, disk number, attributes: all zero
+      view.setUint32(42, entry.headerOffset, true);
+      header.set(nameBytes, CENTRAL_HEADER_SIZE);
+      this.write(header);
+    }
+
+    const directorySize = this.position - directoryOffset;
+    this.checkSize(this.position + END_OF_DIRECTORY_SIZE);
+
+    const end = new Uint8Array(END_OF_DIRECTORY_SIZE);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, END_OF_DIRECTORY_SIGNATURE, true);
+    view.setUint16(8, this.entries.length, true);
+    view.setUint16(10, this.entries.length, true);
+    view.setUint32(12, directorySize, true);
+    view.setUint32(16, directoryOffset, true);
+    this.write(end);
+  }
+
+  private localHeader(entry: ZipEntry, nameBytes: Uint8Array): Uint8Array {
+    const header = new Uint8Array(LOCAL_HEADER_SIZE + nameBytes.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, VERSION, true);
+    view.setUint16(6, UTF8_NAMES_FLAG, true);
+    view.setUint16(8, 0, true); // Stored
+    view.setUint16(10, this.modified.time, true);
+    view.setUint16(12, this.modified.date, true);
+    view.setUint32(14, entry.crc32, true);
+    view.setUint32(18, entry.size, true);
+    view.setUint32(22, entry.size, true);
+    view.setUint16(26, nameBytes.length, true);
+    header.set(nameBytes, LOCAL_HEADER_SIZE);
+    return header;
+  }
+
+  private write(bytes: Uint8Array) {
+    this.handle.writeBytes(bytes);
+    this.position += bytes.length;
+  }
+
+  private checkSize(size: number) {
+    if (size > MAX_ZIP32_SIZE || this.entries.length >= 0xffff) {
+      throw new Error('Archive is too large (over 4 GB or 65535 files)');
+    }
+  }
+}
+
+/**
+ * Reads the central directory up front, then single entries on demand
+ */
+export class ZipReader {
+  private entries = new Map<string, ZipEntry>();
+
+  constructor(private handle: ByteHandle) {
+    this.readDirectory();
+  }
+
+  getEntries(): ZipEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  hasEntry(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  // Read a whole entry into memory; only for small entries such as a manifest
+  readEntry(name: string): Uint8Array {
+    const entry = this.getEntry(name);
+    this.handle.offset = this.dataOffset(entry);
+    const bytes = this.handle.readBytes(entry.size);
+    if (bytes.length !== entry.size || crc32(bytes) !== entry.crc32) {
+      throw new Error(`Archive entry ${name} is corrupt`);
+    }
+    return bytes;
+  }
+
+  // Copy an entry into a target handle one chunk at a time
+  copyEntry(name: string, target: ByteHandle): void {
+    const entry = this.getEntry(name);
+    let position = this.dataOffset(entry);
+    let remaining = entry.size;
+    let checksum = 0;
+
+    target.offset = 0;
+    while (remaining > 0) {
+      this.handle.offset = position;
+      const chunk = this.handle.readBytes(Math.min(CHUNK_SIZE, remaining));
+      if (chunk.length === 0) break;
+
+      checksum = crc32(chunk, 0, chunk.length, checksum);
+      target.writeBytes(chunk);
+      position += chunk.length;
+      remaining -= chunk.length;
+    }
+
+    if (remaining > 0 || checksum !== entry.crc32) {
+      throw new Error(`Archive entry ${name} is corrupt`);
+    }
+  }
+
+  private getEntry(name: string): ZipEntry {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new Error(`Archive entry ${name} not found`);
+    }
+    return entry;
+  }
+
+  private dataOffset(entry: ZipEntry): number {
+    this.handle.offset = entry.headerOffset;
+    const header = this.handle.readBytes(LOCAL_HEADER_SIZE);
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    if (header.length < LOCAL_HEADER_SIZE || view.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Archive entry ${entry.name} is corrupt`);
+    }
+    return entry.headerOffset + LOCAL_HEADER_SIZE + view.getUint16(26, true) + view.getUint16(28, true);
+  }
+
+  private readDirectory() {
+    const size = this.handle.size || 0;
+
+    // The end record is last, possibly followed by a comment
+    const tailSize = Math.min(size, END_OF_DIRECTORY_SIZE + MAX_COMMENT_SIZE);
+    this.handle.offset = size - tailSize;
+    const tail = this.handle.readBytes(tailSize);
+    const tailView = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+    let endOffset = -1;
+    for (let i = tail.length - END_OF_DIRECTORY_SIZE; i >= 0; i--) {
+      if (tailView.getUint32(i, true) === END_OF_DIRECTORY_SIGNATURE) {
+        endOffset = i;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new Error('Not a ZIP archive');
+    }
+
+    const entryCount = tailView.getUint16(endOffset + 10, true);
+    const directorySize = tailView.getUint32(endOffset + 12, true);
+    const directoryOffset = tailView.getUint32(endOffset + 16, true);
+
+    this.handle.offset = directoryOffset;
+    const directory = this.handle.readBytes(directorySize);
+    const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+
+    let position = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new Error('Archive directory is corrupt');
+      }
+      if (view.getUint16(position + 10, true) !== 0) {
+        throw new Error('Compressed archive entries are not supported');
+      }
+
+      const nameLength = view.getUint16(position + 28, true);
+      const extraLength = view.getUint16(position + 30, true);
+      const commentLength = view.getUint16(position + 32, true);
+      const nameStart = position + CENTRAL_HEADER_SIZE;
+      const name = decodeUtf8(directory.subarray(nameStart, nameStart + nameLength));
+
+      this.entries.set(name, {
+        name,
+        crc32: view.getUint32(position + 16, true),
+        size: view.getUint32(position + 24, true),
+        headerOffset: view.getUint32(position + 42, true),
+      });
+      position = nameStart + nameLength + extraLength + commentLength;
+    }
+  }
+}
+
+// True if the bytes start with a ZIP local file header
+export function isZipArchive(head: Uint8Array): boolean {
+  return head.length >= 4 &&
+    new DataView(head.buffer, head.byteOffset, head.byteLength).getUint32(0, true) === LOCAL_HEADER_SIGNATURE;
+}
+
+// UTF-8 (Hermes has no TextDecoder)
+
+export function encodeUtf8(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 63), 0x80 | (code & 63));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 63),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63)
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+export function decodeUtf8(bytes: Uint8Array): string {
+  const codes: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    if (byte < 0x80) {
+      codes.push(byte);
+      i += 1;
+    } else if (byte < 0xe0) {
+      codes.push(((byte & 31) << 6) | (bytes[i + 1] & 63));
+      i += 2;
+    } else if (byte < 0xf0) {
+      codes.push(((byte & 15) << 12) | ((bytes[i + 1] & 63) << 6) | (bytes[i + 2] & 63));
+      i += 3;
+    } else {
+      codes.push(
+        ((byte & 7) << 18) | ((bytes[i + 1] & 63) << 12) | ((bytes[i + 2] & 63) << 6) | (bytes[i + 3] & 63)
+      );
+      i += 4;
+    }
+  }
+
+  // fromCodePoint in chunks to stay under the engine's argument limit
+  const parts: string[] = [];
+  for (let start = 0; start < codes.length; start += 8192) {
+    parts.push(String.fromCodePoint(...codes.slice(start, start + 8192)));
+  }
+  return parts.join('');
+}
+
+// MS-DOS date and time, as stored in ZIP headers (local time, 2-second precision)
+function toDosDateTime(date: Date): { date: number; time: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  };
+}